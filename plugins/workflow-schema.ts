@@ -0,0 +1,228 @@
+import { fileURLToPath } from "node:url";
+import ts from "typescript";
+import type { Plugin } from "vite";
+import type { JsonSchema } from "../src/types/json-schema";
+
+const TYPES_FILE = fileURLToPath(
+  new URL("../src/types/github-actions.ts", import.meta.url)
+);
+const VIRTUAL_ID = "virtual:workflow-schema";
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+
+// Root types of the files the editor understands
+const ROOT_TYPES = {
+  workflowSchema: "GitHubWorkflow",
+  actionSchema: "CompositeAction",
+};
+
+/**
+ * Build JSON schemas for the root types of the workflow model. Interfaces
+ * and aliases declared in the types file become definitions, and comments
+ * on properties become descriptions.
+ */
+export function generateWorkflowSchemas(
+  typesFile: string = TYPES_FILE
+): Record<keyof typeof ROOT_TYPES, JsonSchema> {
+  const program = ts.createProgram([typesFile], {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    jsx: ts.JsxEmit.ReactJSX,
+  });
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile(typesFile);
+  if (!sourceFile) {
+    throw new Error(`Cannot read ${typesFile}`);
+  }
+  const definitions: Record<string, JsonSchema> = {};
+
+  // Comments attached to a declaration: JSDoc, or `//` before or after it
+  const getDescription = (symbol: ts.Symbol): string | undefined => {
+    const documentation = ts
+      .displayPartsToString(symbol.getDocumentationComment(checker))
+      .trim();
+    if (documentation) {
+      return documentation;
+    }
+    const declaration = symbol.declarations?.[0];
+    if (!declaration || declaration.getSourceFile() !== sourceFile) {
+      return undefined;
+    }
+    const text = sourceFile.text;
+    const comments = [
+      ...(ts.getLeadingCommentRanges(text, declaration.getFullStart()) || []),
+      ...(ts.getTrailingCommentRanges(text, declaration.getEnd()) || []),
+    ]
+      .filter(range => range.kind === ts.SyntaxKind.SingleLineCommentTrivia)
+      .map(range => text.slice(range.pos + 2, range.end).trim())
+      .filter(comment => !comment.startsWith("eslint"));
+    return comments.length > 0 ? comments.join(" ") : undefined;
+  };
+
+  // Named types from the types file are shared through definitions
+  const getDefinitionName = (type: ts.Type): string | undefined => {
+    const symbol = type.aliasSymbol || type.getSymbol();
+    const declaration = symbol?.declarations?.[0];
+    return declaration?.getSourceFile() === sourceFile &&
+      (ts.isInterfaceDeclaration(declaration) ||
+        ts.isTypeAliasDeclaration(declaration))
+      ? symbol!.getName()
+      : undefined;
+  };
+
+  const toObjectSchema = (type: ts.Type): JsonSchema => {
+    const schema: JsonSchema = { type: "object" };
+    const properties = checker.getPropertiesOfType(type);
+    if (properties.length > 0) {
+      schema.properties = {};
+      properties.forEach(property => {
+        const declaration = property.valueDeclaration;
+        const propertyType = declaration
+          ? checker.getTypeOfSymbolAtLocation(property, declaration)
+          : checker.getDeclaredTypeOfSymbol(property);
+        const propertySchema = toSchema(propertyType);
+        const description = getDescription(property);
+        schema.properties![property.getName()] = description
+          ? { ...propertySchema, description }
+          : propertySchema;
+      });
+      const required = properties
+        .filter(property => !(property.getFlags() & ts.SymbolFlags.Optional))
+        .map(property => property.getName());
+      if (required.length > 0) {
+        schema.required = required;
+      }
+    }
+    const indexType = type.getStringIndexType();
+    if (indexType) {
+      schema.additionalProperties = toSchema(indexType);
+    }
+    return schema;
+  };
+
+  const toSchema = (type: ts.Type, isDefinition = false): JsonSchema => {
+    const name = isDefinition ? undefined : getDefinitionName(type);
+    if (name) {
+      if (!definitions[name]) {
+        definitions[name] = {}; // Placeholder for recursive types
+        const schema = toSchema(type, true);
+        const symbol = type.aliasSymbol || type.getSymbol();
+        const description = symbol && getDescription(symbol);
+        definitions[name] = description ? { ...schema, description } : schema;
+      }
+      return { $ref: `#/definitions/${name}` };
+    }
+
+    if (type.flags & ts.TypeFlags.Boolean) {
+      return { type: "boolean" };
+    }
+    if (type.isUnion()) {
+      const members = type.types.filter(
+        member => !(member.flags & ts.TypeFlags.Undefined)
+      );
+      // `true | false` members of optional booleans
+      const booleans = members.filter(
+        member => member.flags & ts.TypeFlags.BooleanLiteral
+      );
+      const others = members.filter(
+        member => !(member.flags & ts.TypeFlags.BooleanLiteral)
+      );
+      const schemas = [
+        ...(booleans.length === 2
+          ? [{ type: "boolean" as const }]
+          : booleans.map(member => toSchema(member))),
+        ...others.map(member => toSchema(member)),
+      ];
+      if (schemas.length === 1) {
+        return schemas[0];
+      }
+      if (schemas.every(schema => typeof schema.const === "string")) {
+        return {
+          type: "string",
+          enum: schemas.map(schema => schema.const!),
+        };
+      }
+      return { anyOf: schemas };
+    }
+    if (type.isStringLiteral()) {
+      return { type: "string", const: type.value };
+    }
+    if (type.isNumberLiteral()) {
+      return { type: "number", const: type.value };
+    }
+    if (type.flags & ts.TypeFlags.BooleanLiteral) {
+      return { type: "boolean", const: checker.typeToString(type) === "true" };
+    }
+    if (type.flags & ts.TypeFlags.String) {
+      return { type: "string" };
+    }
+    if (type.flags & ts.TypeFlags.Number) {
+      return { type: "number" };
+    }
+    if (type.flags & ts.TypeFlags.Null) {
+      return { type: "null" };
+    }
+    if (checker.isArrayType(type)) {
+      const [itemType] = checker.getTypeArguments(type as ts.TypeReference);
+      return { type: "array", items: toSchema(itemType) };
+    }
+    if (type.flags & ts.TypeFlags.Object) {
+      return toObjectSchema(type);
+    }
+    return {};
+  };
+
+  const findType = (name: string): ts.Type => {
+    const statement = sourceFile.statements.find(
+      node =>
+        (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) &&
+        node.name.text === name
+    ) as ts.InterfaceDeclaration | ts.TypeAliasDeclaration | undefined;
+    if (!statement) {
+      throw new Error(`${name} is not declared in ${typesFile}`);
+    }
+    return checker.getTypeAtLocation(statement.name);
+  };
+
+  const roots = Object.fromEntries(
+    Object.entries(ROOT_TYPES).map(([key, name]) => [
+      key,
+      toSchema(findType(name)),
+    ])
+  );
+  return Object.fromEntries(
+    Object.entries(roots).map(([key, root]) => [
+      key,
+      {
+        $schema: "http://json-schema.org/draft-07/schema#",
+        ...root,
+        definitions,
+      },
+    ])
+  ) as Record<keyof typeof ROOT_TYPES, JsonSchema>;
+}
+
+/**
+ * Serve the schemas as `virtual:workflow-schema`, regenerated whenever the
+ * types change, so editor completions never drift from the model
+ */
+export default function workflowSchema(): Plugin {
+  return {
+    name: "workflow-schema",
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : undefined;
+    },
+    load(id) {
+      if (id !== RESOLVED_ID) {
+        return undefined;
+      }
+      this.addWatchFile(TYPES_FILE);
+      return Object.entries(generateWorkflowSchemas())
+        .map(
+          ([name, schema]) =>
+            `export const ${name} = ${JSON.stringify(schema)};`
+        )
+        .join("\n");
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import {
   Code2,
   Copy,
@@ -8,87 +8,385 @@ import {
   EyeOff,
   Maximize2,
   Minimize2,
+  ShieldAlert,
+  Lock,
+  Upload,
+  FileDown,
 } from "lucide-react";
 import Editor from "@monaco-editor/react";
-import * as yaml from "js-yaml";
+import type { Monaco, OnMount } from "@monaco-editor/react";
 import { useWorkflowStore } from "../store/workflow";
+import { useActionPinStore } from "../store/action-pins";
+import { WorkflowYaml, WorkflowYamlError } from "../utils/workflow-yaml";
+import { ActionPinning } from "../utils/action-pinning";
+import { CompositeActions } from "../utils/composite-action";
+import { WorkflowMapper } from "../utils/workflow-mapper";
+import { YamlSourceMap } from "../utils/yaml-source-map";
+import { WorkflowCompletions } from "../utils/workflow-completions";
+import type { CompletionSuggestion } from "../utils/workflow-completions";
+import type { SourceRange } from "../utils/yaml-source-map";
 
 interface CodeSidebarProps {
   isVisible: boolean;
   onToggle: () => void;
 }
 
+type CodeEditor = Parameters<OnMount>[0];
+
+// Typing pauses this long before the YAML is applied to the canvas
+const EDIT_DEBOUNCE_MS = 500;
+
 export default function CodeSidebar({ isVisible, onToggle }: CodeSidebarProps) {
-  const { workflow, isValid, errors } = useWorkflowStore();
+  const {
+    workflow,
+    sourceDocument,
+    isValid,
+    errors,
+    validationResult,
+    pinAllActions,
+    addToast,
+    documentKind,
+    action,
+    nodes,
+    selectedNode,
+    setSelectedNode,
+    applyYamlEdit,
+  } = useWorkflowStore();
+  const { lockfile, addPins } = useActionPinStore();
+  const [isPinning, setIsPinning] = useState(false);
+  const lockfileInputRef = useRef<HTMLInputElement>(null);
+  const securityWarnings = validationResult?.warnings || [];
   const [copied, setCopied] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
+  const editorRef = useRef<CodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const [isEditorReady, setIsEditorReady] = useState(false);
+  // Text typed in the editor that the store's YAML has not caught up with
+  const [draft, setDraft] = useState<string | null>(null);
+  const [parseError, setParseError] = useState<Error | null>(null);
+  // Last draft applied to the store, which can be dropped on blur. Drafts
+  // applied until then belong to one edit in the undo history.
+  const appliedDraftRef = useRef<string | null>(null);
+  // Node selected by moving the cursor, which must not move it back
+  const editorSelectionRef = useRef<string | null>(null);
 
   // Generate YAML content in real-time
   const { yamlContent, yamlError } = useMemo(() => {
     try {
-      // Create clean workflow object with proper property ordering
-      const cleanWorkflow: Record<string, unknown> = {};
+      // Imported files are rendered from their original document
+      const yamlContent =
+        documentKind === "action"
+          ? CompositeActions.stringify(action)
+          : sourceDocument
+            ? sourceDocument.render(workflow)
+            : WorkflowYaml.stringify(workflow);
 
-      // Add name
-      cleanWorkflow.name = workflow.name || "CI";
+      // Pinned SHAs are labelled with the version they resolved from
+      return {
+        yamlContent: ActionPinning.annotateYaml(yamlContent, lockfile),
+        yamlError: "",
+      };
+    } catch (error) {
+      const errorMsg = `Export error: ${(error as Error).message}`;
+      return { yamlContent: errorMsg, yamlError: errorMsg };
+    }
+  }, [workflow, sourceDocument, lockfile, documentKind, action]);
 
-      // Add run-name if it exists
-      if (workflow["run-name"]) {
-        cleanWorkflow["run-name"] = workflow["run-name"];
-      }
+  const editorText = draft ?? yamlContent;
+  const sourceMap = useMemo(
+    () => YamlSourceMap.parse(editorText),
+    [editorText]
+  );
+  // The editor's event handlers are registered once and read these
+  const sourceMapRef = useRef(sourceMap);
+  sourceMapRef.current = sourceMap;
+  const nodesRef = useRef(nodes);
+  nodesRef.current = nodes;
+  const selectedNodeRef = useRef(selectedNode);
+  selectedNodeRef.current = selectedNode;
+  const draftRef = useRef(draft);
+  draftRef.current = draft;
+  const documentKindRef = useRef(documentKind);
+  documentKindRef.current = documentKind;
 
-      // Add triggers (clean up null values)
-      const workflowTriggers = workflow.on || { push: { branches: ["main"] } };
-      const cleanTriggers = { ...workflowTriggers };
+  // Language providers are global to Monaco; drop them with the editor
+  const providersRef = useRef<{ dispose: () => void }[]>([]);
+  useEffect(
+    () => () => providersRef.current.forEach(provider => provider.dispose()),
+    []
+  );
 
-      // Convert null values to empty objects for workflow_dispatch
-      Object.keys(cleanTriggers).forEach(key => {
-        if (cleanTriggers[key] === null) {
-          cleanTriggers[key] = {};
+  // Apply edits once typing pauses; invalid YAML stays in the editor
+  useEffect(() => {
+    if (draft === null) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      if (draft === yamlContent) {
+        setDraft(null);
+        setParseError(null);
+        return;
+      }
+      try {
+        applyYamlEdit(draft, appliedDraftRef.current !== null);
+        appliedDraftRef.current = draft;
+        setParseError(null);
+        if (!editorRef.current?.hasTextFocus()) {
+          setDraft(null);
         }
-      });
+      } catch (error) {
+        setParseError(error as Error);
+      }
+    }, EDIT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draft]);
 
-      cleanWorkflow.on = cleanTriggers;
+  // A draft belongs to the document it was typed into
+  useEffect(() => {
+    setDraft(null);
+    setParseError(null);
+    appliedDraftRef.current = null;
+  }, [documentKind]);
 
-      // Add env if it exists
-      if (workflow.env && Object.keys(workflow.env).length > 0) {
-        cleanWorkflow.env = workflow.env;
-      }
+  // Show the store's YAML again once it matches what was typed
+  useEffect(() => {
+    if (draft !== null && draft === yamlContent) {
+      setDraft(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [yamlContent]);
 
-      // Add permissions if they exist
-      if (
-        workflow.permissions &&
-        Object.keys(workflow.permissions).length > 0
-      ) {
-        cleanWorkflow.permissions = workflow.permissions;
-      }
+  // Parse and validation errors as markers on the lines they refer to
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) {
+      return;
+    }
+
+    // Findings are underlined on the first line of their entry
+    const toMarker = (
+      range: SourceRange,
+      message: string,
+      severity: number
+    ) => {
+      const start = model.getPositionAt(range.start);
+      const end = model.getPositionAt(range.end);
+      return {
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: start.lineNumber,
+        endColumn:
+          end.lineNumber === start.lineNumber
+            ? Math.max(end.column, start.column + 1)
+            : model.getLineMaxColumn(start.lineNumber),
+        message,
+        severity,
+      };
+    };
 
-      // Add other properties if they exist
-      if (workflow.defaults) {
-        cleanWorkflow.defaults = workflow.defaults;
+    if (parseError) {
+      const line =
+        parseError instanceof WorkflowYamlError && parseError.line
+          ? Math.min(parseError.line, model.getLineCount())
+          : 1;
+      const column =
+        parseError instanceof WorkflowYamlError && parseError.column
+          ? parseError.column
+          : 1;
+      monaco.editor.setModelMarkers(model, "workflow", [
+        {
+          startLineNumber: line,
+          startColumn: column,
+          endLineNumber: line,
+          endColumn: model.getLineMaxColumn(line),
+          message: parseError.message,
+          severity: monaco.MarkerSeverity.Error,
+        },
+      ]);
+      return;
+    }
+
+    const findings = [
+      ...(validationResult?.errors || []).map(error => ({
+        ...error,
+        severity: monaco.MarkerSeverity.Error,
+      })),
+      ...(validationResult?.warnings || []).map(warning => ({
+        ...warning,
+        severity: monaco.MarkerSeverity.Warning,
+      })),
+    ];
+    monaco.editor.setModelMarkers(
+      model,
+      "workflow",
+      findings.flatMap(finding => {
+        const range = sourceMap.getRange(
+          YamlSourceMap.parsePath(finding.path),
+          finding.offset
+        );
+        return range
+          ? [toMarker(range, finding.message, finding.severity)]
+          : [];
+      })
+    );
+  }, [parseError, validationResult, sourceMap, isEditorReady]);
+
+  // Nodes selected on the canvas are revealed and highlighted
+  const highlightRef = useRef<ReturnType<
+    CodeEditor["createDecorationsCollection"]
+  > | null>(null);
+  useEffect(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!editor || !model) {
+      return;
+    }
+    if (editorSelectionRef.current === selectedNode) {
+      editorSelectionRef.current = null;
+      highlightRef.current?.clear();
+      return;
+    }
+
+    const path = selectedNode
+      ? WorkflowMapper.getNodePath(nodes, selectedNode)
+      : null;
+    const range = path ? sourceMap.getRange(path) : null;
+    if (!range) {
+      highlightRef.current?.clear();
+      return;
+    }
+
+    const start = model.getPositionAt(range.start);
+    const end = model.getPositionAt(range.end);
+    const selection = {
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column,
+    };
+    editor.setPosition(start);
+    editor.revealRangeInCenterIfOutsideViewport(selection);
+    highlightRef.current?.clear();
+    highlightRef.current = editor.createDecorationsCollection([
+      {
+        range: selection,
+        options: { isWholeLine: true, className: "bg-blue-50" },
+      },
+    ]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedNode, isEditorReady]);
+
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+
+    // The node under the cursor is selected on the canvas
+    editor.onDidChangeCursorPosition(event => {
+      const model = editor.getModel();
+      if (!model || !editor.hasTextFocus()) {
+        return;
       }
-      if (workflow.concurrency) {
-        cleanWorkflow.concurrency = workflow.concurrency;
+      const path = sourceMapRef.current.getPathAt(
+        model.getOffsetAt(event.position)
+      );
+      const node = WorkflowMapper.getNodeForPath(nodesRef.current, path);
+      if (node && node.id !== selectedNodeRef.current) {
+        editorSelectionRef.current = node.id;
+        setSelectedNode(node.id, true);
       }
+    });
 
-      // Add jobs
-      cleanWorkflow.jobs = workflow.jobs || {};
+    // Schema-driven completions and action docs, available offline
+    const completionKinds: Record<CompletionSuggestion["kind"], number> = {
+      property: monaco.languages.CompletionItemKind.Property,
+      value: monaco.languages.CompletionItemKind.EnumMember,
+      event: monaco.languages.CompletionItemKind.Event,
+      runner: monaco.languages.CompletionItemKind.Value,
+      action: monaco.languages.CompletionItemKind.Module,
+      input: monaco.languages.CompletionItemKind.Field,
+    };
+    providersRef.current = [
+      monaco.languages.registerCompletionItemProvider("yaml", {
+        triggerCharacters: [" ", ":", "-"],
+        provideCompletionItems: (model, position) => {
+          if (model !== editor.getModel()) {
+            return { suggestions: [] };
+          }
+          const { from, suggestions } = WorkflowCompletions.getCompletions(
+            model.getValue(),
+            model.getOffsetAt(position),
+            documentKindRef.current
+          );
+          const start = model.getPositionAt(from);
+          const range = {
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: position.lineNumber,
+            endColumn: position.column,
+          };
+          return {
+            suggestions: suggestions.map(suggestion => ({
+              label: suggestion.label,
+              kind: completionKinds[suggestion.kind],
+              insertText: suggestion.insertText,
+              detail: suggestion.detail,
+              documentation: suggestion.documentation
+                ? { value: suggestion.documentation }
+                : undefined,
+              range,
+            })),
+          };
+        },
+      }),
+      monaco.languages.registerHoverProvider("yaml", {
+        provideHover: (model, position) => {
+          if (model !== editor.getModel()) {
+            return null;
+          }
+          const hover = WorkflowCompletions.getHover(
+            model.getValue(),
+            model.getOffsetAt(position),
+            documentKindRef.current
+          );
+          if (!hover) {
+            return null;
+          }
+          const start = model.getPositionAt(hover.range.start);
+          const end = model.getPositionAt(hover.range.end);
+          return {
+            range: {
+              startLineNumber: start.lineNumber,
+              startColumn: start.column,
+              endLineNumber: end.lineNumber,
+              endColumn: end.column,
+            },
+            contents: [{ value: hover.contents }],
+          };
+        },
+      }),
+    ];
 
-      const yamlContent = yaml.dump(cleanWorkflow, {
-        indent: 2,
-        lineWidth: -1,
-        noRefs: true,
-        sortKeys: false,
-        quotingType: '"',
-        forceQuotes: false,
-      });
+    // Leaving the editor shows the store's YAML again, e.g. with pinned
+    // versions annotated, unless the text typed does not parse
+    editor.onDidBlurEditorText(() => {
+      if (
+        draftRef.current !== null &&
+        draftRef.current === appliedDraftRef.current
+      ) {
+        setDraft(null);
+      }
+      appliedDraftRef.current = null;
+    });
+    setIsEditorReady(true);
+  };
 
-      return { yamlContent, yamlError: "" };
-    } catch (error) {
-      const errorMsg = `Export error: ${(error as Error).message}`;
-      return { yamlContent: errorMsg, yamlError: errorMsg };
-    }
-  }, [workflow]);
+  // Composite actions are always published as action.yml
+  const fileName =
+    documentKind === "action"
+      ? "action.yml"
+      : `${workflow.name || "workflow"}.yml`;
 
   // Reset copied state after workflow changes
   useEffect(() => {
@@ -99,7 +397,7 @@ export default function CodeSidebar({ isVisible, onToggle }: CodeSidebarProps) {
 
   const handleCopy = async () => {
     try {
-      await navigator.clipboard.writeText(yamlContent);
+      await navigator.clipboard.writeText(editorText);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
@@ -108,17 +406,77 @@ export default function CodeSidebar({ isVisible, onToggle }: CodeSidebarProps) {
   };
 
   const handleDownload = () => {
-    const blob = new Blob([yamlContent], { type: "text/yaml" });
+    const blob = new Blob([editorText], { type: "text/yaml" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `${workflow.name || "workflow"}.yml`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
+  const handlePinActions = async () => {
+    setIsPinning(true);
+    try {
+      const { pinned, unresolved } = await pinAllActions();
+      if (unresolved.length > 0) {
+        addToast(
+          `Pinned ${pinned} action${pinned !== 1 ? "s" : ""}; could not resolve ${unresolved.join(", ")}. Sign in to GitHub or import a lockfile.`,
+          "error"
+        );
+      } else {
+        addToast(
+          pinned > 0
+            ? `Pinned ${pinned} action${pinned !== 1 ? "s" : ""} to commit SHAs`
+            : "All actions are already pinned",
+          "success"
+        );
+      }
+    } finally {
+      setIsPinning(false);
+    }
+  };
+
+  const handleExportLockfile = () => {
+    const blob = new Blob([ActionPinning.stringifyLockfile(lockfile)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "actions-lock.json";
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportLockfile = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const pins = ActionPinning.parseLockfile(await file.text());
+      addPins(pins);
+      addToast(
+        `Imported ${Object.keys(pins).length} pinned actions`,
+        "success"
+      );
+    } catch (error) {
+      addToast(
+        `Failed to import lockfile: ${(error as Error).message}`,
+        "error"
+      );
+    }
+  };
+
   if (!isVisible) {
     return (
       <button
@@ -142,9 +500,7 @@ export default function CodeSidebar({ isVisible, onToggle }: CodeSidebarProps) {
       <div className="flex items-center justify-between p-4 border-b bg-gray-50">
         <div className="flex items-center gap-2">
           <Code2 className="w-5 h-5 text-gray-600" />
-          <h3 className="font-semibold text-gray-900">
-            {workflow.name || "workflow"}.yml
-          </h3>
+          <h3 className="font-semibold text-gray-900">{fileName}</h3>
           {!isValid && (
             <div title="Validation errors">
               <AlertCircle className="w-4 h-4 text-red-500" />
@@ -176,16 +532,22 @@ export default function CodeSidebar({ isVisible, onToggle }: CodeSidebarProps) {
       </div>
 
       {/* Validation Status */}
-      {(!isValid || errors.length > 0 || yamlError) && (
+      {(!isValid || errors.length > 0 || yamlError || parseError) && (
         <div className="p-3 bg-red-50 border-b border-red-200">
           <div className="flex items-center gap-2 mb-2">
             <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
             <span className="text-sm font-medium text-red-900">
-              {yamlError ? "Export Error" : "Validation Issues"}
+              {yamlError
+                ? "Export Error"
+                : parseError
+                  ? "YAML Error"
+                  : "Validation Issues"}
             </span>
           </div>
-          {yamlError ? (
-            <p className="text-xs text-red-700">{yamlError}</p>
+          {yamlError || parseError ? (
+            <p className="text-xs text-red-700">
+              {yamlError || parseError?.message}
+            </p>
           ) : (
             <div className="space-y-1 max-h-20 overflow-y-auto">
               {errors.slice(0, 3).map((error, index) => (
@@ -203,6 +565,45 @@ export default function CodeSidebar({ isVisible, onToggle }: CodeSidebarProps) {
         </div>
       )}
 
+      {/* Security Warnings */}
+      {securityWarnings.length > 0 && (
+        <div className="p-3 bg-amber-50 border-b border-amber-200">
+          <div className="flex items-center gap-2 mb-2">
+            <ShieldAlert className="w-4 h-4 text-amber-600 flex-shrink-0" />
+            <span className="text-sm font-medium text-amber-900">
+              Security Warnings ({securityWarnings.length})
+            </span>
+          </div>
+          <div className="space-y-2 max-h-32 overflow-y-auto">
+            {securityWarnings.map((warning, index) => (
+              <div key={index} className="text-xs">
+                <p className="text-amber-800">
+                  {warning.severity === "high" && (
+                    <span className="mr-1 px-1 rounded bg-red-600 text-white font-medium uppercase">
+                      High
+                    </span>
+                  )}
+                  <code className="font-mono">{warning.path}</code>:{" "}
+                  {warning.message}
+                </p>
+                {warning.details && (
+                  <ol className="mt-0.5 ml-4 list-decimal text-amber-700">
+                    {warning.details.map((detail, detailIndex) => (
+                      <li key={detailIndex}>{detail}</li>
+                    ))}
+                  </ol>
+                )}
+                {warning.suggestion && (
+                  <p className="text-amber-700 mt-0.5">
+                    Fix: {warning.suggestion}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Actions Bar */}
       <div className="flex items-center gap-2 p-3 border-b bg-gray-50">
         <button
@@ -242,9 +643,45 @@ export default function CodeSidebar({ isVisible, onToggle }: CodeSidebarProps) {
           Download
         </button>
 
+        <button
+          onClick={handlePinActions}
+          disabled={isPinning}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-100 hover:border-gray-400 disabled:opacity-50 transition-all"
+          title="Pin every action and reusable workflow to a commit SHA"
+        >
+          <Lock className="w-4 h-4" />
+          {isPinning ? "Pinning..." : "Pin all actions"}
+        </button>
+
+        <button
+          onClick={() => lockfileInputRef.current?.click()}
+          className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-200 rounded transition-colors"
+          title="Import action lockfile"
+        >
+          <Upload className="w-4 h-4" />
+        </button>
+        <input
+          ref={lockfileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImportLockfile}
+          className="hidden"
+        />
+
+        <button
+          onClick={handleExportLockfile}
+          disabled={Object.keys(lockfile).length === 0}
+          className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-200 rounded transition-colors disabled:opacity-50"
+          title="Export action lockfile"
+        >
+          <FileDown className="w-4 h-4" />
+        </button>
+
         <div className="flex-1" />
 
-        <div className="text-xs text-gray-500">Real-time preview</div>
+        <div className="text-xs text-gray-500">
+          {draft !== null ? "Editing..." : "Edits sync to the canvas"}
+        </div>
       </div>
 
       {/* Code Editor */}
@@ -252,10 +689,12 @@ export default function CodeSidebar({ isVisible, onToggle }: CodeSidebarProps) {
         <Editor
           height="100%"
           defaultLanguage="yaml"
-          value={yamlContent}
+          value={editorText}
+          onChange={value => setDraft(value ?? "")}
+          onMount={handleEditorMount}
           theme="vs-light"
           options={{
-            readOnly: true,
+            readOnly: yamlError !== "",
             minimap: { enabled: isExpanded },
             scrollBeyondLastLine: false,
             fontSize: 13,
@@ -286,7 +725,7 @@ export default function CodeSidebar({ isVisible, onToggle }: CodeSidebarProps) {
       {/* Footer Info */}
       <div className="p-3 border-t bg-gray-50 text-xs text-gray-600">
         <div className="flex items-center justify-between">
-          <span>{yamlContent.split("\n").length} lines • YAML</span>
+          <span>{editorText.split("\n").length} lines • YAML</span>
           <span>
             {isValid ? (
               <span className="text-green-600 flex items-center gap-1">
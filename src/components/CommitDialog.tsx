@@ -0,0 +1,284 @@
+import { useState, useEffect } from "react";
+import { X, GitCommit, Loader2 } from "lucide-react";
+import { Link } from "react-router-dom";
+import { useWorkflowStore } from "../store/workflow";
+import { useGitHubStore } from "../store/github";
+import { useCalledWorkflowStore } from "../store/called-workflows";
+import { GitHubService } from "../utils/github-service";
+import Button from "./ui/Button";
+
+interface CommitDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // A file other than the one being edited, e.g. an extracted action
+  file?: { path: string; content: string };
+}
+
+/**
+ * Where the file being edited is committed by default
+ */
+const getDefaultPath = (isAction: boolean, workflowName: string) => {
+  if (isAction) {
+    return "action.yml";
+  }
+  const fileName =
+    workflowName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "workflow";
+  return `.github/workflows/${fileName}.yml`;
+};
+
+/**
+ * Commit the workflow or composite action to any path of a repository
+ */
+export default function CommitDialog({
+  isOpen,
+  onClose,
+  file,
+}: CommitDialogProps) {
+  const {
+    workflow,
+    documentKind,
+    action,
+    exportToYaml,
+    addToast,
+    remoteFile,
+    setRemoteFile,
+  } = useWorkflowStore();
+  const { accessToken, isAuthenticated } = useGitHubStore();
+  const { repository: currentRepository } = useCalledWorkflowStore();
+  const isAction = documentKind === "action";
+  const name = isAction ? action.name : workflow.name;
+
+  const [repository, setRepository] = useState("");
+  const [path, setPath] = useState("");
+  const [message, setMessage] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Path whose changes on GitHub the user has agreed to overwrite
+  const [overwritePath, setOverwritePath] = useState<string | null>(null);
+
+  // Fill in defaults each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    setRepository(currentRepository || "");
+    setPath(file?.path || getDefaultPath(isAction, name || ""));
+    setMessage(
+      file
+        ? `Add ${file.path}`
+        : `Update ${name || (isAction ? "action" : "workflow")}`
+    );
+    setError(null);
+    setOverwritePath(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isOpen && event.key === "Escape" && !isSaving) {
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, isSaving, onClose]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const [owner, repo] = repository.split("/");
+  const filePath = path.trim().replace(/^\/+/, "");
+  const isOverwrite = overwritePath === `${repository}/${filePath}`;
+  const canCommit =
+    !!accessToken &&
+    !!owner &&
+    !!repo &&
+    !!path.trim() &&
+    !!message.trim() &&
+    !isSaving;
+
+  const handleCommit = async () => {
+    if (!accessToken || !canCommit) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const service = new GitHubService(accessToken);
+      // Updating an existing file requires its current SHA
+      const existing = await service.getFile(owner, repo, filePath);
+
+      // Never replace changes made on GitHub since the file was loaded, or a
+      // file that was never loaded, without asking
+      const isLoadedFile =
+        !file &&
+        remoteFile?.repository.toLowerCase() === repository.toLowerCase() &&
+        remoteFile.path === filePath;
+      if (
+        existing &&
+        !isOverwrite &&
+        (!isLoadedFile || existing.content !== remoteFile.content)
+      ) {
+        setOverwritePath(`${repository}/${filePath}`);
+        setError(
+          isLoadedFile
+            ? `${filePath} was changed on GitHub since it was loaded. Commit again to overwrite those changes.`
+            : `${filePath} already exists in ${repository}. Commit again to overwrite it.`
+        );
+        return;
+      }
+
+      const content = file?.content ?? exportToYaml();
+      // GitHub rejects the write if the file changes after it was read
+      await service.saveWorkflow(
+        owner,
+        repo,
+        filePath,
+        content,
+        message.trim(),
+        existing?.sha
+      );
+      // The committed document is what later changes are compared with
+      if (!file) {
+        setRemoteFile({ repository, path: filePath, content });
+      }
+      addToast(`Committed ${filePath} to ${repository}`, "success");
+      onClose();
+    } catch (commitError) {
+      const isConflict =
+        !!commitError &&
+        typeof commitError === "object" &&
+        "status" in commitError &&
+        commitError.status === 409;
+      if (isConflict) {
+        setOverwritePath(`${repository}/${filePath}`);
+      }
+      setError(
+        isConflict
+          ? `${filePath} was changed on GitHub while committing. Commit again to overwrite the new version.`
+          : commitError instanceof Error
+            ? commitError.message
+            : "Failed to commit the file"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-md w-full">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <GitCommit className="w-5 h-5 text-gray-600" />
+            <h2 className="font-semibold text-gray-900">
+              Commit {file ? "file" : isAction ? "action" : "workflow"} to
+              GitHub
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!isAuthenticated ? (
+          <div className="p-4 text-sm text-gray-600">
+            <Link to="/github" className="text-blue-600 hover:underline">
+              Sign in to GitHub
+            </Link>{" "}
+            to commit files to a repository.
+          </div>
+        ) : (
+          <div className="p-4 space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Repository
+              </label>
+              <input
+                type="text"
+                value={repository}
+                onChange={e => setRepository(e.target.value.trim())}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="owner/repo"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Path
+              </label>
+              <input
+                type="text"
+                value={path}
+                onChange={e => setPath(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder={
+                  isAction ? "action.yml" : ".github/workflows/ci.yml"
+                }
+              />
+              {isAction && !file && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Other workflows use it as{" "}
+                  <code>
+                    {repository || "owner/repo"}
+                    {path.includes("/")
+                      ? `/${path.slice(0, path.lastIndexOf("/"))}`
+                      : ""}
+                    @ref
+                  </code>
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Commit message
+              </label>
+              <input
+                type="text"
+                value={message}
+                onChange={e => setMessage(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            {error && (
+              <p className="text-sm text-red-600 bg-red-50 p-2 rounded">
+                {error}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200">
+          <Button onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          {isAuthenticated && (
+            <Button
+              variant="primary"
+              onClick={handleCommit}
+              disabled={!canCommit}
+            >
+              {isSaving ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <GitCommit className="w-4 h-4" />
+              )}
+              {isOverwrite ? "Overwrite" : "Commit"}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
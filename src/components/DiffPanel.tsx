@@ -0,0 +1,170 @@
+import { useMemo } from "react";
+import { GitCompare, X } from "lucide-react";
+import { useDiffStore } from "../store/diff";
+import { useWorkflowStore } from "../store/workflow";
+import { WorkflowDiff } from "../utils/workflow-diff";
+import type { ChangeKind, WorkflowChange } from "../utils/workflow-diff";
+import { WorkflowMapper } from "../utils/workflow-mapper";
+
+const KIND_STYLES: Record<ChangeKind, { label: string; className: string }> = {
+  added: { label: "Added", className: "bg-green-100 text-green-800" },
+  removed: { label: "Removed", className: "bg-red-100 text-red-800" },
+  changed: { label: "Changed", className: "bg-amber-100 text-amber-800" },
+  moved: { label: "Moved", className: "bg-blue-100 text-blue-800" },
+};
+
+const LINE_STYLES = {
+  same: { before: "", after: "" },
+  added: { before: "bg-gray-50", after: "bg-green-50" },
+  removed: { before: "bg-red-50", after: "bg-gray-50" },
+  changed: { before: "bg-red-50", after: "bg-green-50" },
+};
+
+/**
+ * Changes between two versions of the document: a list of semantic
+ * changes next to a side-by-side YAML diff
+ */
+export default function DiffPanel() {
+  const { comparison, clearComparison } = useDiffStore();
+  const { nodes, setSelectedNode } = useWorkflowStore();
+
+  const rows = useMemo(
+    () =>
+      comparison
+        ? WorkflowDiff.diffLines(comparison.before.yaml, comparison.after.yaml)
+        : [],
+    [comparison]
+  );
+
+  if (!comparison) {
+    return null;
+  }
+  const { before, after, changes } = comparison;
+
+  // Show the node of a change when it is on the canvas
+  const handleSelectChange = (change: WorkflowChange) => {
+    const side = change.kind === "removed" ? before : after;
+    const node = WorkflowMapper.getNodeForPath(side.nodes || [], change.path);
+    if (node && nodes.some(candidate => candidate.id === node.id)) {
+      setSelectedNode(node.id, true);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 left-4 right-4 h-[45vh] bg-white border border-gray-200 rounded-lg shadow-lg z-30 flex flex-col animate-in slide-in-from-bottom-2">
+      {/* Header */}
+      <div className="flex items-center justify-between p-3 border-b border-gray-200 bg-gray-50 flex-shrink-0 rounded-t-lg">
+        <div className="flex items-center gap-2 min-w-0">
+          <GitCompare className="w-4 h-4 text-gray-600 flex-shrink-0" />
+          <h3 className="text-sm font-medium text-gray-900 flex-shrink-0">
+            Changes
+          </h3>
+          <span className="text-xs text-gray-500 truncate">
+            {before.label} → {after.label}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1">
+            {(Object.keys(KIND_STYLES) as ChangeKind[]).map(kind => (
+              <span
+                key={kind}
+                className={`px-1.5 py-0.5 text-xs rounded ${KIND_STYLES[kind].className}`}
+              >
+                {KIND_STYLES[kind].label}
+              </span>
+            ))}
+          </div>
+          <button
+            onClick={clearComparison}
+            className="p-1 rounded hover:bg-gray-200 transition-colors"
+            title="Close comparison"
+          >
+            <X className="w-3 h-3 text-gray-600" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Semantic changes */}
+        <div className="w-80 border-r border-gray-200 overflow-y-auto flex-shrink-0">
+          {changes.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No changes</p>
+          ) : (
+            <ul className="p-2 space-y-1">
+              {changes.map((change, index) => (
+                <li
+                  key={index}
+                  onClick={() => handleSelectChange(change)}
+                  className="p-2 rounded-md hover:bg-gray-50 cursor-pointer"
+                >
+                  <div className="flex items-start gap-2">
+                    <span
+                      className={`px-1.5 py-0.5 text-xs rounded flex-shrink-0 ${KIND_STYLES[change.kind].className}`}
+                    >
+                      {KIND_STYLES[change.kind].label}
+                    </span>
+                    <span className="text-xs text-gray-900 break-all">
+                      {change.description}
+                    </span>
+                  </div>
+                  {change.target === "field" && (
+                    <div className="mt-1 ml-1 font-mono text-xs break-all">
+                      {change.before !== undefined && (
+                        <div className="text-red-700">
+                          − {WorkflowDiff.formatValue(change.before)}
+                        </div>
+                      )}
+                      {change.after !== undefined && (
+                        <div className="text-green-700">
+                          + {WorkflowDiff.formatValue(change.after)}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Side-by-side YAML */}
+        <div className="flex-1 overflow-auto">
+          <table className="w-full font-mono text-xs border-collapse">
+            <thead className="sticky top-0 bg-white shadow-sm">
+              <tr className="text-left text-gray-600">
+                <th colSpan={2} className="px-2 py-1 font-medium w-1/2">
+                  {before.label}
+                </th>
+                <th colSpan={2} className="px-2 py-1 font-medium w-1/2">
+                  {after.label}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index}>
+                  <td className="px-2 text-right text-gray-400 select-none align-top w-10">
+                    {row.before?.line}
+                  </td>
+                  <td
+                    className={`px-2 whitespace-pre align-top border-r border-gray-200 ${LINE_STYLES[row.kind].before}`}
+                  >
+                    {row.before?.text}
+                  </td>
+                  <td className="px-2 text-right text-gray-400 select-none align-top w-10">
+                    {row.after?.line}
+                  </td>
+                  <td
+                    className={`px-2 whitespace-pre align-top ${LINE_STYLES[row.kind].after}`}
+                  >
+                    {row.after?.text}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
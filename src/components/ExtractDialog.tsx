@@ -0,0 +1,277 @@
+import { useState, useEffect, useMemo } from "react";
+import {
+  X,
+  Boxes,
+  Workflow,
+  Download,
+  GitCommit,
+  AlertCircle,
+  CheckCircle,
+} from "lucide-react";
+import { useWorkflowStore } from "../store/workflow";
+import { WorkflowYaml } from "../utils/workflow-yaml";
+import { CompositeActions } from "../utils/composite-action";
+import { WorkflowRefactoring } from "../utils/workflow-refactoring";
+import type { ExtractableSelection } from "../utils/workflow-mapper";
+import Button from "./ui/Button";
+import CommitDialog from "./CommitDialog";
+
+interface ExtractDialogProps {
+  selection: ExtractableSelection | null;
+  onClose: () => void;
+}
+
+interface ExtractedFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Name suggested for what is being extracted
+ */
+const getDefaultName = (
+  selection: ExtractableSelection,
+  jobs: Record<string, { name?: string; steps?: { name?: string }[] }>
+) => {
+  if (selection.kind === "jobs") {
+    return selection.jobIds.length === 1
+      ? jobs[selection.jobIds[0]]?.name || selection.jobIds[0]
+      : selection.jobIds.join("-");
+  }
+  const first = Math.min(...selection.stepIndexes);
+  return (
+    jobs[selection.jobId]?.steps?.[first]?.name || `${selection.jobId}-steps`
+  );
+};
+
+/**
+ * Preview and apply "extract to composite action" and "extract to reusable
+ * workflow", then save the new file
+ */
+export default function ExtractDialog({
+  selection,
+  onClose,
+}: ExtractDialogProps) {
+  const {
+    workflow,
+    extractCompositeAction,
+    extractReusableWorkflow,
+    addToast,
+  } = useWorkflowStore();
+  const [name, setName] = useState("");
+  const [extractedFile, setExtractedFile] = useState<ExtractedFile | null>(
+    null
+  );
+  const [showCommitDialog, setShowCommitDialog] = useState(false);
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (selection) {
+      setName(getDefaultName(selection, workflow.jobs));
+      setExtractedFile(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selection]);
+
+  // The new file as it would be extracted, or why it cannot be
+  const preview = useMemo((): { file?: ExtractedFile; error?: string } => {
+    if (!selection || extractedFile) {
+      return {};
+    }
+    try {
+      if (selection.kind === "steps") {
+        const extraction = WorkflowRefactoring.extractCompositeAction(
+          workflow,
+          selection.jobId,
+          selection.stepIndexes,
+          name
+        );
+        return {
+          file: {
+            path: extraction.path,
+            content: CompositeActions.stringify(extraction.action),
+          },
+        };
+      }
+      const extraction = WorkflowRefactoring.extractReusableWorkflow(
+        workflow,
+        selection.jobIds,
+        name
+      );
+      return {
+        file: {
+          path: extraction.path,
+          content: WorkflowYaml.stringify(extraction.extracted),
+        },
+      };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [selection, extractedFile, workflow, name]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (selection && !showCommitDialog && event.key === "Escape") {
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [selection, showCommitDialog, onClose]);
+
+  if (!selection) {
+    return null;
+  }
+
+  const isSteps = selection.kind === "steps";
+  const count = isSteps
+    ? selection.stepIndexes.length
+    : selection.jobIds.length;
+  const file = extractedFile || preview.file;
+
+  const handleExtract = () => {
+    if (!preview.file || !name.trim()) {
+      return;
+    }
+    try {
+      if (selection.kind === "steps") {
+        extractCompositeAction(selection.jobId, selection.stepIndexes, name);
+      } else {
+        extractReusableWorkflow(selection.jobIds, name);
+      }
+      setExtractedFile(preview.file);
+      addToast(`Extracted ${preview.file.path}`, "success");
+    } catch (error) {
+      addToast((error as Error).message, "error");
+    }
+  };
+
+  const handleDownload = () => {
+    if (!file) {
+      return;
+    }
+    const blob = new Blob([file.content], { type: "text/yaml" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = file.path.slice(file.path.lastIndexOf("/") + 1);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 flex-shrink-0">
+          <div className="flex items-center gap-2">
+            {isSteps ? (
+              <Boxes className="w-5 h-5 text-teal-600" />
+            ) : (
+              <Workflow className="w-5 h-5 text-indigo-600" />
+            )}
+            <h2 className="font-semibold text-gray-900">
+              Extract {count} {isSteps ? "step" : "job"}
+              {count !== 1 ? "s" : ""} to{" "}
+              {isSteps ? "composite action" : "reusable workflow"}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-3 overflow-y-auto">
+          {extractedFile ? (
+            <div className="flex items-start gap-2 text-sm text-green-800 bg-green-50 p-3 rounded">
+              <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>
+                The {isSteps ? "steps were" : "jobs were"} replaced with a call
+                to <code>{extractedFile.path}</code>. Save the new file to the
+                repository so the call resolves.
+              </span>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Inputs are inferred from the values the{" "}
+                {isSteps ? "steps" : "jobs"} read from the rest of the workflow.
+              </p>
+            </div>
+          )}
+
+          {preview.error && (
+            <div className="flex items-start gap-2 text-sm text-red-700 bg-red-50 p-3 rounded">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{preview.error}</span>
+            </div>
+          )}
+
+          {file && (
+            <div>
+              <div className="text-xs font-mono text-gray-600 mb-1">
+                {file.path}
+              </div>
+              <pre className="text-xs text-gray-800 overflow-auto max-h-80 bg-gray-50 p-3 rounded border">
+                {file.content}
+              </pre>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200 flex-shrink-0">
+          {extractedFile ? (
+            <>
+              <Button onClick={handleDownload}>
+                <Download className="w-4 h-4" />
+                Download
+              </Button>
+              <Button onClick={() => setShowCommitDialog(true)}>
+                <GitCommit className="w-4 h-4" />
+                Commit
+              </Button>
+              <Button variant="primary" onClick={onClose}>
+                Done
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button onClick={onClose}>Cancel</Button>
+              <Button
+                variant="primary"
+                onClick={handleExtract}
+                disabled={!preview.file || !name.trim()}
+              >
+                Extract
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <CommitDialog
+        isOpen={showCommitDialog}
+        onClose={() => setShowCommitDialog(false)}
+        file={extractedFile || undefined}
+      />
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useDiffStore } from "../store/diff";
 import { useHistoryStore } from "../store/history";
 import {
   History,
@@ -14,6 +15,7 @@ import {
   Settings,
   ChevronDown,
   ChevronUp,
+  GitCompare,
 } from "lucide-react";
 
 interface HistoryPanelProps {
@@ -26,6 +28,9 @@ export default function HistoryPanel({
   onToggle,
 }: HistoryPanelProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  // First entry picked for a comparison
+  const [compareBase, setCompareBase] = useState<number | null>(null);
+  const { compareHistory } = useDiffStore();
   const {
     history,
     currentIndex,
@@ -72,6 +77,27 @@ export default function HistoryPanel({
     jumpToAction(index); // The history store now automatically restores state
   };
 
+  const handleCompare = (index: number) => {
+    if (compareBase === null) {
+      setCompareBase(index);
+      return;
+    }
+    if (compareBase !== index) {
+      compareHistory(
+        Math.min(compareBase, index),
+        Math.max(compareBase, index)
+      );
+    }
+    setCompareBase(null);
+  };
+
+  const handleCompareWithCurrent = () => {
+    if (compareBase !== null) {
+      compareHistory(compareBase, null);
+      setCompareBase(null);
+    }
+  };
+
   if (!isVisible) {
     return null;
   }
@@ -160,6 +186,7 @@ export default function HistoryPanel({
                 {history.map((action, index) => {
                   const isCurrentIndex = index === currentIndex;
                   const isFutureAction = index > currentIndex;
+                  const isCompareBase = index === compareBase;
 
                   return (
                     <div
@@ -188,6 +215,34 @@ export default function HistoryPanel({
                         </div>
                       </div>
 
+                      {isCompareBase && (
+                        <span className="flex-shrink-0 px-1.5 py-0.5 text-xs rounded bg-blue-100 text-blue-800">
+                          Base
+                        </span>
+                      )}
+
+                      {/* Compare */}
+                      <button
+                        onClick={event => {
+                          event.stopPropagation();
+                          handleCompare(index);
+                        }}
+                        className={`flex-shrink-0 p-1 rounded hover:bg-gray-200 transition-colors ${
+                          isCompareBase || compareBase !== null
+                            ? ""
+                            : "opacity-0 group-hover:opacity-100"
+                        }`}
+                        title={
+                          compareBase === null
+                            ? "Compare from this version"
+                            : isCompareBase
+                              ? "Cancel comparison"
+                              : "Compare with this version"
+                        }
+                      >
+                        <GitCompare className="w-3 h-3 text-gray-600" />
+                      </button>
+
                       {/* Current Indicator */}
                       {isCurrentIndex && (
                         <div className="flex-shrink-0 w-2 h-2 bg-blue-500 rounded-full" />
@@ -202,12 +257,29 @@ export default function HistoryPanel({
           {/* Footer */}
           {history.length > 0 && (
             <div className="border-t border-gray-200 p-2 flex-shrink-0">
-              <button
-                onClick={clearHistory}
-                className="w-full text-xs text-gray-500 hover:text-red-600 transition-colors"
-              >
-                Clear History
-              </button>
+              {compareBase !== null ? (
+                <div className="flex items-center justify-between gap-2">
+                  <button
+                    onClick={handleCompareWithCurrent}
+                    className="text-xs text-blue-600 hover:text-blue-800 transition-colors"
+                  >
+                    Compare with current
+                  </button>
+                  <button
+                    onClick={() => setCompareBase(null)}
+                    className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={clearHistory}
+                  className="w-full text-xs text-gray-500 hover:text-red-600 transition-colors"
+                >
+                  Clear History
+                </button>
+              )}
             </div>
           )}
         </div>
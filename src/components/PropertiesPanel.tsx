@@ -3,6 +3,8 @@ import { useWorkflowStore } from "../store/workflow";
 import { X, Settings, AlertCircle, CheckCircle } from "lucide-react";
 import UnifiedTriggerWorkflowProperties from "./properties/UnifiedTriggerWorkflowProperties.tsx";
 import JobProperties from "./properties/JobProperties.tsx";
+import ReusableWorkflowProperties from "./properties/ReusableWorkflowProperties.tsx";
+import ActionProperties from "./properties/ActionProperties.tsx";
 import StepProperties from "./properties/StepProperties.tsx";
 
 interface PropertiesPanelProps {
@@ -74,6 +76,22 @@ export default function PropertiesPanel({
             onUpdate={handleUpdateNode}
           />
         );
+      case "reusable":
+        return (
+          <ReusableWorkflowProperties
+            key={nodeKey}
+            nodeData={selectedNodeData.data}
+            onUpdate={handleUpdateNode}
+          />
+        );
+      case "action":
+        return (
+          <ActionProperties
+            key={nodeKey}
+            nodeData={selectedNodeData.data}
+            onUpdate={handleUpdateNode}
+          />
+        );
       case "step":
         return (
           <StepProperties
@@ -0,0 +1,249 @@
+import { useMemo } from "react";
+import { FlaskConical, X, CheckCircle, XCircle } from "lucide-react";
+import { useWorkflowStore } from "../store/workflow";
+import { useSimulationStore } from "../store/simulation";
+import { WORKFLOW_EVENT_TRIGGERS } from "../types/github-actions";
+import type { WorkflowDispatchTrigger } from "../types/github-actions";
+import { WorkflowSimulator } from "../utils/workflow-simulator";
+import { WorkflowYaml } from "../utils/workflow-yaml";
+import type {
+  SimulationEvent,
+  SimulationStatus,
+} from "../utils/workflow-simulator";
+
+const PULL_REQUEST_ACTIONS = [
+  "opened",
+  "synchronize",
+  "reopened",
+  "edited",
+  "closed",
+  "ready_for_review",
+  "labeled",
+];
+
+const STATUS_STYLES: Record<
+  SimulationStatus,
+  { label: string; className: string }
+> = {
+  running: { label: "Runs", className: "bg-green-100 text-green-800" },
+  skipped: { label: "Skipped", className: "bg-gray-100 text-gray-600" },
+  blocked: { label: "Blocked", className: "bg-amber-100 text-amber-800" },
+};
+
+export default function SimulationPanel() {
+  const { workflow } = useWorkflowStore();
+  const { event, isPanelOpen, setEvent, setPanelOpen, toggleFailingJob } =
+    useSimulationStore();
+
+  const result = useMemo(
+    () => (event ? WorkflowSimulator.simulate(workflow, event) : null),
+    [workflow, event]
+  );
+
+  if (!isPanelOpen || !event || !result) {
+    return null;
+  }
+
+  const update = (changes: Partial<SimulationEvent>) =>
+    setEvent({ ...event, ...changes });
+  const isPullRequest = event.name.startsWith("pull_request");
+  const hasRefs = event.name === "push" || isPullRequest;
+  const triggers = WorkflowYaml.getTriggerMap(workflow.on);
+  const dispatchInputs =
+    (triggers.workflow_dispatch as WorkflowDispatchTrigger | undefined)
+      ?.inputs || {};
+  const configuredTypes =
+    (triggers[event.name] as { types?: string[] } | null)?.types || [];
+
+  const handleClose = () => {
+    setPanelOpen(false);
+    setEvent(null);
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 w-80 max-h-[70vh] bg-white border border-gray-200 rounded-lg shadow-lg z-30 flex flex-col animate-in slide-in-from-right-2">
+      {/* Header */}
+      <div className="flex items-center justify-between p-3 border-b border-gray-200 bg-gray-50 flex-shrink-0 rounded-t-lg">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-4 h-4 text-gray-600" />
+          <h3 className="text-sm font-medium text-gray-900">Event Simulator</h3>
+        </div>
+        <button
+          onClick={handleClose}
+          className="p-1 rounded hover:bg-gray-200 transition-colors"
+          title="Close simulator"
+        >
+          <X className="w-3 h-3 text-gray-600" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {/* Event payload */}
+        <div className="space-y-2">
+          <select
+            value={event.name}
+            onChange={e =>
+              setEvent(WorkflowSimulator.createEvent(e.target.value))
+            }
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+          >
+            {WORKFLOW_EVENT_TRIGGERS.map(name => (
+              <option key={name} value={name}>
+                {name}
+                {Object.hasOwn(triggers, name) ? "" : " (not a trigger)"}
+              </option>
+            ))}
+          </select>
+
+          {hasRefs && (
+            <div className="flex gap-1">
+              {event.name === "push" && (
+                <select
+                  value={event.refType}
+                  onChange={e =>
+                    update({ refType: e.target.value as "branch" | "tag" })
+                  }
+                  className="px-1 py-1 text-xs border border-gray-300 rounded"
+                >
+                  <option value="branch">Branch</option>
+                  <option value="tag">Tag</option>
+                </select>
+              )}
+              <input
+                type="text"
+                value={event.ref}
+                onChange={e => update({ ref: e.target.value.trim() })}
+                className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded"
+                placeholder={isPullRequest ? "Base branch" : "Branch or tag"}
+                title={isPullRequest ? "Base branch" : undefined}
+              />
+              {isPullRequest && (
+                <input
+                  type="text"
+                  value={event.headRef || ""}
+                  onChange={e => update({ headRef: e.target.value.trim() })}
+                  className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded"
+                  placeholder="Head branch"
+                  title="Head branch"
+                />
+              )}
+            </div>
+          )}
+
+          {(isPullRequest || configuredTypes.length > 0) && (
+            <select
+              value={event.action || ""}
+              onChange={e => update({ action: e.target.value || undefined })}
+              className="w-full px-2 py-1 text-xs border border-gray-300 rounded"
+            >
+              <option value="">Any activity type</option>
+              {[
+                ...new Set([
+                  ...configuredTypes,
+                  ...(isPullRequest ? PULL_REQUEST_ACTIONS : []),
+                ]),
+              ].map(action => (
+                <option key={action} value={action}>
+                  {action}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {hasRefs && (
+            <textarea
+              value={event.files.join("\n")}
+              onChange={e =>
+                update({
+                  files: e.target.value.split("\n").map(file => file.trim()),
+                })
+              }
+              rows={3}
+              className="w-full px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+              placeholder="Changed files, one per line"
+            />
+          )}
+
+          {event.name === "workflow_dispatch" &&
+            Object.entries(dispatchInputs).map(([name, input]) => (
+              <div key={name} className="flex items-center gap-2">
+                <label className="w-24 text-xs text-gray-600 truncate">
+                  {name}
+                </label>
+                <input
+                  type="text"
+                  value={event.inputs[name] ?? input.default ?? ""}
+                  onChange={e =>
+                    update({
+                      inputs: { ...event.inputs, [name]: e.target.value },
+                    })
+                  }
+                  className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded"
+                  placeholder={input.type || "string"}
+                />
+              </div>
+            ))}
+        </div>
+
+        {/* Trigger outcome */}
+        <div
+          className={`flex items-start gap-2 p-2 text-xs rounded ${
+            result.triggered
+              ? "bg-green-50 text-green-800"
+              : "bg-red-50 text-red-800"
+          }`}
+        >
+          {result.triggered ? (
+            <CheckCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          ) : (
+            <XCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          )}
+          <div>
+            <p className="font-medium">{result.reason}</p>
+            {result.filters.map((decision, index) => (
+              <p key={index}>{decision.message}</p>
+            ))}
+          </div>
+        </div>
+
+        {/* Jobs */}
+        {Object.values(result.jobs).map(job => (
+          <div key={job.jobId} className="p-2 border border-gray-200 rounded">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs font-medium text-gray-900 truncate">
+                {job.jobId}
+              </span>
+              <div className="flex items-center gap-2">
+                {job.status === "running" && (
+                  <label className="flex items-center gap-1 text-xs text-gray-500">
+                    <input
+                      type="checkbox"
+                      checked={event.failingJobs.includes(job.jobId)}
+                      onChange={() => toggleFailingJob(job.jobId)}
+                      className="rounded border-gray-300"
+                    />
+                    Fails
+                  </label>
+                )}
+                <span
+                  className={`px-1.5 py-0.5 text-xs rounded ${
+                    STATUS_STYLES[job.status].className
+                  }`}
+                >
+                  {STATUS_STYLES[job.status].label}
+                </span>
+              </div>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">{job.reason}</p>
+            {job.matrix.length > 0 && (
+              <p className="mt-1 text-xs text-gray-500">
+                {job.matrix.length} matrix job
+                {job.matrix.length !== 1 ? "s" : ""}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
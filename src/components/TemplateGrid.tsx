@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Eye } from "lucide-react";
 import { useWorkflowStore } from "../store/workflow";
+import { useWorkspaceStore } from "../store/workspace";
 import {
   WORKFLOW_TEMPLATES,
   type WorkflowTemplate,
@@ -23,6 +24,7 @@ const TemplateCard: React.FC<TemplateCardProps> = ({ template, onPreview }) => {
     setIsLoading(true);
 
     try {
+      useWorkspaceStore.getState().openBlankFile();
       setWorkflow(template.workflow);
       addToast(`Template "${template.name}" loaded successfully!`, "success");
 
@@ -178,6 +180,7 @@ export const TemplateGrid: React.FC<TemplateGridProps> = ({
   };
 
   const handleUseTemplate = (template: WorkflowTemplate) => {
+    useWorkspaceStore.getState().openBlankFile();
     setWorkflow(template.workflow);
     addToast(`Template "${template.name}" loaded successfully!`, "success");
 
@@ -2,7 +2,7 @@ import React, { useEffect, useCallback } from "react";
 import { X, Eye, Download, GitBranch, Clock, Tag } from "lucide-react";
 import type { WorkflowTemplate } from "../data/default-workflows";
 import Button from "./ui/Button";
-import * as yaml from "js-yaml";
+import { WorkflowYaml } from "../utils/workflow-yaml";
 
 interface TemplatePreviewModalProps {
   template: WorkflowTemplate | null;
@@ -58,12 +58,7 @@ export const TemplatePreviewModal: React.FC<TemplatePreviewModalProps> = ({
     return Math.max(2, Math.round(jobCount + stepCount * 0.5));
   };
 
-  const yamlContent = yaml.dump(template.workflow, {
-    indent: 2,
-    lineWidth: 80,
-    noRefs: true,
-    quotingType: '"',
-  });
+  const yamlContent = WorkflowYaml.stringify(template.workflow);
 
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
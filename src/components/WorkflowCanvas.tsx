@@ -1,4 +1,4 @@
-import { useCallback, useState, useEffect } from "react";
+import { useCallback, useState, useEffect, useMemo } from "react";
 import {
   ReactFlow,
   Background,
@@ -16,18 +16,33 @@ import type {
   Viewport,
 } from "@xyflow/react";
 import { useWorkflowStore } from "../store/workflow";
+import { useSimulationStore } from "../store/simulation";
+import { useDiffStore } from "../store/diff";
+import { WorkflowMapper } from "../utils/workflow-mapper";
+import type { ExtractableSelection } from "../utils/workflow-mapper";
+import { WorkflowSimulator } from "../utils/workflow-simulator";
+import type {
+  SimulationResultStatus,
+  SimulationStatus,
+} from "../utils/workflow-simulator";
+import type { ChangeKind } from "../utils/workflow-diff";
 import type { VisualNode, VisualEdge } from "../types/github-actions";
 import TriggerNode from "./nodes/TriggerNode";
 import JobNode from "./nodes/JobNode";
+import ReusableWorkflowNode from "./nodes/ReusableWorkflowNode";
+import ActionNode from "./nodes/ActionNode";
 import StepNode from "./nodes/StepNode";
 import InsertableEdge from "./edges/InsertableEdge";
 import EmptyCanvas from "./ui/EmptyCanvas";
 import OnboardingHint from "./ui/OnboardingHint";
+import ExtractDialog from "./ExtractDialog";
 
 // Define custom node types
 const nodeTypes = {
   trigger: TriggerNode,
   job: JobNode,
+  reusable: ReusableWorkflowNode,
+  action: ActionNode,
   step: StepNode,
 };
 
@@ -36,10 +51,36 @@ const edgeTypes = {
   insertable: InsertableEdge,
 };
 
+// Event simulator overlay, applied to the React Flow node wrapper
+const SIMULATION_CLASSES: Record<SimulationStatus, string> = {
+  running: "rounded-lg ring-4 ring-green-400 ring-offset-2",
+  skipped: "opacity-40",
+  blocked: "opacity-40 rounded-lg ring-4 ring-amber-300 ring-offset-2",
+};
+
+const DIFF_CLASSES: Record<ChangeKind, string> = {
+  added: "rounded-lg ring-4 ring-green-400 ring-offset-2",
+  changed: "rounded-lg ring-4 ring-amber-400 ring-offset-2",
+  moved: "rounded-lg ring-4 ring-blue-400 ring-offset-2",
+  removed: "opacity-60 rounded-lg ring-4 ring-red-400 ring-offset-2",
+};
+
+const getSimulationClass = (
+  status: SimulationStatus,
+  result: SimulationResultStatus
+) =>
+  result === "failure"
+    ? "rounded-lg ring-4 ring-red-400 ring-offset-2"
+    : SIMULATION_CLASSES[status];
+
 export default function WorkflowCanvas() {
   const [showOnboardingHint, setShowOnboardingHint] = useState(false);
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [extracting, setExtracting] = useState<ExtractableSelection | null>(
+    null
+  );
   const {
+    workflow,
     nodes,
     edges,
     selectedNode,
@@ -48,10 +89,12 @@ export default function WorkflowCanvas() {
     updateNodePositions,
     updateEdges,
     autoArrangeNodes,
+    layoutDirection,
     validateConnection,
     addToast,
     setSelectedNode,
     animatedEdges,
+    documentKind,
   } = useWorkflowStore();
 
   // Show onboarding hint when first trigger is added
@@ -111,6 +154,68 @@ export default function WorkflowCanvas() {
     };
   });
 
+  // Selected steps of one job, or selected jobs, can be moved to a new file
+  const extractable = useMemo(
+    () =>
+      documentKind === "workflow"
+        ? WorkflowMapper.getExtractableSelection(nodes)
+        : null,
+    [documentKind, nodes]
+  );
+
+  // Overlay the simulated run of the selected event on the nodes
+  const simulationEvent = useSimulationStore(state => state.event);
+  const simulation = useMemo(
+    () =>
+      simulationEvent
+        ? WorkflowSimulator.simulate(workflow, simulationEvent)
+        : null,
+    [workflow, simulationEvent]
+  );
+  // Or the changes of a comparison, when no simulation is shown
+  const diffHighlights = useDiffStore(state => state.comparison?.highlights);
+  const displayNodes = useMemo(() => {
+    if (!simulation) {
+      return diffHighlights
+        ? nodes.map(node =>
+            diffHighlights[node.id]
+              ? { ...node, className: DIFF_CLASSES[diffHighlights[node.id]] }
+              : node
+          )
+        : nodes;
+    }
+
+    const jobIds = new Map(
+      nodes
+        .filter(node => WorkflowMapper.isJobNode(node))
+        .map(node => [node.id, WorkflowMapper.getJobKey(node)])
+    );
+    return nodes.map(node => {
+      if (node.type === "trigger") {
+        return {
+          ...node,
+          className: simulation.triggered
+            ? SIMULATION_CLASSES.running
+            : SIMULATION_CLASSES.skipped,
+        };
+      }
+
+      const jobId = WorkflowMapper.isJobNode(node)
+        ? jobIds.get(node.id)
+        : jobIds.get(node.data.parentJobId || "");
+      const job = jobId ? simulation.jobs[jobId] : undefined;
+      const step =
+        node.type === "step" ? job?.steps[node.data.order ?? -1] : undefined;
+      const target = node.type === "step" ? step : job;
+      return {
+        ...node,
+        className: target
+          ? getSimulationClass(target.status, target.result)
+          : SIMULATION_CLASSES.skipped,
+      };
+    });
+  }, [nodes, simulation, diffHighlights]);
+
   const onNodesChange = useCallback(
     (changes: NodeChange[]) => {
       const updatedNodes = applyNodeChanges(changes, nodes) as VisualNode[];
@@ -204,13 +309,17 @@ export default function WorkflowCanvas() {
       }
 
       const { type, id, label } = JSON.parse(data);
+      if (documentKind === "action" && type !== "step") {
+        addToast("Composite actions can only contain steps", "error");
+        return;
+      }
       const position = {
         x: event.clientX - reactFlowBounds.left,
         y: event.clientY - reactFlowBounds.top,
       };
 
       const newNode = {
-        id: `${type}-${Date.now()}`,
+        id: WorkflowMapper.createNodeId(type),
         type,
         position,
         data: createNodeData(type, id, label),
@@ -218,7 +327,7 @@ export default function WorkflowCanvas() {
 
       addNode(newNode);
     },
-    [addNode]
+    [addNode, addToast, documentKind]
   );
 
   const createNodeData = (nodeType: string, itemId: string, label: string) => {
@@ -238,6 +347,13 @@ export default function WorkflowCanvas() {
           isValid: true,
           errors: [],
         };
+      case "reusable":
+        return {
+          label,
+          uses: itemId,
+          isValid: true,
+          errors: [],
+        };
       case "step":
         return {
           label,
@@ -253,22 +369,84 @@ export default function WorkflowCanvas() {
 
   return (
     <div className="w-full h-full relative">
-      {/* Auto-arrange button */}
-      <button
-        onClick={autoArrangeNodes}
-        className="absolute top-4 right-4 z-10 bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-lg shadow-lg text-sm font-medium transition-colors cursor-pointer"
-        title="Auto-arrange nodes"
-      >
-        Auto-arrange
-      </button>
+      {/* Auto-arrange controls */}
+      <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
+        <div className="flex bg-white border border-gray-300 rounded-lg shadow-lg overflow-hidden text-sm font-medium">
+          {(["TB", "LR"] as const).map(direction => (
+            <button
+              key={direction}
+              onClick={() => autoArrangeNodes(direction)}
+              className={`px-3 py-2 transition-colors cursor-pointer ${
+                layoutDirection === direction
+                  ? "bg-blue-50 text-blue-700"
+                  : "text-gray-600 hover:bg-gray-50"
+              }`}
+              title={
+                direction === "TB"
+                  ? "Arrange dependent jobs top to bottom"
+                  : "Arrange dependent jobs left to right"
+              }
+            >
+              {direction === "TB" ? "↓" : "→"}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => autoArrangeNodes()}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-lg shadow-lg text-sm font-medium transition-colors cursor-pointer"
+          title="Auto-arrange nodes"
+        >
+          Auto-arrange
+        </button>
+      </div>
 
       {/* Zoom level indicator */}
       <div className="absolute top-4 left-4 z-10 bg-white border border-gray-300 px-3 py-2 rounded-lg shadow-lg text-sm font-medium text-gray-700">
         Zoom: {Math.round(zoomLevel * 100)}%
       </div>
 
+      {/* Refactorings for the selection */}
+      {extractable && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10">
+          <button
+            onClick={() => setExtracting(extractable)}
+            className="bg-white border border-gray-300 hover:bg-gray-50 px-3 py-2 rounded-lg shadow-lg text-sm font-medium text-gray-700 transition-colors cursor-pointer"
+            title="Ctrl/Cmd-click or Shift-drag to select more"
+          >
+            {extractable.kind === "steps"
+              ? `Extract ${extractable.stepIndexes.length} step${
+                  extractable.stepIndexes.length !== 1 ? "s" : ""
+                } to composite action`
+              : `Extract ${extractable.jobIds.length} job${
+                  extractable.jobIds.length !== 1 ? "s" : ""
+                } to reusable workflow`}
+          </button>
+        </div>
+      )}
+
+      {/* Simulation legend */}
+      {simulation && (
+        <div className="absolute bottom-4 left-16 z-10 flex items-center gap-3 bg-white border border-gray-300 px-3 py-2 rounded-lg shadow-lg text-xs text-gray-700">
+          <span className="font-medium">
+            Simulating {simulationEvent?.name}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full bg-green-400" /> Runs
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full bg-red-400" /> Fails
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full bg-amber-300" /> Blocked
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full bg-gray-300" /> Skipped
+          </span>
+        </div>
+      )}
+
       <ReactFlow
-        nodes={nodes}
+        nodes={displayNodes}
         edges={animatedEdgesArray}
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
@@ -294,6 +472,10 @@ export default function WorkflowCanvas() {
                 return "#3b82f6";
               case "job":
                 return "#8b5cf6";
+              case "reusable":
+                return "#6366f1";
+              case "action":
+                return "#14b8a6";
               case "step":
                 return "#10b981";
               default:
@@ -305,6 +487,11 @@ export default function WorkflowCanvas() {
         <Background variant={BackgroundVariant.Dots} gap={12} size={1} />
       </ReactFlow>
 
+      <ExtractDialog
+        selection={extracting}
+        onClose={() => setExtracting(null)}
+      />
+
       {/* Empty state */}
       {nodes.length === 0 && <EmptyCanvas />}
 
@@ -0,0 +1,169 @@
+import { useEffect, useRef, useState } from "react";
+import { Clock, FileCode, Package, Plus, Trash2, X } from "lucide-react";
+import { useWorkflowStore } from "../store/workflow";
+import { useWorkspaceStore } from "../store/workspace";
+import type { WorkspaceFile } from "../store/workspace";
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+const FileIcon = ({ file }: { file: Pick<WorkspaceFile, "documentKind"> }) =>
+  file.documentKind === "action" ? (
+    <Package className="w-3.5 h-3.5 flex-shrink-0" />
+  ) : (
+    <FileCode className="w-3.5 h-3.5 flex-shrink-0" />
+  );
+
+/**
+ * Tabs of the open workflows, with a menu of recently closed ones
+ */
+export default function WorkspaceTabs() {
+  const {
+    files,
+    openFileIds,
+    activeFileId,
+    hasHydrated,
+    createFile,
+    openFile,
+    closeFile,
+    removeFile,
+    getRecentFiles,
+  } = useWorkspaceStore();
+  const { workflow, action, documentKind } = useWorkflowStore();
+  const [showRecent, setShowRecent] = useState(false);
+  const recentMenuRef = useRef<HTMLDivElement>(null);
+  const recentFiles = getRecentFiles();
+
+  // Close the recent files menu on outside clicks
+  useEffect(() => {
+    if (!showRecent) {
+      return;
+    }
+    const handleClick = (event: MouseEvent) => {
+      if (!recentMenuRef.current?.contains(event.target as Node)) {
+        setShowRecent(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [showRecent]);
+
+  if (!hasHydrated) {
+    return null;
+  }
+
+  // The active tab follows renames before they are autosaved
+  const getLabel = (file: WorkspaceFile) => {
+    if (file.id !== activeFileId) {
+      return file.name;
+    }
+    const name = documentKind === "action" ? action.name : workflow.name;
+    return name?.trim() || file.name;
+  };
+
+  return (
+    <div className="border-b bg-gray-100 px-2 flex items-end gap-1 pt-1.5">
+      <div className="flex items-end gap-1 overflow-x-auto">
+        {openFileIds
+          .filter(id => files[id])
+          .map(id => {
+            const file = files[id];
+            const isActive = id === activeFileId;
+            return (
+              <div
+                key={id}
+                onClick={() => openFile(id)}
+                onMouseDown={event => {
+                  // Middle click closes the tab
+                  if (event.button === 1) {
+                    event.preventDefault();
+                    closeFile(id);
+                  }
+                }}
+                className={`group flex items-center gap-2 max-w-56 px-3 py-1.5 text-sm rounded-t-md border border-b-0 cursor-pointer ${
+                  isActive
+                    ? "bg-white border-gray-300 text-gray-900"
+                    : "bg-gray-50 border-transparent text-gray-600 hover:bg-white/70"
+                }`}
+                title={getLabel(file)}
+              >
+                <FileIcon file={isActive ? { documentKind } : file} />
+                <span className="truncate">{getLabel(file)}</span>
+                <button
+                  onClick={event => {
+                    event.stopPropagation();
+                    closeFile(id);
+                  }}
+                  className={`p-0.5 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-200 ${
+                    isActive ? "" : "opacity-0 group-hover:opacity-100"
+                  }`}
+                  title="Close"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            );
+          })}
+      </div>
+
+      <button
+        onClick={createFile}
+        className="mb-1 p-1.5 text-gray-500 hover:text-gray-800 hover:bg-gray-200 rounded-md"
+        title="New workflow"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+
+      <div ref={recentMenuRef} className="relative ml-auto mb-1">
+        <button
+          onClick={() => setShowRecent(!showRecent)}
+          disabled={recentFiles.length === 0}
+          className="flex items-center gap-1.5 px-2 py-1.5 text-xs text-gray-600 hover:text-gray-900 hover:bg-gray-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Recently closed workflows"
+        >
+          <Clock className="w-3.5 h-3.5" />
+          Recent
+        </button>
+
+        {showRecent && recentFiles.length > 0 && (
+          <div className="absolute right-0 top-full mt-1 w-72 bg-white border border-gray-200 rounded-md shadow-lg z-50 py-1">
+            {recentFiles.map(file => (
+              <div
+                key={file.id}
+                onClick={() => {
+                  openFile(file.id);
+                  setShowRecent(false);
+                }}
+                className="group flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 cursor-pointer"
+              >
+                <FileIcon file={file} />
+                <div className="flex-1 min-w-0">
+                  <div className="truncate">{file.name}</div>
+                  <div className="text-xs text-gray-500">
+                    Saved {formatDate(file.updatedAt)}
+                  </div>
+                </div>
+                <button
+                  onClick={event => {
+                    event.stopPropagation();
+                    removeFile(file.id);
+                  }}
+                  className="p-1 rounded text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                  title="Remove from recent files"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { memo } from "react";
+import { Handle, Position } from "@xyflow/react";
+import type { NodeProps } from "@xyflow/react";
+import { Boxes, AlertCircle, CheckCircle } from "lucide-react";
+import type { CompositeAction } from "../../types/github-actions";
+import { useWorkflowStore } from "../../store/workflow";
+import { WorkflowMapper } from "../../utils/workflow-mapper";
+import AddNodeButton from "../ui/AddNodeButton";
+
+interface ActionNodeData {
+  label: string;
+  compositeAction?: CompositeAction;
+  isValid?: boolean;
+  errors?: string[];
+}
+
+/**
+ * Root of a composite action; its steps hang below it like a job's
+ */
+function ActionNode({
+  data,
+  selected,
+  id,
+}: NodeProps & { data: ActionNodeData }) {
+  const { setSelectedNode, addNode, autoArrangeNodes } = useWorkflowStore();
+  const hasErrors = data.errors && data.errors.length > 0;
+  const isValid = data.isValid !== false;
+  const action = data.compositeAction;
+  const inputCount = Object.keys(action?.inputs || {}).length;
+  const outputCount = Object.keys(action?.outputs || {}).length;
+
+  const handleAddNode = (
+    nodeType: string,
+    nodeData: { label: string; action?: string; run?: string }
+  ) => {
+    if (nodeType !== "step") {
+      return;
+    }
+
+    // Run steps of composite actions have no default shell
+    const newNode = {
+      id: WorkflowMapper.createNodeId("step"),
+      type: "step" as const,
+      position: { x: 300, y: 300 },
+      data: {
+        ...nodeData,
+        parentJobId: id,
+        order: -1,
+        step: {
+          name: nodeData.label,
+          ...(nodeData.action && { uses: nodeData.action }),
+          ...(nodeData.run && { run: nodeData.run, shell: "bash" }),
+        },
+      },
+    };
+
+    addNode(newNode);
+
+    setTimeout(() => {
+      autoArrangeNodes();
+    }, 100);
+  };
+
+  const handleClick = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    if (id) {
+      setSelectedNode(id);
+    }
+  };
+
+  return (
+    <div
+      onClick={handleClick}
+      className={`
+        px-4 py-3 shadow-md rounded-lg bg-white border-2 min-w-[180px] cursor-pointer
+        transition-all duration-200 hover:shadow-lg hover:scale-105
+        ${selected ? "ring-2 ring-teal-300 ring-offset-2" : ""}
+        ${
+          hasErrors
+            ? "border-red-400"
+            : isValid
+              ? "border-teal-400"
+              : "border-gray-300"
+        }
+      `}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <Boxes className="w-4 h-4 text-teal-600" />
+        <div className="font-medium text-sm text-gray-900">{data.label}</div>
+        {hasErrors ? (
+          <AlertCircle className="w-4 h-4 text-red-500" />
+        ) : isValid ? (
+          <CheckCircle className="w-4 h-4 text-green-500" />
+        ) : null}
+      </div>
+
+      <div className="text-xs text-gray-600 space-y-1">
+        <div className="text-teal-700">
+          <span>Runs using:</span>{" "}
+          <span className="font-medium font-mono">composite</span>
+        </div>
+        <div className="text-gray-500">
+          {inputCount} input{inputCount !== 1 ? "s" : ""}
+          {" · "}
+          {outputCount} output{outputCount !== 1 ? "s" : ""}
+        </div>
+      </div>
+
+      {hasErrors && (
+        <div className="mt-2 text-xs text-red-600 bg-red-50 p-2 rounded">
+          {data.errors![0]}
+        </div>
+      )}
+
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        id="job-source"
+        className="w-3 h-3 !bg-teal-400 !border-2 !border-white"
+      />
+
+      <div className="absolute top-full left-1/2 transform -translate-x-1/2 mt-2">
+        <AddNodeButton onAddNode={handleAddNode} context="job" />
+      </div>
+    </div>
+  );
+}
+
+export default memo(ActionNode);
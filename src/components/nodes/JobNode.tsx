@@ -1,12 +1,18 @@
-import { memo } from "react";
+import { memo, useMemo } from "react";
 import { Handle, Position } from "@xyflow/react";
 import type { NodeProps } from "@xyflow/react";
-import { Server, AlertCircle, CheckCircle, Zap } from "lucide-react";
+import { Server, AlertCircle, CheckCircle, Zap, Grid3x3 } from "lucide-react";
 import { useWorkflowStore } from "../../store/workflow";
+import { WorkflowMapper } from "../../utils/workflow-mapper";
+import { MatrixExpander } from "../../utils/matrix-expansion";
 import AddNodeButton from "../ui/AddNodeButton";
 
+// Generated matrix jobs listed on the node before collapsing to "+N more"
+const MAX_LISTED_MATRIX_JOBS = 5;
+
 interface JobNodeData {
   label: string;
+  jobId?: string;
   runsOn: string;
   stepCount: number;
   isValid?: boolean;
@@ -17,16 +23,23 @@ function JobNode({ data, selected, id }: NodeProps & { data: JobNodeData }) {
   const hasErrors = data.errors && data.errors.length > 0;
   const isValid = data.isValid !== false;
   const {
+    workflow,
     toggleEdgeAnimation,
     setSelectedNode,
     animatedEdges,
     edges,
     nodes,
     addNode,
-    addEdge,
     autoArrangeNodes,
   } = useWorkflowStore();
 
+  const matrix =
+    workflow.jobs[data.jobId || id.replace(/^job-/, "")]?.strategy?.matrix;
+  const expansion = useMemo(
+    () => (matrix ? MatrixExpander.expand(matrix) : null),
+    [matrix]
+  );
+
   // Check if this node has any animated job-to-job edges (both incoming and outgoing)
   const hasAnimatedEdges = Array.from(animatedEdges).some(edgeId => {
     const edge = edges.find(e => e.id === edgeId);
@@ -43,7 +56,12 @@ function JobNode({ data, selected, id }: NodeProps & { data: JobNodeData }) {
     // Check if both source and target are job nodes
     const sourceNode = nodes.find(n => n.id === edge.source);
     const targetNode = nodes.find(n => n.id === edge.target);
-    return sourceNode?.type === "job" && targetNode?.type === "job";
+    return (
+      !!sourceNode &&
+      !!targetNode &&
+      WorkflowMapper.isJobNode(sourceNode) &&
+      WorkflowMapper.isJobNode(targetNode)
+    );
   });
 
   const getRunnerColor = () => {
@@ -70,18 +88,15 @@ function JobNode({ data, selected, id }: NodeProps & { data: JobNodeData }) {
       return;
     }
 
-    // Find if this job already has outgoing edges to steps
-    const existingStepEdges = edges.filter(
-      edge => edge.source === id && edge.target.startsWith(`${id}-step-`)
-    );
-
-    const stepId = `${id}-step-${Date.now()}`;
+    // New steps go first; the store renumbers steps and rebuilds their edges
     const newNode = {
-      id: stepId,
+      id: WorkflowMapper.createNodeId("step"),
       type: "step" as const,
       position: { x: 300, y: 300 },
       data: {
         ...nodeData,
+        parentJobId: id,
+        order: -1,
         step: {
           name: nodeData.label,
           ...(nodeData.action && { uses: nodeData.action }),
@@ -92,59 +107,10 @@ function JobNode({ data, selected, id }: NodeProps & { data: JobNodeData }) {
 
     addNode(newNode);
 
-    if (existingStepEdges.length > 0) {
-      // There are existing steps, insert the new step between job and first existing step
-      const firstStepEdge = existingStepEdges[0];
-      const firstStepId = firstStepEdge.target;
-
-      // Remove the existing edge from job to first step
-      const updatedEdges = edges.filter(edge => edge.id !== firstStepEdge.id);
-
-      // Add edge from job to new step
-      const jobToNewStepEdge = {
-        id: `edge-${id}-${stepId}`,
-        source: id,
-        target: stepId,
-        sourceHandle: "job-source",
-        targetHandle: "step-target",
-        type: "insertable" as const,
-      };
-
-      // Add edge from new step to first existing step
-      const newStepToFirstStepEdge = {
-        id: `edge-${stepId}-${firstStepId}`,
-        source: stepId,
-        target: firstStepId,
-        sourceHandle: "step-source",
-        targetHandle: "step-target",
-        type: "insertable" as const,
-      };
-
-      // Update the store with all changes
-      useWorkflowStore.setState(() => ({
-        edges: [...updatedEdges, jobToNewStepEdge, newStepToFirstStepEdge],
-      }));
-
-      // Auto-arrange the layout after adding the new step
-      setTimeout(() => {
-        autoArrangeNodes();
-      }, 100);
-    } else {
-      // No existing steps, just connect job to new step
-      addEdge({
-        id: `edge-${id}-${stepId}`,
-        source: id,
-        target: stepId,
-        sourceHandle: "job-source",
-        targetHandle: "step-target",
-        type: "insertable",
-      });
-
-      // Auto-arrange the layout after adding the new step
-      setTimeout(() => {
-        autoArrangeNodes();
-      }, 100);
-    }
+    // Auto-arrange the layout after adding the new step
+    setTimeout(() => {
+      autoArrangeNodes();
+    }, 100);
   };
 
   const handleClick = (event: React.MouseEvent) => {
@@ -211,6 +177,33 @@ function JobNode({ data, selected, id }: NodeProps & { data: JobNodeData }) {
         </div>
       </div>
 
+      {expansion && (
+        <div className="mt-2 pt-2 border-t border-gray-100 text-xs">
+          <div className="flex items-center gap-1 text-purple-700 font-medium">
+            <Grid3x3 className="w-3 h-3" />
+            {expansion.isDynamic && expansion.combinations.length === 0
+              ? "Matrix from expression"
+              : `${expansion.combinations.length} matrix job${
+                  expansion.combinations.length !== 1 ? "s" : ""
+                }${expansion.isDynamic ? " + dynamic values" : ""}`}
+          </div>
+          <ul className="mt-1 space-y-0.5 text-gray-600">
+            {expansion.combinations
+              .slice(0, MAX_LISTED_MATRIX_JOBS)
+              .map((combination, index) => (
+                <li key={index} className="truncate max-w-[220px]">
+                  {MatrixExpander.getJobName(data.label, combination)}
+                </li>
+              ))}
+            {expansion.combinations.length > MAX_LISTED_MATRIX_JOBS && (
+              <li className="text-gray-400">
+                +{expansion.combinations.length - MAX_LISTED_MATRIX_JOBS} more
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+
       {hasErrors && (
         <div className="mt-2 text-xs text-red-600 bg-red-50 p-2 rounded">
           {data.errors![0]}
@@ -0,0 +1,137 @@
+import { memo } from "react";
+import { Handle, Position } from "@xyflow/react";
+import type { NodeProps } from "@xyflow/react";
+import { Workflow, AlertCircle, CheckCircle, Zap } from "lucide-react";
+import type { Job } from "../../types/github-actions";
+import { useWorkflowStore } from "../../store/workflow";
+import { WorkflowMapper } from "../../utils/workflow-mapper";
+
+interface ReusableWorkflowNodeData {
+  label: string;
+  jobId?: string;
+  job?: Job;
+  isValid?: boolean;
+  errors?: string[];
+}
+
+/**
+ * A job that calls another workflow with `uses`
+ */
+function ReusableWorkflowNode({
+  data,
+  selected,
+  id,
+}: NodeProps & { data: ReusableWorkflowNodeData }) {
+  const { toggleEdgeAnimation, setSelectedNode, animatedEdges, edges, nodes } =
+    useWorkflowStore();
+  const hasErrors = data.errors && data.errors.length > 0;
+  const isValid = data.isValid !== false;
+  const job = data.job;
+  const inputCount = Object.keys(job?.with || {}).length;
+  const secrets = job?.secrets;
+
+  // Highlight when a job-to-job edge of this node is animated
+  const hasAnimatedEdges = Array.from(animatedEdges).some(edgeId => {
+    const edge = edges.find(e => e.id === edgeId);
+    if (!edge || (edge.source !== id && edge.target !== id)) {
+      return false;
+    }
+    const sourceNode = nodes.find(n => n.id === edge.source);
+    const targetNode = nodes.find(n => n.id === edge.target);
+    return (
+      !!sourceNode &&
+      !!targetNode &&
+      WorkflowMapper.isJobNode(sourceNode) &&
+      WorkflowMapper.isJobNode(targetNode)
+    );
+  });
+
+  const handleClick = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    if (id) {
+      setSelectedNode(id);
+      toggleEdgeAnimation(id);
+    }
+  };
+
+  return (
+    <div
+      onClick={handleClick}
+      className={`
+        px-4 py-3 shadow-md rounded-lg bg-white border-2 border-dashed min-w-[180px] cursor-pointer
+        transition-all duration-200 hover:shadow-lg hover:scale-105
+        ${selected ? "ring-2 ring-indigo-300 ring-offset-2" : ""}
+        ${
+          hasAnimatedEdges
+            ? "ring-2 ring-orange-400 ring-offset-1 shadow-orange-200 shadow-lg"
+            : ""
+        }
+        ${
+          hasErrors
+            ? "border-red-400"
+            : isValid
+              ? hasAnimatedEdges
+                ? "border-orange-400"
+                : "border-indigo-400"
+              : "border-gray-300"
+        }
+      `}
+    >
+      <Handle
+        type="target"
+        position={Position.Top}
+        id="job-target"
+        className="w-3 h-3 !bg-indigo-400 !border-2 !border-white"
+      />
+
+      <div className="flex items-center gap-2 mb-2">
+        <Workflow className="w-4 h-4 text-indigo-600" />
+        <div className="font-medium text-sm text-gray-900">{data.label}</div>
+        {hasAnimatedEdges && (
+          <Zap className="w-4 h-4 text-orange-500 animate-pulse" />
+        )}
+        {hasErrors ? (
+          <AlertCircle className="w-4 h-4 text-red-500" />
+        ) : isValid ? (
+          <CheckCircle className="w-4 h-4 text-green-500" />
+        ) : null}
+      </div>
+
+      <div className="text-xs text-gray-600 space-y-1">
+        <div className="flex items-center gap-1 text-indigo-700">
+          <span>Calls:</span>
+          <span
+            className="font-mono truncate max-w-[200px]"
+            title={job?.uses || undefined}
+          >
+            {job?.uses || "No workflow selected"}
+          </span>
+        </div>
+        <div className="text-gray-500">
+          {inputCount} input{inputCount !== 1 ? "s" : ""}
+          {" · "}
+          {secrets === "inherit"
+            ? "inherits secrets"
+            : `${Object.keys(secrets || {}).length} secret${
+                Object.keys(secrets || {}).length !== 1 ? "s" : ""
+              }`}
+        </div>
+      </div>
+
+      {hasErrors && (
+        <div className="mt-2 text-xs text-red-600 bg-red-50 p-2 rounded">
+          {data.errors![0]}
+        </div>
+      )}
+
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        id="job-source"
+        className="w-3 h-3 !bg-indigo-400 !border-2 !border-white"
+      />
+    </div>
+  );
+}
+
+export default memo(ReusableWorkflowNode);
@@ -1,14 +1,27 @@
-import { memo } from "react";
+import { memo, useMemo } from "react";
 import { Handle, Position } from "@xyflow/react";
 import type { NodeProps } from "@xyflow/react";
-import { Play, Code, Package, AlertCircle, CheckCircle } from "lucide-react";
+import {
+  Play,
+  Code,
+  Package,
+  AlertCircle,
+  CheckCircle,
+  ShieldAlert,
+} from "lucide-react";
+import type { Step } from "../../types/github-actions";
 import { useWorkflowStore } from "../../store/workflow";
+import { WorkflowMapper } from "../../utils/workflow-mapper";
+import { WorkflowSecurity } from "../../utils/github-actions-security";
 import AddNodeButton from "../ui/AddNodeButton";
 
 interface StepNodeData {
   label: string;
   type: "action" | "run" | "shell";
   actionName?: string;
+  parentJobId?: string;
+  order?: number;
+  step?: Step;
   isValid?: boolean;
   errors?: string[];
 }
@@ -16,8 +29,11 @@ interface StepNodeData {
 function StepNode({ data, selected, id }: NodeProps & { data: StepNodeData }) {
   const hasErrors = data.errors && data.errors.length > 0;
   const isValid = data.isValid !== false;
-  const { setSelectedNode, addNode, addEdge, edges, autoArrangeNodes } =
-    useWorkflowStore();
+  const injections = useMemo(
+    () => (data.step ? WorkflowSecurity.findStepInjections(data.step) : []),
+    [data.step]
+  );
+  const { setSelectedNode, addNode, autoArrangeNodes } = useWorkflowStore();
 
   const handleAddNode = (
     nodeType: string,
@@ -27,20 +43,16 @@ function StepNode({ data, selected, id }: NodeProps & { data: StepNodeData }) {
       return;
     }
 
-    const jobId = id.split("-step-")[0];
-
-    // Find if this step has outgoing edges to other steps
-    const existingOutgoingEdges = edges.filter(
-      edge => edge.source === id && edge.target.startsWith(`${jobId}-step-`)
-    );
-
-    const stepId = `${jobId}-step-${Date.now()}`;
+    // Insert right after this step; the store renumbers steps and rebuilds
+    // their edges
     const newNode = {
-      id: stepId,
+      id: WorkflowMapper.createNodeId("step"),
       type: "step" as const,
       position: { x: 300, y: 400 },
       data: {
         ...nodeData,
+        parentJobId: data.parentJobId,
+        order: (data.order ?? 0) + 0.5,
         step: {
           name: nodeData.label,
           ...(nodeData.action && { uses: nodeData.action }),
@@ -51,59 +63,10 @@ function StepNode({ data, selected, id }: NodeProps & { data: StepNodeData }) {
 
     addNode(newNode);
 
-    if (existingOutgoingEdges.length > 0) {
-      // There are existing steps after this one, insert between them
-      const nextStepEdge = existingOutgoingEdges[0];
-      const nextStepId = nextStepEdge.target;
-
-      // Remove the existing edge from current step to next step
-      const updatedEdges = edges.filter(edge => edge.id !== nextStepEdge.id);
-
-      // Add edge from current step to new step
-      const currentToNewStepEdge = {
-        id: `edge-${id}-${stepId}`,
-        source: id,
-        target: stepId,
-        sourceHandle: "step-source",
-        targetHandle: "step-target",
-        type: "insertable" as const,
-      };
-
-      // Add edge from new step to next step
-      const newStepToNextStepEdge = {
-        id: `edge-${stepId}-${nextStepId}`,
-        source: stepId,
-        target: nextStepId,
-        sourceHandle: "step-source",
-        targetHandle: "step-target",
-        type: "insertable" as const,
-      };
-
-      // Update the store with all changes
-      useWorkflowStore.setState(() => ({
-        edges: [...updatedEdges, currentToNewStepEdge, newStepToNextStepEdge],
-      }));
-
-      // Auto-arrange the layout after adding the new step
-      setTimeout(() => {
-        autoArrangeNodes();
-      }, 100);
-    } else {
-      // No existing steps after this one, just connect current step to new step
-      addEdge({
-        id: `edge-${id}-${stepId}`,
-        source: id,
-        target: stepId,
-        sourceHandle: "step-source",
-        targetHandle: "step-target",
-        type: "insertable",
-      });
-
-      // Auto-arrange the layout after adding the new step
-      setTimeout(() => {
-        autoArrangeNodes();
-      }, 100);
-    }
+    // Auto-arrange the layout after adding the new step
+    setTimeout(() => {
+      autoArrangeNodes();
+    }, 100);
   };
 
   const handleClick = (event: React.MouseEvent) => {
@@ -160,6 +123,18 @@ function StepNode({ data, selected, id }: NodeProps & { data: StepNodeData }) {
       <div className="flex items-center gap-2">
         {getIcon()}
         <div className="font-medium text-xs flex-1">{data.label}</div>
+        {injections.length > 0 && (
+          <div
+            title={injections
+              .map(
+                injection =>
+                  `Untrusted ${injection.context} in ${injection.key}`
+              )
+              .join("\n")}
+          >
+            <ShieldAlert className="w-3 h-3 text-amber-200" />
+          </div>
+        )}
         {hasErrors ? (
           <AlertCircle className="w-3 h-3 text-red-200" />
         ) : isValid ? (
@@ -177,6 +152,12 @@ function StepNode({ data, selected, id }: NodeProps & { data: StepNodeData }) {
         <div className="mt-1 text-xs text-red-200">{data.errors![0]}</div>
       )}
 
+      {injections.length > 0 && (
+        <div className="mt-1 text-xs text-amber-100">
+          Script injection risk: {injections[0].context}
+        </div>
+      )}
+
       {/* Source handle for connecting to next step */}
       <Handle
         type="source"
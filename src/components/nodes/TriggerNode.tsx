@@ -13,6 +13,7 @@ import {
 } from "lucide-react";
 import type { WorkflowTriggers } from "../../types/github-actions";
 import { useWorkflowStore } from "../../store/workflow";
+import { WorkflowMapper } from "../../utils/workflow-mapper";
 
 interface TriggerNodeData {
   label: string;
@@ -43,7 +44,7 @@ function TriggerNode({
   const handleAddNode = () => {
     // Count existing nodes to position the new one
     const existingNodes = nodes.length;
-    const newNodeId = `job-${Date.now()}`;
+    const newNodeId = WorkflowMapper.createNodeId("job");
 
     // Add a new job node below existing nodes
     const newNode = {
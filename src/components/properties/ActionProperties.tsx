@@ -0,0 +1,460 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Boxes,
+  LogIn,
+  LogOut,
+  Palette,
+  Plus,
+  Trash2,
+  AlertCircle,
+} from "lucide-react";
+import type {
+  CompositeAction,
+  CompositeActionInput,
+  CompositeActionOutput,
+} from "../../types/github-actions";
+import { useWorkflowStore } from "../../store/workflow";
+import { CompositeActions } from "../../utils/composite-action";
+
+interface ActionPropertiesProps {
+  nodeData: Record<string, unknown>;
+  onUpdate: (data: Record<string, unknown>) => void;
+}
+
+interface InputRow {
+  name: string;
+  description: string;
+  required: boolean;
+  default: string;
+}
+
+interface OutputRow {
+  name: string;
+  description: string;
+  value: string;
+}
+
+// Colors the Marketplace accepts for `branding.color`
+const BRANDING_COLORS = [
+  "white",
+  "black",
+  "yellow",
+  "blue",
+  "green",
+  "orange",
+  "red",
+  "purple",
+  "gray-dark",
+];
+
+const getNodeAction = (nodeData: Record<string, unknown>): CompositeAction =>
+  (nodeData.compositeAction as CompositeAction) ||
+  CompositeActions.createDefault();
+
+const toInputRows = (
+  inputs: Record<string, CompositeActionInput> = {}
+): InputRow[] =>
+  Object.entries(inputs).map(([name, input]) => ({
+    name,
+    description: input.description || "",
+    required: input.required === true,
+    default: input.default ?? "",
+  }));
+
+const toOutputRows = (
+  outputs: Record<string, CompositeActionOutput> = {}
+): OutputRow[] =>
+  Object.entries(outputs).map(([name, output]) => ({
+    name,
+    description: output.description || "",
+    value: output.value || "",
+  }));
+
+export default function ActionProperties({
+  nodeData,
+  onUpdate,
+}: ActionPropertiesProps) {
+  const { validationResult } = useWorkflowStore();
+
+  const initialAction = getNodeAction(nodeData);
+  const [name, setName] = useState(initialAction.name || "");
+  const [description, setDescription] = useState(
+    initialAction.description || ""
+  );
+  const [author, setAuthor] = useState(initialAction.author || "");
+  const [inputs, setInputs] = useState(toInputRows(initialAction.inputs));
+  const [outputs, setOutputs] = useState(toOutputRows(initialAction.outputs));
+  const [icon, setIcon] = useState(initialAction.branding?.icon || "");
+  const [color, setColor] = useState(initialAction.branding?.color || "");
+
+  // Reset state when nodeData changes (when switching between nodes)
+  useEffect(() => {
+    const action = getNodeAction(nodeData);
+    setName(action.name || "");
+    setDescription(action.description || "");
+    setAuthor(action.author || "");
+    setInputs(toInputRows(action.inputs));
+    setOutputs(toOutputRows(action.outputs));
+    setIcon(action.branding?.icon || "");
+    setColor(action.branding?.color || "");
+  }, [nodeData]);
+
+  // Write the form back into the action, keeping fields the form does not
+  // show, such as an input's deprecationMessage
+  const buildAction = useCallback((): CompositeAction => {
+    const current = getNodeAction(nodeData);
+    const action: CompositeAction = { ...current, name, description };
+
+    if (author) {
+      action.author = author;
+    } else {
+      delete action.author;
+    }
+
+    const inputEntries = inputs
+      .filter(row => row.name.trim())
+      .map(row => {
+        const input: CompositeActionInput = { ...current.inputs?.[row.name] };
+        if (row.description) {
+          input.description = row.description;
+        } else {
+          delete input.description;
+        }
+        if (row.required) {
+          input.required = true;
+        } else {
+          delete input.required;
+        }
+        if (row.default) {
+          input.default = row.default;
+        } else {
+          delete input.default;
+        }
+        return [row.name, input] as const;
+      });
+    if (inputEntries.length > 0) {
+      action.inputs = Object.fromEntries(inputEntries);
+    } else {
+      delete action.inputs;
+    }
+
+    const outputEntries = outputs
+      .filter(row => row.name.trim())
+      .map(row => {
+        const output: CompositeActionOutput = {
+          ...current.outputs?.[row.name],
+          value: row.value,
+        };
+        if (row.description) {
+          output.description = row.description;
+        } else {
+          delete output.description;
+        }
+        return [row.name, output] as const;
+      });
+    if (outputEntries.length > 0) {
+      action.outputs = Object.fromEntries(outputEntries);
+    } else {
+      delete action.outputs;
+    }
+
+    if (icon || color) {
+      action.branding = {
+        ...(icon && { icon }),
+        ...(color && { color }),
+      };
+    } else {
+      delete action.branding;
+    }
+
+    return action;
+  }, [nodeData, name, description, author, inputs, outputs, icon, color]);
+
+  // Debounce updates while typing
+  useEffect(() => {
+    const action = buildAction();
+    if (JSON.stringify(action) === JSON.stringify(getNodeAction(nodeData))) {
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      onUpdate({
+        label: name || "Composite action",
+        compositeAction: action,
+        isValid: !!name.trim() && !!description.trim(),
+        errors: [
+          ...(!name.trim() ? ["Action name is required"] : []),
+          ...(!description.trim() ? ["Action description is required"] : []),
+        ],
+      });
+    }, 100);
+
+    return () => clearTimeout(timeoutId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [name, description, author, inputs, outputs, icon, color]);
+
+  // Findings about the action itself rather than one of its steps
+  const findings = (validationResult?.errors || []).filter(
+    finding => !finding.path.startsWith("runs.steps[")
+  );
+
+  const updateRow = <T,>(rows: T[], index: number, changes: Partial<T>) =>
+    rows.map((row, i) => (i === index ? { ...row, ...changes } : row));
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Metadata */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          <div className="flex items-center gap-2">
+            <Boxes className="w-4 h-4" />
+            Action Name
+          </div>
+        </label>
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+          placeholder="Set up toolchain"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Description
+        </label>
+        <textarea
+          value={description}
+          onChange={e => setDescription(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500 text-sm"
+          placeholder="What this action does"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Author
+        </label>
+        <input
+          type="text"
+          value={author}
+          onChange={e => setAuthor(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+          placeholder="Optional"
+        />
+      </div>
+
+      {/* Inputs */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          <div className="flex items-center gap-2">
+            <LogIn className="w-4 h-4" />
+            Inputs
+          </div>
+        </label>
+        <div className="space-y-2">
+          {inputs.map((row, index) => (
+            <div key={index} className="p-2 bg-gray-50 rounded space-y-1">
+              <div className="flex gap-1">
+                <input
+                  type="text"
+                  value={row.name}
+                  onChange={e =>
+                    setInputs(
+                      updateRow(inputs, index, { name: e.target.value.trim() })
+                    )
+                  }
+                  className="flex-1 min-w-0 px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+                  placeholder="name"
+                />
+                <button
+                  onClick={() =>
+                    setInputs(inputs.filter((_, i) => i !== index))
+                  }
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              <input
+                type="text"
+                value={row.description}
+                onChange={e =>
+                  setInputs(
+                    updateRow(inputs, index, { description: e.target.value })
+                  )
+                }
+                className="w-full px-2 py-1 text-xs border border-gray-300 rounded"
+                placeholder="description"
+              />
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={row.default}
+                  onChange={e =>
+                    setInputs(
+                      updateRow(inputs, index, { default: e.target.value })
+                    )
+                  }
+                  className="flex-1 min-w-0 px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+                  placeholder="default"
+                />
+                <label className="flex items-center gap-1 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={row.required}
+                    onChange={e =>
+                      setInputs(
+                        updateRow(inputs, index, {
+                          required: e.target.checked,
+                        })
+                      )
+                    }
+                    className="rounded border-gray-300"
+                  />
+                  Required
+                </label>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() =>
+              setInputs([
+                ...inputs,
+                { name: "", description: "", required: false, default: "" },
+              ])
+            }
+            className="flex items-center gap-1 text-xs text-teal-600 hover:text-teal-800"
+          >
+            <Plus className="w-3 h-3" />
+            Add input
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Steps read inputs with <code>{"${{ inputs.name }}"}</code>
+        </p>
+      </div>
+
+      {/* Outputs */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          <div className="flex items-center gap-2">
+            <LogOut className="w-4 h-4" />
+            Outputs
+          </div>
+        </label>
+        <div className="space-y-2">
+          {outputs.map((row, index) => (
+            <div key={index} className="p-2 bg-gray-50 rounded space-y-1">
+              <div className="flex gap-1">
+                <input
+                  type="text"
+                  value={row.name}
+                  onChange={e =>
+                    setOutputs(
+                      updateRow(outputs, index, { name: e.target.value.trim() })
+                    )
+                  }
+                  className="flex-1 min-w-0 px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+                  placeholder="name"
+                />
+                <button
+                  onClick={() =>
+                    setOutputs(outputs.filter((_, i) => i !== index))
+                  }
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              <input
+                type="text"
+                value={row.description}
+                onChange={e =>
+                  setOutputs(
+                    updateRow(outputs, index, { description: e.target.value })
+                  )
+                }
+                className="w-full px-2 py-1 text-xs border border-gray-300 rounded"
+                placeholder="description"
+              />
+              <input
+                type="text"
+                value={row.value}
+                onChange={e =>
+                  setOutputs(
+                    updateRow(outputs, index, { value: e.target.value })
+                  )
+                }
+                className="w-full px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+                placeholder="${{ steps.<id>.outputs.<name> }}"
+              />
+            </div>
+          ))}
+          <button
+            onClick={() =>
+              setOutputs([...outputs, { name: "", description: "", value: "" }])
+            }
+            className="flex items-center gap-1 text-xs text-teal-600 hover:text-teal-800"
+          >
+            <Plus className="w-3 h-3" />
+            Add output
+          </button>
+        </div>
+      </div>
+
+      {/* Branding */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          <div className="flex items-center gap-2">
+            <Palette className="w-4 h-4" />
+            Branding
+          </div>
+        </label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={icon}
+            onChange={e => setIcon(e.target.value.trim())}
+            className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded"
+            placeholder="Feather icon, e.g. zap"
+          />
+          <select
+            value={color}
+            onChange={e => setColor(e.target.value)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded"
+          >
+            <option value="">No color</option>
+            {BRANDING_COLORS.map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Shown when the action is published to the Marketplace
+        </p>
+      </div>
+
+      {/* Findings */}
+      {findings.length > 0 && (
+        <div className="space-y-1">
+          {findings.map((finding, index) => (
+            <div
+              key={index}
+              className="flex items-start gap-1 text-xs text-red-700 bg-red-50 p-2 rounded"
+            >
+              <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              <span>{finding.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useMemo } from "react";
+import { Clock, AlertTriangle } from "lucide-react";
+import { CronExpression } from "../../utils/cron-expression";
+
+interface CronSchedulePreviewProps {
+  cron: string;
+  count?: number;
+}
+
+const formatUtc = (date: Date) =>
+  `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+
+export default function CronSchedulePreview({
+  cron,
+  count = 5,
+}: CronSchedulePreviewProps) {
+  const preview = useMemo(() => {
+    const error = CronExpression.validate(cron);
+    if (error) {
+      return { error, description: "", runs: [] };
+    }
+
+    const schedule = CronExpression.parse(cron);
+    return {
+      error: null,
+      description: CronExpression.describe(schedule),
+      runs: CronExpression.getNextRuns(schedule, new Date(), count),
+    };
+  }, [cron, count]);
+
+  if (preview.error) {
+    return (
+      <div className="flex gap-2 p-2 mt-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded">
+        <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+        <span>{preview.error}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 mt-2 bg-gray-50 border border-gray-200 rounded">
+      <div className="flex items-center gap-1.5 text-xs font-medium text-gray-900">
+        <Clock className="w-3 h-3 text-blue-600" />
+        {preview.description}
+      </div>
+      <p className="mt-2 text-xs font-medium text-gray-600">Next runs</p>
+      <ul className="mt-1 space-y-0.5">
+        {preview.runs.map(run => (
+          <li
+            key={run.getTime()}
+            className="flex justify-between gap-2 text-xs text-gray-600"
+          >
+            <code>{formatUtc(run)}</code>
+            <span className="text-gray-400">{run.toLocaleString()}</span>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-xs text-gray-400">
+        GitHub may delay scheduled runs during periods of high load
+      </p>
+    </div>
+  );
+}
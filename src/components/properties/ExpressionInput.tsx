@@ -0,0 +1,207 @@
+import { useMemo, useRef, useState } from "react";
+import type { KeyboardEvent, SyntheticEvent } from "react";
+import { useWorkflowStore } from "../../store/workflow";
+import { useCalledWorkflowStore } from "../../store/called-workflows";
+import { ExpressionCompletions } from "../../utils/expression-completions";
+import type { ExpressionSuggestion } from "../../utils/expression-completions";
+import { ExpressionParser } from "../../utils/github-actions-expressions";
+
+interface ExpressionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Path of the value in the document, e.g. ["jobs", "build", "if"]
+  path: (string | number)[] | null;
+  isCondition?: boolean; // `if` values may leave out `${{ }}`
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Text input for values that may contain expressions. Completes contexts,
+ * their members and functions from the current workflow, shows the
+ * signature of the function being called and reports syntax errors.
+ */
+export default function ExpressionInput({
+  value,
+  onChange,
+  path,
+  isCondition = false,
+  placeholder,
+  className = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm",
+}: ExpressionInputProps) {
+  const { workflow, action, documentKind } = useWorkflowStore();
+  const { getCalledWorkflows } = useCalledWorkflowStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState<number | null>(null); // null when blurred
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Suggestions open on typing, not on focus, and close on Escape
+  const [isOpen, setIsOpen] = useState(false);
+
+  const completions = useMemo(
+    () =>
+      isOpen && cursor !== null && path
+        ? ExpressionCompletions.getCompletions(
+            value,
+            cursor,
+            path,
+            {
+              workflow,
+              action: documentKind === "action" ? action : undefined,
+              calledWorkflows: getCalledWorkflows(),
+            },
+            isCondition
+          )
+        : null,
+    [
+      isOpen,
+      cursor,
+      path,
+      value,
+      workflow,
+      action,
+      documentKind,
+      getCalledWorkflows,
+      isCondition,
+    ]
+  );
+  const suggestions = completions?.suggestions || [];
+  const selectedIndex = Math.min(activeIndex, suggestions.length - 1);
+  const signature =
+    cursor !== null
+      ? ExpressionCompletions.getSignature(value, cursor, isCondition)
+      : null;
+  const syntaxError = useMemo(
+    () => ExpressionParser.findSyntaxErrors(value, isCondition)[0],
+    [value, isCondition]
+  );
+
+  const updateCursor = (event: SyntheticEvent<HTMLInputElement>) =>
+    setCursor(event.currentTarget.selectionStart);
+
+  const accept = (suggestion: ExpressionSuggestion) => {
+    if (!completions || cursor === null) {
+      return;
+    }
+    const nextCursor = completions.from + suggestion.insertText.length;
+    onChange(
+      value.slice(0, completions.from) +
+        suggestion.insertText +
+        value.slice(cursor)
+    );
+    setCursor(nextCursor);
+    setActiveIndex(0);
+    // Restore the caret once the new value has rendered
+    requestAnimationFrame(() =>
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor)
+    );
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === " " && event.ctrlKey) {
+      event.preventDefault();
+      setIsOpen(true);
+      return;
+    }
+    if (suggestions.length === 0) {
+      return;
+    }
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex(
+        (selectedIndex + step + suggestions.length) % suggestions.length
+      );
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      accept(suggestions[selectedIndex]);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={event => {
+          onChange(event.target.value);
+          updateCursor(event);
+          setActiveIndex(0);
+          setIsOpen(true);
+        }}
+        onSelect={updateCursor}
+        onFocus={updateCursor}
+        onBlur={() => {
+          setCursor(null);
+          setIsOpen(false);
+        }}
+        onKeyDown={handleKeyDown}
+        className={className}
+        placeholder={placeholder}
+        spellCheck={false}
+        autoComplete="off"
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full max-h-48 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg text-sm">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.kind}-${suggestion.label}`}
+              // Keep focus in the input while picking a suggestion
+              onMouseDown={event => {
+                event.preventDefault();
+                accept(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center justify-between gap-3 px-3 py-1.5 cursor-pointer ${
+                index === selectedIndex ? "bg-blue-50" : ""
+              }`}
+            >
+              <span className="font-mono text-gray-900">
+                {suggestion.label}
+              </span>
+              {suggestion.detail && (
+                <span className="text-xs text-gray-500 truncate">
+                  {suggestion.detail}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {signature && suggestions.length === 0 && (
+        <div className="mt-1 text-xs text-gray-600">
+          <span className="font-mono">
+            {signature.name}(
+            {signature.params.map((param, index) => (
+              <span key={param}>
+                {index > 0 && ", "}
+                <span
+                  className={
+                    index === signature.activeParam
+                      ? "font-semibold text-gray-900"
+                      : ""
+                  }
+                >
+                  {param}
+                </span>
+              </span>
+            ))}
+            )
+          </span>
+          <span className="text-gray-500"> — {signature.description}</span>
+        </div>
+      )}
+
+      {syntaxError && (
+        <p className="mt-1 text-xs text-red-600">
+          {syntaxError.message} (position {syntaxError.offset})
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useMemo, useState } from "react";
+import { CheckCircle, XCircle, FlaskConical } from "lucide-react";
+import type {
+  PullRequestTrigger,
+  PushTrigger,
+} from "../../types/github-actions";
+import { TriggerFilters } from "../../utils/trigger-filters";
+import type { FilterEvent } from "../../utils/trigger-filters";
+
+interface FilterTesterProps {
+  event: FilterEvent;
+  trigger: PushTrigger | PullRequestTrigger | null | undefined;
+}
+
+export default function FilterTester({ event, trigger }: FilterTesterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [refType, setRefType] = useState<"branch" | "tag">("branch");
+  const [ref, setRef] = useState("main");
+  const [files, setFiles] = useState("");
+
+  const result = useMemo(
+    () =>
+      TriggerFilters.test(event, trigger, {
+        refType,
+        ref: ref.trim(),
+        files: files
+          .split("\n")
+          .map(file => file.trim())
+          .filter(Boolean),
+      }),
+    [event, trigger, refType, ref, files]
+  );
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+      >
+        <FlaskConical className="w-3 h-3" />
+        Test filters
+      </button>
+    );
+  }
+
+  return (
+    <div className="p-2 space-y-2 bg-gray-50 border border-gray-200 rounded">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1 text-xs font-medium text-gray-700">
+          <FlaskConical className="w-3 h-3" />
+          Filter tester
+        </span>
+        <button
+          onClick={() => setIsOpen(false)}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex gap-1">
+        {event === "push" && (
+          <select
+            value={refType}
+            onChange={e => setRefType(e.target.value as "branch" | "tag")}
+            className="px-1 py-1 text-xs border border-gray-300 rounded"
+          >
+            <option value="branch">Branch</option>
+            <option value="tag">Tag</option>
+          </select>
+        )}
+        <input
+          type="text"
+          value={ref}
+          onChange={e => setRef(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+          placeholder={
+            event === "push"
+              ? refType === "tag"
+                ? "v1.2.3"
+                : "feature/login"
+              : "Base branch, e.g. main"
+          }
+        />
+      </div>
+
+      <textarea
+        value={files}
+        onChange={e => setFiles(e.target.value)}
+        rows={3}
+        className="w-full px-2 py-1 text-xs font-mono border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+        placeholder={
+          "Changed files, one per line\nsrc/index.ts\ndocs/README.md"
+        }
+      />
+
+      <div
+        className={`flex items-center gap-1 text-xs font-medium ${
+          result.runs ? "text-green-700" : "text-red-700"
+        }`}
+      >
+        {result.runs ? (
+          <CheckCircle className="w-3 h-3" />
+        ) : (
+          <XCircle className="w-3 h-3" />
+        )}
+        {result.runs ? "Workflow runs" : "Workflow does not run"}
+      </div>
+      <ul className="space-y-0.5">
+        {result.decisions.map((decision, index) => (
+          <li key={index} className="text-xs text-gray-600">
+            {decision.filter && (
+              <code className="mr-1 text-gray-500">{decision.filter}</code>
+            )}
+            {decision.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
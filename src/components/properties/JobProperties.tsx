@@ -1,44 +1,131 @@
 import { useState, useEffect, useCallback } from "react";
 import { Server, Settings, Shield, Clock } from "lucide-react";
+import type { Job } from "../../types/github-actions";
+import { useWorkflowStore } from "../../store/workflow";
+import { WorkflowMapper } from "../../utils/workflow-mapper";
+import MatrixEditor from "./MatrixEditor";
+import ExpressionInput from "./ExpressionInput";
 
 interface JobPropertiesProps {
   nodeData: Record<string, unknown>;
   onUpdate: (data: Record<string, unknown>) => void;
 }
 
+interface JobFormValues {
+  label: string;
+  jobId: string;
+  runsOn: string;
+  timeoutMinutes: number;
+  strategy: Job["strategy"];
+  environment: string;
+  permissions: string;
+  condition: string;
+}
+
+// Permission presets offered by the select, keyed by option value
+const PERMISSION_PRESETS: Record<string, Job["permissions"]> = {
+  "read-all": "read-all",
+  "write-all": "write-all",
+  "contents-read": { contents: "read" },
+  "contents-write": { contents: "write" },
+  "packages-write": { packages: "write" },
+};
+
+// Job keys may contain letters, digits, `-` and `_`, starting with a letter or `_`
+const JOB_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+const getNodeJob = (nodeData: Record<string, unknown>): Job =>
+  (nodeData.job as Job) || {
+    name: (nodeData.label as string) || "",
+    "runs-on": (nodeData.runsOn as string) || "ubuntu-latest",
+    steps: [],
+  };
+
+// Strategies are compared by value; the editor creates new objects
+const isSameStrategy = (a: Job["strategy"], b: Job["strategy"]) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const getPermissionsOption = (job: Job): string => {
+  if (!job.permissions) {
+    return "";
+  }
+  const match = Object.entries(PERMISSION_PRESETS).find(
+    ([, preset]) => JSON.stringify(preset) === JSON.stringify(job.permissions)
+  );
+  return match ? match[0] : "custom";
+};
+
+/**
+ * Form values shown for a job, derived from the job object on the node
+ */
+const getJobFormValues = (nodeData: Record<string, unknown>): JobFormValues => {
+  const job = getNodeJob(nodeData);
+  const runsOn = job["runs-on"];
+
+  return {
+    label: (nodeData.label as string) || "",
+    jobId: (nodeData.jobId as string) || "",
+    runsOn: Array.isArray(runsOn) ? runsOn.join(", ") : runsOn || "",
+    timeoutMinutes: job["timeout-minutes"] || 360,
+    strategy: job.strategy,
+    environment:
+      typeof job.environment === "object"
+        ? job.environment.name
+        : job.environment || "",
+    permissions: getPermissionsOption(job),
+    condition: job.if || "",
+  };
+};
+
 export default function JobProperties({
   nodeData,
   onUpdate,
 }: JobPropertiesProps) {
-  const [label, setLabel] = useState((nodeData.label as string) || "");
-  const [runsOn, setRunsOn] = useState(
-    (nodeData.runsOn as string) || "ubuntu-latest"
-  );
+  const { nodes, selectedNode } = useWorkflowStore();
+  const initialValues = getJobFormValues(nodeData);
+  const [label, setLabel] = useState(initialValues.label);
+  const [jobId, setJobId] = useState(initialValues.jobId);
+  const [runsOn, setRunsOn] = useState(initialValues.runsOn);
   const [timeoutMinutes, setTimeoutMinutes] = useState(
-    (nodeData.timeoutMinutes as number) || 360
+    initialValues.timeoutMinutes
   );
-  const [strategy, setStrategy] = useState((nodeData.strategy as string) || "");
-  const [environment, setEnvironment] = useState(
-    (nodeData.environment as string) || ""
-  );
-  const [permissions, setPermissions] = useState(
-    (nodeData.permissions as string) || ""
+  const [strategy, setStrategy] = useState(initialValues.strategy);
+  const [environment, setEnvironment] = useState(initialValues.environment);
+  const [permissions, setPermissions] = useState(initialValues.permissions);
+  const [condition, setCondition] = useState(initialValues.condition);
+
+  // Keys of the other jobs; a job ID must not clash with them
+  const isJobIdTaken = nodes.some(
+    node =>
+      WorkflowMapper.isJobNode(node) &&
+      node.id !== selectedNode &&
+      node.data.jobId === jobId
   );
+  const isJobIdValid = JOB_ID_PATTERN.test(jobId) && !isJobIdTaken;
+  const jobPath = selectedNode
+    ? WorkflowMapper.getNodePath(nodes, selectedNode)
+    : null;
 
   // Reset state when nodeData changes (when switching between nodes)
   useEffect(() => {
-    setLabel((nodeData.label as string) || "");
-    setRunsOn((nodeData.runsOn as string) || "ubuntu-latest");
-    setTimeoutMinutes((nodeData.timeoutMinutes as number) || 360);
-    setStrategy((nodeData.strategy as string) || "");
-    setEnvironment((nodeData.environment as string) || "");
-    setPermissions((nodeData.permissions as string) || "");
+    const values = getJobFormValues(nodeData);
+    setLabel(values.label);
+    setJobId(values.jobId);
+    setRunsOn(values.runsOn);
+    setTimeoutMinutes(values.timeoutMinutes);
+    setStrategy(values.strategy);
+    setEnvironment(values.environment);
+    setPermissions(values.permissions);
+    setCondition(values.condition);
   }, [nodeData]);
 
   const validateJob = useCallback(() => {
     if (!label.trim()) {
       return false;
     }
+    if (!isJobIdValid) {
+      return false;
+    }
     if (!runsOn.trim()) {
       return false;
     }
@@ -46,13 +133,20 @@ export default function JobProperties({
       return false;
     }
     return true;
-  }, [label, runsOn, timeoutMinutes]);
+  }, [label, isJobIdValid, runsOn, timeoutMinutes]);
 
   const getValidationErrors = useCallback(() => {
     const errors = [];
     if (!label.trim()) {
       errors.push("Job name is required");
     }
+    if (!JOB_ID_PATTERN.test(jobId)) {
+      errors.push(
+        "Job ID must start with a letter or _ and contain only letters, digits, - and _"
+      );
+    } else if (isJobIdTaken) {
+      errors.push(`Job ID "${jobId}" is already used by another job`);
+    }
     if (!runsOn.trim()) {
       errors.push("Runner is required");
     }
@@ -63,18 +157,90 @@ export default function JobProperties({
       errors.push("Timeout cannot exceed 2160 minutes (36 hours)");
     }
     return errors;
-  }, [label, runsOn, timeoutMinutes]);
+  }, [label, jobId, isJobIdTaken, runsOn, timeoutMinutes]);
+
+  // Write only the fields that were edited back into the job object, so
+  // everything the form does not know about survives untouched
+  const buildJob = useCallback((): Job => {
+    const current = getJobFormValues(nodeData);
+    const job: Job = { ...getNodeJob(nodeData) };
+
+    if (label !== current.label) {
+      job.name = label;
+    }
+    if (runsOn !== current.runsOn) {
+      job["runs-on"] = runsOn;
+    }
+    if (timeoutMinutes !== current.timeoutMinutes) {
+      job["timeout-minutes"] = timeoutMinutes;
+    }
+    if (!isSameStrategy(strategy, current.strategy)) {
+      if (strategy) {
+        job.strategy = strategy;
+      } else {
+        delete job.strategy;
+      }
+    }
+    if (environment !== current.environment) {
+      if (!environment) {
+        delete job.environment;
+      } else if (typeof job.environment === "object") {
+        job.environment = { ...job.environment, name: environment };
+      } else {
+        job.environment = environment;
+      }
+    }
+    if (permissions !== current.permissions && permissions !== "custom") {
+      if (permissions) {
+        job.permissions = PERMISSION_PRESETS[permissions];
+      } else {
+        delete job.permissions;
+      }
+    }
+    if (condition !== current.condition) {
+      if (condition) {
+        job.if = condition;
+      } else {
+        delete job.if;
+      }
+    }
+
+    return job;
+  }, [
+    nodeData,
+    label,
+    runsOn,
+    timeoutMinutes,
+    strategy,
+    environment,
+    permissions,
+    condition,
+  ]);
 
   // Use useEffect to update data when form values change, but debounce the updates
   useEffect(() => {
+    const current = getJobFormValues(nodeData);
+    const hasChanges =
+      label !== current.label ||
+      jobId !== current.jobId ||
+      runsOn !== current.runsOn ||
+      timeoutMinutes !== current.timeoutMinutes ||
+      !isSameStrategy(strategy, current.strategy) ||
+      environment !== current.environment ||
+      permissions !== current.permissions ||
+      condition !== current.condition;
+
+    if (!hasChanges) {
+      return;
+    }
+
     const timeoutId = setTimeout(() => {
       const updatedData = {
         label,
+        // Invalid keys are not applied, the node keeps its current key
+        ...(isJobIdValid && { jobId }),
         runsOn,
-        timeoutMinutes,
-        strategy: strategy || undefined,
-        environment: environment || undefined,
-        permissions: permissions || undefined,
+        job: buildJob(),
         isValid: validateJob(),
         errors: getValidationErrors(),
       };
@@ -84,7 +250,16 @@ export default function JobProperties({
 
     return () => clearTimeout(timeoutId);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [label, runsOn, timeoutMinutes, strategy, environment, permissions]);
+  }, [
+    label,
+    jobId,
+    runsOn,
+    timeoutMinutes,
+    strategy,
+    environment,
+    permissions,
+    condition,
+  ]);
 
   const getRunnerOptions = () => [
     {
@@ -124,6 +299,23 @@ export default function JobProperties({
         />
       </div>
 
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Job ID
+        </label>
+        <input
+          type="text"
+          value={jobId}
+          onChange={e => setJobId(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          placeholder="build"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Key under <code>jobs</code>, used by <code>needs</code> of dependent
+          jobs
+        </p>
+      </div>
+
       {/* Runner Configuration */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -137,6 +329,9 @@ export default function JobProperties({
           onChange={e => setRunsOn(e.target.value)}
           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
         >
+          {!getRunnerOptions().some(option => option.value === runsOn) && (
+            <option value={runsOn}>{runsOn}</option>
+          )}
           {getRunnerOptions().map(option => (
             <option key={option.value} value={option.value}>
               {option.label} - {option.description}
@@ -177,18 +372,7 @@ export default function JobProperties({
             Strategy (optional)
           </div>
         </label>
-        <select
-          value={strategy}
-          onChange={e => setStrategy(e.target.value)}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
-        >
-          <option value="">None</option>
-          <option value="matrix">Matrix Strategy</option>
-          <option value="fail-fast">Fail Fast Strategy</option>
-        </select>
-        <p className="text-xs text-gray-500 mt-1">
-          Configure job execution strategy for multiple configurations.
-        </p>
+        <MatrixEditor strategy={strategy} onChange={setStrategy} />
       </div>
 
       {/* Environment */}
@@ -227,12 +411,31 @@ export default function JobProperties({
           <option value="contents-read">Contents: Read</option>
           <option value="contents-write">Contents: Write</option>
           <option value="packages-write">Packages: Write</option>
+          {permissions === "custom" && <option value="custom">Custom</option>}
         </select>
         <p className="text-xs text-gray-500 mt-1">
           Set GITHUB_TOKEN permissions for this job.
         </p>
       </div>
 
+      {/* Condition */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Condition (optional)
+        </label>
+        <ExpressionInput
+          value={condition}
+          onChange={setCondition}
+          path={jobPath && [...jobPath, "if"]}
+          isCondition
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 font-mono text-sm"
+          placeholder="github.ref == 'refs/heads/main'"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Expression to control when this job runs.
+        </p>
+      </div>
+
       {/* Help Text */}
       <div className="mt-6 p-3 bg-gray-50 rounded-md">
         <p className="text-xs text-gray-600">
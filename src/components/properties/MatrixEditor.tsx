@@ -0,0 +1,480 @@
+import { useMemo, useState } from "react";
+import { Plus, X, Grid3x3, AlertTriangle } from "lucide-react";
+import type {
+  Job,
+  MatrixInclude,
+  MatrixStrategy,
+} from "../../types/github-actions";
+import { MatrixExpander } from "../../utils/matrix-expansion";
+import { ExpressionParser } from "../../utils/github-actions-expressions";
+
+type Strategy = NonNullable<Job["strategy"]>;
+type MatrixValue = string | number | boolean;
+type MatrixRowList = "include" | "exclude";
+
+interface MatrixEditorProps {
+  strategy: Job["strategy"];
+  onChange: (strategy: Job["strategy"]) => void;
+}
+
+/**
+ * Numbers and booleans keep their YAML type; anything that would not
+ * round-trip, such as `3.10`, stays a string
+ */
+const parseValue = (text: string): MatrixValue => {
+  const trimmed = text.trim();
+  if (trimmed === "true" || trimmed === "false") {
+    return trimmed === "true";
+  }
+  if (trimmed !== "" && String(Number(trimmed)) === trimmed) {
+    return Number(trimmed);
+  }
+  return text;
+};
+
+const formatValue = (value: unknown): string =>
+  typeof value === "object" && value !== null
+    ? JSON.stringify(value)
+    : String(value);
+
+export default function MatrixEditor({
+  strategy,
+  onChange,
+}: MatrixEditorProps) {
+  const [newAxis, setNewAxis] = useState("");
+  const [newValues, setNewValues] = useState<Record<string, string>>({});
+  // Include keys that are not axes and have no value in any row yet
+  const [includeKeys, setIncludeKeys] = useState<string[]>([]);
+  const [newIncludeKey, setNewIncludeKey] = useState("");
+
+  const matrix = strategy?.matrix as MatrixStrategy | string | undefined;
+  const isExpression = typeof matrix === "string";
+  const matrixObject: MatrixStrategy =
+    matrix && typeof matrix === "object" ? matrix : {};
+  const axes = Object.keys(matrixObject).filter(
+    key => key !== "include" && key !== "exclude"
+  );
+  const include = (matrixObject.include || []) as MatrixInclude[];
+  const exclude = (matrixObject.exclude || []) as MatrixInclude[];
+
+  const expansion = useMemo(
+    () => (matrix ? MatrixExpander.expand(matrix) : null),
+    [matrix]
+  );
+  const findings = useMemo(() => {
+    if (!matrix) {
+      return [];
+    }
+    const result = MatrixExpander.validate(matrix);
+    return [...result.errors, ...result.warnings];
+  }, [matrix]);
+
+  const updateStrategy = (changes: Partial<Strategy>) => {
+    const next: Strategy = { ...strategy, ...changes };
+    (Object.keys(next) as (keyof Strategy)[]).forEach(key => {
+      if (next[key] === undefined) {
+        delete next[key];
+      }
+    });
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const updateMatrix = (next: MatrixStrategy) => {
+    const cleaned = Object.fromEntries(
+      Object.entries(next).filter(
+        ([key, value]) =>
+          !((key === "include" || key === "exclude") && !value?.length)
+      )
+    ) as MatrixStrategy;
+    updateStrategy({ matrix: cleaned });
+  };
+
+  const setAxisValues = (axis: string, values: MatrixValue[] | string) => {
+    updateMatrix({
+      ...matrixObject,
+      [axis]: values as MatrixStrategy[string],
+    });
+  };
+
+  const renameAxis = (axis: string, name: string) => {
+    if (!name || name === axis || name in matrixObject) {
+      return;
+    }
+    // Rebuild the object so the renamed axis keeps its column position
+    updateMatrix(
+      Object.fromEntries(
+        Object.entries(matrixObject).map(([key, value]) => [
+          key === axis ? name : key,
+          value,
+        ])
+      ) as MatrixStrategy
+    );
+  };
+
+  const removeAxis = (axis: string) => {
+    const next = { ...matrixObject };
+    delete next[axis];
+    updateMatrix(next);
+  };
+
+  const addAxis = () => {
+    const name = newAxis.trim();
+    if (!name || name in matrixObject) {
+      return;
+    }
+    setAxisValues(name, []);
+    setNewAxis("");
+  };
+
+  const addValue = (axis: string) => {
+    const text = newValues[axis]?.trim();
+    const values = matrixObject[axis];
+    if (!text || !Array.isArray(values)) {
+      return;
+    }
+    setAxisValues(axis, [...(values as MatrixValue[]), parseValue(text)]);
+    setNewValues({ ...newValues, [axis]: "" });
+  };
+
+  const updateRows = (list: MatrixRowList, rows: MatrixInclude[]) => {
+    updateMatrix({ ...matrixObject, [list]: rows });
+  };
+
+  const setCell = (
+    list: MatrixRowList,
+    rowIndex: number,
+    key: string,
+    text: string
+  ) => {
+    const rows = list === "include" ? include : exclude;
+    updateRows(
+      list,
+      rows.map((row, index) => {
+        if (index !== rowIndex) {
+          return row;
+        }
+        const next = { ...row };
+        if (text.trim() === "") {
+          delete next[key];
+        } else {
+          next[key] = parseValue(text);
+        }
+        return next;
+      })
+    );
+  };
+
+  // New exclude rows start with one value; an empty exclude matches every job
+  const createRow = (list: MatrixRowList): MatrixInclude => {
+    const [axis] = axes;
+    const values = matrixObject[axis];
+    return list === "exclude" && Array.isArray(values) && values.length > 0
+      ? { [axis]: values[0] as MatrixValue }
+      : {};
+  };
+
+  const renderRows = (list: MatrixRowList, rows: MatrixInclude[]) => {
+    // Includes may add keys of their own; excludes only use the axes
+    const columns =
+      list === "include"
+        ? [
+            ...new Set([
+              ...axes,
+              ...rows.flatMap(row => Object.keys(row)),
+              ...includeKeys,
+            ]),
+          ]
+        : axes;
+
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-xs font-medium text-gray-700">{list}</span>
+          <button
+            onClick={() => updateRows(list, [...rows, createRow(list)])}
+            disabled={columns.length === 0}
+            className="flex items-center gap-1 text-xs text-purple-600 hover:text-purple-700 disabled:opacity-50"
+          >
+            <Plus className="w-3 h-3" />
+            Row
+          </button>
+        </div>
+        {rows.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  {columns.map(column => (
+                    <th
+                      key={column}
+                      className="px-1 py-0.5 font-medium text-left text-gray-600 border border-gray-200 bg-gray-50"
+                    >
+                      {column}
+                    </th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {columns.map(column => (
+                      <td key={column} className="border border-gray-200">
+                        <input
+                          type="text"
+                          value={
+                            row[column] === undefined
+                              ? ""
+                              : formatValue(row[column])
+                          }
+                          onChange={e =>
+                            setCell(list, rowIndex, column, e.target.value)
+                          }
+                          className="w-20 px-1 py-0.5 focus:outline-none focus:bg-purple-50"
+                        />
+                      </td>
+                    ))}
+                    <td className="pl-1">
+                      <button
+                        onClick={() =>
+                          updateRows(
+                            list,
+                            rows.filter((_, index) => index !== rowIndex)
+                          )
+                        }
+                        className="p-0.5 text-gray-400 hover:text-red-500"
+                        title="Remove row"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {list === "include" && rows.length > 0 && (
+          <input
+            type="text"
+            value={newIncludeKey}
+            onChange={e => setNewIncludeKey(e.target.value)}
+            onKeyDown={e => {
+              const key = newIncludeKey.trim();
+              if (e.key === "Enter" && key && !columns.includes(key)) {
+                setIncludeKeys([...includeKeys, key]);
+                setNewIncludeKey("");
+              }
+            }}
+            className="mt-1 w-28 px-1 py-0.5 text-xs border border-dashed border-gray-300 rounded"
+            placeholder="Extra key ↵"
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Matrix on/off and live job count */}
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!matrix}
+            onChange={e =>
+              updateStrategy({ matrix: e.target.checked ? {} : undefined })
+            }
+            className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+          />
+          Matrix
+        </label>
+        {expansion && (
+          <span className="flex items-center gap-1 text-xs font-medium text-purple-700">
+            <Grid3x3 className="w-3 h-3" />
+            {expansion.isDynamic && expansion.combinations.length === 0
+              ? "Jobs decided at run time"
+              : `${expansion.combinations.length} job${
+                  expansion.combinations.length !== 1 ? "s" : ""
+                }`}
+          </span>
+        )}
+      </div>
+
+      {matrix !== undefined && isExpression && (
+        <input
+          type="text"
+          value={matrix}
+          onChange={e =>
+            // An expression in place of the matrix, e.g. from a setup job
+            updateStrategy({
+              matrix: e.target.value as unknown as MatrixStrategy,
+            })
+          }
+          className="w-full px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+          placeholder="${{ fromJSON(needs.setup.outputs.matrix) }}"
+        />
+      )}
+
+      {matrix !== undefined && !isExpression && (
+        <>
+          {/* Axes as columns, values as chips */}
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {axes.map(axis => {
+              const values = matrixObject[axis];
+              return (
+                <div
+                  key={axis}
+                  className="flex-shrink-0 w-32 border border-gray-200 rounded"
+                >
+                  <div className="flex items-center gap-1 px-1 py-0.5 bg-gray-50 border-b border-gray-200">
+                    <input
+                      type="text"
+                      defaultValue={axis}
+                      onBlur={e => renameAxis(axis, e.target.value.trim())}
+                      className="flex-1 min-w-0 text-xs font-medium bg-transparent focus:outline-none"
+                    />
+                    <button
+                      onClick={() => removeAxis(axis)}
+                      className="p-0.5 text-gray-400 hover:text-red-500"
+                      title={`Remove ${axis}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <div className="p-1 space-y-1">
+                    {typeof values === "string" ? (
+                      <input
+                        type="text"
+                        value={values}
+                        onChange={e => setAxisValues(axis, e.target.value)}
+                        className="w-full px-1 text-xs font-mono border border-gray-200 rounded"
+                        title={
+                          ExpressionParser.containsExpression(values)
+                            ? "Values from an expression"
+                            : undefined
+                        }
+                      />
+                    ) : (
+                      <>
+                        <div className="flex flex-wrap gap-1">
+                          {(Array.isArray(values) ? values : []).map(
+                            (value, index) => (
+                              <span
+                                key={index}
+                                className="flex items-center gap-0.5 px-1.5 py-0.5 text-xs bg-purple-100 text-purple-800 rounded-full"
+                              >
+                                {formatValue(value)}
+                                <button
+                                  onClick={() =>
+                                    setAxisValues(
+                                      axis,
+                                      (values as MatrixValue[]).filter(
+                                        (_, i) => i !== index
+                                      )
+                                    )
+                                  }
+                                  className="text-purple-400 hover:text-purple-700"
+                                  title={`Remove ${formatValue(value)}`}
+                                >
+                                  <X className="w-2.5 h-2.5" />
+                                </button>
+                              </span>
+                            )
+                          )}
+                        </div>
+                        <input
+                          type="text"
+                          value={newValues[axis] || ""}
+                          onChange={e =>
+                            setNewValues({
+                              ...newValues,
+                              [axis]: e.target.value,
+                            })
+                          }
+                          onKeyDown={e => {
+                            if (e.key === "Enter") {
+                              addValue(axis);
+                            }
+                          }}
+                          className="w-full px-1 text-xs border border-gray-200 rounded"
+                          placeholder="Add value ↵"
+                        />
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            <div className="flex-shrink-0 w-28">
+              <input
+                type="text"
+                value={newAxis}
+                onChange={e => setNewAxis(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === "Enter") {
+                    addAxis();
+                  }
+                }}
+                className="w-full px-1 py-0.5 text-xs border border-dashed border-gray-300 rounded"
+                placeholder="New axis ↵"
+              />
+            </div>
+          </div>
+
+          {renderRows("include", include)}
+          {renderRows("exclude", exclude)}
+        </>
+      )}
+
+      {findings.length > 0 && (
+        <ul className="space-y-1">
+          {findings.map((finding, index) => (
+            <li
+              key={index}
+              className="flex gap-1 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded p-1"
+            >
+              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              <span>
+                {finding.path && <code className="mr-1">{finding.path}</code>}
+                {finding.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Execution controls */}
+      <div className="flex items-center gap-4">
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            checked={strategy?.["fail-fast"] !== false}
+            onChange={e =>
+              updateStrategy({
+                "fail-fast": e.target.checked ? undefined : false,
+              })
+            }
+            className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+          />
+          Fail fast
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          Max parallel
+          <input
+            type="number"
+            min="1"
+            value={strategy?.["max-parallel"] ?? ""}
+            onChange={e =>
+              updateStrategy({
+                "max-parallel": parseInt(e.target.value) || undefined,
+              })
+            }
+            className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+            placeholder="∞"
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
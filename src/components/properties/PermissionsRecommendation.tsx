@@ -0,0 +1,221 @@
+import { useMemo, useState } from "react";
+import { ShieldCheck, AlertTriangle, X } from "lucide-react";
+import { useWorkflowStore } from "../../store/workflow";
+import { useActionPermissionStore } from "../../store/action-permissions";
+import type { PermissionLevel } from "../../types/github-actions";
+import { PermissionsAnalyzer } from "../../utils/permissions-analyzer";
+import type { PermissionScope } from "../../utils/permissions-analyzer";
+
+const SCOPES: PermissionScope[] = [
+  "actions",
+  "attestations",
+  "checks",
+  "contents",
+  "deployments",
+  "id-token",
+  "issues",
+  "packages",
+  "pages",
+  "pull-requests",
+  "security-events",
+  "statuses",
+];
+
+// Key order does not matter when comparing permission blocks
+const isSamePermissions = (a: unknown, b: unknown) => {
+  const normalize = (value: unknown) =>
+    value && typeof value === "object"
+      ? JSON.stringify(Object.entries(value).sort())
+      : JSON.stringify(value);
+  return normalize(a) === normalize(b);
+};
+
+export default function PermissionsRecommendation() {
+  const { workflow, applyRecommendedPermissions } = useWorkflowStore();
+  const { customPermissions, setActionPermissions, removeActionPermissions } =
+    useActionPermissionStore();
+  const [scope, setScope] = useState<PermissionScope>("contents");
+  const [level, setLevel] = useState<PermissionLevel>("read");
+
+  const recommendations = useMemo(
+    () => PermissionsAnalyzer.recommend(workflow, customPermissions),
+    [workflow, customPermissions]
+  );
+  const warnings = useMemo(
+    () => PermissionsAnalyzer.findBroadPermissions(workflow),
+    [workflow]
+  );
+  // Jobs using actions with unknown needs are left as they are
+  const applicable = recommendations.filter(
+    ({ unknownActions }) => unknownActions.length === 0
+  );
+  const isApplied = applicable.every(({ jobId, permissions }) =>
+    isSamePermissions(workflow.jobs[jobId]?.permissions, permissions)
+  );
+
+  if (recommendations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="w-4 h-4 text-green-600" />
+        <h4 className="text-xs font-semibold text-gray-900">
+          Recommended job permissions
+        </h4>
+      </div>
+
+      {warnings.map((warning, index) => (
+        <div
+          key={index}
+          className="flex gap-2 p-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded"
+        >
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>{warning.message}</span>
+        </div>
+      ))}
+
+      {recommendations.map(
+        ({ jobId, permissions, reasons, unknownActions }) => (
+          <div key={jobId} className="p-2 border border-gray-200 rounded">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-900">{jobId}</span>
+              {unknownActions.length > 0 ? (
+                <span className="text-xs text-amber-700">Not applied</span>
+              ) : (
+                isSamePermissions(
+                  workflow.jobs[jobId]?.permissions,
+                  permissions
+                ) && <span className="text-xs text-green-600">Applied</span>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-1 mt-1">
+              {Object.keys(permissions).length === 0 ? (
+                <code className="text-xs text-gray-500">
+                  {"{}"} (no access)
+                </code>
+              ) : (
+                Object.entries(permissions).map(([name, value]) => (
+                  <code
+                    key={name}
+                    className={`px-1.5 py-0.5 text-xs rounded ${
+                      value === "write"
+                        ? "bg-orange-100 text-orange-800"
+                        : "bg-gray-100 text-gray-700"
+                    }`}
+                  >
+                    {name}: {value}
+                  </code>
+                ))
+              )}
+            </div>
+            {reasons.length > 0 && (
+              <ul className="mt-1 space-y-0.5">
+                {reasons.map((reason, index) => (
+                  <li key={index} className="text-xs text-gray-500">
+                    {reason.scope}: {reason.level} ← {reason.source}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {unknownActions.length > 0 && (
+              <p className="mt-2 text-xs text-amber-700">
+                This job keeps its permissions until the needs of every action
+                it uses are known.
+              </p>
+            )}
+            {unknownActions.map(action => (
+              <div key={action} className="mt-2 text-xs">
+                <p className="text-amber-700">
+                  Unknown needs for <code>{action}</code>
+                </p>
+                <div className="flex items-center gap-1 mt-1">
+                  <select
+                    value={scope}
+                    onChange={e => setScope(e.target.value as PermissionScope)}
+                    className="px-1 py-0.5 border border-gray-300 rounded"
+                  >
+                    {SCOPES.map(name => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={level}
+                    onChange={e => setLevel(e.target.value as PermissionLevel)}
+                    className="px-1 py-0.5 border border-gray-300 rounded"
+                  >
+                    <option value="read">read</option>
+                    <option value="write">write</option>
+                  </select>
+                  <button
+                    onClick={() =>
+                      setActionPermissions(action, {
+                        ...(customPermissions[action] || {}),
+                        [scope]: level,
+                      })
+                    }
+                    className="px-2 py-0.5 text-blue-600 hover:bg-blue-50 rounded"
+                  >
+                    Add
+                  </button>
+                  <button
+                    onClick={() => setActionPermissions(action, {})}
+                    className="px-2 py-0.5 text-gray-600 hover:bg-gray-100 rounded"
+                    title="This action does not use the GITHUB_TOKEN"
+                  >
+                    None
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {Object.keys(customPermissions).length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-gray-700">
+            Custom action permissions
+          </p>
+          {Object.entries(customPermissions).map(([action, permissions]) => (
+            <div
+              key={action}
+              className="flex items-center justify-between text-xs text-gray-600"
+            >
+              <span>
+                <code>{action}</code>:{" "}
+                {Object.entries(permissions)
+                  .map(([name, value]) => `${name}: ${value}`)
+                  .join(", ") || "none"}
+              </span>
+              <button
+                onClick={() => removeActionPermissions(action)}
+                className="p-0.5 text-gray-400 hover:text-red-500"
+                title={`Remove ${action}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={applyRecommendedPermissions}
+        disabled={isApplied}
+        className="w-full px-3 py-1.5 text-xs font-medium text-white bg-green-600 hover:bg-green-700 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {applicable.length === 0
+          ? "Set the needs of unknown actions first"
+          : isApplied
+            ? "Permissions are minimal"
+            : applicable.length < recommendations.length
+              ? `Apply recommended permissions to ${applicable.length} of ${recommendations.length} jobs`
+              : "Apply recommended permissions"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,474 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Workflow,
+  KeyRound,
+  Plus,
+  Trash2,
+  RefreshCw,
+  FileUp,
+  AlertCircle,
+} from "lucide-react";
+import type { Job, WorkflowCallTrigger } from "../../types/github-actions";
+import { useWorkflowStore } from "../../store/workflow";
+import { useCalledWorkflowStore } from "../../store/called-workflows";
+import { useGitHubStore } from "../../store/github";
+import { WorkflowMapper } from "../../utils/workflow-mapper";
+import { ReusableWorkflows } from "../../utils/reusable-workflows";
+
+interface ReusableWorkflowPropertiesProps {
+  nodeData: Record<string, unknown>;
+  onUpdate: (data: Record<string, unknown>) => void;
+}
+
+interface NameValueRow {
+  name: string;
+  value: string;
+}
+
+type InputValue = NonNullable<Job["with"]>[string];
+
+// Job keys may contain letters, digits, `-` and `_`, starting with a letter or `_`
+const JOB_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+const getNodeJob = (nodeData: Record<string, unknown>): Job =>
+  (nodeData.job as Job) || {
+    name: (nodeData.label as string) || "",
+    uses: (nodeData.uses as string) || "",
+  };
+
+const toRows = (values: Record<string, unknown> = {}): NameValueRow[] =>
+  Object.entries(values).map(([name, value]) => ({
+    name,
+    value: String(value),
+  }));
+
+/**
+ * Typed `with` value: booleans and numbers for inputs of that type, as
+ * declared by the callee or by the value being replaced
+ */
+const parseInputValue = (text: string, type?: string): InputValue => {
+  if (type === "boolean" && (text === "true" || text === "false")) {
+    return text === "true";
+  }
+  if (type === "number" && text.trim() !== "" && !isNaN(Number(text))) {
+    return Number(text);
+  }
+  return text;
+};
+
+export default function ReusableWorkflowProperties({
+  nodeData,
+  onUpdate,
+}: ReusableWorkflowPropertiesProps) {
+  const { nodes, selectedNode, validationResult } = useWorkflowStore();
+  const { repository, workflows, fetchWorkflow, addLocalWorkflow } =
+    useCalledWorkflowStore();
+  const { accessToken } = useGitHubStore();
+
+  const initialJob = getNodeJob(nodeData);
+  const [label, setLabel] = useState((nodeData.label as string) || "");
+  const [jobId, setJobId] = useState((nodeData.jobId as string) || "");
+  const [uses, setUses] = useState(initialJob.uses || "");
+  const [inputs, setInputs] = useState(toRows(initialJob.with));
+  const [inheritSecrets, setInheritSecrets] = useState(
+    initialJob.secrets === "inherit"
+  );
+  const [secrets, setSecrets] = useState(
+    toRows(initialJob.secrets === "inherit" ? {} : initialJob.secrets)
+  );
+
+  const reference = ReusableWorkflows.parseReference(uses);
+  const calleePath = ReusableWorkflows.getCalleePath(uses, repository);
+  const callee = calleePath ? workflows[calleePath] : undefined;
+  const definition: WorkflowCallTrigger | null | undefined =
+    callee?.status === "loaded" ? callee.definition : undefined;
+
+  // Keys of the other jobs; a job ID must not clash with them
+  const isJobIdTaken = nodes.some(
+    node =>
+      WorkflowMapper.isJobNode(node) &&
+      node.id !== selectedNode &&
+      node.data.jobId === jobId
+  );
+  const isJobIdValid = JOB_ID_PATTERN.test(jobId) && !isJobIdTaken;
+
+  // Reset state when nodeData changes (when switching between nodes)
+  useEffect(() => {
+    const job = getNodeJob(nodeData);
+    setLabel((nodeData.label as string) || "");
+    setJobId((nodeData.jobId as string) || "");
+    setUses(job.uses || "");
+    setInputs(toRows(job.with));
+    setInheritSecrets(job.secrets === "inherit");
+    setSecrets(toRows(job.secrets === "inherit" ? {} : job.secrets));
+  }, [nodeData]);
+
+  // Same-repository callees are loaded once when signed in
+  useEffect(() => {
+    if (calleePath && repository && accessToken && !callee) {
+      fetchWorkflow(calleePath);
+    }
+  }, [calleePath, repository, accessToken, callee, fetchWorkflow]);
+
+  // Write only the call fields back into the job object, so everything the
+  // form does not know about survives untouched
+  const buildJob = useCallback((): Job => {
+    const current = getNodeJob(nodeData);
+    const job: Job = { ...current, uses };
+    if (label !== nodeData.label) {
+      job.name = label;
+    }
+
+    const withValues: Record<string, InputValue> = {};
+    inputs
+      .filter(row => row.name.trim())
+      .forEach(({ name, value }) => {
+        const previous = current.with?.[name];
+        const type =
+          definition?.inputs?.[name]?.type ||
+          (previous !== undefined ? typeof previous : undefined);
+        withValues[name] = parseInputValue(value, type);
+      });
+    if (Object.keys(withValues).length > 0) {
+      job.with = withValues;
+    } else {
+      delete job.with;
+    }
+
+    const secretValues = Object.fromEntries(
+      secrets
+        .filter(row => row.name.trim())
+        .map(({ name, value }) => [name, value])
+    );
+    if (inheritSecrets) {
+      job.secrets = "inherit";
+    } else if (Object.keys(secretValues).length > 0) {
+      job.secrets = secretValues;
+    } else {
+      delete job.secrets;
+    }
+
+    return job;
+  }, [nodeData, label, uses, inputs, secrets, inheritSecrets, definition]);
+
+  // Debounce updates while typing
+  useEffect(() => {
+    const job = buildJob();
+    const hasChanges =
+      label !== nodeData.label ||
+      jobId !== nodeData.jobId ||
+      JSON.stringify(job) !== JSON.stringify(getNodeJob(nodeData));
+
+    if (!hasChanges) {
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      onUpdate({
+        label,
+        // Invalid keys are not applied, the node keeps its current key
+        ...(isJobIdValid && { jobId }),
+        job,
+        isValid: !!label.trim() && isJobIdValid && !!reference,
+        errors: [
+          ...(!label.trim() ? ["Job name is required"] : []),
+          ...(!isJobIdValid ? [`Job ID "${jobId}" is invalid or taken`] : []),
+          ...(!reference ? ["Invalid reusable workflow reference"] : []),
+        ],
+      });
+    }, 100);
+
+    return () => clearTimeout(timeoutId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [label, jobId, uses, inputs, secrets, inheritSecrets]);
+
+  const handleLoadFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !calleePath) {
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = loadEvent => {
+      addLocalWorkflow(calleePath, loadEvent.target?.result as string);
+    };
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  const updateRow = (
+    rows: NameValueRow[],
+    index: number,
+    changes: Partial<NameValueRow>
+  ) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row));
+
+  // Findings of the validator for this job's call
+  const findings = [
+    ...(validationResult?.errors || []),
+    ...(validationResult?.warnings || []),
+  ].filter(finding => finding.path.startsWith(`jobs.${nodeData.jobId}.`));
+
+  const missingInputs = Object.keys(definition?.inputs || {}).filter(
+    name => !inputs.some(row => row.name === name)
+  );
+  const missingSecrets = Object.keys(definition?.secrets || {}).filter(
+    name => !secrets.some(row => row.name === name)
+  );
+
+  const renderRows = (
+    rows: NameValueRow[],
+    setRows: (rows: NameValueRow[]) => void,
+    placeholder: string
+  ) => (
+    <div className="space-y-1">
+      {rows.map((row, index) => (
+        <div key={index} className="flex gap-1">
+          <input
+            type="text"
+            value={row.name}
+            onChange={e =>
+              setRows(updateRow(rows, index, { name: e.target.value.trim() }))
+            }
+            className="w-1/3 px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+            placeholder="name"
+          />
+          <input
+            type="text"
+            value={row.value}
+            onChange={e =>
+              setRows(updateRow(rows, index, { value: e.target.value }))
+            }
+            className="flex-1 min-w-0 px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+            placeholder={placeholder}
+          />
+          <button
+            onClick={() => setRows(rows.filter((_, i) => i !== index))}
+            className="p-1 text-gray-400 hover:text-red-600"
+            title="Remove"
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => setRows([...rows, { name: "", value: "" }])}
+        className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800"
+      >
+        <Plus className="w-3 h-3" />
+        Add
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Basic Information */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Job Name
+        </label>
+        <input
+          type="text"
+          value={label}
+          onChange={e => setLabel(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          placeholder="Enter job name"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Job ID
+        </label>
+        <input
+          type="text"
+          value={jobId}
+          onChange={e => setJobId(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          placeholder="deploy"
+        />
+        {!isJobIdValid && (
+          <p className="text-xs text-red-600 mt-1">
+            {isJobIdTaken
+              ? `Job ID "${jobId}" is already used by another job`
+              : "Job ID must start with a letter or _ and contain only letters, digits, - and _"}
+          </p>
+        )}
+      </div>
+
+      {/* Called workflow */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          <div className="flex items-center gap-2">
+            <Workflow className="w-4 h-4" />
+            Workflow
+          </div>
+        </label>
+        <input
+          type="text"
+          value={uses}
+          onChange={e => setUses(e.target.value.trim())}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          placeholder="./.github/workflows/deploy.yml"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          <code>./.github/workflows/file.yml</code> in this repository, or{" "}
+          <code>owner/repo/.github/workflows/file.yml@ref</code>
+        </p>
+
+        {reference && !calleePath && (
+          <p className="text-xs text-gray-500 mt-2">
+            Workflow in another repository; inputs and secrets are not checked.
+          </p>
+        )}
+        {calleePath && (
+          <div className="mt-2 p-2 bg-gray-50 rounded text-xs space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-gray-600 truncate">
+                {callee?.status === "loading"
+                  ? "Loading definition..."
+                  : callee?.status === "loaded"
+                    ? `Definition loaded from ${
+                        callee.source === "github"
+                          ? repository
+                          : callee.source === "workspace"
+                            ? "the workspace"
+                            : "file"
+                      }`
+                    : "Definition not loaded"}
+              </span>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => fetchWorkflow(calleePath)}
+                  disabled={!repository || callee?.status === "loading"}
+                  className="p-1 text-gray-500 hover:text-indigo-600 disabled:opacity-40"
+                  title="Load from GitHub"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                </button>
+                <label
+                  className="p-1 text-gray-500 hover:text-indigo-600 cursor-pointer"
+                  title="Load from file"
+                >
+                  <FileUp className="w-3 h-3" />
+                  <input
+                    type="file"
+                    accept=".yml,.yaml"
+                    onChange={handleLoadFile}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+            </div>
+            {callee?.status === "error" && (
+              <p className="text-red-600">{callee.error}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Inputs */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Inputs (<code>with</code>)
+        </label>
+        {renderRows(inputs, setInputs, "value or ${{ expression }}")}
+        {missingInputs.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {missingInputs.map(name => {
+              const input = definition!.inputs![name];
+              return (
+                <button
+                  key={name}
+                  onClick={() =>
+                    setInputs([...inputs, { name, value: input.default ?? "" }])
+                  }
+                  className={`px-2 py-0.5 text-xs rounded border ${
+                    input.required && input.default === undefined
+                      ? "border-red-300 text-red-700"
+                      : "border-gray-300 text-gray-600"
+                  } hover:bg-gray-50`}
+                  title={input.description}
+                >
+                  + {name}: {input.type || "string"}
+                  {input.required ? " *" : ""}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Secrets */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          <div className="flex items-center gap-2">
+            <KeyRound className="w-4 h-4" />
+            Secrets
+          </div>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 mb-2">
+          <input
+            type="checkbox"
+            checked={inheritSecrets}
+            onChange={e => setInheritSecrets(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Inherit all secrets (<code>secrets: inherit</code>)
+        </label>
+        {!inheritSecrets && (
+          <>
+            {renderRows(secrets, setSecrets, "${{ secrets.NAME }}")}
+            {missingSecrets.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {missingSecrets.map(name => (
+                  <button
+                    key={name}
+                    onClick={() =>
+                      setSecrets([
+                        ...secrets,
+                        { name, value: `\${{ secrets.${name} }}` },
+                      ])
+                    }
+                    className={`px-2 py-0.5 text-xs rounded border ${
+                      definition!.secrets![name].required
+                        ? "border-red-300 text-red-700"
+                        : "border-gray-300 text-gray-600"
+                    } hover:bg-gray-50`}
+                    title={definition!.secrets![name].description}
+                  >
+                    + {name}
+                    {definition!.secrets![name].required ? " *" : ""}
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Findings */}
+      {findings.length > 0 && (
+        <div className="space-y-1">
+          {findings.map((finding, index) => (
+            <div
+              key={index}
+              className="flex items-start gap-1 text-xs text-red-700 bg-red-50 p-2 rounded"
+            >
+              <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              <span>{finding.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Help Text */}
+      <div className="mt-6 p-3 bg-gray-50 rounded-md">
+        <p className="text-xs text-gray-600">
+          <strong>Called Workflow:</strong> This job runs another workflow that
+          has a <code>workflow_call</code> trigger. It has no runner or steps of
+          its own.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,52 +1,131 @@
-import { useState, useEffect, useCallback } from "react";
-import { Package, Code, Terminal, ExternalLink } from "lucide-react";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  Package,
+  Code,
+  Terminal,
+  ExternalLink,
+  ShieldAlert,
+} from "lucide-react";
+import type { Step } from "../../types/github-actions";
+import { WorkflowSecurity } from "../../utils/github-actions-security";
+import { useWorkflowStore } from "../../store/workflow";
+import { WorkflowMapper } from "../../utils/workflow-mapper";
+import ExpressionInput from "./ExpressionInput";
 
 interface StepPropertiesProps {
   nodeData: Record<string, unknown>;
   onUpdate: (data: Record<string, unknown>) => void;
 }
 
+interface StepFormValues {
+  label: string;
+  stepType: string;
+  actionName: string;
+  actionVersion: string;
+  runCommand: string;
+  shell: string;
+  workingDirectory: string;
+  continueOnError: boolean;
+  condition: string;
+}
+
+const getNodeStep = (nodeData: Record<string, unknown>): Step => {
+  if (nodeData.step) {
+    return nodeData.step as Step;
+  }
+
+  // Nodes dropped on the canvas only carry display fields
+  const actionName = nodeData.actionName as string | undefined;
+  const actionVersion = nodeData.actionVersion as string | undefined;
+  if (nodeData.type === "action") {
+    return {
+      name: nodeData.label as string,
+      ...(actionName && {
+        uses:
+          actionVersion && !actionName.includes("@")
+            ? `${actionName}@${actionVersion}`
+            : actionName,
+      }),
+    };
+  }
+  return {
+    name: nodeData.label as string,
+    ...(typeof nodeData.runCommand === "string" && {
+      run: nodeData.runCommand,
+    }),
+  };
+};
+
+/**
+ * Form values shown for a step, derived from the step object on the node.
+ * Composite actions have no default shell, so none is preselected there.
+ */
+const getStepFormValues = (
+  nodeData: Record<string, unknown>,
+  isComposite = false
+): StepFormValues => {
+  const step = getNodeStep(nodeData);
+  const uses = step.uses || "";
+  const versionIndex = uses.lastIndexOf("@");
+
+  return {
+    label: (nodeData.label as string) || "",
+    stepType: step.run !== undefined ? "run" : "action",
+    actionName: versionIndex > 0 ? uses.slice(0, versionIndex) : uses,
+    actionVersion: versionIndex > 0 ? uses.slice(versionIndex + 1) : "",
+    runCommand: step.run || "",
+    shell: step.shell || (isComposite ? "" : "bash"),
+    workingDirectory: step["working-directory"] || "",
+    continueOnError: step["continue-on-error"] === true,
+    condition: step.if || "",
+  };
+};
+
 export default function StepProperties({
   nodeData,
   onUpdate,
 }: StepPropertiesProps) {
-  const [label, setLabel] = useState((nodeData.label as string) || "");
-  const [stepType, setStepType] = useState(
-    (nodeData.type as string) || "action"
-  );
-  const [actionName, setActionName] = useState(
-    (nodeData.actionName as string) || ""
+  const isComposite = useWorkflowStore(
+    state => state.documentKind === "action"
   );
+  const { nodes, selectedNode } = useWorkflowStore();
+  const stepPath = selectedNode
+    ? WorkflowMapper.getNodePath(nodes, selectedNode)
+    : null;
+  const initialValues = getStepFormValues(nodeData, isComposite);
+  const [label, setLabel] = useState(initialValues.label);
+  const [stepType, setStepType] = useState(initialValues.stepType);
+  const [actionName, setActionName] = useState(initialValues.actionName);
   const [actionVersion, setActionVersion] = useState(
-    (nodeData.actionVersion as string) || ""
+    initialValues.actionVersion
   );
-  const [runCommand, setRunCommand] = useState(
-    (nodeData.runCommand as string) || ""
-  );
-  const [shell, setShell] = useState((nodeData.shell as string) || "bash");
+  const [runCommand, setRunCommand] = useState(initialValues.runCommand);
+  const [shell, setShell] = useState(initialValues.shell);
   const [workingDirectory, setWorkingDirectory] = useState(
-    (nodeData.workingDirectory as string) || ""
+    initialValues.workingDirectory
   );
   const [continueOnError, setContinueOnError] = useState(
-    (nodeData.continueOnError as boolean) || false
+    initialValues.continueOnError
+  );
+  const [condition, setCondition] = useState(initialValues.condition);
+  const injections = useMemo(
+    () => WorkflowSecurity.findStepInjections(getNodeStep(nodeData)),
+    [nodeData]
   );
 
   // Reset state when nodeData changes (when switching between nodes)
   useEffect(() => {
-    setLabel((nodeData.label as string) || "");
-    setStepType((nodeData.type as string) || "action");
-    setActionName((nodeData.actionName as string) || "");
-    setActionVersion((nodeData.actionVersion as string) || "");
-    setRunCommand((nodeData.runCommand as string) || "");
-    setShell((nodeData.shell as string) || "bash");
-    setWorkingDirectory((nodeData.workingDirectory as string) || "");
-    setContinueOnError((nodeData.continueOnError as boolean) || false);
-    setCondition((nodeData.condition as string) || "");
-  }, [nodeData]);
-
-  const [condition, setCondition] = useState(
-    (nodeData.condition as string) || ""
-  );
+    const values = getStepFormValues(nodeData, isComposite);
+    setLabel(values.label);
+    setStepType(values.stepType);
+    setActionName(values.actionName);
+    setActionVersion(values.actionVersion);
+    setRunCommand(values.runCommand);
+    setShell(values.shell);
+    setWorkingDirectory(values.workingDirectory);
+    setContinueOnError(values.continueOnError);
+    setCondition(values.condition);
+  }, [nodeData, isComposite]);
 
   const validateStep = useCallback(() => {
     if (!label.trim()) {
@@ -58,8 +137,11 @@ export default function StepProperties({
     if (stepType === "run" && !runCommand.trim()) {
       return false;
     }
+    if (stepType === "run" && isComposite && !shell) {
+      return false;
+    }
     return true;
-  }, [label, stepType, actionName, runCommand]);
+  }, [label, stepType, actionName, runCommand, shell, isComposite]);
 
   const getValidationErrors = useCallback(() => {
     const errors = [];
@@ -72,11 +154,104 @@ export default function StepProperties({
     if (stepType === "run" && !runCommand.trim()) {
       errors.push("Run command is required");
     }
+    if (stepType === "run" && isComposite && !shell) {
+      errors.push("Shell is required in composite actions");
+    }
     return errors;
-  }, [label, stepType, actionName, runCommand]);
+  }, [label, stepType, actionName, runCommand, shell, isComposite]);
+
+  // Write only the fields that were edited back into the step object
+  const buildStep = useCallback((): Step => {
+    const current = getStepFormValues(nodeData, isComposite);
+    const step: Step = { ...getNodeStep(nodeData) };
+
+    if (label !== current.label) {
+      step.name = label;
+    }
+    if (
+      stepType !== current.stepType ||
+      actionName !== current.actionName ||
+      actionVersion !== current.actionVersion ||
+      runCommand !== current.runCommand
+    ) {
+      if (stepType === "action") {
+        step.uses = actionVersion
+          ? `${actionName}@${actionVersion}`
+          : actionName;
+        delete step.run;
+        delete step.shell;
+      } else {
+        step.run = runCommand;
+        delete step.uses;
+        delete step.with;
+      }
+    }
+    if (stepType === "run" && shell !== current.shell) {
+      if (shell) {
+        step.shell = shell;
+      } else {
+        delete step.shell;
+      }
+    }
+    if (workingDirectory !== current.workingDirectory) {
+      if (workingDirectory) {
+        step["working-directory"] = workingDirectory;
+      } else {
+        delete step["working-directory"];
+      }
+    }
+    if (continueOnError !== current.continueOnError) {
+      if (continueOnError) {
+        step["continue-on-error"] = true;
+      } else {
+        delete step["continue-on-error"];
+      }
+    }
+    if (condition !== current.condition) {
+      if (condition) {
+        step.if = condition;
+      } else {
+        delete step.if;
+      }
+    }
+
+    return step;
+  }, [
+    nodeData,
+    isComposite,
+    label,
+    stepType,
+    actionName,
+    actionVersion,
+    runCommand,
+    shell,
+    workingDirectory,
+    continueOnError,
+    condition,
+  ]);
 
   // Use useEffect to update data when form values change, but debounce the updates
   useEffect(() => {
+    const current = getStepFormValues(nodeData, isComposite);
+    const values: StepFormValues = {
+      label,
+      stepType,
+      actionName,
+      actionVersion,
+      runCommand,
+      shell,
+      workingDirectory,
+      continueOnError,
+      condition,
+    };
+    const hasChanges = (Object.keys(values) as (keyof StepFormValues)[]).some(
+      key => values[key] !== current[key]
+    );
+
+    if (!hasChanges) {
+      return;
+    }
+
     const timeoutId = setTimeout(() => {
       const updatedData = {
         label,
@@ -84,10 +259,11 @@ export default function StepProperties({
         actionName: stepType === "action" ? actionName : undefined,
         actionVersion: stepType === "action" ? actionVersion : undefined,
         runCommand: stepType === "run" ? runCommand : undefined,
-        shell: stepType === "run" ? shell : undefined,
+        shell: stepType === "run" ? shell || undefined : undefined,
         workingDirectory: workingDirectory || undefined,
         continueOnError: continueOnError || undefined,
         condition: condition || undefined,
+        step: buildStep(),
         isValid: validateStep(),
         errors: getValidationErrors(),
       };
@@ -109,6 +285,15 @@ export default function StepProperties({
     condition,
   ]);
 
+  // Move untrusted event values out of the script and into `env`
+  const handleFixInjections = () => {
+    const step = WorkflowSecurity.fixStepInjections(getNodeStep(nodeData));
+    onUpdate({
+      step,
+      ...(step.run !== undefined && { runCommand: step.run }),
+    });
+  };
+
   const getStepIcon = () => {
     switch (stepType) {
       case "action":
@@ -265,12 +450,20 @@ export default function StepProperties({
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Shell
+              {isComposite && (
+                <span className="ml-1 text-xs font-normal text-gray-500">
+                  (required in composite actions)
+                </span>
+              )}
             </label>
             <select
               value={shell}
               onChange={e => setShell(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 ${
+                isComposite && !shell ? "border-red-300" : "border-gray-300"
+              }`}
             >
+              {isComposite && <option value="">Select a shell</option>}
               <option value="bash">bash</option>
               <option value="sh">sh</option>
               <option value="cmd">cmd</option>
@@ -281,6 +474,39 @@ export default function StepProperties({
         </>
       )}
 
+      {/* Script Injection Warnings */}
+      {injections.length > 0 && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-md">
+          <div className="flex items-center gap-2 mb-2">
+            <ShieldAlert className="w-4 h-4 text-amber-600" />
+            <span className="text-sm font-medium text-amber-900">
+              Script injection risk
+            </span>
+          </div>
+          <ul className="space-y-1 mb-2">
+            {injections.map((injection, index) => (
+              <li key={index} className="text-xs text-amber-800">
+                <code className="font-mono">{injection.expression}</code> in{" "}
+                {injection.key}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-amber-700 mb-2">
+            These values are set by whoever triggers the workflow and are pasted
+            into the script before it runs. Read them from environment variables
+            instead.
+          </p>
+          {injections.some(injection => injection.fixable) && (
+            <button
+              onClick={handleFixInjections}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-amber-600 hover:bg-amber-700 rounded"
+            >
+              Move to environment variables
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Working Directory */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -316,10 +542,11 @@ export default function StepProperties({
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Condition (optional)
           </label>
-          <input
-            type="text"
+          <ExpressionInput
             value={condition}
-            onChange={e => setCondition(e.target.value)}
+            onChange={setCondition}
+            path={stepPath && [...stepPath, "if"]}
+            isCondition
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 font-mono text-sm"
             placeholder="success() || failure()"
           />
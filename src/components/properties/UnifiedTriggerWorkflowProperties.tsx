@@ -1,5 +1,9 @@
 import { useState, useEffect, useCallback } from "react";
 import { useWorkflowStore } from "../../store/workflow";
+import PermissionsRecommendation from "./PermissionsRecommendation";
+import CronSchedulePreview from "./CronSchedulePreview";
+import FilterTester from "./FilterTester";
+import ExpressionInput from "./ExpressionInput";
 import type {
   GitHubWorkflow,
   WorkflowTriggers,
@@ -295,14 +299,14 @@ export default function UnifiedTriggerWorkflowProperties({
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Run Name (optional)
           </label>
-          <input
-            type="text"
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            placeholder="Deploy by @${{ github.actor }}"
+          <ExpressionInput
             value={workflow["run-name"] || ""}
-            onChange={e =>
-              handleWorkflowUpdate({ "run-name": e.target.value || undefined })
+            onChange={runName =>
+              handleWorkflowUpdate({ "run-name": runName || undefined })
             }
+            path={["run-name"]}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Deploy by @${{ github.actor }}"
           />
         </div>
       </div>
@@ -381,6 +385,16 @@ export default function UnifiedTriggerWorkflowProperties({
                         className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
                         placeholder="main, develop, feature/*"
                       />
+                      <div className="mt-2">
+                        <FilterTester
+                          event={trigger.key as "push" | "pull_request"}
+                          trigger={
+                            triggers[trigger.key as TriggerKey] as
+                              | PushTrigger
+                              | PullRequestTrigger
+                          }
+                        />
+                      </div>
                     </div>
                   )}
 
@@ -407,6 +421,13 @@ export default function UnifiedTriggerWorkflowProperties({
                         Daily: 0 0 * * * | Weekly: 0 0 * * 0 | Every 6h: 0 */6 *
                         * *
                       </p>
+                      <CronSchedulePreview
+                        cron={
+                          Array.isArray(triggers.schedule)
+                            ? triggers.schedule[0]?.cron || "0 0 * * *"
+                            : "0 0 * * *"
+                        }
+                      />
                     </div>
                   )}
 
@@ -541,6 +562,8 @@ export default function UnifiedTriggerWorkflowProperties({
             </label>
           ))}
         </div>
+
+        <PermissionsRecommendation />
       </div>
 
       {/* Help Text */}
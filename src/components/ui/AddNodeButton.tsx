@@ -44,6 +44,12 @@ export default function AddNodeButton({
       description: "Add a new job to the workflow",
       color: "purple",
     },
+    {
+      type: "reusable",
+      label: "Called Workflow",
+      description: "Add a job that calls a reusable workflow",
+      color: "indigo",
+    },
     {
       type: "step",
       label: "Action Step",
@@ -63,7 +69,9 @@ export default function AddNodeButton({
     switch (context) {
       case "trigger":
         // After a trigger, only jobs can be added directly
-        return allNodeTypes.filter(node => node.type === "job");
+        return allNodeTypes.filter(
+          node => node.type === "job" || node.type === "reusable"
+        );
       case "job":
         // After a job, only steps can be added
         return allNodeTypes.filter(node => node.type === "step");
@@ -101,6 +109,9 @@ export default function AddNodeButton({
         runsOn: "ubuntu-latest",
         stepCount: 0,
       }),
+      ...(nodeType === "reusable" && {
+        uses: "./.github/workflows/reusable.yml",
+      }),
       ...(nodeType === "step" && {
         action: label === "Action Step" ? "actions/checkout@v4" : undefined,
         run: label === "Run Step" ? "echo 'Hello World'" : undefined,
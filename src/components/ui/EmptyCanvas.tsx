@@ -1,5 +1,6 @@
 import { Plus, Zap, GitBranch, GitPullRequest, Play } from "lucide-react";
 import { useWorkflowStore } from "../../store/workflow";
+import { WorkflowMapper } from "../../utils/workflow-mapper";
 import AddNodeButton from "../ui/AddNodeButton";
 
 export default function EmptyCanvas() {
@@ -13,9 +14,10 @@ export default function EmptyCanvas() {
     }
   ) => {
     // Add the first node in the center of the canvas
+    const type = nodeType as "trigger" | "job" | "reusable" | "step";
     const newNode = {
-      id: `${nodeType}-${Date.now()}`,
-      type: nodeType as "trigger" | "job" | "step",
+      id: WorkflowMapper.createNodeId(type),
+      type,
       position: { x: 300, y: 200 }, // Center position
       data: nodeData,
     };
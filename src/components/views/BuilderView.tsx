@@ -1,20 +1,54 @@
 import { useState, useCallback, useEffect } from "react";
-import { Play, Upload, Save, Undo, Redo, Code2, History } from "lucide-react";
+import {
+  Play,
+  Upload,
+  Save,
+  Undo,
+  Redo,
+  Code2,
+  History,
+  GitCompare,
+} from "lucide-react";
 import { Link } from "react-router-dom";
+import { useDiffStore } from "../../store/diff";
 import { useWorkflowStore } from "../../store/workflow";
 import { useHistoryStore } from "../../store/history";
+import { useSimulationStore } from "../../store/simulation";
+import { WORKFLOW_EVENT_TRIGGERS } from "../../types/github-actions";
+import type { DocumentKind } from "../../types/github-actions";
+import { WorkflowSimulator } from "../../utils/workflow-simulator";
+import { WorkflowYaml } from "../../utils/workflow-yaml";
 import WorkflowCanvas from "../WorkflowCanvas";
 import Button from "../ui/Button";
 import ToolbarSeparator from "../ui/ToolbarSeparator";
 import PropertiesPanel from "../PropertiesPanel";
 import CodeSidebar from "../CodeSidebar";
 import HistoryPanel from "../HistoryPanel";
+import SimulationPanel from "../SimulationPanel";
+import CommitDialog from "../CommitDialog";
+import DiffPanel from "../DiffPanel";
+import WorkspaceTabs from "../WorkspaceTabs";
 
 export default function BuilderView() {
   const [showCodeSidebar, setShowCodeSidebar] = useState(false);
   const [showHistoryPanel, setShowHistoryPanel] = useState(false);
-  const { selectedNode, clearEdgeAnimations } = useWorkflowStore();
+  const [showCommitDialog, setShowCommitDialog] = useState(false);
+  const {
+    workflow,
+    selectedNode,
+    clearEdgeAnimations,
+    documentKind,
+    setDocumentKind,
+    remoteFile,
+    addToast,
+  } = useWorkflowStore();
   const { canUndo, canRedo, undo, redo, history } = useHistoryStore();
+  const {
+    isPanelOpen: isSimulating,
+    setEvent,
+    setPanelOpen,
+  } = useSimulationStore();
+  const { comparison, compareWithRemote, clearComparison } = useDiffStore();
 
   // Add keyboard shortcuts
   useEffect(() => {
@@ -32,6 +66,48 @@ export default function BuilderView() {
   // Automatically show left properties panel when there's something to show
   const showPropertiesLeft = !!selectedNode;
 
+  const handleToggleSimulation = useCallback(() => {
+    if (isSimulating) {
+      setPanelOpen(false);
+      setEvent(null);
+      return;
+    }
+
+    // Start with the first event the workflow listens to
+    const triggers = WorkflowYaml.getTriggerMap(workflow.on);
+    const eventName =
+      WORKFLOW_EVENT_TRIGGERS.find(name => Object.hasOwn(triggers, name)) ||
+      "push";
+    setEvent(WorkflowSimulator.createEvent(eventName));
+    setPanelOpen(true);
+  }, [isSimulating, workflow.on, setEvent, setPanelOpen]);
+
+  // The simulator only understands workflows
+  const handleDocumentKindChange = useCallback(
+    (kind: DocumentKind) => {
+      setPanelOpen(false);
+      setEvent(null);
+      clearComparison();
+      setDocumentKind(kind);
+    },
+    [setDocumentKind, setEvent, setPanelOpen, clearComparison]
+  );
+
+  const handleCompareWithRemote = useCallback(() => {
+    if (comparison) {
+      clearComparison();
+      return;
+    }
+    try {
+      compareWithRemote();
+    } catch (error) {
+      addToast(
+        `Could not read the GitHub version: ${(error as Error).message}`,
+        "error"
+      );
+    }
+  }, [comparison, compareWithRemote, clearComparison, addToast]);
+
   const handleUndo = useCallback(() => {
     undo(); // The history store now automatically restores state
   }, [undo]);
@@ -43,12 +119,42 @@ export default function BuilderView() {
   return (
     <div className="flex flex-1 overflow-hidden">
       <main className="flex-1 flex flex-col bg-gray-50 relative">
+        <WorkspaceTabs />
+
         {/* Toolbar */}
         <div className="border-b bg-white px-4 py-2 flex items-center justify-between">
           <div className="flex items-center gap-2">
-            <Button variant="primary">
+            <div className="flex bg-white border border-gray-300 rounded-md overflow-hidden text-sm font-medium">
+              {(
+                [
+                  ["workflow", "Workflow"],
+                  ["action", "Composite action"],
+                ] as const
+              ).map(([kind, label]) => (
+                <button
+                  key={kind}
+                  onClick={() => handleDocumentKindChange(kind)}
+                  className={`px-3 py-1.5 transition-colors cursor-pointer ${
+                    documentKind === kind
+                      ? "bg-blue-50 text-blue-700"
+                      : "text-gray-600 hover:bg-gray-50"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <ToolbarSeparator />
+
+            <Button
+              variant={isSimulating ? "secondary" : "primary"}
+              onClick={handleToggleSimulation}
+              disabled={documentKind === "action"}
+              title="Simulate which jobs and steps run for an event"
+            >
               <Play className="w-4 h-4" />
-              Test Workflow
+              {isSimulating ? "Stop Test" : "Test Workflow"}
             </Button>
 
             <ToolbarSeparator />
@@ -82,9 +188,26 @@ export default function BuilderView() {
               )}
             </Button>
 
+            <Button
+              onClick={handleCompareWithRemote}
+              variant={comparison ? "primary" : "secondary"}
+              disabled={!remoteFile && !comparison}
+              title={
+                remoteFile
+                  ? `Compare with ${remoteFile.repository}/${remoteFile.path}`
+                  : "Open a workflow from GitHub to compare with it"
+              }
+            >
+              <GitCompare className="w-4 h-4" />
+              {comparison ? "Hide Changes" : "Compare"}
+            </Button>
+
             <ToolbarSeparator />
 
-            <Button>
+            <Button
+              onClick={() => setShowCommitDialog(true)}
+              title="Commit to a GitHub repository"
+            >
               <Save className="w-4 h-4" />
               Save
             </Button>
@@ -133,11 +256,22 @@ export default function BuilderView() {
           onToggle={() => setShowCodeSidebar(!showCodeSidebar)}
         />
 
+        {/* Event Simulator */}
+        <SimulationPanel />
+
+        {/* Workflow Diff */}
+        <DiffPanel />
+
         {/* History Panel */}
         <HistoryPanel
           isVisible={showHistoryPanel}
           onToggle={() => setShowHistoryPanel(!showHistoryPanel)}
         />
+
+        <CommitDialog
+          isOpen={showCommitDialog}
+          onClose={() => setShowCommitDialog(false)}
+        />
       </main>
     </div>
   );
@@ -1,17 +1,24 @@
 import { useState } from "react";
 import { Upload, FileText, AlertCircle, CheckCircle } from "lucide-react";
 import { Link, useNavigate } from "react-router-dom";
-import * as yaml from "js-yaml";
 import { useWorkflowStore } from "../../store/workflow";
-import type { GitHubWorkflow } from "../../types/github-actions";
+import { useCalledWorkflowStore } from "../../store/called-workflows";
+import { useWorkspaceStore } from "../../store/workspace";
+import { WorkflowYaml, WorkflowYamlError } from "../../utils/workflow-yaml";
+import { WorkflowDocument } from "../../utils/workflow-document";
+import { CompositeActions } from "../../utils/composite-action";
+import type { CompositeAction } from "../../types/github-actions";
 
 export default function ImportView() {
   const navigate = useNavigate();
-  const { setWorkflow } = useWorkflowStore();
+  const { loadDocument, loadAction } = useWorkflowStore();
   const [dragActive, setDragActive] = useState(false);
   const [fileContent, setFileContent] = useState<string>("");
   const [fileName, setFileName] = useState<string>("");
-  const [parsedWorkflow, setParsedWorkflow] = useState<GitHubWorkflow | null>(
+  const [parsedDocument, setParsedDocument] = useState<WorkflowDocument | null>(
+    null
+  );
+  const [parsedAction, setParsedAction] = useState<CompositeAction | null>(
     null
   );
   const [importStatus, setImportStatus] = useState<
@@ -59,14 +66,24 @@ export default function ImportView() {
       setFileContent(content);
       setFileName(file.name);
 
-      // Parse YAML content
-      const parsed = yaml.load(content) as GitHubWorkflow;
-
-      // Basic validation
-      if (!parsed || typeof parsed !== "object") {
-        throw new Error("Invalid YAML structure");
+      // action.yml files open as composite actions
+      if (CompositeActions.isActionDocument(WorkflowYaml.load(content))) {
+        const action = CompositeActions.parse(content);
+        setParsedAction(action);
+        setParsedDocument(null);
+        setValidationWarnings(
+          action.runs.steps.length === 0 ? ["No steps defined in action"] : []
+        );
+        setImportStatus("success");
+        setErrorMessage("");
+        return;
       }
 
+      // Parse YAML content, keeping comments and formatting for export
+      const document = WorkflowDocument.parse(content);
+      const parsed = document.toWorkflow();
+
+      // Basic validation
       if (!parsed.name) {
         throw new Error("Workflow must have a 'name' field");
       }
@@ -85,14 +102,16 @@ export default function ImportView() {
         warnings.push("No jobs defined in workflow");
       }
 
-      setParsedWorkflow(parsed);
+      setParsedDocument(document);
+      setParsedAction(null);
       setValidationWarnings(warnings);
       setImportStatus("success");
       setErrorMessage("");
     } catch (error) {
       setImportStatus("error");
-      setParsedWorkflow(null);
-      if (error instanceof yaml.YAMLException) {
+      setParsedDocument(null);
+      setParsedAction(null);
+      if (error instanceof WorkflowYamlError) {
         setErrorMessage(`YAML parsing error: ${error.message}`);
       } else {
         setErrorMessage("Error processing file: " + (error as Error).message);
@@ -101,9 +120,16 @@ export default function ImportView() {
   };
 
   const handleImport = () => {
-    if (parsedWorkflow) {
+    if (parsedDocument || parsedAction) {
       try {
-        setWorkflow(parsedWorkflow);
+        // A local file belongs to no repository
+        useCalledWorkflowStore.getState().setRepository(null);
+        useWorkspaceStore.getState().openBlankFile();
+        if (parsedAction) {
+          loadAction(parsedAction);
+        } else if (parsedDocument) {
+          loadDocument(parsedDocument);
+        }
         navigate("/");
       } catch (error) {
         setImportStatus("error");
@@ -227,16 +253,22 @@ export default function ImportView() {
 
                 <button
                   onClick={handleImport}
-                  disabled={importStatus !== "success" || !parsedWorkflow}
+                  disabled={
+                    importStatus !== "success" ||
+                    (!parsedDocument && !parsedAction)
+                  }
                   className={`inline-flex items-center gap-2 px-4 py-2 text-sm font-medium border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                    importStatus === "success" && parsedWorkflow
+                    importStatus === "success" &&
+                    (parsedDocument || parsedAction)
                       ? "text-white bg-blue-600 border-blue-600 hover:bg-blue-700"
                       : "text-gray-400 bg-gray-100 border-gray-300 cursor-not-allowed"
                   }`}
                 >
                   {importStatus === "parsing"
                     ? "Parsing..."
-                    : "Import Workflow"}
+                    : parsedAction
+                      ? "Import Action"
+                      : "Import Workflow"}
                 </button>
               </div>
 
@@ -256,7 +288,8 @@ export default function ImportView() {
             <p className="text-sm text-blue-800">
               Upload a valid GitHub Actions workflow file (.yml or .yaml). The
               file should contain a complete workflow definition with jobs,
-              steps, and triggers.
+              steps, and triggers. Composite actions (action.yml with{" "}
+              <code>runs.using: composite</code>) open in the action builder.
             </p>
           </div>
         </div>
@@ -15,14 +15,16 @@ import {
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useGitHubStore } from "../../store/github";
+import { useCalledWorkflowStore } from "../../store/called-workflows";
 import { useWorkflowStore } from "../../store/workflow";
+import { useWorkspaceStore } from "../../store/workspace";
 import { GitHubService } from "../../utils/github-service";
 import type { GitHubRepository } from "../../store/github";
 import type { WorkflowFile } from "../../utils/github-service";
-import type { GitHubWorkflow } from "../../types/github-actions";
+import { WorkflowYaml } from "../../utils/workflow-yaml";
+import { WorkflowDocument } from "../../utils/workflow-document";
 import Button from "../ui/Button";
 import { GitHubAuthGuide } from "../auth/GitHubAuthGuide";
-import { load as parseYaml } from "js-yaml";
 
 interface RepositoryWithWorkflows extends GitHubRepository {
   workflows?: WorkflowFile[];
@@ -33,7 +35,7 @@ interface RepositoryWithWorkflows extends GitHubRepository {
 export function RepositoryBrowser() {
   const navigate = useNavigate();
   const { isAuthenticated, accessToken } = useGitHubStore();
-  const { setWorkflow, addToast } = useWorkflowStore();
+  const { loadDocument, addToast } = useWorkflowStore();
 
   const [repositories, setRepositories] = useState<RepositoryWithWorkflows[]>(
     []
@@ -131,7 +133,7 @@ export function RepositoryBrowser() {
       // Try to extract the workflow name from YAML content
       let displayName = workflow.name;
       try {
-        const workflowData = parseYaml(content) as GitHubWorkflow;
+        const workflowData = WorkflowYaml.parse(content);
         if (workflowData.name) {
           displayName = workflowData.name;
         }
@@ -167,18 +169,31 @@ export function RepositoryBrowser() {
         workflow.path
       );
 
-      // Parse and validate the YAML
-      const workflowData = parseYaml(yamlContent) as GitHubWorkflow;
-
-      // Load into the workflow store
-      setWorkflow({
-        name: workflowData.name || workflow.name.replace(/\.(yml|yaml)$/, ""),
-        on: workflowData.on || {},
-        jobs: workflowData.jobs || {},
-        env: workflowData.env || {},
-        permissions: workflowData.permissions || {},
-        "run-name": workflowData["run-name"] || "",
-      });
+      // Parse and validate the YAML, keeping the original document so
+      // comments and formatting survive a save back to the repository
+      const document = WorkflowDocument.parse(yamlContent);
+      const workflowData = document.toWorkflow();
+
+      // Called workflows with ./ references are loaded from this repository
+      useCalledWorkflowStore.getState().setRepository(repo.full_name);
+
+      // Load into the workflow store, in a new tab unless the current one
+      // is empty
+      useWorkspaceStore.getState().openBlankFile();
+      loadDocument(
+        document,
+        {
+          ...workflowData,
+          name: workflowData.name || workflow.name.replace(/\.(yml|yaml)$/, ""),
+          on: workflowData.on || {},
+          jobs: workflowData.jobs || {},
+        },
+        {
+          repository: repo.full_name,
+          path: workflow.path,
+          content: yamlContent,
+        }
+      );
 
       addToast(`Imported ${workflow.name} successfully!`, "success");
 
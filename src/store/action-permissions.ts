@@ -0,0 +1,44 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { WorkflowPermissions } from "../types/github-actions";
+import type { ActionPermissionTable } from "../utils/permissions-analyzer";
+
+interface ActionPermissionState {
+  // Token scopes of actions the built-in table does not know
+  customPermissions: ActionPermissionTable;
+
+  // Actions
+  setActionPermissions: (
+    action: string,
+    permissions: WorkflowPermissions
+  ) => void;
+  removeActionPermissions: (action: string) => void;
+}
+
+export const useActionPermissionStore = create<ActionPermissionState>()(
+  persist(
+    set => ({
+      customPermissions: {},
+
+      setActionPermissions: (action, permissions) => {
+        set(state => ({
+          customPermissions: {
+            ...state.customPermissions,
+            [action.split("@")[0]]: permissions,
+          },
+        }));
+      },
+
+      removeActionPermissions: action => {
+        set(state => {
+          const customPermissions = { ...state.customPermissions };
+          delete customPermissions[action];
+          return { customPermissions };
+        });
+      },
+    }),
+    {
+      name: "action-permissions-storage",
+    }
+  )
+);
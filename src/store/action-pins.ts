@@ -0,0 +1,34 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { ActionLockfile } from "../utils/action-pinning";
+
+interface ActionPinState {
+  // Offline lockfile of resolved `owner/repo@tag` pins
+  lockfile: ActionLockfile;
+
+  // Actions
+  addPins: (pins: ActionLockfile) => void;
+  clearPins: () => void;
+}
+
+export const useActionPinStore = create<ActionPinState>()(
+  persist(
+    set => ({
+      lockfile: {},
+
+      addPins: pins => {
+        if (Object.keys(pins).length === 0) {
+          return;
+        }
+        set(state => ({ lockfile: { ...state.lockfile, ...pins } }));
+      },
+
+      clearPins: () => {
+        set({ lockfile: {} });
+      },
+    }),
+    {
+      name: "action-pins-storage",
+    }
+  )
+);
@@ -0,0 +1,160 @@
+import { create } from "zustand";
+import type { WorkflowCallTrigger } from "../types/github-actions";
+import { GitHubService } from "../utils/github-service";
+import { ReusableWorkflows } from "../utils/reusable-workflows";
+import type {
+  CalledWorkflowDefinitions,
+  CalledWorkflows,
+} from "../utils/reusable-workflows";
+import { useGitHubStore } from "./github";
+
+export interface CalledWorkflowEntry {
+  status: "loading" | "loaded" | "error";
+  source: "github" | "local" | "workspace";
+  definition: WorkflowCallTrigger | null; // null when it cannot be called
+  error?: string;
+}
+
+interface CalledWorkflowState {
+  // owner/repo of the workflow being edited; ./ references resolve to it
+  repository: string | null;
+  // Workflows called by jobs, keyed by path in the repository
+  workflows: Record<string, CalledWorkflowEntry>;
+
+  // Actions
+  setRepository: (repository: string | null) => void;
+  addLocalWorkflow: (path: string, yaml: string) => void;
+  setWorkspaceWorkflows: (definitions: CalledWorkflowDefinitions) => void;
+  fetchWorkflow: (path: string) => Promise<void>;
+  removeWorkflow: (path: string) => void;
+  getCalledWorkflows: () => CalledWorkflows;
+}
+
+export const useCalledWorkflowStore = create<CalledWorkflowState>()(
+  (set, get) => ({
+    repository: null,
+    workflows: {},
+
+    setRepository: repository => {
+      if (repository === get().repository) {
+        return;
+      }
+      // Definitions fetched from another repository no longer apply
+      set(state => ({
+        repository,
+        workflows: Object.fromEntries(
+          Object.entries(state.workflows).filter(
+            ([, entry]) => entry.source === "local"
+          )
+        ),
+      }));
+    },
+
+    addLocalWorkflow: (path, yaml) => {
+      let entry: CalledWorkflowEntry;
+      try {
+        entry = {
+          status: "loaded",
+          source: "local",
+          definition: ReusableWorkflows.getDefinition(yaml),
+        };
+      } catch (error) {
+        entry = {
+          status: "error",
+          source: "local",
+          definition: null,
+          error: error instanceof Error ? error.message : "Invalid YAML",
+        };
+      }
+      set(state => ({ workflows: { ...state.workflows, [path]: entry } }));
+    },
+
+    // Workflows open in the workspace are the versions being edited, so
+    // they take the place of any other definition of the same path
+    setWorkspaceWorkflows: definitions => {
+      const { workflows } = get();
+      const removedPaths = Object.keys(workflows).filter(
+        path => workflows[path].source === "workspace" && !(path in definitions)
+      );
+      const changed = Object.entries(definitions).filter(
+        ([path, definition]) =>
+          workflows[path]?.source !== "workspace" ||
+          JSON.stringify(workflows[path].definition) !==
+            JSON.stringify(definition)
+      );
+      if (removedPaths.length === 0 && changed.length === 0) {
+        return;
+      }
+
+      const updated = { ...workflows };
+      removedPaths.forEach(path => delete updated[path]);
+      changed.forEach(([path, definition]) => {
+        updated[path] = { status: "loaded", source: "workspace", definition };
+      });
+      set({ workflows: updated });
+    },
+
+    fetchWorkflow: async path => {
+      const { repository } = get();
+      const { accessToken } = useGitHubStore.getState();
+      const setEntry = (entry: CalledWorkflowEntry) =>
+        set(state => ({ workflows: { ...state.workflows, [path]: entry } }));
+
+      if (!repository || !accessToken) {
+        setEntry({
+          status: "error",
+          source: "github",
+          definition: null,
+          error: repository
+            ? "Sign in to GitHub to load the called workflow"
+            : "Import the workflow from a repository to load called workflows",
+        });
+        return;
+      }
+
+      setEntry({ status: "loading", source: "github", definition: null });
+      try {
+        const [owner, repo] = repository.split("/");
+        const yaml = await new GitHubService(accessToken).getWorkflowContent(
+          owner,
+          repo,
+          path
+        );
+        setEntry({
+          status: "loaded",
+          source: "github",
+          definition: ReusableWorkflows.getDefinition(yaml),
+        });
+      } catch (error) {
+        setEntry({
+          status: "error",
+          source: "github",
+          definition: null,
+          error:
+            error instanceof Error ? error.message : "Failed to load workflow",
+        });
+      }
+    },
+
+    removeWorkflow: path => {
+      set(state => {
+        const workflows = { ...state.workflows };
+        delete workflows[path];
+        return { workflows };
+      });
+    },
+
+    // Loaded definitions in the shape the validators take
+    getCalledWorkflows: () => {
+      const { repository, workflows } = get();
+      return {
+        repository,
+        definitions: Object.fromEntries(
+          Object.entries(workflows)
+            .filter(([, entry]) => entry.status === "loaded")
+            .map(([path, entry]) => [path, entry.definition])
+        ),
+      };
+    },
+  })
+);
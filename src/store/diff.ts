@@ -0,0 +1,133 @@
+import { create } from "zustand";
+import type { VisualNode } from "../types/github-actions";
+import { CompositeActions } from "../utils/composite-action";
+import { WorkflowDiff } from "../utils/workflow-diff";
+import type { ChangeKind, WorkflowChange } from "../utils/workflow-diff";
+import { WorkflowDocument } from "../utils/workflow-document";
+import { WorkflowMapper } from "../utils/workflow-mapper";
+import { WorkflowYaml } from "../utils/workflow-yaml";
+import { useHistoryStore } from "./history";
+import type { HistoryAction } from "./history";
+import { useWorkflowStore } from "./workflow";
+
+// One version of the document in a comparison
+export interface DiffSide {
+  label: string;
+  yaml: string;
+  document: object;
+  nodes?: VisualNode[]; // Canvas nodes of the version, when it had any
+}
+
+export interface Comparison {
+  before: DiffSide;
+  after: DiffSide;
+  changes: WorkflowChange[];
+  highlights: Record<string, ChangeKind>; // Canvas nodes by ID
+}
+
+interface DiffState {
+  // The canvas highlights the changes while a comparison is shown
+  comparison: Comparison | null;
+
+  // Actions
+  compareHistory: (fromIndex: number, toIndex: number | null) => void;
+  compareWithRemote: () => void;
+  clearComparison: () => void;
+}
+
+// The document in the editor; `yaml` is what an export or commit writes
+const getCurrentSide = (yaml?: string): DiffSide => {
+  const { documentKind, workflow, action, nodes } = useWorkflowStore.getState();
+  const document = documentKind === "action" ? action : workflow;
+  return {
+    label: "Current",
+    yaml:
+      yaml ??
+      (documentKind === "action"
+        ? CompositeActions.stringify(action)
+        : WorkflowYaml.stringify(workflow)),
+    document,
+    nodes,
+  };
+};
+
+// History entries hold the state from before their action
+const getHistorySide = (entry: HistoryAction): DiffSide => {
+  const { documentKind, action } = useWorkflowStore.getState();
+  const { workflow, nodes } = entry.data;
+  if (documentKind === "action") {
+    const entryAction = WorkflowMapper.visualToAction(nodes, action);
+    return {
+      label: `Before "${entry.description}"`,
+      yaml: CompositeActions.stringify(entryAction),
+      document: entryAction,
+      nodes,
+    };
+  }
+  return {
+    label: `Before "${entry.description}"`,
+    yaml: WorkflowYaml.stringify(workflow),
+    document: workflow,
+    nodes,
+  };
+};
+
+const createComparison = (before: DiffSide, after: DiffSide): Comparison => {
+  const changes = WorkflowDiff.compare(before.document, after.document);
+  return {
+    before,
+    after,
+    changes,
+    highlights: WorkflowDiff.getNodeHighlights(
+      changes,
+      before.nodes,
+      after.nodes || []
+    ),
+  };
+};
+
+export const useDiffStore = create<DiffState>()(set => ({
+  comparison: null,
+
+  // `toIndex` null compares with the current state
+  compareHistory: (fromIndex, toIndex) => {
+    const { history } = useHistoryStore.getState();
+    const from = history[fromIndex];
+    const to = toIndex !== null ? history[toIndex] : undefined;
+    if (!from || (toIndex !== null && !to)) {
+      return;
+    }
+    set({
+      comparison: createComparison(
+        getHistorySide(from),
+        to ? getHistorySide(to) : getCurrentSide()
+      ),
+    });
+  },
+
+  compareWithRemote: () => {
+    const { remoteFile, documentKind, exportToYaml } =
+      useWorkflowStore.getState();
+    if (!remoteFile) {
+      return;
+    }
+    const document =
+      documentKind === "action"
+        ? CompositeActions.parse(remoteFile.content)
+        : WorkflowDocument.parse(remoteFile.content).toWorkflow();
+    set({
+      comparison: createComparison(
+        {
+          label: `${remoteFile.repository}/${remoteFile.path}`,
+          yaml: remoteFile.content,
+          document,
+        },
+        getCurrentSide(exportToYaml())
+      ),
+    });
+  },
+
+  clearComparison: () => {
+    set({ comparison: null });
+  },
+}));
@@ -40,6 +40,7 @@ interface HistoryState {
   getUndoActions: () => HistoryAction[];
   getRedoActions: () => HistoryAction[];
   clearHistory: () => void;
+  loadHistory: (history: HistoryAction[], currentIndex: number) => void;
   jumpToAction: (index: number) => HistoryAction | null;
 }
 
@@ -153,6 +154,11 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
     set({ history: [], currentIndex: -1 });
   },
 
+  // Swaps in the history of another document without restoring any state
+  loadHistory: (history, currentIndex) => {
+    set({ history, currentIndex });
+  },
+
   jumpToAction: (index: number) => {
     const { history } = get();
 
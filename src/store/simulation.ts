@@ -0,0 +1,43 @@
+import { create } from "zustand";
+import type { SimulationEvent } from "../utils/workflow-simulator";
+
+interface SimulationState {
+  // Simulated event; the canvas shows the overlay while it is set
+  event: SimulationEvent | null;
+  isPanelOpen: boolean;
+
+  // Actions
+  setEvent: (event: SimulationEvent | null) => void;
+  setPanelOpen: (isOpen: boolean) => void;
+  toggleFailingJob: (jobId: string) => void;
+}
+
+export const useSimulationStore = create<SimulationState>()(set => ({
+  event: null,
+  isPanelOpen: false,
+
+  setEvent: event => {
+    set({ event });
+  },
+
+  setPanelOpen: isOpen => {
+    set({ isPanelOpen: isOpen });
+  },
+
+  toggleFailingJob: jobId => {
+    set(state => {
+      if (!state.event) {
+        return {};
+      }
+      const { failingJobs } = state.event;
+      return {
+        event: {
+          ...state.event,
+          failingJobs: failingJobs.includes(jobId)
+            ? failingJobs.filter(id => id !== jobId)
+            : [...failingJobs, jobId],
+        },
+      };
+    });
+  },
+}));
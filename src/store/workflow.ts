@@ -1,12 +1,33 @@
 import { create } from "zustand";
 import type {
+  CompositeAction,
+  DocumentKind,
   GitHubWorkflow,
   VisualNode,
   VisualEdge,
   ValidationResult,
 } from "../types/github-actions";
 import { WorkflowMapper } from "../utils/workflow-mapper";
+import { WorkflowYaml, WorkflowYamlError } from "../utils/workflow-yaml";
+import { WorkflowDocument } from "../utils/workflow-document";
+import { WorkflowLayout } from "../utils/workflow-layout";
+import { YamlSourceMap } from "../utils/yaml-source-map";
+import { GitHubActionsValidator } from "../utils/github-actions-validator";
+import { ActionPinning } from "../utils/action-pinning";
+import { GitHubService } from "../utils/github-service";
+import { PermissionsAnalyzer } from "../utils/permissions-analyzer";
+import { CompositeActions } from "../utils/composite-action";
+import { WorkflowRefactoring } from "../utils/workflow-refactoring";
+import type {
+  CompositeExtraction,
+  ReusableExtraction,
+} from "../utils/workflow-refactoring";
+import type { LayoutDirection } from "../utils/workflow-layout";
 import { useHistoryStore } from "./history";
+import { useActionPinStore } from "./action-pins";
+import { useActionPermissionStore } from "./action-permissions";
+import { useGitHubStore } from "./github";
+import { useCalledWorkflowStore } from "./called-workflows";
 
 // Empty workflow template
 const EMPTY_WORKFLOW: GitHubWorkflow = {
@@ -15,40 +36,46 @@ const EMPTY_WORKFLOW: GitHubWorkflow = {
   jobs: {},
 };
 
-// Simple validation function
+// History entry of changes typed in the code editor
+const YAML_EDIT_DESCRIPTION = "Edited YAML";
+
+// Full validation, plus the name the editor requires for every workflow
 const validateGitHubWorkflow = (workflow: GitHubWorkflow): ValidationResult => {
-  const errors: { path: string; message: string; code: string }[] = [];
+  const result = GitHubActionsValidator.validateWorkflow(
+    workflow,
+    useCalledWorkflowStore.getState().getCalledWorkflows()
+  );
 
   if (!workflow.name || workflow.name.trim() === "") {
-    errors.push({
+    result.errors.unshift({
       path: "name",
       message: "Workflow name is required",
       code: "MISSING_NAME",
     });
   }
 
-  if (!workflow.on || Object.keys(workflow.on).length === 0) {
-    errors.push({
-      path: "on",
-      message: "At least one trigger is required",
-      code: "MISSING_TRIGGERS",
-    });
-  }
+  return { ...result, isValid: result.errors.length === 0 };
+};
 
-  if (!workflow.jobs || Object.keys(workflow.jobs).length === 0) {
-    errors.push({
-      path: "jobs",
-      message: "At least one job is required",
-      code: "MISSING_JOBS",
-    });
-  }
+// A file as last loaded from or committed to GitHub
+export interface RemoteFile {
+  repository: string; // owner/repo
+  path: string;
+  content: string;
+}
 
-  return {
-    isValid: errors.length === 0,
-    errors,
-    warnings: [],
-  };
-};
+// Everything needed to reopen a document as it was left, node positions
+// included; the source keeps the comments and formatting of imported files
+export interface DocumentSnapshot {
+  documentKind: DocumentKind;
+  workflow: GitHubWorkflow;
+  action: CompositeAction;
+  nodes: VisualNode[];
+  edges: VisualEdge[];
+  layoutDirection: LayoutDirection;
+  source: string | null;
+  remoteFile: RemoteFile | null;
+}
 
 interface ToastItem {
   id: string;
@@ -69,19 +96,46 @@ interface WorkflowState {
   validationResult: ValidationResult | null;
   toasts: ToastItem[];
   animatedEdges: Set<string>; // New state for tracking animated edges
+  sourceDocument: WorkflowDocument | null; // Original YAML of an imported file
+  layoutDirection: LayoutDirection; // Direction of the job dependency layout
+  documentKind: DocumentKind; // Whether the canvas shows the workflow or action
+  action: CompositeAction; // Composite action edited when documentKind is "action"
+  remoteFile: RemoteFile | null; // GitHub version of the document
 
   // Actions
   setWorkflow: (workflow: GitHubWorkflow) => void;
+  setDocumentKind: (kind: DocumentKind) => void;
+  loadAction: (action: CompositeAction) => void;
+  loadDocument: (
+    document: WorkflowDocument,
+    workflow?: GitHubWorkflow,
+    remoteFile?: RemoteFile
+  ) => void;
+  setRemoteFile: (remoteFile: RemoteFile | null) => void;
   updateWorkflow: (updates: Partial<GitHubWorkflow>) => void;
   importFromYaml: (yamlContent: string) => void;
+  // `continueEdit` adds the edit to the previous YAML edit, so typing in one
+  // go is undone at once
+  applyYamlEdit: (yamlContent: string, continueEdit?: boolean) => void;
   exportToYaml: () => string;
+  pinAllActions: () => Promise<{ pinned: number; unresolved: string[] }>;
+  applyRecommendedPermissions: () => void;
+  extractCompositeAction: (
+    jobId: string,
+    stepIndexes: number[],
+    name: string
+  ) => CompositeExtraction;
+  extractReusableWorkflow: (
+    jobIds: string[],
+    name: string
+  ) => ReusableExtraction;
   syncFromVisual: () => void;
   syncToVisual: () => void;
   addNode: (node: VisualNode) => void;
   updateNode: (id: string, updates: Partial<VisualNode>) => void;
   updateNodeData: (id: string, data: Record<string, unknown>) => void;
   updateNodePositions: (nodes: VisualNode[]) => void;
-  autoArrangeNodes: () => void;
+  autoArrangeNodes: (direction?: LayoutDirection) => void;
   removeNode: (id: string) => void;
   addEdge: (edge: VisualEdge) => void;
   updateEdges: (edges: VisualEdge[]) => void;
@@ -91,7 +145,9 @@ interface WorkflowState {
     targetId: string
   ) => { isValid: boolean; error?: string };
   isValidConnectionType: (sourceType: string, targetType: string) => boolean;
-  setSelectedNode: (id: string | null) => void;
+  // `selectOnCanvas` also makes the node the only one selected on the
+  // canvas, for selections made elsewhere such as the code editor
+  setSelectedNode: (id: string | null, selectOnCanvas?: boolean) => void;
   setShowWorkflowProperties: (show: boolean) => void;
   validateWorkflow: () => void;
   clearWorkflow: () => void;
@@ -103,6 +159,8 @@ interface WorkflowState {
     nodes: VisualNode[];
     edges: VisualEdge[];
   }) => void;
+  getSnapshot: () => DocumentSnapshot;
+  loadSnapshot: (snapshot: DocumentSnapshot) => void;
   toggleEdgeAnimation: (nodeId: string) => void; // New method for toggling edge animation
   clearEdgeAnimations: () => void; // New method to clear all animations
 }
@@ -119,14 +177,54 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   validationResult: null,
   toasts: [],
   animatedEdges: new Set<string>(), // Initialize animated edges set
+  sourceDocument: null,
+  layoutDirection: "TB",
+  documentKind: "workflow",
+  action: CompositeActions.createDefault(),
+  remoteFile: null,
 
   // Actions
   setWorkflow: workflow => {
-    set({ workflow });
+    get().setDocumentKind("workflow");
+    set({ workflow, sourceDocument: null, remoteFile: null });
+    get().syncToVisual();
+    get().validateWorkflow();
+  },
+
+  // Both documents stay in memory; the canvas shows one of them
+  setDocumentKind: kind => {
+    if (kind === get().documentKind) {
+      return;
+    }
+    // History snapshots hold the nodes of one kind of document
+    useHistoryStore.getState().clearHistory();
+    set({ documentKind: kind, nodes: [], edges: [], selectedNode: null });
+    get().syncToVisual();
+    get().validateWorkflow();
+  },
+
+  loadAction: action => {
+    get().setDocumentKind("action");
+    set({ action, remoteFile: null });
+    get().syncToVisual();
+    get().validateWorkflow();
+  },
+
+  loadDocument: (document, workflow, remoteFile) => {
+    get().setDocumentKind("workflow");
+    set({
+      workflow: workflow || document.toWorkflow(),
+      sourceDocument: document,
+      remoteFile: remoteFile || null,
+    });
     get().syncToVisual();
     get().validateWorkflow();
   },
 
+  setRemoteFile: remoteFile => {
+    set({ remoteFile });
+  },
+
   updateWorkflow: updates => {
     const currentWorkflow = get().workflow;
     const currentNodes = get().nodes;
@@ -153,45 +251,275 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
 
   importFromYaml: yamlContent => {
     try {
-      // This would use a YAML parser like js-yaml
-      // For now, we'll assume the workflow is provided as a JSON string
-      const workflow = JSON.parse(yamlContent) as GitHubWorkflow;
-      get().setWorkflow(workflow);
-    } catch {
+      if (CompositeActions.isActionDocument(WorkflowYaml.load(yamlContent))) {
+        get().loadAction(CompositeActions.parse(yamlContent));
+        return;
+      }
+      get().loadDocument(WorkflowDocument.parse(yamlContent));
+      // `uses: owner/repo@<sha> # v1.2.3` comments teach the offline lockfile
+      useActionPinStore
+        .getState()
+        .addPins(ActionPinning.readPinComments(yamlContent));
+    } catch (error) {
       set({
-        errors: ["Failed to parse YAML content"],
+        errors: [`Failed to parse YAML content: ${(error as Error).message}`],
         isValid: false,
       });
     }
   },
 
+  // YAML typed in the code editor becomes the document of record; parse
+  // errors are thrown for the editor to show
+  applyYamlEdit: (yamlContent, continueEdit = false) => {
+    const { workflow: currentWorkflow, nodes, edges, documentKind } = get();
+    const document =
+      documentKind === "workflow" ? WorkflowDocument.parse(yamlContent) : null;
+    const workflow = document?.toWorkflow();
+    const action = document ? null : CompositeActions.parse(yamlContent);
+
+    // YAML that parses but cannot be shown yet, such as a job with no body,
+    // is reported like a syntax error and leaves the document as it was
+    const unmappable = workflow
+      ? WorkflowMapper.findUnmappable(workflow)
+      : action && WorkflowMapper.findUnmappableInAction(action);
+    if (unmappable) {
+      const sourceMap = YamlSourceMap.parse(yamlContent);
+      const range = sourceMap.getRange(unmappable.path);
+      const position = range ? sourceMap.getLineColumn(range.start) : null;
+      throw new WorkflowYamlError(
+        unmappable.message,
+        position?.line,
+        position?.column
+      );
+    }
+
+    const history = useHistoryStore.getState();
+    const lastAction = history.history[history.currentIndex];
+    const isContinued =
+      continueEdit &&
+      history.currentIndex === history.history.length - 1 &&
+      lastAction?.description === YAML_EDIT_DESCRIPTION;
+    if (!isContinued) {
+      history.addAction({
+        type: "update_workflow",
+        description: YAML_EDIT_DESCRIPTION,
+        data: { workflow: currentWorkflow, nodes, edges },
+      });
+    }
+
+    if (document && workflow) {
+      set({ workflow, sourceDocument: document });
+    } else if (action) {
+      set({ action });
+    }
+    get().syncToVisual();
+    // Nodes the edit did not touch stay where they were on the canvas
+    set(state => ({
+      nodes: WorkflowLayout.keepPositions(state.nodes, nodes),
+    }));
+    get().validateWorkflow();
+  },
+
   exportToYaml: () => {
-    const { workflow } = get();
-    // This would use a YAML serializer
-    // For now, return JSON string
-    return JSON.stringify(workflow, null, 2);
+    const { workflow, sourceDocument, documentKind, action } = get();
+    // Imported files keep their comments and formatting
+    const yaml =
+      documentKind === "action"
+        ? CompositeActions.stringify(action)
+        : sourceDocument
+          ? sourceDocument.render(workflow)
+          : WorkflowYaml.stringify(workflow);
+    return ActionPinning.annotateYaml(
+      yaml,
+      useActionPinStore.getState().lockfile
+    );
+  },
+
+  pinAllActions: async () => {
+    const { accessToken } = useGitHubStore.getState();
+    const pinStore = useActionPinStore.getState();
+    const isAction = get().documentKind === "action";
+    const getUnpinned = (workflow: GitHubWorkflow, action: CompositeAction) =>
+      isAction
+        ? ActionPinning.getUnpinnedActionsInAction(action)
+        : ActionPinning.getUnpinnedActions(workflow);
+
+    // Resolve through GitHub when signed in, the offline lockfile otherwise
+    const { pins, unresolved } = await ActionPinning.resolve(
+      getUnpinned(get().workflow, get().action),
+      pinStore.lockfile,
+      accessToken ? new GitHubService(accessToken) : undefined
+    );
+    pinStore.addPins(pins);
+
+    const { workflow: currentWorkflow, action: currentAction } = get();
+    const { lockfile } = useActionPinStore.getState();
+    const workflow = isAction
+      ? currentWorkflow
+      : ActionPinning.pinWorkflow(currentWorkflow, lockfile);
+    const action = isAction
+      ? ActionPinning.pinAction(currentAction, lockfile)
+      : currentAction;
+    const pinned =
+      getUnpinned(currentWorkflow, currentAction).length -
+      getUnpinned(workflow, action).length;
+
+    if (workflow !== currentWorkflow || action !== currentAction) {
+      const { nodes, edges } = get();
+      useHistoryStore.getState().addAction({
+        type: "update_workflow",
+        description: `Pinned ${pinned} action${pinned !== 1 ? "s" : ""} to commit SHAs`,
+        data: { workflow: currentWorkflow, nodes, edges },
+      });
+
+      set({ workflow, action });
+      get().syncToVisual();
+      // Only `uses` changes, so every node keeps its place on the canvas
+      set(state => ({
+        nodes: WorkflowLayout.keepPositions(state.nodes, nodes),
+      }));
+      get().validateWorkflow();
+    }
+
+    return { pinned, unresolved };
+  },
+
+  applyRecommendedPermissions: () => {
+    const { workflow: currentWorkflow, nodes, edges } = get();
+    const recommendations = PermissionsAnalyzer.recommend(
+      currentWorkflow,
+      useActionPermissionStore.getState().customPermissions
+    );
+
+    useHistoryStore.getState().addAction({
+      type: "update_workflow",
+      description: "Applied least-privilege permissions",
+      data: { workflow: currentWorkflow, nodes, edges },
+    });
+
+    set({
+      workflow: PermissionsAnalyzer.applyRecommendations(
+        currentWorkflow,
+        recommendations
+      ),
+    });
+    get().syncToVisual();
+    set(state => ({
+      nodes: WorkflowLayout.keepPositions(state.nodes, nodes),
+    }));
+    get().validateWorkflow();
+  },
+
+  // Each refactoring is a single undoable step; the extracted file is
+  // returned for the caller to save
+  extractCompositeAction: (jobId, stepIndexes, name) => {
+    const { workflow: currentWorkflow, nodes, edges } = get();
+    const extraction = WorkflowRefactoring.extractCompositeAction(
+      currentWorkflow,
+      jobId,
+      stepIndexes,
+      name
+    );
+
+    useHistoryStore.getState().addAction({
+      type: "update_workflow",
+      description: `Extracted ${stepIndexes.length} step${
+        stepIndexes.length !== 1 ? "s" : ""
+      } into composite action ${extraction.path}`,
+      data: { workflow: currentWorkflow, nodes, edges },
+    });
+
+    set({ workflow: extraction.workflow });
+    get().syncToVisual();
+    // The job's steps are restacked; the other nodes stay where they were
+    set(state => ({
+      nodes: WorkflowLayout.keepPositions(state.nodes, nodes),
+    }));
+    get().validateWorkflow();
+    return extraction;
+  },
+
+  extractReusableWorkflow: (jobIds, name) => {
+    const { workflow: currentWorkflow, nodes, edges } = get();
+    const extraction = WorkflowRefactoring.extractReusableWorkflow(
+      currentWorkflow,
+      jobIds,
+      name
+    );
+
+    useHistoryStore.getState().addAction({
+      type: "update_workflow",
+      description: `Extracted ${jobIds.length} job${
+        jobIds.length !== 1 ? "s" : ""
+      } into reusable workflow ${extraction.path}`,
+      data: { workflow: currentWorkflow, nodes, edges },
+    });
+
+    // The calling job is checked against the extracted workflow's inputs
+    useCalledWorkflowStore
+      .getState()
+      .addLocalWorkflow(
+        extraction.path,
+        WorkflowYaml.stringify(extraction.extracted)
+      );
+    set({ workflow: extraction.workflow });
+    get().syncToVisual();
+    // Only the calling job is placed by the layout
+    set(state => ({
+      nodes: WorkflowLayout.keepPositions(state.nodes, nodes),
+    }));
+    get().validateWorkflow();
+    return extraction;
   },
 
   syncFromVisual: () => {
-    const { nodes, edges, workflow: currentWorkflow } = get();
+    const { workflow: currentWorkflow } = get();
 
-    const workflow = WorkflowMapper.visualToYaml(nodes, edges);
+    // Nodes added on the canvas get their job key and step order here
+    const { nodes, edges } = WorkflowMapper.normalizeGraph(
+      get().nodes,
+      get().edges
+    );
 
-    // Preserve the existing workflow name and other metadata
-    workflow.name = currentWorkflow.name || workflow.name;
-    if (currentWorkflow["run-name"]) {
-      workflow["run-name"] = currentWorkflow["run-name"];
+    if (get().documentKind === "action") {
+      set({
+        nodes,
+        edges,
+        action: WorkflowMapper.visualToAction(nodes, get().action),
+      });
+      get().validateWorkflow();
+      return;
     }
 
-    set({ workflow });
+    // Workflow-level settings come from the current workflow
+    const workflow = WorkflowMapper.visualToYaml(nodes, edges, currentWorkflow);
+
+    set({ nodes, edges, workflow });
     get().validateWorkflow();
   },
 
   syncToVisual: () => {
-    const { workflow } = get();
-    const { nodes, edges } = WorkflowMapper.yamlToVisual(workflow);
-    const optimizedNodes = WorkflowMapper.optimizeNodeLayout(nodes);
-    set({ nodes: optimizedNodes, edges });
+    const { workflow, layoutDirection, selectedNode, animatedEdges } = get();
+
+    // Reuse the IDs of existing nodes so selection and animations survive
+    const { nodes, edges } =
+      get().documentKind === "action"
+        ? WorkflowMapper.actionToVisual(get().action, get().nodes)
+        : WorkflowMapper.yamlToVisual(workflow, get().nodes);
+    const layoutNodes = WorkflowLayout.applyLayeredLayout(nodes, edges, {
+      direction: layoutDirection,
+    });
+
+    set({
+      nodes: layoutNodes,
+      edges,
+      selectedNode: nodes.some(node => node.id === selectedNode)
+        ? selectedNode
+        : null,
+      animatedEdges: new Set(
+        edges.filter(edge => animatedEdges.has(edge.id)).map(edge => edge.id)
+      ),
+    });
   },
 
   addNode: node => {
@@ -275,17 +603,24 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     get().syncFromVisual();
   },
 
-  autoArrangeNodes: () => {
-    const { nodes } = get();
+  autoArrangeNodes: direction => {
+    if (direction) {
+      set({ layoutDirection: direction });
+    }
+
+    const { nodes, edges, layoutDirection } = get();
     if (nodes.length === 0) {
       return;
     }
 
-    // Apply the same waterfall layout as initial render
-    const arrangedNodes = WorkflowMapper.optimizeNodeLayout(nodes);
+    // Arrange the current graph in place, so edges rewired on the canvas
+    // since the last sync are respected
+    const arrangedNodes = WorkflowLayout.applyLayeredLayout(nodes, edges, {
+      direction: layoutDirection,
+    });
 
     set({ nodes: arrangedNodes });
-    get().syncToVisual();
+    get().syncFromVisual();
   },
 
   removeNode: id => {
@@ -307,12 +642,23 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
       },
     });
 
+    // Steps belong to their job and are removed along with it
+    const removedIds = new Set([
+      id,
+      ...currentNodes
+        .filter(node => node.data.parentJobId === id)
+        .map(node => node.id),
+    ]);
+
     set(state => ({
-      nodes: state.nodes.filter(node => node.id !== id),
+      nodes: state.nodes.filter(node => !removedIds.has(node.id)),
       edges: state.edges.filter(
-        edge => edge.source !== id && edge.target !== id
+        edge => !removedIds.has(edge.source) && !removedIds.has(edge.target)
       ),
-      selectedNode: state.selectedNode === id ? null : state.selectedNode,
+      selectedNode:
+        state.selectedNode && removedIds.has(state.selectedNode)
+          ? null
+          : state.selectedNode,
     }));
     get().syncFromVisual();
   },
@@ -399,13 +745,22 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     // - Triggers can connect to jobs
     // - Jobs can connect to other jobs (dependencies)
     // - Jobs can connect to steps (job contains steps)
+    // - Jobs calling a reusable workflow have no steps of their own
     // - Steps cannot connect to other nodes (they are contained within jobs)
 
     switch (sourceType) {
       case "trigger":
-        return targetType === "job";
+        return targetType === "job" || targetType === "reusable";
       case "job":
-        return targetType === "job" || targetType === "step";
+        return (
+          targetType === "job" ||
+          targetType === "reusable" ||
+          targetType === "step"
+        );
+      case "reusable":
+        return targetType === "job" || targetType === "reusable";
+      case "action":
+        return targetType === "step";
       case "step":
         return false; // Steps cannot be source of connections
       default:
@@ -420,8 +775,17 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     get().syncFromVisual();
   },
 
-  setSelectedNode: id => {
+  setSelectedNode: (id, selectOnCanvas) => {
     set({ selectedNode: id, showWorkflowProperties: false });
+    if (selectOnCanvas) {
+      set(state => ({
+        nodes: state.nodes.map(node =>
+          !!node.selected === (node.id === id)
+            ? node
+            : { ...node, selected: node.id === id }
+        ),
+      }));
+    }
   },
 
   setShowWorkflowProperties: show => {
@@ -432,8 +796,11 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   },
 
   validateWorkflow: () => {
-    const { workflow } = get();
-    const validationResult = validateGitHubWorkflow(workflow);
+    const { workflow, documentKind, action } = get();
+    const validationResult =
+      documentKind === "action"
+        ? CompositeActions.validate(action)
+        : validateGitHubWorkflow(workflow);
 
     set({
       validationResult,
@@ -445,8 +812,11 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   },
 
   clearWorkflow: () => {
+    get().setDocumentKind("workflow");
     set({
       workflow: { name: "", on: {}, jobs: {} },
+      sourceDocument: null,
+      remoteFile: null,
       nodes: [],
       edges: [],
       selectedNode: null,
@@ -457,8 +827,12 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   },
 
   resetToDefault: () => {
+    get().setDocumentKind("workflow");
     set({
       workflow: EMPTY_WORKFLOW,
+      action: CompositeActions.createDefault(),
+      sourceDocument: null,
+      remoteFile: null,
       nodes: [],
       edges: [],
       selectedNode: null,
@@ -488,11 +862,71 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   },
 
   restoreState: state => {
+    const { selectedNode, animatedEdges } = get();
+
+    // Node IDs are stable, so selection and animations carry over to the
+    // restored graph when their nodes and edges still exist
     set({
       workflow: state.workflow,
       nodes: state.nodes,
       edges: state.edges,
+      // The action is rebuilt from its nodes, which hold all of its data
+      ...(get().documentKind === "action" && {
+        action: WorkflowMapper.visualToAction(state.nodes, get().action),
+      }),
+      selectedNode: state.nodes.some(node => node.id === selectedNode)
+        ? selectedNode
+        : null,
+      animatedEdges: new Set(
+        state.edges
+          .filter(edge => animatedEdges.has(edge.id))
+          .map(edge => edge.id)
+      ),
+    });
+    get().validateWorkflow();
+  },
+
+  getSnapshot: () => {
+    const {
+      documentKind,
+      workflow,
+      action,
+      nodes,
+      edges,
+      layoutDirection,
+      sourceDocument,
+      remoteFile,
+    } = get();
+    return {
+      documentKind,
+      workflow,
+      action,
+      // Canvas selection is not part of the document
+      nodes: nodes.map(node => ({ ...node, selected: undefined })),
+      edges,
+      layoutDirection,
+      source: sourceDocument ? sourceDocument.render(workflow) : null,
+      remoteFile,
+    };
+  },
+
+  // Replaces the open document without touching history, which belongs to
+  // the caller; nodes keep their saved positions
+  loadSnapshot: snapshot => {
+    set({
+      documentKind: snapshot.documentKind,
+      workflow: snapshot.workflow,
+      action: snapshot.action,
+      nodes: snapshot.nodes,
+      edges: snapshot.edges,
+      layoutDirection: snapshot.layoutDirection,
+      sourceDocument:
+        snapshot.source !== null
+          ? WorkflowDocument.parse(snapshot.source)
+          : null,
+      remoteFile: snapshot.remoteFile || null,
       selectedNode: null,
+      animatedEdges: new Set<string>(),
     });
     get().validateWorkflow();
   },
@@ -513,7 +947,12 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
       const sourceNode = nodes.find(n => n.id === edge.source);
       const targetNode = nodes.find(n => n.id === edge.target);
 
-      return sourceNode?.type === "job" && targetNode?.type === "job";
+      return (
+        !!sourceNode &&
+        !!targetNode &&
+        WorkflowMapper.isJobNode(sourceNode) &&
+        WorkflowMapper.isJobNode(targetNode)
+      );
     });
 
     set(state => {
@@ -555,3 +994,13 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
 setTimeout(() => {
   useWorkflowStore.getState().resetToDefault();
 }, 0);
+
+// Re-check calls to reusable workflows when callee definitions load
+useCalledWorkflowStore.subscribe((state, previous) => {
+  if (
+    state.workflows !== previous.workflows ||
+    state.repository !== previous.repository
+  ) {
+    useWorkflowStore.getState().validateWorkflow();
+  }
+});
@@ -0,0 +1,498 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { PersistStorage } from "zustand/middleware";
+import type { DocumentKind } from "../types/github-actions";
+import { IndexedDbStorage } from "../utils/indexed-db-storage";
+import { ReusableWorkflows } from "../utils/reusable-workflows";
+import type { CalledWorkflowDefinitions } from "../utils/reusable-workflows";
+import { useCalledWorkflowStore } from "./called-workflows";
+import { useDiffStore } from "./diff";
+import { useHistoryStore } from "./history";
+import type { HistoryAction } from "./history";
+import { useWorkflowStore } from "./workflow";
+import type { DocumentSnapshot } from "./workflow";
+
+export interface WorkspaceFile {
+  id: string;
+  name: string; // Name of the workflow or action
+  documentKind: DocumentKind;
+  snapshot: DocumentSnapshot;
+  // Undo history, so undo keeps working after a reload
+  history: HistoryAction[];
+  historyIndex: number;
+  updatedAt: number; // Time of the last autosave
+}
+
+interface WorkspaceState {
+  // State
+  files: Record<string, WorkspaceFile>;
+  openFileIds: string[]; // Tabs, in order
+  activeFileId: string | null; // File shown in the editor
+  hasHydrated: boolean; // Saved files have been read from IndexedDB
+
+  // Actions
+  createFile: () => void;
+  openBlankFile: () => void;
+  openFile: (id: string) => void;
+  closeFile: (id: string) => void;
+  removeFile: (id: string) => void;
+  saveActiveFile: () => void;
+  getRecentFiles: () => WorkspaceFile[];
+  restoreSession: () => void;
+}
+
+type PersistedWorkspace = Pick<
+  WorkspaceState,
+  "files" | "openFileIds" | "activeFileId"
+>;
+
+const AUTOSAVE_DELAY = 1000;
+// Closed files kept for the recent files list
+const MAX_RECENT_FILES = 10;
+// localStorage marker of each running tab, named after a Web Lock the tab
+// holds while it is open. A marker whose lock is free belongs to a session
+// that ended without unloading the page.
+const SESSION_KEY_PREFIX = "workspace-session:";
+const sessionKey = `${SESSION_KEY_PREFIX}${Date.now()}_${Math.random()
+  .toString(36)
+  .slice(2, 9)}`;
+
+let autosaveTimer: ReturnType<typeof setTimeout> | undefined;
+let isLoadingFile = false; // Loading a file is not an edit to autosave
+
+const scheduleAutosave = () => {
+  if (isLoadingFile) {
+    return;
+  }
+  clearTimeout(autosaveTimer);
+  autosaveTimer = setTimeout(
+    () => useWorkspaceStore.getState().saveActiveFile(),
+    AUTOSAVE_DELAY
+  );
+};
+
+// Save on every change to the document or its history
+const startAutosave = () => {
+  useWorkflowStore.subscribe((state, previous) => {
+    if (
+      state.workflow !== previous.workflow ||
+      state.action !== previous.action ||
+      state.nodes !== previous.nodes ||
+      state.edges !== previous.edges ||
+      state.documentKind !== previous.documentKind ||
+      state.layoutDirection !== previous.layoutDirection ||
+      state.sourceDocument !== previous.sourceDocument ||
+      state.remoteFile !== previous.remoteFile
+    ) {
+      scheduleAutosave();
+    }
+  });
+  useHistoryStore.subscribe(scheduleAutosave);
+
+  window.addEventListener("pagehide", () => {
+    if (autosaveTimer !== undefined) {
+      useWorkspaceStore.getState().saveActiveFile();
+    }
+    localStorage.removeItem(sessionKey);
+  });
+  // Back from the back/forward cache
+  window.addEventListener("pageshow", event => {
+    if (event.persisted) {
+      localStorage.setItem(sessionKey, new Date().toISOString());
+    }
+  });
+};
+
+// Mark this tab as running; resolves to whether another session was
+// interrupted since the last start
+const startSession = async (): Promise<boolean> => {
+  if (!("locks" in navigator)) {
+    return false;
+  }
+  // The lock is held until the tab closes or crashes
+  await new Promise<void>(resolve => {
+    navigator.locks.request(sessionKey, () => {
+      resolve();
+      return new Promise(() => {});
+    });
+  });
+  localStorage.setItem(sessionKey, new Date().toISOString());
+
+  const { held = [] } = await navigator.locks.query();
+  const runningKeys = new Set(held.map(lock => lock.name));
+  const interruptedKeys = Object.keys(localStorage).filter(
+    key => key.startsWith(SESSION_KEY_PREFIX) && !runningKeys.has(key)
+  );
+  interruptedKeys.forEach(key => localStorage.removeItem(key));
+  return interruptedKeys.length > 0;
+};
+
+const createFileId = () =>
+  `file_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+// The document in the editor, with its history, as a file
+const captureFile = (id: string): WorkspaceFile => {
+  const snapshot = useWorkflowStore.getState().getSnapshot();
+  const { history, currentIndex } = useHistoryStore.getState();
+  const isAction = snapshot.documentKind === "action";
+  const name = (
+    isAction ? snapshot.action.name : snapshot.workflow.name
+  )?.trim();
+
+  return {
+    id,
+    name: name || (isAction ? "Untitled action" : "Untitled workflow"),
+    documentKind: snapshot.documentKind,
+    snapshot,
+    history,
+    historyIndex: currentIndex,
+    updatedAt: Date.now(),
+  };
+};
+
+const showFile = (file: WorkspaceFile | null) => {
+  useDiffStore.getState().clearComparison();
+  isLoadingFile = true;
+  try {
+    if (file) {
+      useWorkflowStore.getState().loadSnapshot(file.snapshot);
+      useHistoryStore.getState().loadHistory(file.history, file.historyIndex);
+    } else {
+      useWorkflowStore.getState().resetToDefault();
+      useHistoryStore.getState().clearHistory();
+    }
+  } finally {
+    isLoadingFile = false;
+  }
+};
+
+// Closed files beyond the most recent ones are forgotten
+const pruneClosedFiles = (
+  files: Record<string, WorkspaceFile>,
+  openFileIds: string[]
+): Record<string, WorkspaceFile> => {
+  const keptIds = new Set([
+    ...openFileIds,
+    ...Object.values(files)
+      .filter(file => !openFileIds.includes(file.id))
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_RECENT_FILES)
+      .map(file => file.id),
+  ]);
+  return Object.fromEntries(
+    Object.entries(files).filter(([id]) => keptIds.has(id))
+  );
+};
+
+// Workflows in the workspace that were loaded from the repository being
+// edited, by path, so `./` calls to them are checked against their edits.
+// The most recently saved file wins when two share a path.
+const getWorkspaceDefinitions = (
+  files: Record<string, WorkspaceFile>,
+  repository: string | null
+): CalledWorkflowDefinitions => {
+  const definitions: CalledWorkflowDefinitions = {};
+  Object.values(files)
+    .filter(
+      ({ documentKind, snapshot: { remoteFile } }) =>
+        documentKind === "workflow" &&
+        remoteFile &&
+        (!repository ||
+          remoteFile.repository.toLowerCase() === repository.toLowerCase())
+    )
+    .sort((a, b) => a.updatedAt - b.updatedAt)
+    .forEach(({ snapshot }) => {
+      definitions[snapshot.remoteFile!.path] =
+        ReusableWorkflows.getWorkflowDefinition(snapshot.workflow);
+    });
+  return definitions;
+};
+
+const syncCalledWorkflows = () => {
+  const calledWorkflows = useCalledWorkflowStore.getState();
+  calledWorkflows.setWorkspaceWorkflows(
+    getWorkspaceDefinitions(
+      useWorkspaceStore.getState().files,
+      calledWorkflows.repository
+    )
+  );
+};
+
+// History entries are stored as JSON, which has no dates
+const reviveDates = (key: string, value: unknown) =>
+  key === "timestamp" && typeof value === "string" ? new Date(value) : value;
+
+/**
+ * Stores each file under its own key next to the list of open tabs, and
+ * writes only the files that changed. Tabs editing different files then
+ * never overwrite each other's work.
+ */
+const createWorkspaceStorage = (): PersistStorage<PersistedWorkspace> => {
+  const storage = IndexedDbStorage.create("github-ci-builder");
+  const fileKey = (name: string, id: string) => `${name}/${id}`;
+  // Files as last read or written by this tab
+  let storedFiles: Record<string, WorkspaceFile> = {};
+  let hasFailed = false;
+
+  return {
+    getItem: async name => {
+      const [index, entries] = await Promise.all([
+        storage.getItem(name),
+        storage.getEntries(fileKey(name, "")),
+      ]);
+      const { state, version } = index
+        ? JSON.parse(index, reviveDates)
+        : { state: {}, version: 0 };
+      // Files were kept inside the index before they had their own keys
+      const files: Record<string, WorkspaceFile> = { ...state.files };
+      Object.values(entries).forEach(entry => {
+        const file: WorkspaceFile = JSON.parse(entry, reviveDates);
+        files[file.id] = file;
+      });
+      storedFiles = files;
+
+      if (!index && Object.keys(files).length === 0) {
+        return null;
+      }
+      return {
+        state: {
+          files,
+          openFileIds: state.openFileIds || [],
+          activeFileId: state.activeFileId || null,
+        },
+        version,
+      };
+    },
+
+    setItem: async (name, { state, version }) => {
+      const { files, ...index } = state;
+      const previousFiles = storedFiles;
+      storedFiles = files;
+      try {
+        await Promise.all([
+          storage.setItem(name, JSON.stringify({ state: index, version })),
+          ...Object.values(files)
+            .filter(file => previousFiles[file.id] !== file)
+            .map(file =>
+              storage.setItem(fileKey(name, file.id), JSON.stringify(file))
+            ),
+          ...Object.keys(previousFiles)
+            .filter(id => !files[id])
+            .map(id => storage.removeItem(fileKey(name, id))),
+        ]);
+        hasFailed = false;
+      } catch (error) {
+        // Written again with the next change
+        storedFiles = previousFiles;
+        if (!hasFailed) {
+          hasFailed = true;
+          useWorkflowStore
+            .getState()
+            .addToast(
+              `Workflows could not be saved in this browser: ${(error as Error).message}`,
+              "error"
+            );
+        }
+      }
+    },
+
+    removeItem: async name => {
+      const entries = await storage.getEntries(fileKey(name, ""));
+      await Promise.all(
+        [name, ...Object.keys(entries)].map(key => storage.removeItem(key))
+      );
+      storedFiles = {};
+    },
+  };
+};
+
+/**
+ * Workflows open in tabs, autosaved to IndexedDB together with their node
+ * positions and undo history. The workflow store edits the active file.
+ */
+export const useWorkspaceStore = create<WorkspaceState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      files: {},
+      openFileIds: [],
+      activeFileId: null,
+      hasHydrated: false,
+
+      createFile: () => {
+        get().saveActiveFile();
+        showFile(null);
+        const file = captureFile(createFileId());
+        set(state => ({
+          files: { ...state.files, [file.id]: file },
+          openFileIds: [...state.openFileIds, file.id],
+          activeFileId: file.id,
+        }));
+      },
+
+      // Imports and templates open in a new tab unless the current one is
+      // still empty
+      openBlankFile: () => {
+        if (useWorkflowStore.getState().nodes.length > 0) {
+          get().createFile();
+        }
+      },
+
+      openFile: id => {
+        const file = get().files[id];
+        if (!file || id === get().activeFileId) {
+          return;
+        }
+        get().saveActiveFile();
+        set(state => ({
+          openFileIds: state.openFileIds.includes(id)
+            ? state.openFileIds
+            : [...state.openFileIds, id],
+          activeFileId: id,
+        }));
+        showFile(file);
+      },
+
+      closeFile: id => {
+        const { openFileIds, activeFileId } = get();
+        const index = openFileIds.indexOf(id);
+        if (index === -1) {
+          return;
+        }
+        if (id === activeFileId) {
+          get().saveActiveFile();
+        }
+
+        const remaining = openFileIds.filter(fileId => fileId !== id);
+        set(state => ({
+          files: pruneClosedFiles(state.files, remaining),
+          openFileIds: remaining,
+        }));
+        if (id !== activeFileId) {
+          return;
+        }
+
+        // The tab to the right takes over, or a new file when none is left
+        const nextId = remaining[Math.min(index, remaining.length - 1)];
+        if (nextId) {
+          set({ activeFileId: nextId });
+          showFile(get().files[nextId]);
+        } else {
+          set({ activeFileId: null });
+          get().createFile();
+        }
+      },
+
+      removeFile: id => {
+        if (get().openFileIds.includes(id)) {
+          return;
+        }
+        set(state => ({
+          files: Object.fromEntries(
+            Object.entries(state.files).filter(([fileId]) => fileId !== id)
+          ),
+        }));
+      },
+
+      saveActiveFile: () => {
+        clearTimeout(autosaveTimer);
+        autosaveTimer = undefined;
+        const { activeFileId, hasHydrated } = get();
+        if (!activeFileId || !hasHydrated) {
+          return;
+        }
+        set(state => ({
+          files: { ...state.files, [activeFileId]: captureFile(activeFileId) },
+        }));
+      },
+
+      getRecentFiles: () => {
+        const { files, openFileIds } = get();
+        return Object.values(files)
+          .filter(file => !openFileIds.includes(file.id))
+          .sort((a, b) => b.updatedAt - a.updatedAt);
+      },
+
+      // Reopen the tabs of the last session once IndexedDB has been read
+      restoreSession: () => {
+        const { files, activeFileId } = get();
+        const openFileIds = get().openFileIds.filter(id => files[id]);
+
+        const activeId =
+          activeFileId && openFileIds.includes(activeFileId)
+            ? activeFileId
+            : openFileIds[0];
+        set({ hasHydrated: true, openFileIds, activeFileId: activeId || null });
+
+        const { addToast } = useWorkflowStore.getState();
+        if (!activeId) {
+          // First visit: whatever is in the editor becomes the first file
+          const file = captureFile(createFileId());
+          set(state => ({
+            files: { ...state.files, [file.id]: file },
+            openFileIds: [file.id],
+            activeFileId: file.id,
+          }));
+        } else {
+          try {
+            showFile(files[activeId]);
+          } catch (error) {
+            // A file that cannot be loaded must not break every startup
+            addToast(
+              `Could not restore "${files[activeId].name}": ${(error as Error).message}`,
+              "error"
+            );
+            set({
+              openFileIds: openFileIds.filter(id => id !== activeId),
+              activeFileId: null,
+            });
+            get().createFile();
+          }
+        }
+        startSession().then(wasInterrupted => {
+          if (wasInterrupted && activeId) {
+            addToast(
+              `Recovered ${openFileIds.length} open ${
+                openFileIds.length === 1 ? "file" : "files"
+              } after an unexpected shutdown`,
+              "info"
+            );
+          }
+        });
+        startAutosave();
+      },
+    }),
+    {
+      name: "workspace-storage",
+      storage: createWorkspaceStorage(),
+      partialize: state => ({
+        files: state.files,
+        openFileIds: state.openFileIds,
+        activeFileId: state.activeFileId,
+      }),
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) {
+          useWorkflowStore
+            .getState()
+            .addToast(
+              "Saved workflows could not be loaded; changes will not be kept",
+              "error"
+            );
+        }
+        useWorkspaceStore.getState().restoreSession();
+      },
+    }
+  )
+);
+
+// Calls to workflows in the workspace follow their saved edits
+useWorkspaceStore.subscribe((state, previous) => {
+  if (state.files !== previous.files) {
+    syncCalledWorkflows();
+  }
+});
+useCalledWorkflowStore.subscribe((state, previous) => {
+  if (state.repository !== previous.repository) {
+    syncCalledWorkflows();
+  }
+});
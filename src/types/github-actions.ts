@@ -24,6 +24,7 @@ export interface WorkflowConcurrency {
 
 export interface WorkflowPermissions {
   actions?: PermissionLevel;
+  attestations?: PermissionLevel;
   checks?: PermissionLevel;
   contents?: PermissionLevel;
   deployments?: PermissionLevel;
@@ -307,10 +308,10 @@ export interface StepInputs {
 
 export interface Job {
   name?: string;
-  "runs-on": string | string[];
+  "runs-on"?: string | string[];
   needs?: string | string[];
   if?: string;
-  permissions?: WorkflowPermissions;
+  permissions?: WorkflowPermissions | "read-all" | "write-all";
   environment?:
     | string
     | {
@@ -352,7 +353,11 @@ export interface Job {
         options?: string;
       };
   services?: Record<string, ServiceContainer>;
-  steps: Step[];
+  steps?: Step[];
+  // Reusable workflow call; such jobs have no runner or steps of their own
+  uses?: string;
+  with?: Record<string, string | number | boolean>;
+  secrets?: Record<string, string> | "inherit";
 }
 
 export interface Step {
@@ -369,17 +374,56 @@ export interface Step {
   "working-directory"?: string;
 }
 
+// Composite Action Types (action.yml)
+export interface CompositeAction {
+  name: string;
+  description: string;
+  author?: string;
+  inputs?: Record<string, CompositeActionInput>;
+  outputs?: Record<string, CompositeActionOutput>;
+  runs: {
+    using: "composite";
+    steps: Step[];
+  };
+  branding?: {
+    icon?: string;
+    color?: string;
+  };
+}
+
+export interface CompositeActionInput {
+  description?: string;
+  required?: boolean;
+  default?: string;
+  deprecationMessage?: string;
+}
+
+export interface CompositeActionOutput {
+  description?: string;
+  value: string;
+}
+
+// Kind of file being edited: a workflow or a composite action.yml
+export type DocumentKind = "workflow" | "action";
+
 // Visual Builder Types
 export interface VisualNode {
   id: string;
-  type: "job" | "step" | "trigger";
+  // reusable: a job calling a workflow; action: root of a composite action
+  type: "job" | "reusable" | "action" | "step" | "trigger";
   position: { x: number; y: number };
   data: NodeData;
+  deletable?: boolean; // false keeps React Flow from removing the node
+  selected?: boolean; // Part of a multi-node canvas selection
 }
 
 export interface NodeData extends Record<string, unknown> {
   label: string;
+  jobId?: string; // Key of a job node in `jobs`
+  parentJobId?: string; // ID of the job or action node that owns a step node
+  order?: number; // Position of a step node within its job
   job?: Job;
+  compositeAction?: CompositeAction; // Metadata; steps live on step nodes
   step?: Step;
   trigger?: WorkflowTriggers;
   isValid?: boolean;
@@ -477,6 +521,7 @@ export interface PopularAction {
   category: ActionCategory;
   inputs?: Record<string, ActionInput>;
   outputs?: Record<string, ActionOutput>;
+  permissions?: WorkflowPermissions; // GITHUB_TOKEN scopes the action needs
 }
 
 export interface ActionInput {
@@ -670,21 +715,33 @@ export interface ValidationError {
   path: string;
   message: string;
   code: string;
+  offset?: number; // Character offset within the value at `path`
 }
 
 export interface ValidationWarning {
   path: string;
   message: string;
   code: string;
+  offset?: number; // Character offset within the value at `path`
+  suggestion?: string; // How to resolve the warning
+  severity?: "low" | "medium" | "high";
+  details?: string[]; // Explanation, e.g. each step of an attack path
 }
 
 // GitHub Actions YAML to Visual Node Mapping
 export interface WorkflowMapping {
-  yamlToVisual: (workflow: GitHubWorkflow) => {
+  yamlToVisual: (
+    workflow: GitHubWorkflow,
+    previousNodes?: VisualNode[]
+  ) => {
     nodes: VisualNode[];
     edges: VisualEdge[];
   };
-  visualToYaml: (nodes: VisualNode[], edges: VisualEdge[]) => GitHubWorkflow;
+  visualToYaml: (
+    nodes: VisualNode[],
+    edges: VisualEdge[],
+    baseWorkflow?: GitHubWorkflow
+  ) => GitHubWorkflow;
 }
 
 // Node Templates for Common Patterns
@@ -0,0 +1,15 @@
+// Subset of JSON Schema (draft-07) produced from the workflow types
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  type?: "string" | "number" | "boolean" | "null" | "object" | "array";
+  enum?: (string | number | boolean)[];
+  const?: string | number | boolean;
+  anyOf?: JsonSchema[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  definitions?: Record<string, JsonSchema>;
+  description?: string;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { CompositeAction, GitHubWorkflow } from "../types/github-actions";
+import { ActionPinning } from "./action-pinning";
+import type { ActionLockfile } from "./action-pinning";
+
+const SHA = "a".repeat(40);
+const LOCKFILE: ActionLockfile = {
+  "actions/checkout@v4": { sha: SHA, version: "v4.2.2" },
+  "octo-org/shared@v1": { sha: SHA, version: "v1.0.0" },
+};
+
+const WORKFLOW: GitHubWorkflow = {
+  name: "CI",
+  on: { push: {} },
+  jobs: {
+    build: {
+      "runs-on": "ubuntu-latest",
+      steps: [{ uses: "actions/checkout@v4" }, { run: "make" }],
+    },
+    deploy: {
+      uses: "octo-org/shared/.github/workflows/deploy.yml@v1",
+    },
+    local: {
+      uses: "./.github/workflows/local.yml",
+    },
+  },
+};
+
+describe("ActionPinning", () => {
+  it("lists unpinned step actions and reusable workflows", () => {
+    expect(ActionPinning.getUnpinnedActions(WORKFLOW)).toEqual([
+      "actions/checkout@v4",
+      "octo-org/shared/.github/workflows/deploy.yml@v1",
+    ]);
+  });
+
+  it("warns about third-party reusable workflows", () => {
+    expect(
+      ActionPinning.findUnpinnedActions(WORKFLOW).map(warning => warning.path)
+    ).toEqual(["jobs.deploy.uses"]);
+  });
+
+  it("pins steps and reusable workflow calls", () => {
+    const pinned = ActionPinning.pinWorkflow(WORKFLOW, LOCKFILE);
+
+    expect(pinned.jobs.build.steps?.[0].uses).toBe(`actions/checkout@${SHA}`);
+    expect(pinned.jobs.deploy).toEqual({
+      uses: `octo-org/shared/.github/workflows/deploy.yml@${SHA}`,
+    });
+    expect(pinned.jobs.local).toBe(WORKFLOW.jobs.local);
+    expect(ActionPinning.getUnpinnedActions(pinned)).toEqual([]);
+  });
+
+  it("pins composite action steps", () => {
+    const action: CompositeAction = {
+      name: "Setup",
+      description: "Set up the project",
+      runs: {
+        using: "composite",
+        steps: [
+          { uses: "actions/checkout@v4" },
+          { run: "make", shell: "bash" },
+        ],
+      },
+    };
+
+    expect(ActionPinning.getUnpinnedActionsInAction(action)).toEqual([
+      "actions/checkout@v4",
+    ]);
+    const pinned = ActionPinning.pinAction(action, LOCKFILE);
+    expect(pinned.runs.steps[0].uses).toBe(`actions/checkout@${SHA}`);
+    expect(pinned.runs.steps[1]).toBe(action.runs.steps[1]);
+  });
+
+  it("keeps documents without pinnable references unchanged", () => {
+    expect(ActionPinning.pinWorkflow(WORKFLOW, {})).toBe(WORKFLOW);
+  });
+});
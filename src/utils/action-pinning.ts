@@ -0,0 +1,324 @@
+import type {
+  CompositeAction,
+  GitHubWorkflow,
+  Step,
+  ValidationWarning,
+} from "../types/github-actions";
+import type { GitHubService } from "./github-service";
+
+/** Commit an action tag resolves to, and the most specific tag on it */
+export interface ActionPin {
+  sha: string;
+  version: string; // e.g. `v4.2.2` for `actions/checkout@v4`
+}
+
+/** Resolved pins keyed by `owner/repo@tag` */
+export type ActionLockfile = Record<string, ActionPin>;
+
+export interface ActionReference {
+  owner: string;
+  repo: string;
+  path: string; // Subdirectory of the action, e.g. `init` for CodeQL
+  ref: string;
+}
+
+export interface PinResolution {
+  pins: ActionLockfile; // Newly resolved pins
+  unresolved: string[]; // References that could not be resolved
+}
+
+/** Owners whose actions are maintained by GitHub */
+const FIRST_PARTY_OWNERS = ["actions", "github"];
+
+const SHA_PATTERN = /^[0-9a-f]{40}$/i;
+
+/**
+ * Pins actions to full commit SHAs. Tags are resolved through the GitHub API
+ * when signed in and through the offline lockfile otherwise; rendered YAML
+ * keeps the tag as a `# vX.Y.Z` comment next to the SHA.
+ */
+export class ActionPinning {
+  /**
+   * Split `owner/repo[/path]@ref`; local and Docker actions return null
+   */
+  static parseReference(uses: string): ActionReference | null {
+    const match = uses.match(/^([^/@\s]+)\/([^/@\s]+)((?:\/[^@\s]+)?)@(\S+)$/);
+    if (!match || uses.startsWith("./") || uses.startsWith("docker://")) {
+      return null;
+    }
+
+    const [, owner, repo, path, ref] = match;
+    return { owner, repo, path: path.slice(1), ref };
+  }
+
+  static isPinned(uses: string): boolean {
+    const reference = this.parseReference(uses);
+    return reference === null || SHA_PATTERN.test(reference.ref);
+  }
+
+  static isThirdParty(uses: string): boolean {
+    const reference = this.parseReference(uses);
+    return (
+      reference !== null &&
+      !FIRST_PARTY_OWNERS.includes(reference.owner.toLowerCase())
+    );
+  }
+
+  /**
+   * Distinct `uses` values in a workflow that are not pinned to a SHA:
+   * step actions and called reusable workflows
+   */
+  static getUnpinnedActions(workflow: GitHubWorkflow): string[] {
+    return this.getUnpinned(
+      Object.values(workflow.jobs || {}).flatMap(job => [
+        job.uses,
+        ...(job.steps || []).map(step => step.uses),
+      ])
+    );
+  }
+
+  /**
+   * Distinct `uses` values of composite action steps not pinned to a SHA
+   */
+  static getUnpinnedActionsInAction(action: CompositeAction): string[] {
+    return this.getUnpinned((action.runs?.steps || []).map(step => step.uses));
+  }
+
+  /**
+   * Warnings for third-party actions and reusable workflows referenced by a
+   * movable tag or branch
+   */
+  static findUnpinnedActions(workflow: GitHubWorkflow): ValidationWarning[] {
+    return Object.entries(workflow.jobs || {}).flatMap(([jobId, job]) => [
+      ...this.getUnpinnedWarning(job.uses, `jobs.${jobId}.uses`),
+      ...(job.steps || []).flatMap((step, index) =>
+        this.getUnpinnedWarning(step.uses, `jobs.${jobId}.steps[${index}].uses`)
+      ),
+    ]);
+  }
+
+  /**
+   * Resolve references to pins, from the lockfile first and then from
+   * GitHub when a service is available
+   */
+  static async resolve(
+    references: string[],
+    lockfile: ActionLockfile,
+    service?: GitHubService
+  ): Promise<PinResolution> {
+    const pins: ActionLockfile = {};
+    const unresolved: string[] = [];
+
+    for (const uses of references) {
+      const reference = this.parseReference(uses);
+      if (!reference) {
+        continue;
+      }
+
+      const key = this.getLockfileKey(reference);
+      if (lockfile[key]) {
+        continue;
+      }
+
+      if (!service) {
+        unresolved.push(uses);
+        continue;
+      }
+
+      try {
+        pins[key] = await service.resolveActionRef(
+          reference.owner,
+          reference.repo,
+          reference.ref
+        );
+      } catch {
+        unresolved.push(uses);
+      }
+    }
+
+    return { pins, unresolved };
+  }
+
+  /**
+   * Rewrite every resolvable `uses` of steps and reusable workflow calls to
+   * its commit SHA
+   */
+  static pinWorkflow(
+    workflow: GitHubWorkflow,
+    lockfile: ActionLockfile
+  ): GitHubWorkflow {
+    let changed = false;
+
+    const jobs = Object.fromEntries(
+      Object.entries(workflow.jobs || {}).map(([jobId, job]) => {
+        const uses = job.uses && this.pinReference(job.uses, lockfile);
+        const steps = job.steps && this.pinSteps(job.steps, lockfile);
+        if (!uses && steps === job.steps) {
+          return [jobId, job];
+        }
+
+        changed = true;
+        return [
+          jobId,
+          { ...job, ...(uses && { uses }), ...(steps && { steps }) },
+        ];
+      })
+    );
+
+    return changed ? { ...workflow, jobs } : workflow;
+  }
+
+  /**
+   * Rewrite every resolvable `uses` of a composite action's steps
+   */
+  static pinAction(
+    action: CompositeAction,
+    lockfile: ActionLockfile
+  ): CompositeAction {
+    const steps = action.runs?.steps || [];
+    const pinnedSteps = this.pinSteps(steps, lockfile);
+    return pinnedSteps === steps
+      ? action
+      : { ...action, runs: { ...action.runs, steps: pinnedSteps } };
+  }
+
+  /**
+   * Add `# vX.Y.Z` after `uses:` lines pinned to a SHA found in the lockfile
+   */
+  static annotateYaml(yaml: string, lockfile: ActionLockfile): string {
+    const versions = new Map<string, string>();
+    Object.values(lockfile).forEach(pin => {
+      versions.set(pin.sha.toLowerCase(), pin.version);
+    });
+    if (versions.size === 0) {
+      return yaml;
+    }
+
+    return yaml.replace(
+      /^([ \t]*(?:-[ \t]+)?uses:[ \t]*(["']?)[^\s"'#]+@([0-9a-f]{40})\2)[ \t]*$/gim,
+      (line, pinned: string, _quote: string, sha: string) => {
+        const version = versions.get(sha.toLowerCase());
+        return version ? `${pinned} # ${version}` : line;
+      }
+    );
+  }
+
+  /**
+   * Pins recorded as `uses: owner/repo@<sha> # v1.2.3` in existing YAML
+   */
+  static readPinComments(yaml: string): ActionLockfile {
+    const pins: ActionLockfile = {};
+    const pattern =
+      /^[ \t]*(?:-[ \t]+)?uses:[ \t]*(["']?)([^\s"'#]+)@([0-9a-f]{40})\1[ \t]+#[ \t]*(\S+)/gim;
+
+    for (const match of yaml.matchAll(pattern)) {
+      const [, , action, sha, version] = match;
+      const reference = this.parseReference(`${action}@${version}`);
+      if (reference) {
+        pins[this.getLockfileKey(reference)] = { sha, version };
+      }
+    }
+
+    return pins;
+  }
+
+  /**
+   * Parse a lockfile exported by `stringifyLockfile`
+   */
+  static parseLockfile(content: string): ActionLockfile {
+    const parsed: unknown = JSON.parse(content);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("Lockfile must be a JSON object");
+    }
+
+    const lockfile: ActionLockfile = {};
+    Object.entries(parsed).forEach(([key, value]) => {
+      const reference = this.parseReference(key);
+      const pin = typeof value === "string" ? { sha: value } : value;
+      if (
+        !reference ||
+        typeof pin?.sha !== "string" ||
+        !SHA_PATTERN.test(pin.sha)
+      ) {
+        throw new Error(`Invalid lockfile entry '${key}'`);
+      }
+      lockfile[this.getLockfileKey(reference)] = {
+        sha: pin.sha,
+        version: typeof pin.version === "string" ? pin.version : reference.ref,
+      };
+    });
+
+    return lockfile;
+  }
+
+  static stringifyLockfile(lockfile: ActionLockfile): string {
+    const sorted = Object.fromEntries(
+      Object.keys(lockfile)
+        .sort()
+        .map(key => [key, lockfile[key]])
+    );
+    return JSON.stringify(sorted, null, 2);
+  }
+
+  private static getUnpinned(uses: (string | undefined)[]): string[] {
+    return [
+      ...new Set(
+        uses.filter(
+          (value): value is string => !!value && !this.isPinned(value)
+        )
+      ),
+    ];
+  }
+
+  private static getUnpinnedWarning(
+    uses: string | undefined,
+    path: string
+  ): ValidationWarning[] {
+    if (!uses || !this.isThirdParty(uses) || this.isPinned(uses)) {
+      return [];
+    }
+    return [
+      {
+        path,
+        message: `Third-party action '${uses}' is not pinned to a commit SHA; the tag can be moved to different code`,
+        code: "UNPINNED_ACTION",
+        severity: "medium" as const,
+        suggestion: "Pin the action to a full commit SHA",
+      },
+    ];
+  }
+
+  // The same array when no step changed
+  private static pinSteps(steps: Step[], lockfile: ActionLockfile): Step[] {
+    let changed = false;
+    const pinnedSteps = steps.map(step => {
+      const uses = step.uses && this.pinReference(step.uses, lockfile);
+      if (!uses) {
+        return step;
+      }
+      changed = true;
+      return { ...step, uses };
+    });
+    return changed ? pinnedSteps : steps;
+  }
+
+  // `uses` rewritten to the pinned SHA; null when unknown or already pinned
+  private static pinReference(
+    uses: string,
+    lockfile: ActionLockfile
+  ): string | null {
+    const reference = this.parseReference(uses);
+    const pin = reference && lockfile[this.getLockfileKey(reference)];
+    if (!reference || !pin || SHA_PATTERN.test(reference.ref)) {
+      return null;
+    }
+    const path = reference.path ? `/${reference.path}` : "";
+    return `${reference.owner}/${reference.repo}${path}@${pin.sha}`;
+  }
+
+  private static getLockfileKey(reference: ActionReference): string {
+    // Owners and repositories are case-insensitive, tags are not
+    const repository = `${reference.owner}/${reference.repo}`.toLowerCase();
+    return `${repository}@${reference.ref}`;
+  }
+}
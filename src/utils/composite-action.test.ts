@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import type { CompositeAction, Step } from "../types/github-actions";
+import { CompositeActions } from "./composite-action";
+import { WorkflowYamlError } from "./workflow-yaml";
+
+const action = (
+  steps: Step[],
+  changes: Partial<CompositeAction> = {}
+): CompositeAction => ({
+  name: "Setup",
+  description: "Install tools",
+  runs: { using: "composite", steps },
+  ...changes,
+});
+
+const errorsOf = (value: CompositeAction) =>
+  CompositeActions.validate(value).errors.map(
+    error => `${error.code} ${error.path}`
+  );
+
+describe("CompositeActions.validate", () => {
+  it("accepts the default action", () => {
+    expect(CompositeActions.validate(CompositeActions.createDefault())).toEqual(
+      { isValid: true, errors: [], warnings: [] }
+    );
+  });
+
+  it("requires shell on run steps only", () => {
+    expect(
+      errorsOf(
+        action([
+          { run: "npm ci" },
+          { run: "npm test", shell: "bash" },
+          { uses: "actions/setup-node@v4" },
+        ])
+      )
+    ).toEqual(["MISSING_COMPOSITE_SHELL runs.steps[0].shell"]);
+  });
+
+  it("rejects step keys composite actions do not support", () => {
+    expect(
+      errorsOf(
+        action([
+          {
+            run: "npm test",
+            shell: "bash",
+            "timeout-minutes": 5,
+          } as Step,
+        ])
+      )
+    ).toEqual(["UNSUPPORTED_COMPOSITE_STEP_KEY runs.steps[0].timeout-minutes"]);
+  });
+
+  it("checks the inputs, steps and secrets that steps read", () => {
+    const errors = errorsOf(
+      action(
+        [
+          {
+            run: "echo ${{ steps.later.outputs.value }} ${{ inputs.missing }}",
+            shell: "bash",
+            env: { TOKEN: "${{ secrets.TOKEN }}" },
+          },
+          {
+            id: "later",
+            if: "inputs.debug == 'true'",
+            run: "echo value=1 >> $GITHUB_OUTPUT",
+            shell: "bash",
+          },
+        ],
+        { inputs: { debug: { description: "Verbose output" } } }
+      )
+    );
+    expect(errors).toEqual([
+      "UNKNOWN_STEP_REFERENCE runs.steps[0]",
+      "UNKNOWN_ACTION_INPUT runs.steps[0]",
+      "SECRETS_IN_COMPOSITE runs.steps[0]",
+    ]);
+  });
+
+  it("requires outputs to have values and reads them against every step", () => {
+    expect(
+      errorsOf(
+        action([{ id: "build", run: "make", shell: "bash" }], {
+          outputs: {
+            artifact: { value: "${{ steps.build.outputs.path }}" },
+            missing: { value: "" },
+            unknown: { value: "${{ steps.test.outputs.path }}" },
+          },
+        })
+      )
+    ).toEqual([
+      "MISSING_OUTPUT_VALUE outputs.missing.value",
+      "UNKNOWN_STEP_REFERENCE outputs.unknown",
+    ]);
+  });
+
+  it("requires a name, description and the composite runner", () => {
+    expect(
+      errorsOf({
+        name: "",
+        description: " ",
+        runs: { using: "node20", steps: [] },
+      } as unknown as CompositeAction)
+    ).toEqual([
+      "MISSING_ACTION_NAME name",
+      "MISSING_ACTION_DESCRIPTION description",
+      "INVALID_ACTION_RUNNER runs.using",
+      "NO_STEPS_DEFINED runs.steps",
+    ]);
+  });
+});
+
+describe("CompositeActions parsing", () => {
+  it("only reads composite actions", () => {
+    expect(() =>
+      CompositeActions.parse("name: Node\nruns:\n  using: node20\n")
+    ).toThrow(WorkflowYamlError);
+    expect(
+      CompositeActions.parse("name: Empty\nruns:\n  using: composite\n").runs
+        .steps
+    ).toEqual([]);
+  });
+
+  it("writes keys in canonical order", () => {
+    const yaml = CompositeActions.stringify({
+      runs: { using: "composite", steps: [] },
+      description: "Install tools",
+      name: "Setup",
+      inputs: {},
+    } as CompositeAction);
+    expect(yaml.split("\n").filter(line => /^\S/.test(line))).toEqual([
+      "name: Setup",
+      "description: Install tools",
+      "runs:",
+    ]);
+  });
+});
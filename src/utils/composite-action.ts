@@ -0,0 +1,336 @@
+import type {
+  CompositeAction,
+  Step,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning,
+} from "../types/github-actions";
+import {
+  ExpressionParser,
+  getContextReferences,
+} from "./github-actions-expressions";
+import type { ExpressionNode } from "./github-actions-expressions";
+import { WorkflowYaml, WorkflowYamlError } from "./workflow-yaml";
+
+/**
+ * Canonical order of top-level action.yml keys in generated YAML
+ */
+export const ACTION_KEY_ORDER = [
+  "name",
+  "author",
+  "description",
+  "inputs",
+  "outputs",
+  "runs",
+  "branding",
+] as const;
+
+// Keys a step of a composite action may have
+const COMPOSITE_STEP_KEYS = new Set([
+  "id",
+  "name",
+  "if",
+  "uses",
+  "run",
+  "with",
+  "env",
+  "shell",
+  "working-directory",
+  "continue-on-error",
+]);
+
+/**
+ * Composite actions (`action.yml` with `runs.using: composite`): parsing,
+ * serialization and the rules that differ from workflow jobs
+ */
+export class CompositeActions {
+  /**
+   * Starting point for a new composite action
+   */
+  static createDefault(): CompositeAction {
+    return {
+      name: "New Action",
+      description: "Describe what this action does",
+      runs: {
+        using: "composite",
+        steps: [
+          {
+            name: "Run a script",
+            run: "echo 'Hello from a composite action'",
+            shell: "bash",
+          },
+        ],
+      },
+    };
+  }
+
+  /**
+   * Whether parsed YAML is an action.yml rather than a workflow
+   */
+  static isActionDocument(value: Record<string, unknown>): boolean {
+    return "runs" in value && !("jobs" in value);
+  }
+
+  /**
+   * Parse action.yml; only composite actions can be edited
+   */
+  static parse(content: string): CompositeAction {
+    const parsed = WorkflowYaml.load(content);
+    const runs = parsed.runs as { using?: unknown } | undefined;
+
+    if (!runs || typeof runs !== "object") {
+      throw new WorkflowYamlError("Action YAML must define 'runs'");
+    }
+    if (runs.using !== "composite") {
+      throw new WorkflowYamlError(
+        `Only composite actions can be edited; this action uses '${String(
+          runs.using
+        )}'`
+      );
+    }
+
+    const action = parsed as unknown as CompositeAction;
+    return {
+      ...action,
+      runs: { ...action.runs, steps: action.runs.steps || [] },
+    };
+  }
+
+  /**
+   * Serialize an action with canonical key ordering, dropping empty
+   * optional sections
+   */
+  static stringify(action: CompositeAction): string {
+    const source = action as unknown as Record<string, unknown>;
+    const canonical: Record<string, unknown> = {};
+
+    [
+      ...ACTION_KEY_ORDER,
+      ...Object.keys(source).filter(
+        key => !(ACTION_KEY_ORDER as readonly string[]).includes(key)
+      ),
+    ].forEach(key => {
+      const value = source[key];
+      const isEmpty =
+        value === undefined ||
+        value === null ||
+        (typeof value === "object" && Object.keys(value).length === 0);
+      if (!isEmpty || key === "name" || key === "description") {
+        canonical[key] = value ?? "";
+      }
+    });
+
+    return WorkflowYaml.dump(canonical);
+  }
+
+  /**
+   * Validate an action with composite-specific rules: `shell` on run steps,
+   * the step keys composite actions support, and expressions that read
+   * inputs, steps and secrets
+   */
+  static validate(action: CompositeAction): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    if (!action.name?.trim()) {
+      errors.push({
+        path: "name",
+        message: "Action name is required",
+        code: "MISSING_ACTION_NAME",
+      });
+    }
+    if (!action.description?.trim()) {
+      errors.push({
+        path: "description",
+        message: "Action description is required",
+        code: "MISSING_ACTION_DESCRIPTION",
+      });
+    }
+    if (action.runs?.using !== "composite") {
+      errors.push({
+        path: "runs.using",
+        message: "Composite actions must set runs.using to 'composite'",
+        code: "INVALID_ACTION_RUNNER",
+      });
+    }
+
+    const steps = action.runs?.steps || [];
+    if (steps.length === 0) {
+      errors.push({
+        path: "runs.steps",
+        message: "Action must contain at least one step",
+        code: "NO_STEPS_DEFINED",
+      });
+    }
+
+    const stepIds = new Set<string>();
+    steps.forEach((step, index) => {
+      const path = `runs.steps[${index}]`;
+      errors.push(
+        ...this.validateStep(step).map(error => ({
+          ...error,
+          path: `${path}.${error.path}`,
+        }))
+      );
+
+      if (step.id) {
+        if (stepIds.has(step.id)) {
+          errors.push({
+            path: `${path}.id`,
+            message: `Step id '${step.id}' is used by an earlier step`,
+            code: "DUPLICATE_STEP_ID",
+          });
+        }
+        stepIds.add(step.id);
+      }
+
+      // Steps may only read outputs of steps that ran before them
+      const earlierIds = steps
+        .slice(0, index)
+        .flatMap(earlier => (earlier.id ? [earlier.id] : []));
+      errors.push(...this.validateReferences(step, path, action, earlierIds));
+    });
+
+    Object.entries(action.outputs || {}).forEach(([name, output]) => {
+      const path = `outputs.${name}`;
+      if (!output?.value) {
+        errors.push({
+          path: `${path}.value`,
+          message: `Output '${name}' must have a value, e.g. \${{ steps.<id>.outputs.<name> }}`,
+          code: "MISSING_OUTPUT_VALUE",
+        });
+        return;
+      }
+      errors.push(
+        ...this.validateReferences(output, path, action, [...stepIds])
+      );
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Rules for a single step; paths are relative to the step
+   */
+  private static validateStep(step: Step): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!step.uses && !step.run) {
+      errors.push({
+        path: "step",
+        message: "Step must have either 'uses' or 'run'",
+        code: "MISSING_STEP_ACTION",
+      });
+    }
+    if (step.uses && step.run) {
+      errors.push({
+        path: "step",
+        message: "Step cannot have both 'uses' and 'run'",
+        code: "CONFLICTING_STEP_ACTIONS",
+      });
+    }
+    if (step.run && !step.shell) {
+      errors.push({
+        path: "shell",
+        message: "Run steps in a composite action must set 'shell'",
+        code: "MISSING_COMPOSITE_SHELL",
+      });
+    }
+
+    Object.keys(step)
+      .filter(key => !COMPOSITE_STEP_KEYS.has(key))
+      .forEach(key => {
+        errors.push({
+          path: key,
+          message: `'${key}' is not supported in composite action steps`,
+          code: "UNSUPPORTED_COMPOSITE_STEP_KEY",
+        });
+      });
+
+    return errors;
+  }
+
+  /**
+   * Check `inputs`, `steps` and `secrets` references in every string of a
+   * value
+   */
+  private static validateReferences(
+    value: unknown,
+    path: string,
+    action: CompositeAction,
+    stepIds: string[]
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const inputs = action.inputs || {};
+
+    this.collectStrings(value).forEach(({ text, isCondition }) => {
+      this.parseExpressions(text, isCondition)
+        .flatMap(getContextReferences)
+        .forEach(reference => {
+          const [context, name] = reference.path;
+          if (context === "secrets") {
+            errors.push({
+              path,
+              message:
+                "Composite actions cannot read secrets; pass them in as inputs",
+              code: "SECRETS_IN_COMPOSITE",
+              offset: reference.start,
+            });
+          } else if (context === "inputs" && name && !(name in inputs)) {
+            errors.push({
+              path,
+              message: `Action has no input named '${name}'`,
+              code: "UNKNOWN_ACTION_INPUT",
+              offset: reference.start,
+            });
+          } else if (context === "steps" && name && !stepIds.includes(name)) {
+            errors.push({
+              path,
+              message: `No earlier step with id '${name}'`,
+              code: "UNKNOWN_STEP_REFERENCE",
+              offset: reference.start,
+            });
+          }
+        });
+    });
+
+    return errors;
+  }
+
+  /**
+   * Expressions in a string; broken expressions yield none
+   */
+  private static parseExpressions(
+    text: string,
+    isCondition: boolean
+  ): ExpressionNode[] {
+    try {
+      if (isCondition) {
+        return [ExpressionParser.parseCondition(text)];
+      }
+      return ExpressionParser.parseTemplate(text).flatMap(part =>
+        part.type === "expression" ? [part.node] : []
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Strings in a step or output; a step's `if` is a bare condition
+   */
+  private static collectStrings(
+    value: unknown,
+    key?: string
+  ): { text: string; isCondition: boolean }[] {
+    if (typeof value === "string") {
+      return [{ text: value, isCondition: key === "if" }];
+    }
+    if (value && typeof value === "object") {
+      return Object.entries(value).flatMap(([childKey, child]) =>
+        this.collectStrings(child, key === undefined ? childKey : key)
+      );
+    }
+    return [];
+  }
+}
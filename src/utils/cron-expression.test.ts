@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { CronExpression, CronSyntaxError } from "./cron-expression";
+
+const describeCron = (source: string) =>
+  CronExpression.describe(CronExpression.parse(source));
+
+describe("CronExpression.parse", () => {
+  it("expands lists, ranges and steps", () => {
+    const schedule = CronExpression.parse("*/15 9-17/4 1,15 * MON-FRI");
+    expect(schedule.minutes).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours).toEqual([9, 13, 17]);
+    expect(schedule.daysOfMonth).toEqual([1, 15]);
+    expect(schedule.months).toHaveLength(12);
+    expect(schedule.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("starts a step at a single value", () => {
+    expect(CronExpression.parse("5/20 * * * *").minutes).toEqual([5, 25, 45]);
+  });
+
+  it("reads day of week 7 as Sunday", () => {
+    expect(CronExpression.parse("0 0 * * 7").daysOfWeek).toEqual([0]);
+    expect(CronExpression.parse("0 0 * * 5-7").daysOfWeek).toEqual([0, 5, 6]);
+    expect(CronExpression.validate("0 0 * * 7")).toBeNull();
+  });
+
+  it("rejects values out of range", () => {
+    expect(() => CronExpression.parse("60 * * * *")).toThrow(
+      "Minute 60 is out of range 0-59"
+    );
+    expect(() => CronExpression.parse("0 24 * * *")).toThrow(CronSyntaxError);
+    expect(() => CronExpression.parse("0 0 0 * *")).toThrow(CronSyntaxError);
+    expect(() => CronExpression.parse("0 0 * 13 *")).toThrow(CronSyntaxError);
+    expect(() => CronExpression.parse("0 0 * * 8")).toThrow(CronSyntaxError);
+  });
+
+  it("rejects malformed fields", () => {
+    expect(CronExpression.validate("0 0 * *")).toMatch(/Expected 5 fields/);
+    expect(CronExpression.validate("@daily")).toMatch(/not supported/);
+    expect(CronExpression.validate("*/0 * * * *")).toMatch(/Invalid step/);
+    expect(CronExpression.validate("0 17-9 * * *")).toMatch(/goes backwards/);
+    expect(CronExpression.validate("0,,5 * * * *")).toMatch(/Empty list item/);
+  });
+});
+
+describe("CronExpression.validate", () => {
+  it("warns about schedules more frequent than every 5 minutes", () => {
+    expect(CronExpression.validate("* * * * *")).toMatch(
+      /Runs every 1 minute;/
+    );
+    expect(CronExpression.validate("*/2 * * * *")).toMatch(
+      /Runs every 2 minutes/
+    );
+    expect(CronExpression.validate("*/5 * * * *")).toBeNull();
+  });
+
+  it("counts the gap between the end of one hour and the next", () => {
+    expect(CronExpression.validate("0,58 * * * *")).toMatch(
+      /Runs every 2 minutes/
+    );
+    expect(CronExpression.validate("0,58 3,12 * * *")).toBeNull();
+  });
+
+  it("reports schedules that never run", () => {
+    expect(CronExpression.validate("0 0 30 2 *")).toBe(
+      "The schedule never runs"
+    );
+  });
+});
+
+describe("CronExpression.getNextRuns", () => {
+  it("lists runs in UTC after the given time", () => {
+    const runs = CronExpression.getNextRuns(
+      CronExpression.parse("30 2 * * 1"),
+      new Date("2024-01-01T02:30:00Z"), // A Monday
+      2
+    );
+    expect(runs.map(run => run.toISOString())).toEqual([
+      "2024-01-08T02:30:00.000Z",
+      "2024-01-15T02:30:00.000Z",
+    ]);
+  });
+
+  it("runs on either day when both day fields are restricted", () => {
+    const runs = CronExpression.getNextRuns(
+      CronExpression.parse("0 0 1 * 0"),
+      new Date("2024-01-01T12:00:00Z"),
+      2
+    );
+    expect(runs.map(run => run.toISOString())).toEqual([
+      "2024-01-07T00:00:00.000Z",
+      "2024-01-14T00:00:00.000Z",
+    ]);
+  });
+});
+
+describe("CronExpression.describe", () => {
+  it("describes fixed times of day", () => {
+    expect(describeCron("0 2 * * 1-5")).toBe("Every weekday at 02:00 UTC");
+    expect(describeCron("30 6,18 * * *")).toBe(
+      "Every day at 06:30 and 18:30 UTC"
+    );
+    expect(describeCron("0 0 1 1 *")).toBe(
+      "On day 1 of the month in January at 00:00 UTC"
+    );
+  });
+
+  it("describes intervals", () => {
+    expect(describeCron("*/15 * * * *")).toBe("Every 15 minutes");
+    expect(describeCron("0 * * * *")).toBe("Every hour");
+    expect(describeCron("0 */4 * * SAT,SUN")).toBe("Every 4 hours on weekends");
+  });
+});
@@ -0,0 +1,473 @@
+/**
+ * POSIX cron parser for `on.schedule` triggers. GitHub evaluates schedules
+ * in UTC, runs them at most once every 5 minutes and does not support the
+ * `@daily` style macros or seconds.
+ */
+
+export type CronFieldName =
+  | "minute"
+  | "hour"
+  | "day of month"
+  | "month"
+  | "day of week";
+
+/** Parsed schedule; each field lists its allowed values in ascending order */
+export interface CronSchedule {
+  source: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[]; // 1-12
+  daysOfWeek: number[]; // 0-6, Sunday is 0
+  // POSIX runs on days matching either field when both are restricted
+  isDayOfMonthRestricted: boolean;
+  isDayOfWeekRestricted: boolean;
+}
+
+export class CronSyntaxError extends Error {
+  readonly field?: CronFieldName;
+
+  constructor(message: string, field?: CronFieldName) {
+    super(message);
+    this.name = "CronSyntaxError";
+    this.field = field;
+  }
+}
+
+interface FieldSpec {
+  name: CronFieldName;
+  min: number;
+  max: number;
+  names?: string[]; // Names for values starting at `min`
+  wraps?: boolean; // `max` is another name for `min`, e.g. 7 for Sunday
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: [
+      "JAN",
+      "FEB",
+      "MAR",
+      "APR",
+      "MAY",
+      "JUN",
+      "JUL",
+      "AUG",
+      "SEP",
+      "OCT",
+      "NOV",
+      "DEC",
+    ],
+  },
+  {
+    name: "day of week",
+    min: 0,
+    max: 7,
+    names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"],
+    wraps: true,
+  },
+];
+
+/** Shortest interval between scheduled runs that GitHub honours */
+export const MIN_SCHEDULE_INTERVAL_MINUTES = 5;
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Schedules such as `0 0 30 2 *` never run; stop looking after this long
+const MAX_SEARCH_DAYS = 366 * 8;
+
+export class CronExpression {
+  /**
+   * Parse a five-field cron expression
+   */
+  static parse(source: string): CronSchedule {
+    const trimmed = source.trim();
+    if (trimmed.startsWith("@")) {
+      throw new CronSyntaxError(
+        `Macros like '${trimmed.split(/\s/)[0]}' are not supported; use five fields`
+      );
+    }
+
+    const parts = trimmed.split(/\s+/).filter(part => part !== "");
+    if (parts.length !== 5) {
+      throw new CronSyntaxError(
+        `Expected 5 fields (minute hour day-of-month month day-of-week), found ${parts.length}`
+      );
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+      (part, index) => this.parseField(part, FIELDS[index])
+    );
+
+    return {
+      source: trimmed,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      isDayOfMonthRestricted: !parts[2].startsWith("*"),
+      isDayOfWeekRestricted: !parts[4].startsWith("*"),
+    };
+  }
+
+  /**
+   * Error message for an invalid expression, or null when it is valid
+   */
+  static validate(source: string): string | null {
+    try {
+      const schedule = this.parse(source);
+      const interval = this.getMinimumInterval(schedule);
+      if (interval < MIN_SCHEDULE_INTERVAL_MINUTES) {
+        return `Runs every ${interval} minute${interval !== 1 ? "s" : ""}; GitHub runs schedules at most every ${MIN_SCHEDULE_INTERVAL_MINUTES} minutes`;
+      }
+      if (this.getNextRuns(schedule, new Date(), 1).length === 0) {
+        return "The schedule never runs";
+      }
+      return null;
+    } catch (error) {
+      if (error instanceof CronSyntaxError) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the schedule runs at the given minute (UTC)
+   */
+  static matches(schedule: CronSchedule, date: Date): boolean {
+    return (
+      schedule.minutes.includes(date.getUTCMinutes()) &&
+      schedule.hours.includes(date.getUTCHours()) &&
+      this.matchesDay(schedule, date)
+    );
+  }
+
+  /**
+   * The next `count` run times strictly after `from`
+   */
+  static getNextRuns(
+    schedule: CronSchedule,
+    from: Date,
+    count: number
+  ): Date[] {
+    const runs: Date[] = [];
+    const start = new Date(from.getTime());
+    start.setUTCSeconds(0, 0);
+    start.setUTCMinutes(start.getUTCMinutes() + 1);
+
+    const day = new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate())
+    );
+
+    for (let i = 0; i < MAX_SEARCH_DAYS && runs.length < count; i++) {
+      if (this.matchesDay(schedule, day)) {
+        for (const hour of schedule.hours) {
+          for (const minute of schedule.minutes) {
+            const run = new Date(day.getTime());
+            run.setUTCHours(hour, minute);
+            if (run >= start) {
+              runs.push(run);
+              if (runs.length === count) {
+                return runs;
+              }
+            }
+          }
+        }
+      }
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+
+    return runs;
+  }
+
+  /**
+   * Shortest gap in minutes between two runs on the same or adjacent hours
+   */
+  static getMinimumInterval(schedule: CronSchedule): number {
+    const { minutes, hours } = schedule;
+    let interval = Infinity;
+
+    for (let i = 1; i < minutes.length; i++) {
+      interval = Math.min(interval, minutes[i] - minutes[i - 1]);
+    }
+
+    // The last run of one hour and the first of the next
+    const hasAdjacentHours = hours.some(hour =>
+      hours.includes((hour + 1) % 24)
+    );
+    if (hasAdjacentHours) {
+      interval = Math.min(
+        interval,
+        60 - minutes[minutes.length - 1] + minutes[0]
+      );
+    }
+
+    return interval;
+  }
+
+  /**
+   * Human-readable summary, e.g. "Every weekday at 02:00 UTC"
+   */
+  static describe(schedule: CronSchedule): string {
+    const days = this.describeDays(schedule);
+    const { minutes, hours } = schedule;
+    const allHours = hours.length === 24;
+
+    // A fixed time of day
+    if (minutes.length === 1 && hours.length <= 4) {
+      const times = hours.map(
+        hour => `${this.pad(hour)}:${this.pad(minutes[0])}`
+      );
+      return `${days.standalone} at ${this.joinList(times)} UTC`;
+    }
+
+    let time: string;
+    const minuteStep = this.getStep(minutes, 0, 59);
+    const hourStep = this.getStep(hours, 0, 23);
+
+    if (minutes.length === 60 && allHours) {
+      time = "Every minute";
+    } else if (minuteStep && allHours) {
+      time = `Every ${minuteStep} minutes`;
+    } else if (minutes.length === 1 && allHours) {
+      time =
+        minutes[0] === 0 ? "Every hour" : `Every hour at minute ${minutes[0]}`;
+    } else if (minutes.length === 1 && hourStep) {
+      time = `Every ${hourStep} hours${minutes[0] !== 0 ? ` at minute ${minutes[0]}` : ""}`;
+    } else {
+      time = `At minute ${this.describeValues(minutes)} past hour ${this.describeValues(hours)} UTC`;
+    }
+
+    return days.suffix ? `${time} ${days.suffix}` : time;
+  }
+
+  private static parseField(part: string, spec: FieldSpec): number[] {
+    const values = new Set<number>();
+
+    part.split(",").forEach(item => {
+      if (item === "") {
+        throw new CronSyntaxError(`Empty list item in ${spec.name}`, spec.name);
+      }
+
+      const [range, stepText, ...rest] = item.split("/");
+      if (rest.length > 0) {
+        throw new CronSyntaxError(
+          `Invalid step '${item}' in ${spec.name}`,
+          spec.name
+        );
+      }
+
+      let step = 1;
+      if (stepText !== undefined) {
+        if (!/^\d+$/.test(stepText) || Number(stepText) === 0) {
+          throw new CronSyntaxError(
+            `Invalid step '${stepText}' in ${spec.name}`,
+            spec.name
+          );
+        }
+        step = Number(stepText);
+      }
+
+      let start: number;
+      let end: number;
+      if (range === "*") {
+        start = spec.min;
+        end = spec.max;
+      } else if (range.includes("-")) {
+        const [from, to, ...extra] = range.split("-");
+        if (extra.length > 0) {
+          throw new CronSyntaxError(
+            `Invalid range '${range}' in ${spec.name}`,
+            spec.name
+          );
+        }
+        start = this.parseValue(from, spec);
+        end = this.parseValue(to, spec);
+        if (start > end) {
+          throw new CronSyntaxError(
+            `Range '${range}' in ${spec.name} goes backwards`,
+            spec.name
+          );
+        }
+      } else {
+        start = this.parseValue(range, spec);
+        // `5/15` means every 15 starting at 5
+        end = stepText !== undefined ? spec.max : start;
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(spec.wraps && value === spec.max ? spec.min : value);
+      }
+    });
+
+    return [...values].sort((a, b) => a - b);
+  }
+
+  private static parseValue(text: string, spec: FieldSpec): number {
+    const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+    if (nameIndex !== -1) {
+      return spec.min + nameIndex;
+    }
+
+    if (!/^\d+$/.test(text)) {
+      throw new CronSyntaxError(
+        `Invalid value '${text}' in ${spec.name}`,
+        spec.name
+      );
+    }
+
+    const value = Number(text);
+    if (value < spec.min || value > spec.max) {
+      throw new CronSyntaxError(
+        `${spec.name[0].toUpperCase()}${spec.name.slice(1)} ${value} is out of range ${spec.min}-${spec.max}`,
+        spec.name
+      );
+    }
+    return value;
+  }
+
+  private static matchesDay(schedule: CronSchedule, date: Date): boolean {
+    if (!schedule.months.includes(date.getUTCMonth() + 1)) {
+      return false;
+    }
+
+    const dayOfMonth = schedule.daysOfMonth.includes(date.getUTCDate());
+    const dayOfWeek = schedule.daysOfWeek.includes(date.getUTCDay());
+
+    if (schedule.isDayOfMonthRestricted && schedule.isDayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+
+  /**
+   * Day phrase used on its own ("Every Monday") and after a time phrase
+   * ("on Monday")
+   */
+  private static describeDays(schedule: CronSchedule): {
+    standalone: string;
+    suffix: string;
+  } {
+    const weekdays = schedule.daysOfWeek.join();
+    const daysOfWeek =
+      weekdays === "1,2,3,4,5"
+        ? { every: "weekday", on: "weekdays" }
+        : weekdays === "0,6"
+          ? { every: "weekend day", on: "weekends" }
+          : {
+              every: this.joinList(
+                schedule.daysOfWeek.map(day => DAY_NAMES[day])
+              ),
+              on: this.joinList(schedule.daysOfWeek.map(day => DAY_NAMES[day])),
+            };
+    const dayOfMonth = `day ${this.describeValues(schedule.daysOfMonth)} of the month`;
+
+    let standalone = "Every day";
+    let suffix = "";
+    if (schedule.isDayOfMonthRestricted && schedule.isDayOfWeekRestricted) {
+      standalone = `On ${dayOfMonth} and every ${daysOfWeek.every}`;
+      suffix = `on ${dayOfMonth} and on ${daysOfWeek.on}`;
+    } else if (schedule.isDayOfMonthRestricted) {
+      standalone = `On ${dayOfMonth}`;
+      suffix = `on ${dayOfMonth}`;
+    } else if (schedule.isDayOfWeekRestricted) {
+      standalone = `Every ${daysOfWeek.every}`;
+      suffix = `on ${daysOfWeek.on}`;
+    }
+
+    if (schedule.months.length < 12) {
+      const months = `in ${this.joinList(
+        schedule.months.map(month => MONTH_NAMES[month - 1])
+      )}`;
+      standalone = `${standalone} ${months}`;
+      suffix = suffix ? `${suffix} ${months}` : months;
+    }
+
+    return { standalone, suffix };
+  }
+
+  /**
+   * `n` when the values are every n-th value of the full range
+   */
+  private static getStep(
+    values: number[],
+    min: number,
+    max: number
+  ): number | null {
+    if (values.length < 2 || values[0] !== min) {
+      return null;
+    }
+    const step = values[1] - values[0];
+    const isProgression = values.every(
+      (value, index) => value === min + index * step
+    );
+    return isProgression && values[values.length - 1] + step > max
+      ? step
+      : null;
+  }
+
+  /**
+   * Compact list with ranges, e.g. `1-5, 10 and 15`
+   */
+  private static describeValues(values: number[]): string {
+    const groups: string[] = [];
+    let start = values[0];
+
+    values.forEach((value, index) => {
+      const next = values[index + 1];
+      if (next !== value + 1) {
+        groups.push(
+          value - start >= 2
+            ? `${start}-${value}`
+            : start === value
+              ? `${value}`
+              : `${start}, ${value}`
+        );
+        start = next;
+      }
+    });
+
+    return this.joinList(groups.join(", ").split(", "));
+  }
+
+  private static joinList(items: string[]): string {
+    return items.length <= 1
+      ? items.join("")
+      : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+  }
+
+  private static pad(value: number): string {
+    return String(value).padStart(2, "0");
+  }
+}
@@ -0,0 +1,555 @@
+import type {
+  CompositeAction,
+  GitHubWorkflow,
+  Job,
+  Step,
+} from "../types/github-actions";
+import { getActionOutputs } from "./github-actions-catalog";
+import {
+  EXPRESSION_CONTEXTS,
+  EXPRESSION_FUNCTIONS,
+  STATUS_FUNCTIONS,
+  getContextAvailability,
+} from "./github-actions-expressions";
+import type { ContextAvailability } from "./github-actions-expressions";
+import { ReusableWorkflows } from "./reusable-workflows";
+import type { CalledWorkflows } from "./reusable-workflows";
+
+export interface ExpressionSuggestion {
+  label: string;
+  kind: "context" | "property" | "function";
+  insertText: string;
+  detail?: string;
+}
+
+export interface ExpressionCompletionResult {
+  from: number; // Offset where the name being completed starts
+  suggestions: ExpressionSuggestion[];
+}
+
+export interface FunctionSignature {
+  name: string;
+  params: string[];
+  activeParam: number; // Index into params of the argument being typed
+  description: string;
+}
+
+// What the workflow graph offers to expressions
+export interface ExpressionScope {
+  workflow: GitHubWorkflow;
+  action?: CompositeAction; // Set when editing a composite action
+  calledWorkflows?: CalledWorkflows;
+}
+
+// Job and step an expression belongs to
+interface ExpressionLocation {
+  job?: Job;
+  steps: Step[];
+  stepIndex?: number;
+}
+
+const CONTEXT_DESCRIPTIONS: Record<string, string> = {
+  github: "Workflow run and triggering event",
+  env: "Environment variables",
+  vars: "Configuration variables",
+  job: "Currently running job",
+  jobs: "Jobs of a reusable workflow",
+  steps: "Steps with an id that already ran",
+  runner: "Runner executing the job",
+  secrets: "Secrets available to the run",
+  strategy: "Matrix execution strategy",
+  matrix: "Matrix values of the current job",
+  needs: "Jobs this job depends on",
+  inputs: "Inputs of the workflow or action",
+};
+
+const GITHUB_PROPERTIES: Record<string, string> = {
+  action: "Name of the running action or step id",
+  action_path: "Path of the running action",
+  actor: "User that triggered the run",
+  api_url: "URL of the GitHub REST API",
+  base_ref: "Target branch of a pull request",
+  event: "Full event webhook payload",
+  event_name: "Name of the triggering event",
+  event_path: "Path of the event payload file",
+  head_ref: "Source branch of a pull request",
+  job: "Job ID of the current job",
+  ref: "Fully-formed ref that triggered the run",
+  ref_name: "Short ref name, e.g. main",
+  ref_type: "branch or tag",
+  repository: "owner/repo",
+  repository_owner: "Owner of the repository",
+  run_attempt: "Attempt number of the run",
+  run_id: "Unique ID of the run",
+  run_number: "Run number of the workflow",
+  server_url: "URL of the GitHub server",
+  sha: "Commit SHA that triggered the run",
+  token: "Token for the run, same as secrets.GITHUB_TOKEN",
+  triggering_actor: "User that initiated the run attempt",
+  workflow: "Name of the workflow",
+  workspace: "Default working directory on the runner",
+};
+
+const RUNNER_PROPERTIES: Record<string, string> = {
+  arch: "X86, X64, ARM or ARM64",
+  debug: "Set when debug logging is enabled",
+  environment: "github-hosted or self-hosted",
+  name: "Name of the runner",
+  os: "Linux, Windows or macOS",
+  temp: "Path of the temporary directory",
+  tool_cache: "Path of the preinstalled tools",
+};
+
+const JOB_PROPERTIES: Record<string, string> = {
+  container: "Service container of the job",
+  services: "Service containers of the job",
+  status: "success, failure or cancelled",
+};
+
+const STRATEGY_PROPERTIES: Record<string, string> = {
+  "fail-fast": "Whether a failure cancels the other matrix jobs",
+  "job-index": "Zero-based index of the matrix job",
+  "job-total": "Number of matrix jobs",
+  "max-parallel": "Maximum matrix jobs running at once",
+};
+
+const STEP_PROPERTIES: Record<string, string> = {
+  conclusion: "Result after continue-on-error is applied",
+  outcome: "Result before continue-on-error is applied",
+  outputs: "Outputs set by the step",
+};
+
+const NEEDS_PROPERTIES: Record<string, string> = {
+  outputs: "Outputs declared by the job",
+  result: "success, failure, cancelled or skipped",
+};
+
+// Composite action steps cannot read job dependencies or secrets
+const ACTION_EXCLUDED_CONTEXTS = ["needs", "secrets"];
+
+/**
+ * Completions and function signatures for expressions typed into property
+ * fields. Context members come from the current workflow: job dependencies,
+ * earlier step IDs, matrix axes, declared inputs, secrets and env.
+ */
+export class ExpressionCompletions {
+  /**
+   * Suggestions for the name being typed at `cursor`, or none when the
+   * cursor is outside an expression or inside a string literal
+   */
+  static getCompletions(
+    text: string,
+    cursor: number,
+    path: (string | number)[],
+    scope: ExpressionScope,
+    isCondition = false
+  ): ExpressionCompletionResult {
+    const expression = this.getExpressionAt(text, cursor, isCondition);
+    if (!expression || expression.inString) {
+      return { from: cursor, suggestions: [] };
+    }
+
+    const typed = text.slice(expression.start, cursor);
+    const partial = typed.match(/[A-Za-z0-9_-]*$/)![0];
+    const from = cursor - partial.length;
+    const before = typed.slice(0, typed.length - partial.length);
+    const matches = (label: string) =>
+      label.toLowerCase().startsWith(partial.toLowerCase());
+
+    // Completing a member: `needs.build.` or `steps.setup.outputs.ver`
+    if (before.endsWith(".")) {
+      const chain = before.match(/([A-Za-z_][\w-]*(?:\.[\w-]+|\.\*)*)\.$/);
+      // Members of function results or indexed values are unknown
+      if (!chain || /[\w\]).]$/.test(before.slice(0, chain.index))) {
+        return { from, suggestions: [] };
+      }
+      const members = this.getMembers(chain[1].split("."), path, scope);
+      return {
+        from,
+        suggestions: Object.entries(members)
+          .filter(([name]) => matches(name))
+          .map(([name, detail]) => ({
+            label: name,
+            kind: "property",
+            insertText: name,
+            detail,
+          })),
+      };
+    }
+    if (/[\w\])'.]$/.test(before) || /^\d/.test(partial)) {
+      return { from, suggestions: [] };
+    }
+
+    const availability = this.getAvailability(path);
+    const contexts = availability.contexts.filter(matches).map(
+      (name): ExpressionSuggestion => ({
+        label: name,
+        kind: "context",
+        insertText: name,
+        detail: CONTEXT_DESCRIPTIONS[name],
+      })
+    );
+    const functions = Object.entries(EXPRESSION_FUNCTIONS)
+      .filter(
+        ([name]) =>
+          matches(name) &&
+          (![...STATUS_FUNCTIONS, "hashFiles"].includes(name) ||
+            availability.functions.includes(name))
+      )
+      .map(
+        ([name, definition]): ExpressionSuggestion => ({
+          label: name,
+          kind: "function",
+          insertText: definition.maxArgs === 0 ? `${name}()` : `${name}(`,
+          detail: this.formatSignature(name),
+        })
+      );
+    return { from, suggestions: [...contexts, ...functions] };
+  }
+
+  /**
+   * Signature of the innermost function call the cursor is in
+   */
+  static getSignature(
+    text: string,
+    cursor: number,
+    isCondition = false
+  ): FunctionSignature | null {
+    const expression = this.getExpressionAt(text, cursor, isCondition);
+    if (!expression) {
+      return null;
+    }
+
+    // Open parentheses, with the function they call and arguments seen
+    const calls: { name: string | null; args: number }[] = [];
+    let inString = false;
+    for (let index = expression.start; index < cursor; index++) {
+      const char = text[index];
+      if (char === "'") {
+        inString = !inString;
+      } else if (inString) {
+        continue;
+      } else if (char === "(") {
+        const name = text
+          .slice(expression.start, index)
+          .match(/(?:^|[^\w.-])([A-Za-z_]\w*)\s*$/)?.[1];
+        const definition = Object.keys(EXPRESSION_FUNCTIONS).find(
+          candidate => candidate.toLowerCase() === name?.toLowerCase()
+        );
+        calls.push({ name: definition || null, args: 0 });
+      } else if (char === ")") {
+        calls.pop();
+      } else if (char === "," && calls.length > 0) {
+        calls[calls.length - 1].args++;
+      }
+    }
+
+    const call = [...calls].reverse().find(candidate => candidate.name);
+    if (!call?.name) {
+      return null;
+    }
+    const { params, description } = EXPRESSION_FUNCTIONS[call.name];
+    const isVariadic = params[params.length - 1]?.startsWith("...");
+    return {
+      name: call.name,
+      params,
+      activeParam: isVariadic
+        ? Math.min(call.args, params.length - 1)
+        : call.args,
+      description,
+    };
+  }
+
+  /**
+   * e.g. `contains(search, item)`
+   */
+  static formatSignature(name: string): string {
+    return `${name}(${EXPRESSION_FUNCTIONS[name].params.join(", ")})`;
+  }
+
+  /**
+   * Start of the expression around the cursor: the whole text of a bare
+   * condition, otherwise just after an unclosed `${{`
+   */
+  private static getExpressionAt(
+    text: string,
+    cursor: number,
+    isCondition: boolean
+  ): { start: number; inString: boolean } | null {
+    let start = 0;
+    if (!isCondition || text.includes("${{")) {
+      start = cursor >= 3 ? text.lastIndexOf("${{", cursor - 3) : -1;
+      if (start === -1) {
+        return null;
+      }
+      start += 3;
+    }
+
+    let inString = false;
+    for (let index = start; index < cursor; index++) {
+      if (text[index] === "'") {
+        inString = !inString;
+      } else if (!inString && text.startsWith("}}", index)) {
+        return null;
+      }
+    }
+    return { start, inString };
+  }
+
+  /**
+   * Contexts and status functions allowed at the path. Composite action
+   * steps follow workflow step rules without `needs` and `secrets`.
+   */
+  private static getAvailability(
+    path: (string | number)[]
+  ): ContextAvailability {
+    if (path[0] === "runs") {
+      const availability = getContextAvailability([
+        "jobs",
+        "",
+        ...path.slice(1),
+      ]);
+      if (availability) {
+        return {
+          ...availability,
+          contexts: availability.contexts.filter(
+            context => !ACTION_EXCLUDED_CONTEXTS.includes(context)
+          ),
+        };
+      }
+    }
+    return (
+      getContextAvailability(path) || {
+        contexts: EXPRESSION_CONTEXTS,
+        functions: [...STATUS_FUNCTIONS, "hashFiles"],
+      }
+    );
+  }
+
+  /**
+   * Members of a context or property chain, with a short description each
+   */
+  private static getMembers(
+    segments: string[],
+    path: (string | number)[],
+    scope: ExpressionScope
+  ): Record<string, string> {
+    const [context, name, property] = segments;
+    const { workflow } = scope;
+    const location = this.getLocation(path, scope);
+    const jobs = workflow.jobs || {};
+
+    if (segments.length === 1) {
+      switch (context.toLowerCase()) {
+        case "github":
+          return GITHUB_PROPERTIES;
+        case "runner":
+          return RUNNER_PROPERTIES;
+        case "job":
+          return JOB_PROPERTIES;
+        case "strategy":
+          return STRATEGY_PROPERTIES;
+        case "env":
+          return this.getEnv(location, scope);
+        case "inputs":
+          return this.getInputs(scope);
+        case "secrets":
+          return this.getSecrets(workflow);
+        case "matrix":
+          return this.getMatrixAxes(location.job);
+        case "needs": {
+          const needs = location.job?.needs || [];
+          return Object.fromEntries(
+            (Array.isArray(needs) ? needs : [needs]).map(jobId => [
+              jobId,
+              jobs[jobId]?.name || "Job",
+            ])
+          );
+        }
+        case "steps":
+          return Object.fromEntries(
+            this.getEarlierSteps(location)
+              .filter(step => step.id)
+              .map(step => [step.id!, step.name || step.uses || "Step"])
+          );
+        case "jobs":
+          return Object.fromEntries(
+            Object.entries(jobs).map(([jobId, job]) => [
+              jobId,
+              job.name || "Job",
+            ])
+          );
+        default:
+          return {};
+      }
+    }
+
+    switch (context.toLowerCase()) {
+      case "needs": {
+        const job = jobs[name];
+        if (!job) {
+          return {};
+        }
+        if (segments.length === 2) {
+          return NEEDS_PROPERTIES;
+        }
+        return segments.length === 3 && property === "outputs"
+          ? this.getJobOutputs(job, scope.calledWorkflows)
+          : {};
+      }
+      case "jobs": {
+        const job = jobs[name];
+        if (!job) {
+          return {};
+        }
+        if (segments.length === 2) {
+          return { outputs: NEEDS_PROPERTIES.outputs };
+        }
+        return segments.length === 3 && property === "outputs"
+          ? this.getJobOutputs(job, scope.calledWorkflows)
+          : {};
+      }
+      case "steps": {
+        const step = this.getEarlierSteps(location).find(
+          candidate => candidate.id === name
+        );
+        if (!step) {
+          return {};
+        }
+        if (segments.length === 2) {
+          return STEP_PROPERTIES;
+        }
+        const outputs =
+          segments.length === 3 && property === "outputs" && step.uses
+            ? getActionOutputs(step.uses)
+            : undefined;
+        return Object.fromEntries(
+          Object.entries(outputs || {}).map(([output, definition]) => [
+            output,
+            definition.description,
+          ])
+        );
+      }
+      default:
+        return {};
+    }
+  }
+
+  private static getLocation(
+    path: (string | number)[],
+    scope: ExpressionScope
+  ): ExpressionLocation {
+    const stepIndex = (index: number) =>
+      path[index - 1] === "steps" && typeof path[index] === "number"
+        ? path[index]
+        : undefined;
+
+    if (path[0] === "runs" && scope.action) {
+      return { steps: scope.action.runs.steps || [], stepIndex: stepIndex(2) };
+    }
+    const job =
+      path[0] === "jobs" ? scope.workflow.jobs?.[String(path[1])] : undefined;
+    return { job, steps: job?.steps || [], stepIndex: stepIndex(3) };
+  }
+
+  // Steps that ran before the current one; job-level keys see all of them
+  private static getEarlierSteps(location: ExpressionLocation): Step[] {
+    return location.stepIndex === undefined
+      ? location.steps
+      : location.steps.slice(0, location.stepIndex);
+  }
+
+  private static getEnv(
+    location: ExpressionLocation,
+    scope: ExpressionScope
+  ): Record<string, string> {
+    const step =
+      location.stepIndex !== undefined
+        ? location.steps[location.stepIndex]
+        : undefined;
+    const levels: [Record<string, string> | undefined, string][] = [
+      [scope.action ? undefined : scope.workflow.env, "Workflow env"],
+      [location.job?.env, "Job env"],
+      [step?.env, "Step env"],
+    ];
+    return Object.fromEntries(
+      levels.flatMap(([env, detail]) =>
+        Object.keys(env || {}).map(name => [name, detail])
+      )
+    );
+  }
+
+  private static getInputs(scope: ExpressionScope): Record<string, string> {
+    const describe = (input: { description?: string; type?: string }) =>
+      input.description || input.type || "Input";
+
+    if (scope.action) {
+      return Object.fromEntries(
+        Object.entries(scope.action.inputs || {}).map(([name, input]) => [
+          name,
+          describe(input),
+        ])
+      );
+    }
+    const triggers = scope.workflow.on || {};
+    return Object.fromEntries(
+      [triggers.workflow_dispatch?.inputs, triggers.workflow_call?.inputs]
+        .flatMap(inputs => Object.entries(inputs || {}))
+        .map(([name, input]) => [name, describe(input)])
+    );
+  }
+
+  private static getSecrets(workflow: GitHubWorkflow): Record<string, string> {
+    const secrets = workflow.on?.workflow_call?.secrets || {};
+    return {
+      GITHUB_TOKEN: "Token scoped by the workflow permissions",
+      ...Object.fromEntries(
+        Object.entries(secrets).map(([name, secret]) => [
+          name,
+          secret?.description || "Secret passed by the caller",
+        ])
+      ),
+    };
+  }
+
+  // Axes of the job's matrix, including keys only added by `include`
+  private static getMatrixAxes(job?: Job): Record<string, string> {
+    const matrix = job?.strategy?.matrix;
+    if (!matrix || typeof matrix !== "object") {
+      return {};
+    }
+
+    const axes: Record<string, string> = {};
+    Object.entries(matrix).forEach(([key, values]) => {
+      if (key !== "include" && key !== "exclude" && Array.isArray(values)) {
+        axes[key] = values.join(", ");
+      }
+    });
+    (matrix.include || []).forEach(entry =>
+      Object.keys(entry).forEach(key => {
+        axes[key] = axes[key] || "Added by include";
+      })
+    );
+    return axes;
+  }
+
+  private static getJobOutputs(
+    job: Job,
+    calledWorkflows?: CalledWorkflows
+  ): Record<string, string> {
+    if (!job.uses) {
+      return { ...job.outputs };
+    }
+    const path = ReusableWorkflows.getCalleePath(
+      job.uses,
+      calledWorkflows?.repository ?? null
+    );
+    const definition = path ? calledWorkflows?.definitions[path] : undefined;
+    return Object.fromEntries(
+      Object.entries(definition?.outputs || {}).map(([name, output]) => [
+        name,
+        output.description || output.value,
+      ])
+    );
+  }
+}
@@ -18,6 +18,7 @@ export const ENHANCED_POPULAR_ACTIONS: PopularAction[] = [
     description:
       "Check out your repository under $GITHUB_WORKSPACE so your job can access it",
     category: "utility",
+    permissions: { contents: "read" },
     inputs: {
       repository: {
         description:
@@ -83,6 +84,7 @@ export const ENHANCED_POPULAR_ACTIONS: PopularAction[] = [
     description:
       "Set up a specific version of Node.js and add the command-line tools to the PATH",
     category: "utility",
+    permissions: {},
     inputs: {
       "node-version": {
         description:
@@ -148,6 +150,7 @@ export const ENHANCED_POPULAR_ACTIONS: PopularAction[] = [
     description:
       "Set up a specific version of Python and add the command-line tools to the PATH",
     category: "utility",
+    permissions: {},
     inputs: {
       "python-version": {
         description:
@@ -213,6 +216,7 @@ export const ENHANCED_POPULAR_ACTIONS: PopularAction[] = [
     description:
       "Set up a specific version of Java and add the command-line tools to the PATH",
     category: "utility",
+    permissions: {},
     inputs: {
       "java-version": {
         description:
@@ -289,6 +293,7 @@ export const ENHANCED_POPULAR_ACTIONS: PopularAction[] = [
     description:
       "Upload artifacts from your workflow allowing you to share data between jobs and store data once a workflow is complete",
     category: "utility",
+    permissions: {},
     inputs: {
       name: {
         description: "Artifact name",
@@ -344,6 +349,7 @@ export const ENHANCED_POPULAR_ACTIONS: PopularAction[] = [
     name: "Download Build Artifacts",
     description: "Download artifacts from your build",
     category: "utility",
+    permissions: {},
     inputs: {
       name: {
         description:
@@ -381,6 +387,7 @@ export const ENHANCED_POPULAR_ACTIONS: PopularAction[] = [
     name: "Codecov Coverage Upload",
     description: "Upload coverage reports to Codecov",
     category: "testing",
+    permissions: {},
     inputs: {
       token: {
         description: "Repository upload token - get it from codecov.io",
@@ -422,6 +429,11 @@ export const ENHANCED_POPULAR_ACTIONS: PopularAction[] = [
     name: "CodeQL Analysis",
     description: "Run CodeQL analysis on your code",
     category: "security",
+    permissions: {
+      actions: "read",
+      contents: "read",
+      "security-events": "write",
+    },
     inputs: {
       languages: {
         description: "Languages to analyze",
@@ -450,6 +462,7 @@ export const ENHANCED_POPULAR_ACTIONS: PopularAction[] = [
     name: "Deploy to GitHub Pages",
     description: "Deploy your website to GitHub Pages",
     category: "deployment",
+    permissions: { contents: "write" },
     inputs: {
       github_token: {
         description: "GitHub token for authentication",
@@ -491,6 +504,7 @@ export const ENHANCED_POPULAR_ACTIONS: PopularAction[] = [
     name: "Slack Notification",
     description: "Send Slack notifications about workflow status",
     category: "notification",
+    permissions: {},
     inputs: {
       status: {
         description: "Job status (success, failure, cancelled)",
@@ -555,6 +569,26 @@ export function getActionDetails(uses: string): PopularAction | undefined {
   return ENHANCED_POPULAR_ACTIONS.find(action => action.uses === uses);
 }
 
+/**
+ * Find a catalog action by `uses` string, whatever version it refers to
+ */
+export function getCatalogAction(uses: string): PopularAction | undefined {
+  const [name] = uses.split("@");
+  return ENHANCED_POPULAR_ACTIONS.find(
+    action => action.uses.split("@")[0].toLowerCase() === name.toLowerCase()
+  );
+}
+
+/**
+ * Get the documented outputs of a catalog action, whatever version the
+ * `uses` string refers to
+ */
+export function getActionOutputs(
+  uses: string
+): PopularAction["outputs"] | undefined {
+  return getCatalogAction(uses)?.outputs;
+}
+
 /**
  * Enhanced job templates with more comprehensive patterns
  */
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import {
+  ExpressionEvaluator,
+  ExpressionParser,
+  ExpressionSyntaxError,
+  getContextAvailability,
+  getContextReferences,
+} from "./github-actions-expressions";
+
+const CONTEXT = {
+  github: {
+    ref: "refs/heads/main",
+    event_name: "push",
+    event: {
+      commits: [{ message: "Fix build" }, { message: "Add docs" }],
+    },
+  },
+  matrix: { os: "ubuntu-latest", node: 20 },
+  env: { EMPTY: "" },
+};
+
+const evaluate = (expression: string) =>
+  ExpressionEvaluator.evaluate(ExpressionParser.parse(expression), CONTEXT);
+
+describe("ExpressionParser", () => {
+  it("binds ! tighter than comparisons, and && tighter than ||", () => {
+    expect(evaluate("true || false && false")).toBe(true);
+    expect(evaluate("(true || false) && false")).toBe(false);
+    expect(evaluate("!false == true")).toBe(true);
+    expect(evaluate("1 < 2 == 2 > 1")).toBe(true);
+  });
+
+  it("reports syntax errors with their offset", () => {
+    expect(() => ExpressionParser.parse("github.ref ==")).toThrow(
+      ExpressionSyntaxError
+    );
+    const [error] = ExpressionParser.findSyntaxErrors(
+      "echo ${{ github.ref == }}"
+    );
+    expect(error.offset).toBeGreaterThanOrEqual(9);
+  });
+
+  it("finds every broken expression in a string", () => {
+    expect(
+      ExpressionParser.findSyntaxErrors("${{ a. }} and ${{ b( }}")
+    ).toHaveLength(2);
+    expect(ExpressionParser.findSyntaxErrors("${{ github.sha")).toHaveLength(1);
+  });
+
+  it("skips braces inside string literals", () => {
+    const parts = ExpressionParser.parseTemplate("x ${{ format('}}') }} y");
+    expect(parts.map(part => part.type)).toEqual([
+      "text",
+      "expression",
+      "text",
+    ]);
+  });
+
+  it("reads conditions with and without ${{ }}", () => {
+    expect(
+      ExpressionEvaluator.evaluateCondition(
+        "github.ref == 'refs/heads/main'",
+        CONTEXT
+      )
+    ).toBe(true);
+    expect(
+      ExpressionEvaluator.evaluateCondition(
+        "${{ github.event_name == 'pull_request' }}",
+        CONTEXT
+      )
+    ).toBe(false);
+  });
+
+  it("returns the longest context path of each reference", () => {
+    const node = ExpressionParser.parse(
+      "github.event.issue.title || matrix[env.KEY]"
+    );
+    expect(getContextReferences(node).map(({ path }) => path)).toEqual([
+      ["github", "event", "issue", "title"],
+      ["matrix", null],
+      ["env", "KEY"],
+    ]);
+  });
+});
+
+describe("ExpressionEvaluator", () => {
+  it("compares strings ignoring case", () => {
+    expect(evaluate("'ABC' == 'abc'")).toBe(true);
+    expect(evaluate("matrix.os != 'UBUNTU-LATEST'")).toBe(false);
+  });
+
+  it("coerces operands of different types to numbers", () => {
+    expect(evaluate("'1' == 1")).toBe(true);
+    expect(evaluate("'' == 0")).toBe(true);
+    expect(evaluate("null == 0")).toBe(true);
+    expect(evaluate("true == 1")).toBe(true);
+    expect(evaluate("'abc' == 0")).toBe(false);
+    expect(evaluate("matrix.node >= '18'")).toBe(true);
+  });
+
+  it("reads number literals", () => {
+    expect(evaluate("0xff")).toBe(255);
+    expect(evaluate("-1.5")).toBe(-1.5);
+    expect(evaluate("1e3")).toBe(1000);
+  });
+
+  it("returns operand values from && and ||", () => {
+    expect(evaluate("env.EMPTY || 'default'")).toBe("default");
+    expect(evaluate("matrix.os && matrix.node")).toBe(20);
+    expect(evaluate("env.MISSING && 'never'")).toBe(null);
+  });
+
+  it("formats strings", () => {
+    expect(evaluate("format('{0} on {1}', matrix.os, matrix.node)")).toBe(
+      "ubuntu-latest on 20"
+    );
+    expect(evaluate("format('{{0}} is {0}', 'x')")).toBe("{0} is x");
+  });
+
+  it("joins arrays and object filters", () => {
+    expect(evaluate("join(github.event.commits.*.message)")).toBe(
+      "Fix build,Add docs"
+    );
+    expect(evaluate("join(github.event.commits.*.message, ' | ')")).toBe(
+      "Fix build | Add docs"
+    );
+    expect(evaluate("join('single')")).toBe("single");
+  });
+
+  it("parses and serializes JSON", () => {
+    expect(evaluate("fromJSON('{\"a\": [1, 2]}').a[1]")).toBe(2);
+    expect(evaluate("fromJSON('true')")).toBe(true);
+    expect(JSON.parse(evaluate("toJSON(matrix)") as string)).toEqual(
+      CONTEXT.matrix
+    );
+  });
+
+  it("searches strings and arrays ignoring case", () => {
+    expect(evaluate("contains(github.ref, 'MAIN')")).toBe(true);
+    expect(evaluate("contains(fromJSON('[\"a\", \"b\"]'), 'B')")).toBe(true);
+    expect(evaluate("startsWith(github.ref, 'REFS/heads')")).toBe(true);
+    expect(evaluate("endsWith(github.ref, '/dev')")).toBe(false);
+  });
+
+  it("splices expressions into text as strings", () => {
+    expect(
+      ExpressionEvaluator.evaluateTemplate(
+        "node-${{ matrix.node }}-${{ env.MISSING }}",
+        CONTEXT
+      )
+    ).toBe("node-20-");
+    expect(
+      ExpressionEvaluator.evaluateTemplate("${{ matrix.node }}", CONTEXT)
+    ).toBe(20);
+  });
+
+  it("applies the job status to status functions", () => {
+    const condition = (source: string, status: "success" | "failure") =>
+      ExpressionEvaluator.evaluateCondition(source, CONTEXT, { status });
+    expect(condition("true", "failure")).toBe(false);
+    expect(condition("failure()", "failure")).toBe(true);
+    expect(condition("always() && false", "failure")).toBe(false);
+    expect(condition("success() || failure()", "success")).toBe(true);
+  });
+});
+
+describe("getContextAvailability", () => {
+  it("allows needs but not secrets in job conditions", () => {
+    const availability = getContextAvailability(["jobs", "build", "if"]);
+    expect(availability?.contexts).toContain("needs");
+    expect(availability?.contexts).not.toContain("secrets");
+    expect(availability?.functions).toContain("failure");
+  });
+
+  it("allows secrets and hashFiles in step scripts", () => {
+    const availability = getContextAvailability([
+      "jobs",
+      "build",
+      "steps",
+      0,
+      "run",
+    ]);
+    expect(availability?.contexts).toEqual(
+      expect.arrayContaining(["secrets", "steps", "runner"])
+    );
+    expect(availability?.functions).toEqual(["hashFiles"]);
+  });
+
+  it("uses the most specific key", () => {
+    expect(
+      getContextAvailability(["jobs", "build", "container", "credentials"])
+        ?.contexts
+    ).toContain("secrets");
+    expect(
+      getContextAvailability(["jobs", "build", "container", "image"])?.contexts
+    ).not.toContain("secrets");
+  });
+
+  it("returns null where expressions are not evaluated", () => {
+    expect(getContextAvailability(["name"])).toBeNull();
+    expect(getContextAvailability(["jobs", "build", "needs"])).toBeNull();
+  });
+});
@@ -0,0 +1,1450 @@
+/**
+ * Parser and evaluator for GitHub Actions expressions (`${{ ... }}`).
+ *
+ * Follows the semantics documented for workflow expressions: loose equality
+ * with numeric coercion, case-insensitive string comparison, `&&`/`||`
+ * returning operand values, object filters (`a.*.b`) and the built-in
+ * functions.
+ */
+
+export type ExpressionNode =
+  | LiteralNode
+  | ContextNode
+  | PropertyNode
+  | IndexNode
+  | FilterNode
+  | FunctionCallNode
+  | NotNode
+  | BinaryNode;
+
+interface NodeRange {
+  start: number; // Offset of the first character
+  end: number; // Offset after the last character
+}
+
+export interface LiteralNode extends NodeRange {
+  type: "literal";
+  value: string | number | boolean | null;
+}
+
+/** Named value at the root of a path, e.g. `github` or `matrix` */
+export interface ContextNode extends NodeRange {
+  type: "context";
+  name: string;
+}
+
+/** Dereference with a name, e.g. `github.event` */
+export interface PropertyNode extends NodeRange {
+  type: "property";
+  object: ExpressionNode;
+  name: string;
+}
+
+/** Dereference with an index expression, e.g. `matrix['os']` */
+export interface IndexNode extends NodeRange {
+  type: "index";
+  object: ExpressionNode;
+  index: ExpressionNode;
+}
+
+/** Object filter, e.g. the `*` in `needs.*.result` */
+export interface FilterNode extends NodeRange {
+  type: "filter";
+  object: ExpressionNode;
+}
+
+export interface FunctionCallNode extends NodeRange {
+  type: "call";
+  name: string; // Canonical casing, e.g. `startsWith`
+  args: ExpressionNode[];
+}
+
+export interface NotNode extends NodeRange {
+  type: "not";
+  operand: ExpressionNode;
+}
+
+export type BinaryOperator =
+  | "&&"
+  | "||"
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">=";
+
+export interface BinaryNode extends NodeRange {
+  type: "binary";
+  operator: BinaryOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+/** Part of a string that may embed `${{ }}` expressions */
+export type TemplatePart =
+  | { type: "text"; value: string; start: number; end: number }
+  | {
+      type: "expression";
+      source: string; // Text between `${{` and `}}`
+      node: ExpressionNode; // Offsets are relative to the whole template
+      start: number;
+      end: number;
+    };
+
+/** Named values an expression is evaluated against, e.g. `{ github, env }` */
+export type ExpressionContext = Record<string, unknown>;
+
+export interface EvaluationOptions {
+  // Status of the job so far, used by success(), failure() and cancelled().
+  // "skipped" is for jobs whose dependencies were skipped: all three are false
+  status?: "success" | "failure" | "cancelled" | "skipped";
+  // Hashes the files matching the given patterns; hashFiles() returns ""
+  // when not provided
+  hashFiles?: (patterns: string[]) => string;
+}
+
+export class ExpressionSyntaxError extends Error {
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = "ExpressionSyntaxError";
+    this.offset = offset;
+  }
+}
+
+export class ExpressionEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionEvaluationError";
+  }
+}
+
+/**
+ * Built-in functions with their allowed argument counts and parameter names
+ */
+export const EXPRESSION_FUNCTIONS: Record<
+  string,
+  { minArgs: number; maxArgs: number; params: string[]; description: string }
+> = {
+  contains: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["search", "item"],
+    description: "Whether a string contains a substring or an array an item",
+  },
+  startsWith: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["searchString", "searchValue"],
+    description: "Whether a string starts with a value",
+  },
+  endsWith: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["searchString", "searchValue"],
+    description: "Whether a string ends with a value",
+  },
+  format: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    params: ["string", "...replaceValues"],
+    description: "Replace {0}, {1}, ... in a string with the arguments",
+  },
+  join: {
+    minArgs: 1,
+    maxArgs: 2,
+    params: ["array", "separator?"],
+    description: "Join array items with a separator (default ',')",
+  },
+  toJSON: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["value"],
+    description: "Pretty-printed JSON representation of a value",
+  },
+  fromJSON: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["value"],
+    description: "Parse a JSON string into a value",
+  },
+  hashFiles: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    params: ["...paths"],
+    description: "SHA-256 hash of the files matching the path patterns",
+  },
+  success: {
+    minArgs: 0,
+    maxArgs: 0,
+    params: [],
+    description: "True when no previous step failed or was cancelled",
+  },
+  always: {
+    minArgs: 0,
+    maxArgs: 0,
+    params: [],
+    description: "Always true, even when the workflow was cancelled",
+  },
+  cancelled: {
+    minArgs: 0,
+    maxArgs: 0,
+    params: [],
+    description: "True when the workflow was cancelled",
+  },
+  failure: {
+    minArgs: 0,
+    maxArgs: 0,
+    params: [],
+    description: "True when any previous step failed",
+  },
+};
+
+export const STATUS_FUNCTIONS = ["success", "always", "cancelled", "failure"];
+
+/**
+ * Every named value an expression can start with
+ */
+export const EXPRESSION_CONTEXTS = [
+  "github",
+  "env",
+  "vars",
+  "job",
+  "jobs",
+  "steps",
+  "runner",
+  "secrets",
+  "strategy",
+  "matrix",
+  "needs",
+  "inputs",
+];
+
+export interface ContextAvailability {
+  contexts: string[];
+  functions: string[]; // Status functions and hashFiles; others are always allowed
+}
+
+const JOB_CONTEXTS = [
+  "github",
+  "needs",
+  "strategy",
+  "matrix",
+  "vars",
+  "inputs",
+];
+const STEP_CONTEXTS = [
+  ...JOB_CONTEXTS,
+  "job",
+  "runner",
+  "env",
+  "secrets",
+  "steps",
+];
+const STEP_KEYS = [
+  "continue-on-error",
+  "env",
+  "name",
+  "run",
+  "timeout-minutes",
+  "with",
+  "working-directory",
+];
+
+/**
+ * GitHub's context availability table. A pattern applies to its key and
+ * everything below it; `*` matches any job ID, step index or map key.
+ */
+const CONTEXT_AVAILABILITY: [string, string[], string[]?][] = [
+  ["run-name", ["github", "inputs", "vars"]],
+  ["concurrency", ["github", "inputs", "vars"]],
+  ["env", ["github", "secrets", "inputs", "vars"]],
+  ["on.workflow_call.inputs.*.default", ["github", "inputs", "vars"]],
+  ["on.workflow_call.outputs.*.value", ["github", "jobs", "vars", "inputs"]],
+  ["jobs.*.concurrency", JOB_CONTEXTS],
+  ["jobs.*.container", JOB_CONTEXTS],
+  ["jobs.*.container.credentials", [...JOB_CONTEXTS, "env", "secrets"]],
+  [
+    "jobs.*.container.env",
+    [...JOB_CONTEXTS, "job", "runner", "env", "secrets"],
+  ],
+  ["jobs.*.continue-on-error", JOB_CONTEXTS],
+  ["jobs.*.defaults.run", [...JOB_CONTEXTS, "env"]],
+  ["jobs.*.env", [...JOB_CONTEXTS, "secrets"]],
+  ["jobs.*.environment", JOB_CONTEXTS],
+  [
+    "jobs.*.environment.url",
+    [...JOB_CONTEXTS, "job", "runner", "env", "steps"],
+  ],
+  ["jobs.*.if", ["github", "needs", "vars", "inputs"], STATUS_FUNCTIONS],
+  ["jobs.*.name", JOB_CONTEXTS],
+  ["jobs.*.outputs", STEP_CONTEXTS],
+  ["jobs.*.runs-on", JOB_CONTEXTS],
+  ["jobs.*.secrets", [...JOB_CONTEXTS, "secrets"]],
+  ["jobs.*.services", JOB_CONTEXTS],
+  ["jobs.*.services.*.credentials", [...JOB_CONTEXTS, "env", "secrets"]],
+  [
+    "jobs.*.services.*.env",
+    [...JOB_CONTEXTS, "job", "runner", "env", "secrets"],
+  ],
+  ...STEP_KEYS.map((key): [string, string[], string[]] => [
+    `jobs.*.steps.*.${key}`,
+    STEP_CONTEXTS,
+    ["hashFiles"],
+  ]),
+  [
+    "jobs.*.steps.*.if",
+    STEP_CONTEXTS.filter(context => context !== "secrets"),
+    [...STATUS_FUNCTIONS, "hashFiles"],
+  ],
+  ["jobs.*.strategy", ["github", "needs", "vars", "inputs"]],
+  ["jobs.*.timeout-minutes", JOB_CONTEXTS],
+  ["jobs.*.with", JOB_CONTEXTS],
+];
+
+/**
+ * Contexts and special functions allowed in the value at `path`, e.g.
+ * `["jobs", "build", "steps", 0, "run"]`. Returns null for keys where
+ * expressions are not evaluated.
+ */
+export function getContextAvailability(
+  path: (string | number)[]
+): ContextAvailability | null {
+  const matches = CONTEXT_AVAILABILITY.filter(([pattern]) => {
+    const segments = pattern.split(".");
+    return (
+      segments.length <= path.length &&
+      segments.every(
+        (segment, index) => segment === "*" || segment === String(path[index])
+      )
+    );
+  });
+  if (matches.length === 0) {
+    return null;
+  }
+
+  // The most specific pattern wins
+  const [, contexts, functions] = matches.reduce((best, match) =>
+    match[0].split(".").length > best[0].split(".").length ? match : best
+  );
+  return { contexts, functions: functions || [] };
+}
+
+type TokenKind = "number" | "string" | "identifier" | "punctuator" | "end";
+
+interface Token {
+  kind: TokenKind;
+  text: string; // Raw source text
+  value?: string | number; // Parsed value of number and string tokens
+  start: number;
+  end: number;
+}
+
+const PUNCTUATORS = [
+  "&&",
+  "||",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "<",
+  ">",
+  "!",
+  "(",
+  ")",
+  "[",
+  "]",
+  ".",
+  ",",
+  "*",
+];
+
+const NUMBER_PATTERN =
+  /^-?(?:0x[0-9a-f]+|0o[0-7]+|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)/i;
+const IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_-]*/i;
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string, offset: number): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  // A leading `-` belongs to a number unless it follows a value
+  const canStartNumber = () => {
+    const previous = tokens[tokens.length - 1];
+    return (
+      !previous ||
+      (previous.kind === "punctuator" && ![")", "]"].includes(previous.text))
+    );
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const rest = source.slice(index);
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === "'") {
+      let value = "";
+      let end = index + 1;
+      for (;;) {
+        if (end >= source.length) {
+          throw new ExpressionSyntaxError(
+            "Unterminated string literal",
+            offset + index
+          );
+        }
+        if (source[end] === "'") {
+          if (source[end + 1] === "'") {
+            value += "'";
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        value += source[end];
+        end++;
+      }
+      tokens.push({
+        kind: "string",
+        text: source.slice(index, end + 1),
+        value,
+        start: offset + index,
+        end: offset + end + 1,
+      });
+      index = end + 1;
+      continue;
+    }
+
+    const numberMatch = rest.match(NUMBER_PATTERN);
+    if (
+      numberMatch &&
+      (char !== "-" || canStartNumber()) &&
+      !IDENTIFIER_PATTERN.test(rest.slice(numberMatch[0].length))
+    ) {
+      const text = numberMatch[0];
+      tokens.push({
+        kind: "number",
+        text,
+        value: parseNumber(text),
+        start: offset + index,
+        end: offset + index + text.length,
+      });
+      index += text.length;
+      continue;
+    }
+
+    const identifierMatch = rest.match(IDENTIFIER_PATTERN);
+    if (identifierMatch) {
+      const text = identifierMatch[0];
+      tokens.push({
+        kind: "identifier",
+        text,
+        start: offset + index,
+        end: offset + index + text.length,
+      });
+      index += text.length;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find(item => rest.startsWith(item));
+    if (punctuator) {
+      tokens.push({
+        kind: "punctuator",
+        text: punctuator,
+        start: offset + index,
+        end: offset + index + punctuator.length,
+      });
+      index += punctuator.length;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(
+      `Unexpected character '${char}'`,
+      offset + index
+    );
+  }
+
+  tokens.push({
+    kind: "end",
+    text: "",
+    start: offset + source.length,
+    end: offset + source.length,
+  });
+  return tokens;
+}
+
+function parseNumber(text: string): number {
+  const negative = text.startsWith("-");
+  const digits = negative ? text.slice(1) : text;
+  const value = /^0o/i.test(digits)
+    ? parseInt(digits.slice(2), 8)
+    : Number(digits);
+  return negative ? -value : value;
+}
+
+/**
+ * Recursive descent parser. Precedence, lowest first:
+ * `||`, `&&`, `==` `!=`, `<` `<=` `>` `>=`, `!`, property access and calls.
+ */
+class Parser {
+  private readonly tokens: Token[];
+  private position = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ExpressionNode {
+    const first = this.peek();
+    if (first.kind === "end") {
+      throw new ExpressionSyntaxError("Expected an expression", first.start);
+    }
+
+    const node = this.parseBinary(0);
+    const next = this.peek();
+    if (next.kind !== "end") {
+      throw new ExpressionSyntaxError(
+        `Unexpected ${describeToken(next)}`,
+        next.start
+      );
+    }
+    return node;
+  }
+
+  private static readonly PRECEDENCE: BinaryOperator[][] = [
+    ["||"],
+    ["&&"],
+    ["==", "!="],
+    ["<", "<=", ">", ">="],
+  ];
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= Parser.PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    while (
+      this.peek().kind === "punctuator" &&
+      (Parser.PRECEDENCE[level] as string[]).includes(this.peek().text)
+    ) {
+      const operator = this.next().text as BinaryOperator;
+      const right = this.parseBinary(level + 1);
+      left = {
+        type: "binary",
+        operator,
+        left,
+        right,
+        start: left.start,
+        end: right.end,
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.kind === "punctuator" && token.text === "!") {
+      this.next();
+      const operand = this.parseUnary();
+      return { type: "not", operand, start: token.start, end: operand.end };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== "punctuator") {
+        return node;
+      }
+
+      if (token.text === ".") {
+        this.next();
+        const name = this.next();
+        if (name.kind === "punctuator" && name.text === "*") {
+          node = {
+            type: "filter",
+            object: node,
+            start: node.start,
+            end: name.end,
+          };
+        } else if (name.kind === "identifier") {
+          node = {
+            type: "property",
+            object: node,
+            name: name.text,
+            start: node.start,
+            end: name.end,
+          };
+        } else {
+          throw new ExpressionSyntaxError(
+            `Expected a property name after '.' but found ${describeToken(name)}`,
+            name.start
+          );
+        }
+      } else if (token.text === "[") {
+        this.next();
+        const inner = this.peek();
+        if (inner.kind === "punctuator" && inner.text === "*") {
+          this.next();
+          const close = this.expect("]");
+          node = {
+            type: "filter",
+            object: node,
+            start: node.start,
+            end: close.end,
+          };
+        } else {
+          const index = this.parseBinary(0);
+          const close = this.expect("]");
+          node = {
+            type: "index",
+            object: node,
+            index,
+            start: node.start,
+            end: close.end,
+          };
+        }
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.kind === "number" || token.kind === "string") {
+      return {
+        type: "literal",
+        value: token.value!,
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    if (token.kind === "identifier") {
+      const next = this.peek();
+      if (next.kind === "punctuator" && next.text === "(") {
+        return this.parseCall(token);
+      }
+
+      const literals: Record<string, LiteralNode["value"]> = {
+        true: true,
+        false: false,
+        null: null,
+        NaN: NaN,
+        Infinity: Infinity,
+      };
+      if (token.text in literals) {
+        return {
+          type: "literal",
+          value: literals[token.text],
+          start: token.start,
+          end: token.end,
+        };
+      }
+
+      return {
+        type: "context",
+        name: token.text,
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    if (token.kind === "punctuator" && token.text === "(") {
+      const node = this.parseBinary(0);
+      this.expect(")");
+      return node;
+    }
+
+    throw new ExpressionSyntaxError(
+      token.kind === "end"
+        ? "Unexpected end of expression"
+        : `Unexpected ${describeToken(token)}`,
+      token.start
+    );
+  }
+
+  private parseCall(nameToken: Token): FunctionCallNode {
+    const name = Object.keys(EXPRESSION_FUNCTIONS).find(
+      key => key.toLowerCase() === nameToken.text.toLowerCase()
+    );
+    if (!name) {
+      throw new ExpressionSyntaxError(
+        `Unrecognized function: '${nameToken.text}'`,
+        nameToken.start
+      );
+    }
+
+    this.expect("(");
+    const args: ExpressionNode[] = [];
+    if (!this.isPunctuator(")")) {
+      args.push(this.parseBinary(0));
+      while (this.isPunctuator(",")) {
+        this.next();
+        args.push(this.parseBinary(0));
+      }
+    }
+    const close = this.expect(")");
+
+    const { minArgs, maxArgs } = EXPRESSION_FUNCTIONS[name];
+    if (args.length < minArgs || args.length > maxArgs) {
+      const expected =
+        minArgs === maxArgs
+          ? `${minArgs}`
+          : maxArgs === Infinity
+            ? `at least ${minArgs}`
+            : `${minArgs} to ${maxArgs}`;
+      throw new ExpressionSyntaxError(
+        `Function '${name}' expects ${expected} argument${
+          minArgs === 1 && maxArgs === 1 ? "" : "s"
+        } but got ${args.length}`,
+        nameToken.start
+      );
+    }
+
+    return { type: "call", name, args, start: nameToken.start, end: close.end };
+  }
+
+  private expect(text: string): Token {
+    const token = this.next();
+    if (token.kind !== "punctuator" || token.text !== text) {
+      throw new ExpressionSyntaxError(
+        `Expected '${text}' but found ${describeToken(token)}`,
+        token.start
+      );
+    }
+    return token;
+  }
+
+  private isPunctuator(text: string): boolean {
+    const token = this.peek();
+    return token.kind === "punctuator" && token.text === text;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.kind !== "end") {
+      this.position++;
+    }
+    return token;
+  }
+}
+
+function describeToken(token: Token): string {
+  return token.kind === "end" ? "end of expression" : `'${token.text}'`;
+}
+
+/**
+ * Parsing of expressions and of strings embedding `${{ }}` expressions
+ */
+export class ExpressionParser {
+  /**
+   * Parse a bare expression (without `${{ }}`). `offset` is added to all
+   * reported positions, for expressions taken from a larger string.
+   */
+  static parse(expression: string, offset = 0): ExpressionNode {
+    return new Parser(tokenize(expression, offset)).parse();
+  }
+
+  /**
+   * Split a string into literal text and `${{ }}` expressions
+   */
+  static parseTemplate(source: string): TemplatePart[] {
+    const parts: TemplatePart[] = [];
+    let index = 0;
+
+    while (index < source.length) {
+      const open = source.indexOf("${{", index);
+      if (open === -1) {
+        parts.push({
+          type: "text",
+          value: source.slice(index),
+          start: index,
+          end: source.length,
+        });
+        break;
+      }
+
+      if (open > index) {
+        parts.push({
+          type: "text",
+          value: source.slice(index, open),
+          start: index,
+          end: open,
+        });
+      }
+
+      const close = this.findClosingBraces(source, open + 3);
+      if (close === -1) {
+        throw new ExpressionSyntaxError(
+          "Expression is missing its closing '}}'",
+          open
+        );
+      }
+
+      const expression = source.slice(open + 3, close);
+      parts.push({
+        type: "expression",
+        source: expression,
+        node: this.parse(expression, open + 3),
+        start: open,
+        end: close + 2,
+      });
+      index = close + 2;
+    }
+
+    return parts;
+  }
+
+  /**
+   * Parse an `if:` condition. Conditions may be written with or without
+   * `${{ }}`; a condition that is a single expression is parsed as that
+   * expression.
+   */
+  static parseCondition(condition: string): ExpressionNode {
+    const trimmed = condition.trim();
+    if (!trimmed.includes("${{")) {
+      return this.parse(condition);
+    }
+
+    const parts = this.parseTemplate(condition);
+    const expressions = parts.filter(part => part.type === "expression");
+    const hasText = parts.some(
+      part => part.type === "text" && part.value.trim() !== ""
+    );
+    if (expressions.length === 1 && !hasText) {
+      return expressions[0].node;
+    }
+
+    // Mixed text and expressions evaluate to a non-empty string
+    return {
+      type: "literal",
+      value: condition,
+      start: 0,
+      end: condition.length,
+    };
+  }
+
+  /**
+   * Whether a string embeds at least one `${{ }}` expression
+   */
+  static containsExpression(source: string): boolean {
+    return source.includes("${{");
+  }
+
+  /**
+   * Collect syntax errors instead of throwing on the first one, continuing
+   * after each broken expression
+   */
+  static findSyntaxErrors(
+    source: string,
+    isCondition = false
+  ): ExpressionSyntaxError[] {
+    if (isCondition && !source.includes("${{")) {
+      try {
+        this.parse(source);
+        return [];
+      } catch (error) {
+        return [toSyntaxError(error)];
+      }
+    }
+
+    const errors: ExpressionSyntaxError[] = [];
+    let index = source.indexOf("${{");
+    while (index !== -1) {
+      const close = this.findClosingBraces(source, index + 3);
+      if (close === -1) {
+        errors.push(
+          new ExpressionSyntaxError(
+            "Expression is missing its closing '}}'",
+            index
+          )
+        );
+        break;
+      }
+      try {
+        this.parse(source.slice(index + 3, close), index + 3);
+      } catch (error) {
+        errors.push(toSyntaxError(error));
+      }
+      index = source.indexOf("${{", close + 2);
+    }
+    return errors;
+  }
+
+  /**
+   * Offset of the `}}` closing an expression, skipping string literals
+   */
+  private static findClosingBraces(source: string, from: number): number {
+    let inString = false;
+    for (let index = from; index < source.length; index++) {
+      const char = source[index];
+      if (char === "'") {
+        inString = !inString; // `''` toggles twice, staying in the string
+      } else if (!inString && source.startsWith("}}", index)) {
+        return index;
+      }
+    }
+    return -1;
+  }
+}
+
+function toSyntaxError(error: unknown): ExpressionSyntaxError {
+  return error instanceof ExpressionSyntaxError
+    ? error
+    : new ExpressionSyntaxError(String(error), 0);
+}
+
+/**
+ * Result of an object filter; property access maps over its items
+ */
+class FilteredArray {
+  readonly items: unknown[];
+
+  constructor(items: unknown[]) {
+    this.items = items;
+  }
+}
+
+/**
+ * Evaluation of parsed expressions against a context object
+ */
+export class ExpressionEvaluator {
+  /**
+   * Evaluate an expression node
+   */
+  static evaluate(
+    node: ExpressionNode,
+    context: ExpressionContext,
+    options: EvaluationOptions = {}
+  ): unknown {
+    return unwrap(this.evaluateNode(node, context, options));
+  }
+
+  /**
+   * Evaluate a string with embedded expressions. A string that is exactly
+   * one expression keeps the expression's type; otherwise every expression
+   * is converted to a string and spliced into the text.
+   */
+  static evaluateTemplate(
+    source: string,
+    context: ExpressionContext,
+    options: EvaluationOptions = {}
+  ): unknown {
+    const parts = ExpressionParser.parseTemplate(source);
+    if (parts.length === 1 && parts[0].type === "expression") {
+      return this.evaluate(parts[0].node, context, options);
+    }
+
+    return parts
+      .map(part =>
+        part.type === "text"
+          ? part.value
+          : toExpressionString(this.evaluate(part.node, context, options))
+      )
+      .join("");
+  }
+
+  /**
+   * Evaluate an `if:` condition. Like GitHub, a condition without a status
+   * function is treated as `success() && (condition)`.
+   */
+  static evaluateCondition(
+    condition: string,
+    context: ExpressionContext,
+    options: EvaluationOptions = {}
+  ): boolean {
+    const node = ExpressionParser.parseCondition(condition);
+    if (!usesStatusFunction(node) && !this.callStatus("success", options)) {
+      return false;
+    }
+    return isTruthy(this.evaluate(node, context, options));
+  }
+
+  private static evaluateNode(
+    node: ExpressionNode,
+    context: ExpressionContext,
+    options: EvaluationOptions
+  ): unknown {
+    switch (node.type) {
+      case "literal":
+        return node.value;
+
+      case "context":
+        return getMember(context, node.name);
+
+      case "property":
+        return access(this.evaluateNode(node.object, context, options), [
+          node.name,
+        ]);
+
+      case "index": {
+        const object = this.evaluateNode(node.object, context, options);
+        const index = unwrap(this.evaluateNode(node.index, context, options));
+        return access(object, [index]);
+      }
+
+      case "filter": {
+        const object = this.evaluateNode(node.object, context, options);
+        const sources =
+          object instanceof FilteredArray ? object.items : [object];
+        return new FilteredArray(
+          sources.flatMap(source => {
+            if (Array.isArray(source)) {
+              return source;
+            }
+            if (isObject(source)) {
+              return Object.values(source);
+            }
+            return [];
+          })
+        );
+      }
+
+      case "not":
+        return !isTruthy(
+          unwrap(this.evaluateNode(node.operand, context, options))
+        );
+
+      case "binary": {
+        const left = unwrap(this.evaluateNode(node.left, context, options));
+        if (node.operator === "&&") {
+          return isTruthy(left)
+            ? unwrap(this.evaluateNode(node.right, context, options))
+            : left;
+        }
+        if (node.operator === "||") {
+          return isTruthy(left)
+            ? left
+            : unwrap(this.evaluateNode(node.right, context, options));
+        }
+        const right = unwrap(this.evaluateNode(node.right, context, options));
+        return compare(node.operator, left, right);
+      }
+
+      case "call":
+        return this.callFunction(
+          node.name,
+          node.args.map(arg => this.evaluateNode(arg, context, options)),
+          options
+        );
+    }
+  }
+
+  private static callFunction(
+    name: string,
+    rawArgs: unknown[],
+    options: EvaluationOptions
+  ): unknown {
+    const args = rawArgs.map(unwrap);
+
+    switch (name) {
+      case "contains": {
+        const [search, item] = args;
+        if (Array.isArray(search)) {
+          return search.some(element => looseEquals(element, item));
+        }
+        return toExpressionString(search)
+          .toLowerCase()
+          .includes(toExpressionString(item).toLowerCase());
+      }
+      case "startsWith":
+        return toExpressionString(args[0])
+          .toLowerCase()
+          .startsWith(toExpressionString(args[1]).toLowerCase());
+      case "endsWith":
+        return toExpressionString(args[0])
+          .toLowerCase()
+          .endsWith(toExpressionString(args[1]).toLowerCase());
+      case "format":
+        return formatString(toExpressionString(args[0]), args.slice(1));
+      case "join": {
+        const separator = args.length > 1 ? toExpressionString(args[1]) : ",";
+        return Array.isArray(args[0])
+          ? args[0].map(toExpressionString).join(separator)
+          : toExpressionString(args[0]);
+      }
+      case "toJSON":
+        return JSON.stringify(args[0] ?? null, null, 2);
+      case "fromJSON":
+        try {
+          return JSON.parse(toExpressionString(args[0]));
+        } catch {
+          throw new ExpressionEvaluationError(
+            `fromJSON: '${toExpressionString(args[0])}' is not valid JSON`
+          );
+        }
+      case "hashFiles":
+        return options.hashFiles
+          ? options.hashFiles(args.map(toExpressionString))
+          : "";
+      default:
+        return this.callStatus(name, options);
+    }
+  }
+
+  private static callStatus(name: string, options: EvaluationOptions): boolean {
+    const status = options.status || "success";
+    switch (name) {
+      case "always":
+        return true;
+      case "success":
+        return status === "success";
+      case "failure":
+        return status === "failure";
+      case "cancelled":
+        return status === "cancelled";
+      default:
+        throw new ExpressionEvaluationError(`Unknown function: ${name}`);
+    }
+  }
+}
+
+function unwrap(value: unknown): unknown {
+  return value instanceof FilteredArray ? value.items : value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Property lookup; context and property names are case-insensitive
+ */
+function getMember(object: unknown, key: unknown): unknown {
+  if (Array.isArray(object)) {
+    const index = typeof key === "number" ? key : toNumber(key);
+    return Number.isInteger(index) && index >= 0 && index < object.length
+      ? object[index]
+      : null;
+  }
+  if (!isObject(object)) {
+    return null;
+  }
+
+  const name = toExpressionString(key);
+  if (name in object) {
+    return object[name] ?? null;
+  }
+  const match = Object.keys(object).find(
+    item => item.toLowerCase() === name.toLowerCase()
+  );
+  return match ? (object[match] ?? null) : null;
+}
+
+function access(object: unknown, [key]: unknown[]): unknown {
+  if (object instanceof FilteredArray) {
+    return new FilteredArray(
+      object.items
+        .map(item => getMember(item, key))
+        .filter(item => item !== null)
+    );
+  }
+  return getMember(object, key);
+}
+
+/**
+ * Falsy values are false, 0, -0, "", null and NaN
+ */
+export function isTruthy(value: unknown): boolean {
+  if (value === null || value === undefined || value === false) {
+    return false;
+  }
+  if (typeof value === "number") {
+    return value !== 0 && !Number.isNaN(value);
+  }
+  if (typeof value === "string") {
+    return value !== "";
+  }
+  return true;
+}
+
+/**
+ * String conversion used for output and string functions
+ */
+export function toExpressionString(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (typeof value === "boolean") {
+    return value ? "true" : "false";
+  }
+  if (typeof value === "number") {
+    return Number.isNaN(value)
+      ? "NaN"
+      : value === Infinity
+        ? "Infinity"
+        : value === -Infinity
+          ? "-Infinity"
+          : String(value);
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  return Array.isArray(value) ? "Array" : "Object";
+}
+
+function toNumber(value: unknown): number {
+  if (value === null || value === undefined) {
+    return 0;
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (trimmed === "") {
+      return 0;
+    }
+    return NUMBER_PATTERN.test(trimmed) &&
+      trimmed.match(NUMBER_PATTERN)![0] === trimmed
+      ? parseNumber(trimmed)
+      : NaN;
+  }
+  return NaN;
+}
+
+/**
+ * `==` semantics: strings compare case-insensitively, objects and arrays are
+ * only equal to themselves, and mismatched types are compared as numbers
+ */
+function looseEquals(left: unknown, right: unknown): boolean {
+  const a = left ?? null;
+  const b = right ?? null;
+
+  if (a === null && b === null) {
+    return true;
+  }
+  if (isReference(a) && isReference(b)) {
+    return a === b;
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+  if (a !== null && b !== null && typeof a === typeof b) {
+    return a === b;
+  }
+  return toNumber(a) === toNumber(b); // Objects and arrays become NaN
+}
+
+function isReference(value: unknown): value is object {
+  return typeof value === "object" && value !== null;
+}
+
+function compare(
+  operator: BinaryOperator,
+  left: unknown,
+  right: unknown
+): boolean {
+  if (operator === "==") {
+    return looseEquals(left, right);
+  }
+  if (operator === "!=") {
+    return !looseEquals(left, right);
+  }
+
+  let order: number;
+  if (typeof left === "string" && typeof right === "string") {
+    const a = left.toUpperCase();
+    const b = right.toUpperCase();
+    order = a < b ? -1 : a > b ? 1 : 0;
+  } else {
+    const a = toNumber(left);
+    const b = toNumber(right);
+    if (Number.isNaN(a) || Number.isNaN(b)) {
+      return false;
+    }
+    order = a - b;
+  }
+
+  switch (operator) {
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    default:
+      return order >= 0;
+  }
+}
+
+/**
+ * `format('{0} {{literal}}', value)`; `{{` and `}}` escape braces
+ */
+function formatString(template: string, args: unknown[]): string {
+  let result = "";
+  let index = 0;
+
+  while (index < template.length) {
+    const char = template[index];
+    if (char === "{" && template[index + 1] === "{") {
+      result += "{";
+      index += 2;
+    } else if (char === "}" && template[index + 1] === "}") {
+      result += "}";
+      index += 2;
+    } else if (char === "{") {
+      const close = template.indexOf("}", index);
+      const argIndex = Number(template.slice(index + 1, close));
+      if (close === -1 || !Number.isInteger(argIndex) || argIndex < 0) {
+        throw new ExpressionEvaluationError(
+          `format: invalid placeholder at position ${index}`
+        );
+      }
+      if (argIndex >= args.length) {
+        throw new ExpressionEvaluationError(
+          `format: placeholder {${argIndex}} has no matching argument`
+        );
+      }
+      result += toExpressionString(args[argIndex]);
+      index = close + 1;
+    } else if (char === "}") {
+      throw new ExpressionEvaluationError(
+        `format: unescaped '}' at position ${index}`
+      );
+    } else {
+      result += char;
+      index++;
+    }
+  }
+
+  return result;
+}
+
+function usesStatusFunction(node: ExpressionNode): boolean {
+  return walkExpression(node).some(
+    item => item.type === "call" && STATUS_FUNCTIONS.includes(item.name)
+  );
+}
+
+/**
+ * All nodes of an expression tree, parents before children
+ */
+export function walkExpression(node: ExpressionNode): ExpressionNode[] {
+  switch (node.type) {
+    case "property":
+    case "filter":
+      return [node, ...walkExpression(node.object)];
+    case "index":
+      return [
+        node,
+        ...walkExpression(node.object),
+        ...walkExpression(node.index),
+      ];
+    case "not":
+      return [node, ...walkExpression(node.operand)];
+    case "binary":
+      return [
+        node,
+        ...walkExpression(node.left),
+        ...walkExpression(node.right),
+      ];
+    case "call":
+      return [node, ...node.args.flatMap(walkExpression)];
+    default:
+      return [node];
+  }
+}
+
+/**
+ * A context path used in an expression, e.g. `needs.build.outputs.version`
+ * becomes `["needs", "build", "outputs", "version"]`. Segments that are not
+ * known statically (object filters and computed indexes) are null.
+ */
+export interface ContextReference {
+  path: (string | null)[];
+  start: number;
+  end: number;
+}
+
+/**
+ * All context paths read by an expression. Only the longest path of each
+ * chain is returned, so `github.event.issue.title` yields one reference.
+ */
+export function getContextReferences(node: ExpressionNode): ContextReference[] {
+  switch (node.type) {
+    case "context":
+    case "property":
+    case "index":
+    case "filter": {
+      const path: (string | null)[] = [];
+      const nested: ContextReference[] = [];
+      let current: ExpressionNode = node;
+
+      while (current.type !== "context") {
+        if (current.type === "property") {
+          path.unshift(current.name);
+          current = current.object;
+        } else if (current.type === "filter") {
+          path.unshift(null);
+          current = current.object;
+        } else if (current.type === "index") {
+          const index: ExpressionNode = current.index;
+          path.unshift(
+            index.type === "literal" && index.value !== null
+              ? String(index.value)
+              : null
+          );
+          nested.push(...getContextReferences(index));
+          current = current.object;
+        } else {
+          // A path on a computed value, e.g. fromJSON(x).key
+          return [...nested, ...getContextReferences(current)];
+        }
+      }
+
+      path.unshift(current.name);
+      return [{ path, start: node.start, end: node.end }, ...nested];
+    }
+    case "not":
+      return getContextReferences(node.operand);
+    case "binary":
+      return [
+        ...getContextReferences(node.left),
+        ...getContextReferences(node.right),
+      ];
+    case "call":
+      return node.args.flatMap(getContextReferences);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Helper function to parse a bare expression
+ */
+export function parseExpression(expression: string): ExpressionNode {
+  return ExpressionParser.parse(expression);
+}
+
+/**
+ * Helper function to evaluate a string with embedded expressions
+ */
+export function evaluateExpression(
+  source: string,
+  context: ExpressionContext,
+  options?: EvaluationOptions
+): unknown {
+  return ExpressionEvaluator.evaluateTemplate(source, context, options);
+}
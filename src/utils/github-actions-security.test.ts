@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import type { GitHubWorkflow, Job, Step } from "../types/github-actions";
+import { WorkflowSecurity } from "./github-actions-security";
+
+const CHECKOUT_HEAD: Step = {
+  uses: "actions/checkout@v4",
+  with: { ref: "${{ github.event.pull_request.head.sha }}" },
+};
+
+const job = (steps: Step[], changes: Partial<Job> = {}): Job => ({
+  "runs-on": "ubuntu-latest",
+  steps,
+  ...changes,
+});
+
+const findEscalations = (
+  jobs: Record<string, Job>,
+  on: unknown = { pull_request_target: {} }
+) =>
+  WorkflowSecurity.findPrivilegeEscalations({
+    name: "CI",
+    on: on as GitHubWorkflow["on"],
+    jobs,
+  }).map(warning => `${warning.code} ${warning.path}`);
+
+describe("WorkflowSecurity.findStepInjections", () => {
+  it("finds untrusted contexts expanded into scripts", () => {
+    const [injection] = WorkflowSecurity.findStepInjections({
+      run: 'echo "${{ github.event.issue.title }}"',
+    });
+    expect(injection).toMatchObject({
+      key: "run",
+      context: "github.event.issue.title",
+      offset: 6,
+      fixable: true,
+    });
+  });
+
+  it("finds untrusted values in executable environment variables", () => {
+    const injections = WorkflowSecurity.findStepInjections({
+      run: "node build.js",
+      env: {
+        NODE_OPTIONS: "${{ github.head_ref }}",
+        TITLE: "${{ github.event.issue.title }}",
+      },
+    });
+    expect(injections.map(injection => injection.key)).toEqual([
+      "env.NODE_OPTIONS",
+    ]);
+  });
+
+  it("ignores trusted contexts", () => {
+    expect(
+      WorkflowSecurity.findStepInjections({ run: "echo ${{ github.sha }}" })
+    ).toEqual([]);
+  });
+
+  it("moves untrusted values into the environment", () => {
+    const fixed = WorkflowSecurity.fixStepInjections({
+      run: 'echo "${{ github.event.issue.title }}"',
+    });
+    expect(WorkflowSecurity.findStepInjections(fixed)).toEqual([]);
+    expect(Object.values(fixed.env || {})).toEqual([
+      "${{ github.event.issue.title }}",
+    ]);
+  });
+});
+
+describe("WorkflowSecurity.findPrivilegeEscalations", () => {
+  it("reports a job that checks out and runs pull request code", () => {
+    expect(
+      findEscalations({ build: job([CHECKOUT_HEAD, { run: "npm test" }]) })
+    ).toEqual(["PRIVILEGED_UNTRUSTED_CHECKOUT jobs.build.steps[0]"]);
+  });
+
+  it("ignores unprivileged triggers and jobs without privileges", () => {
+    const jobs = { build: job([CHECKOUT_HEAD, { run: "npm test" }]) };
+    expect(findEscalations(jobs, { pull_request: {} })).toEqual([]);
+    expect(
+      findEscalations({
+        build: job([CHECKOUT_HEAD, { run: "npm test" }], { permissions: {} }),
+      })
+    ).toEqual([]);
+  });
+
+  it("follows artifacts to a privileged job through needs", () => {
+    const findings = findEscalations({
+      build: job(
+        [
+          CHECKOUT_HEAD,
+          { uses: "actions/upload-artifact@v4", with: { path: "dist" } },
+        ],
+        { permissions: {} }
+      ),
+      test: job([{ run: "echo checks" }], { needs: "build", permissions: {} }),
+      deploy: job(
+        [{ uses: "actions/download-artifact@v4" }, { run: "./dist/deploy.sh" }],
+        { needs: "test", permissions: { contents: "write" } }
+      ),
+    });
+    expect(findings).toEqual([
+      "PRIVILEGED_UNTRUSTED_HANDOFF jobs.deploy.steps[0]",
+    ]);
+  });
+
+  it("ignores artifacts of jobs that are not waited for", () => {
+    expect(
+      findEscalations({
+        build: job([CHECKOUT_HEAD, { uses: "actions/upload-artifact@v4" }], {
+          permissions: {},
+        }),
+        deploy: job(
+          [{ uses: "actions/download-artifact@v4" }, { run: "./deploy.sh" }],
+          { permissions: { contents: "write" } }
+        ),
+      })
+    ).toEqual([]);
+  });
+
+  it("follows caches saved after an untrusted checkout", () => {
+    const findings = findEscalations(
+      {
+        build: job(
+          [
+            CHECKOUT_HEAD,
+            { uses: "actions/setup-node@v4", with: { cache: "npm" } },
+          ],
+          { permissions: {} }
+        ),
+        release: job(
+          [
+            { uses: "actions/cache/restore@v4", with: { path: "~/.npm" } },
+            { run: "npm ci" },
+          ],
+          { env: { TOKEN: "${{ secrets.NPM_TOKEN }}" } }
+        ),
+      },
+      { workflow_run: { workflows: ["CI"] } }
+    );
+    expect(findings).toEqual([
+      "PRIVILEGED_UNTRUSTED_HANDOFF jobs.release.steps[0]",
+    ]);
+  });
+
+  it("follows outputs read into a script", () => {
+    const findings = findEscalations({
+      build: job([CHECKOUT_HEAD], { permissions: {} }),
+      comment: job([{ run: "echo ${{ needs.build.outputs.version }}" }], {
+        needs: ["build"],
+        permissions: { "pull-requests": "write" },
+      }),
+    });
+    expect(findings).toEqual([
+      "PRIVILEGED_UNTRUSTED_HANDOFF jobs.comment.steps[0]",
+    ]);
+  });
+});
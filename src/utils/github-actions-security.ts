@@ -0,0 +1,828 @@
+import type {
+  GitHubWorkflow,
+  Job,
+  Step,
+  ValidationWarning,
+} from "../types/github-actions";
+import {
+  ExpressionParser,
+  getContextReferences,
+} from "./github-actions-expressions";
+import type {
+  ContextReference,
+  TemplatePart,
+} from "./github-actions-expressions";
+
+/**
+ * Context paths whose values can be set by whoever opens an issue, pull
+ * request, comment or commit. `*` matches any single segment.
+ */
+export const UNTRUSTED_CONTEXTS = [
+  "github.head_ref",
+  "github.event.issue.title",
+  "github.event.issue.body",
+  "github.event.pull_request.title",
+  "github.event.pull_request.body",
+  "github.event.pull_request.head.ref",
+  "github.event.pull_request.head.label",
+  "github.event.pull_request.head.repo.default_branch",
+  "github.event.comment.body",
+  "github.event.review.body",
+  "github.event.discussion.title",
+  "github.event.discussion.body",
+  "github.event.pages.*.page_name",
+  "github.event.head_commit.message",
+  "github.event.head_commit.author.email",
+  "github.event.head_commit.author.name",
+  "github.event.commits.*.message",
+  "github.event.commits.*.author.email",
+  "github.event.commits.*.author.name",
+  "github.event.workflow_run.head_branch",
+  "github.event.workflow_run.head_commit.message",
+  "github.event.workflow_run.head_commit.author.email",
+  "github.event.workflow_run.head_commit.author.name",
+  "github.event.workflow_run.pull_requests.*.head.ref",
+];
+
+/**
+ * Environment variables that make tools load or execute their value, so
+ * setting them from untrusted input is as dangerous as interpolating it
+ * into a script
+ */
+export const EXECUTABLE_ENV_VARIABLES = [
+  "BASH_ENV",
+  "ENV",
+  "GIT_SSH_COMMAND",
+  "JAVA_TOOL_OPTIONS",
+  "LD_LIBRARY_PATH",
+  "LD_PRELOAD",
+  "NODE_OPTIONS",
+  "PERL5OPT",
+  "PROMPT_COMMAND",
+  "PYTHONSTARTUP",
+  "RUBYOPT",
+];
+
+/**
+ * Triggers that run in the context of the base repository, with its secrets
+ * and a token that can write to it, even when started from a fork
+ */
+export const PRIVILEGED_TRIGGERS = ["pull_request_target", "workflow_run"];
+
+/**
+ * Context paths that point a checkout at code from the pull request or the
+ * run that triggered the workflow rather than the base branch
+ */
+export const UNTRUSTED_REFS = [
+  "github.head_ref",
+  "github.event.number",
+  "github.event.pull_request.number",
+  "github.event.pull_request.head.ref",
+  "github.event.pull_request.head.sha",
+  "github.event.pull_request.head.repo.full_name",
+  "github.event.pull_request.merge_commit_sha",
+  "github.event.workflow_run.head_branch",
+  "github.event.workflow_run.head_sha",
+  "github.event.workflow_run.head_commit.id",
+  "github.event.workflow_run.head_repository.full_name",
+];
+
+/** An untrusted value interpolated into code, found within a single step */
+export interface ScriptInjection {
+  key: string; // Step key the value is in, e.g. `run` or `env.NODE_OPTIONS`
+  context: string; // Untrusted context path, e.g. `github.event.issue.title`
+  expression: string; // Full `${{ ... }}` text
+  offset: number; // Offset of the expression within the value
+  fixable: boolean; // Whether it can be moved into an environment variable
+}
+
+interface Replacement {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Security rules for workflows. Flags script injection, where
+ * attacker-controlled context values are expanded into `run` scripts,
+ * `actions/github-script` code or executable environment variables, and
+ * privileged triggers that run code from a pull request.
+ */
+export class WorkflowSecurity {
+  /**
+   * Script injections in every step and `env` block of a workflow
+   */
+  static findScriptInjections(workflow: GitHubWorkflow): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
+
+    warnings.push(...this.findEnvInjections(workflow.env, "env"));
+
+    Object.entries(workflow.jobs || {}).forEach(([jobId, job]) => {
+      warnings.push(...this.findEnvInjections(job.env, `jobs.${jobId}.env`));
+
+      (job.steps || []).forEach((step, index) => {
+        const stepPath = `jobs.${jobId}.steps[${index}]`;
+        this.findStepInjections(step).forEach(injection => {
+          warnings.push(this.toWarning(injection, stepPath, step));
+        });
+      });
+    });
+
+    return warnings;
+  }
+
+  /**
+   * Script injections in a single step
+   */
+  static findStepInjections(step: Step): ScriptInjection[] {
+    const injections: ScriptInjection[] = [];
+
+    if (typeof step.run === "string") {
+      injections.push(...this.findInValue(step.run, "run", true));
+    }
+
+    const script = step.with?.script;
+    if (this.isGitHubScript(step) && typeof script === "string") {
+      injections.push(...this.findInValue(script, "with.script", true));
+    }
+
+    Object.entries(step.env || {}).forEach(([name, value]) => {
+      if (this.isExecutableEnv(name) && typeof value === "string") {
+        injections.push(...this.findInValue(value, `env.${name}`, false));
+      }
+    });
+
+    return injections;
+  }
+
+  /**
+   * Move every fixable untrusted expression of a step into its `env` block
+   * and read it back through the environment. Returns the step unchanged
+   * when there is nothing to fix.
+   */
+  static fixStepInjections(step: Step): Step {
+    const fixable = this.findStepInjections(step).filter(
+      injection => injection.fixable
+    );
+    if (fixable.length === 0) {
+      return step;
+    }
+
+    const env = { ...(step.env || {}) };
+    const fixed: Step = { ...step };
+
+    if (typeof step.run === "string") {
+      const run = step.run;
+      fixed.run = this.replaceExpressions(run, env, (name, start, end) =>
+        this.shellReference(name, step.shell, run, start, end)
+      );
+    }
+
+    const script = step.with?.script;
+    if (this.isGitHubScript(step) && typeof script === "string") {
+      fixed.with = {
+        ...step.with,
+        script: this.replaceExpressions(script, env, (name, start, end) =>
+          this.scriptReference(name, script, start, end)
+        ),
+      };
+    }
+
+    fixed.env = env;
+    return fixed;
+  }
+
+  /**
+   * Jobs of a privileged workflow that run untrusted code while write
+   * permissions or secrets are available: code they check out themselves,
+   * or code handed over by a job that checked it out, through an artifact, a
+   * cache or job outputs. Each finding lists the attack path from the
+   * trigger to the step that executes the code.
+   */
+  static findPrivilegeEscalations(
+    workflow: GitHubWorkflow
+  ): ValidationWarning[] {
+    const triggers = this.getTriggerNames(workflow).filter(trigger =>
+      PRIVILEGED_TRIGGERS.includes(trigger)
+    );
+    if (triggers.length === 0) {
+      return [];
+    }
+
+    const jobs = workflow.jobs || {};
+    // Index of the untrusted checkout in each job that has one
+    const checkouts = new Map<string, number>();
+    Object.entries(jobs).forEach(([jobId, job]) => {
+      const index = (job.steps || []).findIndex(step =>
+        this.checksOutUntrustedCode(step)
+      );
+      if (index !== -1) {
+        checkouts.set(jobId, index);
+      }
+    });
+
+    return Object.entries(jobs).flatMap(([jobId, job]) => {
+      const privileges = this.describePrivileges(workflow, job);
+      if (privileges.length === 0) {
+        return [];
+      }
+
+      const warning =
+        this.findUntrustedExecution(jobId, job, checkouts, triggers) ||
+        this.findUntrustedHandoff(workflow, jobId, checkouts, triggers);
+      if (!warning) {
+        return [];
+      }
+      warning.details = [
+        ...(warning.details || []),
+        `That code can use ${privileges.join(" and ")}`,
+      ];
+      warning.message = `${warning.message} with ${privileges.join(" and ")}`;
+      return [warning];
+    });
+  }
+
+  /**
+   * Whether a context path is controlled by the event author. Parents of an
+   * untrusted path count too, since `toJSON(github.event.issue)` includes
+   * the title.
+   */
+  static isUntrustedContext(path: (string | null)[]): boolean {
+    return this.matchesContext(path, UNTRUSTED_CONTEXTS, true);
+  }
+
+  /**
+   * Whether a context path equals one of the patterns, or is a parent of one
+   * when `includeParents` is set
+   */
+  private static matchesContext(
+    path: (string | null)[],
+    patterns: string[],
+    includeParents: boolean
+  ): boolean {
+    const segments = path.map(segment => segment?.toLowerCase() ?? null);
+
+    return patterns.some(pattern => {
+      const parts = pattern.split(".");
+      return (
+        segments.length > 1 &&
+        (includeParents
+          ? segments.length <= parts.length
+          : segments.length === parts.length) &&
+        segments.every(
+          (segment, i) =>
+            segment === null || parts[i] === "*" || parts[i] === segment
+        )
+      );
+    });
+  }
+
+  private static getTriggerNames(workflow: GitHubWorkflow): string[] {
+    const on = workflow.on as unknown;
+    if (typeof on === "string") {
+      return [on];
+    }
+    if (Array.isArray(on)) {
+      return on.map(String);
+    }
+    return Object.keys(on || {});
+  }
+
+  /**
+   * An `actions/checkout` step whose ref or repository comes from the event
+   */
+  private static checksOutUntrustedCode(step: Step): boolean {
+    if (!(step.uses || "").toLowerCase().startsWith("actions/checkout@")) {
+      return false;
+    }
+
+    return [step.with?.ref, step.with?.repository].some(
+      value =>
+        typeof value === "string" &&
+        this.getExpressionParts(value).some(part =>
+          getContextReferences(part.node).some(reference =>
+            this.matchesContext(reference.path, UNTRUSTED_REFS, false)
+          )
+        )
+    );
+  }
+
+  /**
+   * Steps that run code from the workspace: scripts, which can invoke build
+   * tools and package scripts, and local actions
+   */
+  private static executesCode(step: Step): boolean {
+    return typeof step.run === "string" || (step.uses || "").startsWith("./");
+  }
+
+  /**
+   * Write permissions and secrets available to a job, e.g.
+   * `["write access to contents", "the secret NPM_TOKEN"]`
+   */
+  private static describePrivileges(
+    workflow: GitHubWorkflow,
+    job: Job
+  ): string[] {
+    const privileges: string[] = [];
+    const permissions = job.permissions ?? workflow.permissions;
+
+    if (permissions === undefined) {
+      privileges.push("a default GITHUB_TOKEN that may have write access");
+    } else if (permissions === "write-all") {
+      privileges.push("write access to every scope");
+    } else if (typeof permissions === "object") {
+      const scopes = Object.entries(permissions)
+        .filter(([, level]) => level === "write")
+        .map(([scope]) => scope);
+      if (scopes.length > 0) {
+        privileges.push(`write access to ${scopes.join(", ")}`);
+      }
+    }
+
+    const secrets = new Set<string>();
+    this.collectStrings([workflow.env, job]).forEach(value =>
+      this.getExpressionParts(value).forEach(part =>
+        getContextReferences(part.node).forEach(reference => {
+          if (reference.path[0] === "secrets" && reference.path[1]) {
+            secrets.add(reference.path[1]);
+          }
+        })
+      )
+    );
+    if (secrets.size > 0) {
+      privileges.push(
+        `${secrets.size === 1 ? "the secret" : "the secrets"} ${[...secrets].join(", ")}`
+      );
+    }
+
+    return privileges;
+  }
+
+  /**
+   * A job that checks out untrusted code and then runs it
+   */
+  private static findUntrustedExecution(
+    jobId: string,
+    job: Job,
+    checkouts: Map<string, number>,
+    triggers: string[]
+  ): ValidationWarning | null {
+    const checkoutIndex = checkouts.get(jobId);
+    if (checkoutIndex === undefined) {
+      return null;
+    }
+    const steps = job.steps || [];
+    const executionIndex = steps.findIndex(
+      (step, index) => index > checkoutIndex && this.executesCode(step)
+    );
+    if (executionIndex === -1) {
+      return null;
+    }
+
+    const stepPath = (index: number) => `jobs.${jobId}.steps[${index}]`;
+    return {
+      path: stepPath(checkoutIndex),
+      message: `Job '${jobId}' checks out untrusted code from a ${triggers.join("/")} event and runs it`,
+      code: "PRIVILEGED_UNTRUSTED_CHECKOUT",
+      severity: "high",
+      details: [
+        this.describeTriggers(triggers),
+        this.describeCheckout(jobId, job, checkoutIndex),
+        `${stepPath(executionIndex)} (${this.describeStep(steps[executionIndex])}) runs that code, so the author can execute anything`,
+      ],
+      suggestion:
+        "Use the pull_request trigger for building untrusted code, or split the workflow so the privileged part only consumes artifacts",
+    };
+  }
+
+  /**
+   * A job that runs what another job made from untrusted code: a
+   * downloaded artifact or a restored cache followed by a step that runs
+   * code, or outputs of the job read into a script
+   */
+  private static findUntrustedHandoff(
+    workflow: GitHubWorkflow,
+    jobId: string,
+    checkouts: Map<string, number>,
+    triggers: string[]
+  ): ValidationWarning | null {
+    const jobs = workflow.jobs;
+    const steps = jobs[jobId].steps || [];
+    const needs = this.getNeeds(jobs[jobId]);
+    const ancestors = this.getAncestors(workflow, jobId);
+    const stepPath = (index: number) => `jobs.${jobId}.steps[${index}]`;
+
+    for (const [sourceId, checkoutIndex] of checkouts) {
+      if (sourceId === jobId) {
+        continue;
+      }
+      const savesCache = (jobs[sourceId].steps || [])
+        .slice(checkoutIndex + 1)
+        .some(step => this.usesCache(step, "save"));
+
+      for (const [index, step] of steps.entries()) {
+        // Artifacts only exist once the job that uploads them has finished
+        const channel =
+          ancestors.has(sourceId) && this.isAction(step, "download-artifact")
+            ? "downloads artifacts that may come from"
+            : savesCache && this.usesCache(step, "restore")
+              ? "restores a cache that may have been saved by"
+              : null;
+        const executionIndex = channel
+          ? steps.findIndex(
+              (candidate, candidateIndex) =>
+                candidateIndex > index && this.executesCode(candidate)
+            )
+          : -1;
+        const readsOutputs =
+          needs.some(need => need.toLowerCase() === sourceId.toLowerCase()) &&
+          this.readsJobOutputs(step, sourceId);
+        if (executionIndex === -1 && !readsOutputs) {
+          continue;
+        }
+
+        return {
+          path: stepPath(index),
+          message: `Job '${jobId}' runs code that job '${sourceId}' checks out from a ${triggers.join("/")} event`,
+          code: "PRIVILEGED_UNTRUSTED_HANDOFF",
+          severity: "high",
+          details: [
+            this.describeTriggers(triggers),
+            this.describeCheckout(sourceId, jobs[sourceId], checkoutIndex),
+            ...(readsOutputs
+              ? [
+                  `${stepPath(index)} (${this.describeStep(step)}) puts outputs of job '${sourceId}' into a script, so the author can execute anything`,
+                ]
+              : [
+                  `${stepPath(index)} (${this.describeStep(step)}) ${channel} job '${sourceId}'`,
+                  `${stepPath(executionIndex)} (${this.describeStep(steps[executionIndex])}) runs code that the author can replace`,
+                ]),
+          ],
+          suggestion:
+            "Treat artifacts, caches and outputs of jobs that check out untrusted code as untrusted: only read them as data in jobs with write permissions or secrets",
+        };
+      }
+    }
+    return null;
+  }
+
+  private static describeTriggers(triggers: string[]): string {
+    return `The workflow is triggered by ${triggers.join(" and ")}, which runs in the base repository even for pull requests from forks`;
+  }
+
+  private static describeCheckout(
+    jobId: string,
+    job: Job,
+    checkoutIndex: number
+  ): string {
+    const checkout = (job.steps || [])[checkoutIndex];
+    return `jobs.${jobId}.steps[${checkoutIndex}] (${this.describeStep(checkout)}) checks out ${this.describeRef(checkout)}, which the pull request author controls`;
+  }
+
+  private static getNeeds(job: Job): string[] {
+    return job.needs === undefined
+      ? []
+      : Array.isArray(job.needs)
+        ? job.needs
+        : [job.needs];
+  }
+
+  /**
+   * Jobs a job waits for, directly or through other jobs
+   */
+  private static getAncestors(
+    workflow: GitHubWorkflow,
+    jobId: string
+  ): Set<string> {
+    const ancestors = new Set<string>();
+    const pending = [jobId];
+    while (pending.length > 0) {
+      const job = workflow.jobs[pending.pop()!];
+      this.getNeeds(job || {}).forEach(need => {
+        const neededId = Object.keys(workflow.jobs).find(
+          id => id.toLowerCase() === need.toLowerCase()
+        );
+        if (neededId && !ancestors.has(neededId)) {
+          ancestors.add(neededId);
+          pending.push(neededId);
+        }
+      });
+    }
+    return ancestors;
+  }
+
+  private static isAction(step: Step, name: string): boolean {
+    return (step.uses || "").toLowerCase().startsWith(`actions/${name}@`);
+  }
+
+  /**
+   * `actions/cache` and its restore and save parts, and setup actions with
+   * their `cache` input
+   */
+  private static usesCache(step: Step, use: "restore" | "save"): boolean {
+    return (
+      this.isAction(step, "cache") ||
+      this.isAction(step, `cache/${use}`) ||
+      ((step.uses || "").toLowerCase().startsWith("actions/setup-") &&
+        !!step.with?.cache)
+    );
+  }
+
+  /**
+   * Whether a script of the step expands `needs.<jobId>.outputs`
+   */
+  private static readsJobOutputs(step: Step, jobId: string): boolean {
+    const scripts = [
+      step.run,
+      this.isGitHubScript(step) ? step.with?.script : undefined,
+    ];
+    return scripts.some(
+      script =>
+        typeof script === "string" &&
+        this.getExpressionParts(script).some(part =>
+          getContextReferences(part.node).some(
+            ({ path }) =>
+              path[0]?.toLowerCase() === "needs" &&
+              path[1]?.toLowerCase() === jobId.toLowerCase() &&
+              path[2]?.toLowerCase() === "outputs"
+          )
+        )
+    );
+  }
+
+  private static describeStep(step: Step): string {
+    return step.name || step.uses || (step.run || "").split("\n")[0];
+  }
+
+  private static describeRef(step: Step): string {
+    return [step.with?.repository, step.with?.ref]
+      .filter(value => value !== undefined)
+      .map(value => `'${value}'`)
+      .join(" at ");
+  }
+
+  private static collectStrings(value: unknown): string[] {
+    if (typeof value === "string") {
+      return [value];
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap(item => this.collectStrings(item));
+    }
+    if (value && typeof value === "object") {
+      return Object.values(value).flatMap(item => this.collectStrings(item));
+    }
+    return [];
+  }
+
+  private static findEnvInjections(
+    env: Record<string, string> | undefined,
+    path: string
+  ): ValidationWarning[] {
+    return Object.entries(env || {}).flatMap(([name, value]) =>
+      this.isExecutableEnv(name) && typeof value === "string"
+        ? this.findInValue(value, name, false).map(injection =>
+            this.toWarning(injection, path)
+          )
+        : []
+    );
+  }
+
+  private static findInValue(
+    value: string,
+    key: string,
+    fixable: boolean
+  ): ScriptInjection[] {
+    return this.getExpressionParts(value).flatMap(part => {
+      const reference = this.findUntrustedReference(part);
+      return reference
+        ? [
+            {
+              key,
+              context: this.formatContext(reference),
+              expression: value.slice(part.start, part.end),
+              offset: part.start,
+              fixable,
+            },
+          ]
+        : [];
+    });
+  }
+
+  private static toWarning(
+    injection: ScriptInjection,
+    parentPath: string,
+    step?: Step
+  ): ValidationWarning {
+    const path = `${parentPath}.${injection.key}`;
+
+    if (!injection.fixable || !step) {
+      const name = injection.key.replace(/^env\./, "");
+      return {
+        path,
+        message: `Untrusted value ${injection.context} is assigned to ${name}, which is executed by the tools that read it`,
+        code: "SCRIPT_INJECTION",
+        offset: injection.offset,
+        suggestion: `Do not set ${name} from event data`,
+      };
+    }
+
+    const name = this.getEnvName(
+      injection.context,
+      step.env || {},
+      injection.expression
+    );
+    const usage =
+      injection.key === "run"
+        ? this.shellReference(name, step.shell, "", 0, 0).text
+        : `process.env.${name}`;
+
+    return {
+      path,
+      message: `Untrusted value ${injection.context} is interpolated into ${injection.key === "run" ? "a shell script" : "github-script code"} and can inject commands`,
+      code: "SCRIPT_INJECTION",
+      offset: injection.offset,
+      suggestion: `Add env: { ${name}: "${injection.expression}" } to the step and use ${usage} instead`,
+    };
+  }
+
+  /**
+   * Replace each untrusted expression with a reference to an environment
+   * variable holding it. The callback returns the replacement text and the
+   * range it replaces, which may include quotes around the expression.
+   */
+  private static replaceExpressions(
+    value: string,
+    env: Record<string, string>,
+    reference: (name: string, start: number, end: number) => Replacement
+  ): string {
+    let result = "";
+    let position = 0;
+
+    this.getExpressionParts(value).forEach(part => {
+      const untrusted = this.findUntrustedReference(part);
+      if (!untrusted) {
+        return;
+      }
+
+      const expression = value.slice(part.start, part.end);
+      const name = this.getEnvName(
+        this.formatContext(untrusted),
+        env,
+        expression
+      );
+      env[name] = expression;
+
+      const replacement = reference(name, part.start, part.end);
+      result += value.slice(position, replacement.start) + replacement.text;
+      position = replacement.end;
+    });
+
+    return result + value.slice(position);
+  }
+
+  /**
+   * Environment variable name for a context, e.g. `ISSUE_TITLE` for
+   * `github.event.issue.title`. Reuses a variable that already holds the
+   * same expression.
+   */
+  private static getEnvName(
+    context: string,
+    env: Record<string, string>,
+    expression: string
+  ): string {
+    const existing = Object.keys(env).find(name => env[name] === expression);
+    if (existing) {
+      return existing;
+    }
+
+    const segments = context
+      .replace(/^github\.(event\.)?/, "")
+      .split(".")
+      .filter(segment => segment !== "*" && !/^\d+$/.test(segment));
+    const base = segments
+      .slice(-2)
+      .join("_")
+      .replace(/[^A-Za-z0-9]+/g, "_")
+      .toUpperCase();
+
+    let name = base;
+    for (let suffix = 2; name in env; suffix++) {
+      name = `${base}_${suffix}`;
+    }
+    return name;
+  }
+
+  private static shellReference(
+    name: string,
+    shell: string | undefined,
+    run: string,
+    start: number,
+    end: number
+  ): Replacement {
+    const program = (shell || "bash").split(/\s+/)[0];
+
+    switch (program) {
+      case "pwsh":
+      case "powershell":
+        return { text: `$env:${name}`, start, end };
+      case "cmd":
+        return { text: `%${name}%`, start, end };
+      case "python":
+        return { text: `os.environ["${name}"]`, start, end };
+    }
+
+    const quote = this.getQuote(run.slice(0, start), false);
+    const text = `"\${${name}}"`;
+
+    if (quote === '"') {
+      return { text: `\${${name}}`, start, end };
+    }
+    if (quote === "'") {
+      // '${{ x }}' becomes "${X}" rather than ''"${X}"''
+      return run[start - 1] === "'" && run[end] === "'"
+        ? { text, start: start - 1, end: end + 1 }
+        : { text: `'${text}'`, start, end };
+    }
+    return { text, start, end };
+  }
+
+  private static scriptReference(
+    name: string,
+    script: string,
+    start: number,
+    end: number
+  ): Replacement {
+    const quote = this.getQuote(script.slice(0, start), true);
+    const text = `process.env.${name}`;
+
+    if (quote === "`") {
+      return { text: `\${${text}}`, start, end };
+    }
+    if (quote === null) {
+      return { text, start, end };
+    }
+    // A string holding only the expression, e.g. '${{ x }}', is replaced
+    // as a whole
+    if (script[start - 1] === quote && script[end] === quote) {
+      return { text, start: start - 1, end: end + 1 };
+    }
+    return { text: `${quote} + ${text} + ${quote}`, start, end };
+  }
+
+  /**
+   * Quote character that is open at the end of the given code, if any
+   */
+  private static getQuote(code: string, isJavaScript: boolean): string | null {
+    const quotes = isJavaScript ? ["'", '"', "`"] : ["'", '"'];
+    let open: string | null = null;
+
+    for (let i = 0; i < code.length; i++) {
+      const char = code[i];
+      if (char === "\\" && (isJavaScript || open !== "'")) {
+        i++;
+      } else if (open === null && quotes.includes(char)) {
+        open = char;
+      } else if (char === open) {
+        open = null;
+      }
+    }
+
+    return open;
+  }
+
+  private static getExpressionParts(
+    value: string
+  ): Extract<TemplatePart, { type: "expression" }>[] {
+    if (!ExpressionParser.containsExpression(value)) {
+      return [];
+    }
+    try {
+      return ExpressionParser.parseTemplate(value).flatMap(part =>
+        part.type === "expression" ? [part] : []
+      );
+    } catch {
+      // Syntax errors are reported by the validator
+      return [];
+    }
+  }
+
+  private static findUntrustedReference(
+    part: Extract<TemplatePart, { type: "expression" }>
+  ): ContextReference | undefined {
+    return getContextReferences(part.node).find(reference =>
+      this.isUntrustedContext(reference.path)
+    );
+  }
+
+  private static formatContext(reference: ContextReference): string {
+    return reference.path.map(segment => segment ?? "*").join(".");
+  }
+
+  private static isGitHubScript(step: Step): boolean {
+    return (step.uses || "").toLowerCase().startsWith("actions/github-script@");
+  }
+
+  private static isExecutableEnv(name: string): boolean {
+    return EXECUTABLE_ENV_VARIABLES.includes(name.toUpperCase());
+  }
+}
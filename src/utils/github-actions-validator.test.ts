@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { GitHubWorkflow, Job } from "../types/github-actions";
+import { GitHubActionsValidator } from "./github-actions-validator";
+
+const validate = (workflow: Partial<GitHubWorkflow>) => {
+  const { errors, warnings } = GitHubActionsValidator.validateWorkflow({
+    name: "CI",
+    on: { push: {} },
+    jobs: {},
+    ...workflow,
+  });
+  return [...errors, ...warnings].map(
+    finding => `${finding.code} ${finding.path}`
+  );
+};
+
+const job = (changes: Partial<Job> = {}): Job => ({
+  "runs-on": "ubuntu-latest",
+  steps: [{ run: "make" }],
+  ...changes,
+});
+
+describe("GitHubActionsValidator", () => {
+  it("reports expression syntax errors", () => {
+    const findings = validate({
+      jobs: { build: job({ steps: [{ run: "echo ${{ github.sha" }] }) },
+    });
+    expect(findings).toContain("INVALID_EXPRESSION jobs.build.steps[0].run");
+  });
+
+  it("reports contexts that are not available", () => {
+    const findings = validate({
+      env: { SHA: "${{ steps.build.outputs.sha }}" },
+      jobs: { build: job() },
+    });
+    expect(findings).toContain("CONTEXT_NOT_AVAILABLE env.SHA");
+  });
+
+  it("reports unknown step and job output references", () => {
+    const findings = validate({
+      jobs: {
+        build: job({
+          steps: [
+            { run: "echo ${{ steps.missing.outputs.value }}" },
+            { run: "echo ${{ needs.other.outputs.value }}" },
+          ],
+        }),
+      },
+    });
+    expect(findings).toContain(
+      "UNKNOWN_STEP_REFERENCE jobs.build.steps[0].run"
+    );
+    expect(findings).toContain("UNKNOWN_NEEDS_JOB jobs.build.steps[1].run");
+  });
+
+  it("reports matrices above the job limit", () => {
+    const values = Array.from({ length: 20 }, (_, index) => index);
+    const findings = validate({
+      jobs: { build: job({ strategy: { matrix: { a: values, b: values } } }) },
+    });
+    expect(findings).toContain("MATRIX_TOO_LARGE jobs.build.strategy.matrix");
+  });
+
+  it("reads shorthand triggers", () => {
+    const findings = validate({
+      on: ["push", "pull_request"] as unknown as GitHubWorkflow["on"],
+      jobs: { build: job() },
+    });
+    expect(findings.filter(finding => finding.includes(" on"))).toEqual([]);
+  });
+});
+
+describe("GitHubActionsValidator output references", () => {
+  const workflow = (reference: string): Partial<GitHubWorkflow> => ({
+    jobs: {
+      Setup: job({ outputs: { Version: "1.0" } }),
+      build: job({ needs: "setup", steps: [{ run: `echo ${reference}` }] }),
+    },
+  });
+
+  it("matches job IDs and outputs ignoring case", () => {
+    expect(
+      validate(workflow("${{ needs.SETUP.outputs.version }}")).filter(finding =>
+        finding.startsWith("UNKNOWN")
+      )
+    ).toEqual([]);
+  });
+
+  it("does not resolve jobs from the prototype", () => {
+    expect(validate(workflow("${{ needs.constructor.outputs.x }}"))).toContain(
+      "UNKNOWN_NEEDS_JOB jobs.build.steps[0].run"
+    );
+    expect(validate(workflow("${{ needs.setup.outputs.toString }}"))).toContain(
+      "UNKNOWN_JOB_OUTPUT jobs.build.steps[0].run"
+    );
+  });
+});
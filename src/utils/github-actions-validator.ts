@@ -7,6 +7,25 @@ import type {
   ValidationWarning,
   WorkflowEventTrigger,
 } from "../types/github-actions";
+import {
+  EXPRESSION_CONTEXTS,
+  ExpressionParser,
+  STATUS_FUNCTIONS,
+  getContextAvailability,
+  getContextReferences,
+  walkExpression,
+} from "./github-actions-expressions";
+import type { ExpressionNode } from "./github-actions-expressions";
+import { getActionOutputs } from "./github-actions-catalog";
+import { WorkflowSecurity } from "./github-actions-security";
+import { ActionPinning } from "./action-pinning";
+import { PermissionsAnalyzer } from "./permissions-analyzer";
+import { CronExpression } from "./cron-expression";
+import { TriggerFilters } from "./trigger-filters";
+import { MatrixExpander } from "./matrix-expansion";
+import { ReusableWorkflows } from "./reusable-workflows";
+import { WorkflowYaml } from "./workflow-yaml";
+import type { CalledWorkflows } from "./reusable-workflows";
 import {
   GITHUB_HOSTED_RUNNERS,
   WORKFLOW_EVENT_TRIGGERS,
@@ -17,9 +36,14 @@ import {
  */
 export class GitHubActionsValidator {
   /**
-   * Validate a complete GitHub Actions workflow
+   * Validate a complete GitHub Actions workflow. Calls to reusable
+   * workflows are checked against `calledWorkflows` when their definition
+   * is known.
    */
-  static validateWorkflow(workflow: GitHubWorkflow): ValidationResult {
+  static validateWorkflow(
+    workflow: GitHubWorkflow,
+    calledWorkflows?: CalledWorkflows
+  ): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
 
@@ -46,7 +70,9 @@ export class GitHubActionsValidator {
       });
     } else {
       Object.entries(workflow.jobs).forEach(([jobId, job]) => {
-        const jobValidation = this.validateJob(job, jobId);
+        const jobValidation = ReusableWorkflows.isReusableJob(job)
+          ? this.validateReusableJob(job, jobId, calledWorkflows)
+          : this.validateJob(job, jobId);
         errors.push(
           ...jobValidation.errors.map(error => ({
             ...error,
@@ -67,6 +93,25 @@ export class GitHubActionsValidator {
     errors.push(...dependencyValidation.errors);
     warnings.push(...dependencyValidation.warnings);
 
+    // Validate ${{ }} expressions: syntax and context availability
+    const expressionValidation = this.validateExpressions(workflow);
+    errors.push(...expressionValidation.errors);
+    warnings.push(...expressionValidation.warnings);
+
+    // Validate needs.*.outputs, steps.*.outputs and jobs.*.outputs references
+    const referenceValidation = this.validateOutputReferences(
+      workflow,
+      calledWorkflows
+    );
+    errors.push(...referenceValidation.errors);
+    warnings.push(...referenceValidation.warnings);
+
+    // Flag untrusted event data that can inject or run code
+    warnings.push(...WorkflowSecurity.findScriptInjections(workflow));
+    warnings.push(...WorkflowSecurity.findPrivilegeEscalations(workflow));
+    warnings.push(...ActionPinning.findUnpinnedActions(workflow));
+    warnings.push(...PermissionsAnalyzer.findBroadPermissions(workflow));
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -77,11 +122,10 @@ export class GitHubActionsValidator {
   /**
    * Validate workflow triggers
    */
-  private static validateTriggers(
-    triggers: GitHubWorkflow["on"]
-  ): ValidationResult {
+  private static validateTriggers(on: GitHubWorkflow["on"]): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
+    const triggers = WorkflowYaml.getTriggerMap(on);
 
     if (!triggers || Object.keys(triggers).length === 0) {
       errors.push({
@@ -120,18 +164,26 @@ export class GitHubActionsValidator {
                 message: "Schedule trigger must have a cron expression",
                 code: "MISSING_CRON_EXPRESSION",
               });
-            } else if (!this.isValidCronExpression(schedule.cron)) {
-              errors.push({
-                path: `on.schedule[${index}].cron`,
-                message: "Invalid cron expression",
-                code: "INVALID_CRON_EXPRESSION",
-              });
+            } else {
+              const cronError = CronExpression.validate(schedule.cron);
+              if (cronError) {
+                errors.push({
+                  path: `on.schedule[${index}].cron`,
+                  message: `Invalid cron expression: ${cronError}`,
+                  code: "INVALID_CRON_EXPRESSION",
+                });
+              }
             }
           }
         );
       }
     }
 
+    // Branch, tag and path filters
+    const filterValidation = TriggerFilters.validate(triggers);
+    errors.push(...filterValidation.errors);
+    warnings.push(...filterValidation.warnings);
+
     return { isValid: errors.length === 0, errors, warnings };
   }
 
@@ -204,17 +256,62 @@ export class GitHubActionsValidator {
 
     // Validate strategy matrix
     if (job.strategy?.matrix) {
-      const matrixValidation = this.validateMatrix(job.strategy.matrix);
+      const matrixValidation = MatrixExpander.validate(job.strategy.matrix);
+      const getPath = (path: string) =>
+        path ? `strategy.matrix.${path}` : "strategy.matrix";
       errors.push(
         ...matrixValidation.errors.map(error => ({
           ...error,
-          path: `strategy.matrix.${error.path}`,
+          path: getPath(error.path),
         }))
       );
       warnings.push(
         ...matrixValidation.warnings.map(warning => ({
           ...warning,
-          path: `strategy.matrix.${warning.path}`,
+          path: getPath(warning.path),
+        }))
+      );
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Validate a job that calls a reusable workflow
+   */
+  private static validateReusableJob(
+    job: Job,
+    jobId: string,
+    calledWorkflows?: CalledWorkflows
+  ): ValidationResult {
+    const { errors, warnings } = ReusableWorkflows.validateJob(
+      job,
+      calledWorkflows
+    );
+
+    if (!this.isValidJobId(jobId)) {
+      errors.push({
+        path: "id",
+        message:
+          "Job ID must start with a letter or _ and contain only alphanumeric characters, -, and _",
+        code: "INVALID_JOB_ID",
+      });
+    }
+
+    if (job.strategy?.matrix) {
+      const matrixValidation = MatrixExpander.validate(job.strategy.matrix);
+      const getPath = (path: string) =>
+        path ? `strategy.matrix.${path}` : "strategy.matrix";
+      errors.push(
+        ...matrixValidation.errors.map(error => ({
+          ...error,
+          path: getPath(error.path),
+        }))
+      );
+      warnings.push(
+        ...matrixValidation.warnings.map(warning => ({
+          ...warning,
+          path: getPath(warning.path),
         }))
       );
     }
@@ -360,6 +457,321 @@ export class GitHubActionsValidator {
     return { isValid: errors.length === 0, errors, warnings };
   }
 
+  /**
+   * Validate every expression in the workflow: syntax first, then whether
+   * the contexts and special functions it uses are available for its key.
+   * `if:` conditions are parsed as expressions even without `${{ }}`.
+   */
+  private static validateExpressions(
+    workflow: GitHubWorkflow
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    this.collectStrings(workflow, []).forEach(({ segments, value }) => {
+      const path = this.formatPath(segments);
+      const isCondition = this.isConditionPath(segments);
+
+      const syntaxErrors = ExpressionParser.findSyntaxErrors(
+        value,
+        isCondition
+      );
+      if (syntaxErrors.length > 0) {
+        errors.push(
+          ...syntaxErrors.map(error => ({
+            path,
+            message: `Invalid expression at position ${error.offset}: ${error.message}`,
+            code: "INVALID_EXPRESSION",
+            offset: error.offset,
+          }))
+        );
+        return;
+      }
+
+      if (!isCondition && !ExpressionParser.containsExpression(value)) {
+        return;
+      }
+
+      const availability = getContextAvailability(segments);
+      if (!availability) {
+        warnings.push({
+          path,
+          message: "Expressions are not evaluated in this key",
+          code: "EXPRESSION_NOT_SUPPORTED",
+        });
+        return;
+      }
+
+      this.parseExpressions(value, isCondition)
+        .flatMap(walkExpression)
+        .forEach(node => {
+          if (node.type === "context") {
+            const name = node.name.toLowerCase();
+            if (!EXPRESSION_CONTEXTS.includes(name)) {
+              errors.push({
+                path,
+                message: `Unrecognized context '${node.name}'`,
+                code: "UNKNOWN_CONTEXT",
+                offset: node.start,
+              });
+            } else if (!availability.contexts.includes(name)) {
+              errors.push({
+                path,
+                message: `Context '${node.name}' is not available here. Available contexts: ${availability.contexts.join(", ")}`,
+                code: "CONTEXT_NOT_AVAILABLE",
+                offset: node.start,
+              });
+            }
+          } else if (
+            node.type === "call" &&
+            [...STATUS_FUNCTIONS, "hashFiles"].includes(node.name) &&
+            !availability.functions.includes(node.name)
+          ) {
+            errors.push({
+              path,
+              message: `Function '${node.name}' is not available here`,
+              code: "FUNCTION_NOT_AVAILABLE",
+              offset: node.start,
+            });
+          }
+        });
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Resolve output references. `needs.<job>` must name a job listed in
+   * `needs`, `steps.<id>` a step that runs earlier in the same job, and the
+   * referenced output must be declared by the job or known for the action.
+   */
+  private static validateOutputReferences(
+    workflow: GitHubWorkflow,
+    calledWorkflows?: CalledWorkflows
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+    const jobs = workflow.jobs || {};
+
+    this.collectStrings(workflow, []).forEach(({ segments, value }) => {
+      const path = this.formatPath(segments);
+      const jobId = segments[0] === "jobs" ? String(segments[1]) : undefined;
+      const job = jobId !== undefined ? jobs[jobId] : undefined;
+      // Step-level keys may only read steps that ran before them
+      const stepIndex =
+        job && segments[2] === "steps" && typeof segments[3] === "number"
+          ? segments[3]
+          : undefined;
+
+      const expressions = this.parseExpressions(
+        value,
+        this.isConditionPath(segments)
+      );
+      expressions.flatMap(getContextReferences).forEach(reference => {
+        const [context, name, property, output] = reference.path;
+        const addError = (message: string, code: string) =>
+          errors.push({ path, message, code, offset: reference.start });
+
+        if (!name) {
+          return;
+        }
+
+        if (context === "needs" && jobId !== undefined && job) {
+          const needs = job.needs
+            ? Array.isArray(job.needs)
+              ? job.needs
+              : [job.needs]
+            : [];
+          const neededId = this.findKey(jobs, name);
+          if (neededId === undefined) {
+            addError(
+              `needs.${name} refers to job '${name}', which does not exist`,
+              "UNKNOWN_NEEDS_JOB"
+            );
+          } else if (
+            !needs.some(need => need.toLowerCase() === name.toLowerCase())
+          ) {
+            addError(
+              `Job '${name}' must be listed in needs of job '${jobId}' to be referenced`,
+              "NEEDS_NOT_DECLARED"
+            );
+          } else if (
+            property === "outputs" &&
+            output &&
+            !this.hasJobOutput(jobs[neededId], output, calledWorkflows)
+          ) {
+            addError(
+              `Job '${name}' does not declare an output named '${output}'`,
+              "UNKNOWN_JOB_OUTPUT"
+            );
+          }
+        }
+
+        if (context === "steps" && job) {
+          const steps = job.steps || [];
+          const referencedIndex = steps.findIndex(
+            step => step.id?.toLowerCase() === name.toLowerCase()
+          );
+          const step = steps[referencedIndex];
+
+          if (!step) {
+            addError(
+              `No step with id '${name}' in job '${jobId}'`,
+              "UNKNOWN_STEP_REFERENCE"
+            );
+          } else if (stepIndex !== undefined && referencedIndex >= stepIndex) {
+            addError(
+              referencedIndex === stepIndex
+                ? `Step '${name}' cannot reference its own outputs`
+                : `Step '${name}' runs after this step`,
+              "STEP_NOT_YET_RUN"
+            );
+          } else if (property === "outputs" && output && step.uses) {
+            const knownOutputs = getActionOutputs(step.uses);
+            if (
+              knownOutputs &&
+              this.findKey(knownOutputs, output) === undefined
+            ) {
+              addError(
+                `Action '${step.uses.split("@")[0]}' has no output named '${output}'`,
+                "UNKNOWN_ACTION_OUTPUT"
+              );
+            }
+          }
+        }
+
+        // Reusable workflow outputs map to job outputs
+        if (context === "jobs" && segments[0] === "on") {
+          const referencedId = this.findKey(jobs, name);
+          if (referencedId === undefined) {
+            addError(
+              `jobs.${name} refers to job '${name}', which does not exist`,
+              "UNKNOWN_JOB_REFERENCE"
+            );
+          } else if (
+            property === "outputs" &&
+            output &&
+            !this.hasJobOutput(jobs[referencedId], output, calledWorkflows)
+          ) {
+            addError(
+              `Job '${name}' does not declare an output named '${output}'`,
+              "UNKNOWN_JOB_OUTPUT"
+            );
+          }
+        }
+      });
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Whether a job declares an output. Outputs of a called workflow are only
+   * known once its definition is loaded; until then any name is accepted.
+   */
+  private static hasJobOutput(
+    job: Job,
+    output: string,
+    calledWorkflows?: CalledWorkflows
+  ): boolean {
+    if (!job.uses) {
+      return this.findKey(job.outputs, output) !== undefined;
+    }
+    const path = ReusableWorkflows.getCalleePath(
+      job.uses,
+      calledWorkflows?.repository ?? null
+    );
+    const definition = path ? calledWorkflows?.definitions[path] : undefined;
+    return (
+      !definition || this.findKey(definition.outputs, output) !== undefined
+    );
+  }
+
+  /**
+   * Key of a mapping as expressions look it up: ignoring case and never
+   * from the prototype, e.g. `needs.constructor`
+   */
+  private static findKey(
+    record: object | undefined,
+    name: string
+  ): string | undefined {
+    const lowerName = name.toLowerCase();
+    return Object.keys(record || {}).find(
+      key => key.toLowerCase() === lowerName
+    );
+  }
+
+  /**
+   * Expressions in a value; values with syntax errors yield none, as those
+   * are reported by validateExpressions
+   */
+  private static parseExpressions(
+    value: string,
+    isCondition: boolean
+  ): ExpressionNode[] {
+    try {
+      if (isCondition) {
+        return [ExpressionParser.parseCondition(value)];
+      }
+      return ExpressionParser.parseTemplate(value).flatMap(part =>
+        part.type === "expression" ? [part.node] : []
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * All string values in a workflow with their path segments
+   */
+  private static collectStrings(
+    value: unknown,
+    segments: (string | number)[]
+  ): { segments: (string | number)[]; value: string }[] {
+    if (typeof value === "string") {
+      return [{ segments, value }];
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap((item, index) =>
+        this.collectStrings(item, [...segments, index])
+      );
+    }
+    if (value && typeof value === "object") {
+      return Object.entries(value).flatMap(([key, child]) =>
+        this.collectStrings(child, [...segments, key])
+      );
+    }
+    return [];
+  }
+
+  /**
+   * `jobs.<job_id>.if` and `jobs.<job_id>.steps[*].if`
+   */
+  private static isConditionPath(segments: (string | number)[]): boolean {
+    return (
+      segments[0] === "jobs" &&
+      segments[segments.length - 1] === "if" &&
+      (segments.length === 3 ||
+        (segments.length === 5 && segments[2] === "steps"))
+    );
+  }
+
+  /**
+   * Format path segments the way validation paths are written, e.g.
+   * `jobs.build.steps[0].run`
+   */
+  private static formatPath(segments: (string | number)[]): string {
+    return segments.reduce<string>(
+      (path, segment) =>
+        typeof segment === "number"
+          ? `${path}[${segment}]`
+          : path
+            ? `${path}.${segment}`
+            : segment,
+      ""
+    );
+  }
+
   /**
    * Validate runner specification
    */
@@ -399,49 +811,6 @@ export class GitHubActionsValidator {
     return { isValid: errors.length === 0, errors, warnings };
   }
 
-  /**
-   * Validate strategy matrix
-   */
-  private static validateMatrix(
-    matrix: Record<string, unknown>
-  ): ValidationResult {
-    const errors: ValidationError[] = [];
-    const warnings: ValidationWarning[] = [];
-
-    if (!matrix || typeof matrix !== "object") {
-      errors.push({
-        path: "",
-        message: "Matrix must be an object",
-        code: "INVALID_MATRIX_FORMAT",
-      });
-      return { isValid: false, errors, warnings };
-    }
-
-    // Count total matrix combinations
-    let totalCombinations = 1;
-    const matrixKeys = Object.keys(matrix).filter(
-      key => key !== "include" && key !== "exclude"
-    );
-
-    matrixKeys.forEach(key => {
-      const values = matrix[key];
-      if (Array.isArray(values)) {
-        totalCombinations *= values.length;
-      }
-    });
-
-    // Warn about large matrices
-    if (totalCombinations > 20) {
-      warnings.push({
-        path: "",
-        message: `Matrix generates ${totalCombinations} job combinations. Consider reducing matrix size for faster execution.`,
-        code: "LARGE_MATRIX_SIZE",
-      });
-    }
-
-    return { isValid: errors.length === 0, errors, warnings };
-  }
-
   // Helper validation methods
   private static isValidJobId(jobId: string): boolean {
     return /^[a-zA-Z_][a-zA-Z0-9_-]*$/.test(jobId);
@@ -457,21 +826,16 @@ export class GitHubActionsValidator {
       actionRef
     );
   }
-
-  private static isValidCronExpression(cron: string): boolean {
-    // Basic cron validation - 5 fields separated by spaces
-    const cronParts = cron.trim().split(/\s+/);
-    return cronParts.length === 5;
-  }
 }
 
 /**
  * Quick validation function for workflows
  */
 export function validateGitHubWorkflow(
-  workflow: GitHubWorkflow
+  workflow: GitHubWorkflow,
+  calledWorkflows?: CalledWorkflows
 ): ValidationResult {
-  return GitHubActionsValidator.validateWorkflow(workflow);
+  return GitHubActionsValidator.validateWorkflow(workflow, calledWorkflows);
 }
 
 /**
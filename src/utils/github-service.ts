@@ -1,5 +1,11 @@
 import { Octokit } from "@octokit/rest";
 import type { GitHubRepository } from "../store/github";
+import type { GitHubWorkflow } from "../types/github-actions";
+import type { ActionPin } from "./action-pinning";
+import { WorkflowYaml } from "./workflow-yaml";
+
+// Pages of 100 tags read when looking for the version of a pinned commit
+const MAX_TAG_PAGES = 5;
 
 export interface WorkflowFile {
   name: string;
@@ -200,16 +206,7 @@ export class GitHubService {
       });
 
       if ("content" in data && data.content) {
-        // Use proper UTF-8 decoding for base64 content
-        const base64Content = data.content.replace(/\s/g, "");
-        const decodedBytes = atob(base64Content);
-
-        // Convert binary string to UTF-8
-        const utf8Content = new TextDecoder("utf-8").decode(
-          new Uint8Array(decodedBytes.split("").map(char => char.charCodeAt(0)))
-        );
-
-        return utf8Content;
+        return decodeContent(data.content);
       }
 
       throw new Error("File content not found");
@@ -219,22 +216,56 @@ export class GitHubService {
     }
   }
 
-  // Create or update a workflow file
+  // Content and SHA of a file; undefined when it does not exist yet
+  async getFile(
+    owner: string,
+    repo: string,
+    path: string
+  ): Promise<{ sha: string; content: string } | undefined> {
+    try {
+      const { data } = await this.octokit.rest.repos.getContent({
+        owner,
+        repo,
+        path,
+      });
+      if (Array.isArray(data) || !("content" in data)) {
+        throw new Error(`${path} is not a file`);
+      }
+      return { sha: data.sha, content: decodeContent(data.content || "") };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      console.error("Error fetching file:", error);
+      throw error;
+    }
+  }
+
+  // Create or update a file such as a workflow or action.yml; workflow
+  // objects are serialized to YAML
   async saveWorkflow(
     owner: string,
     repo: string,
     path: string,
-    content: string,
+    content: string | GitHubWorkflow,
     message: string,
     sha?: string
   ): Promise<void> {
     try {
+      const yamlContent =
+        typeof content === "string" ? content : WorkflowYaml.stringify(content);
+
       await this.octokit.rest.repos.createOrUpdateFileContents({
         owner,
         repo,
         path,
         message,
-        content: Buffer.from(content).toString("base64"),
+        // Encode UTF-8 bytes; Buffer does not exist in the browser
+        content: btoa(
+          Array.from(new TextEncoder().encode(yamlContent), byte =>
+            String.fromCharCode(byte)
+          ).join("")
+        ),
         sha,
       });
     } catch (error) {
@@ -304,8 +335,70 @@ export class GitHubService {
       throw error;
     }
   }
+
+  // Resolve an action tag or branch to its commit and most specific tag
+  async resolveActionRef(
+    owner: string,
+    repo: string,
+    ref: string
+  ): Promise<ActionPin> {
+    try {
+      const { data: commit } = await this.octokit.rest.repos.getCommit({
+        owner,
+        repo,
+        ref,
+      });
+      if (isFullVersion(ref)) {
+        return { sha: commit.sha, version: ref };
+      }
+      // `v4` and `v4.2.2` usually point at the same commit; prefer the
+      // latter. Older tags are on later pages, so read until a full version
+      // is found, giving up on repositories with very many tags.
+      const versions: string[] = [];
+      const pages = this.octokit.paginate.iterator(
+        this.octokit.rest.repos.listTags,
+        { owner, repo, per_page: 100 }
+      );
+      let pageCount = 0;
+      for await (const { data: tags } of pages) {
+        versions.push(
+          ...tags
+            .filter(tag => tag.commit.sha === commit.sha)
+            .map(tag => tag.name)
+        );
+        if (versions.some(isFullVersion) || ++pageCount >= MAX_TAG_PAGES) {
+          break;
+        }
+      }
+      const [version] = versions.sort(
+        (a, b) => b.split(".").length - a.split(".").length
+      );
+
+      return { sha: commit.sha, version: version || ref };
+    } catch (error) {
+      console.error("Error resolving action reference:", error);
+      throw error;
+    }
+  }
 }
 
+// e.g. v4.2.2 rather than v4 or main
+const isFullVersion = (ref: string): boolean => ref.split(".").length >= 3;
+
+// Base64 file content from the contents API, decoded as UTF-8
+const decodeContent = (base64: string): string => {
+  const decodedBytes = atob(base64.replace(/\s/g, ""));
+  return new TextDecoder("utf-8").decode(
+    new Uint8Array(decodedBytes.split("").map(char => char.charCodeAt(0)))
+  );
+};
+
+const isNotFound = (error: unknown): boolean =>
+  !!error &&
+  typeof error === "object" &&
+  "status" in error &&
+  error.status === 404;
+
 // OAuth utilities
 export const generateOAuthURL = (
   clientId: string,
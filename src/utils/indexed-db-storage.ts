@@ -0,0 +1,92 @@
+import type { StateStorage } from "zustand/middleware";
+
+const DATABASE_VERSION = 1;
+
+export interface IndexedDbStateStorage extends StateStorage {
+  getItem: (name: string) => Promise<string | null>;
+  setItem: (name: string, value: string) => Promise<void>;
+  removeItem: (name: string) => Promise<void>;
+  // Every stored value whose key starts with the prefix, by key
+  getEntries: (prefix: string) => Promise<Record<string, string>>;
+}
+
+/**
+ * Key-value storage backed by an IndexedDB object store, for zustand
+ * `persist`. Unlike localStorage it is not limited to a few megabytes and
+ * does not block the page while writing.
+ */
+export class IndexedDbStorage {
+  static create(
+    databaseName: string,
+    storeName = "keyval"
+  ): IndexedDbStateStorage {
+    let database: Promise<IDBDatabase> | null = null;
+
+    // Opened on first use; a failed open is retried by the next call
+    const open = (): Promise<IDBDatabase> => {
+      database =
+        database ||
+        new Promise((resolve, reject) => {
+          const request = indexedDB.open(databaseName, DATABASE_VERSION);
+          request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(storeName)) {
+              request.result.createObjectStore(storeName);
+            }
+          };
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => {
+            database = null;
+            reject(request.error);
+          };
+        });
+      return database;
+    };
+
+    // Resolves once the transaction has committed
+    const run = async <T>(
+      mode: IDBTransactionMode,
+      operation: (store: IDBObjectStore) => IDBRequest<T>
+    ): Promise<T> => {
+      const db = await open();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = operation(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    };
+
+    return {
+      getItem: async name => {
+        const value = await run("readonly", store => store.get(name));
+        return typeof value === "string" ? value : null;
+      },
+      setItem: async (name, value) => {
+        await run("readwrite", store => store.put(value, name));
+      },
+      removeItem: async name => {
+        await run("readwrite", store => store.delete(name));
+      },
+      getEntries: async prefix => {
+        const entries: Record<string, string> = {};
+        await run("readonly", store => {
+          const request = store.openCursor(
+            IDBKeyRange.bound(prefix, `${prefix}\uffff`)
+          );
+          request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor) {
+              if (typeof cursor.value === "string") {
+                entries[String(cursor.key)] = cursor.value;
+              }
+              cursor.continue();
+            }
+          };
+          return request;
+        });
+        return entries;
+      },
+    };
+  }
+}
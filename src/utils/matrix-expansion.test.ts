@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { MatrixExpander } from "./matrix-expansion";
+
+const range = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+const validationCodes = (matrix: unknown) => {
+  const { errors, warnings } = MatrixExpander.validate(matrix);
+  return [...errors, ...warnings].map(finding => finding.code);
+};
+
+describe("MatrixExpander.expand", () => {
+  it("builds the cartesian product of the matrix keys", () => {
+    const { combinations } = MatrixExpander.expand({
+      os: ["ubuntu-latest", "windows-latest"],
+      node: [18, 20],
+    });
+    expect(combinations).toEqual([
+      { os: "ubuntu-latest", node: 18 },
+      { os: "ubuntu-latest", node: 20 },
+      { os: "windows-latest", node: 18 },
+      { os: "windows-latest", node: 20 },
+    ]);
+  });
+
+  it("extends matching combinations and adds includes that match none", () => {
+    // The example from GitHub's documentation
+    const expansion = MatrixExpander.expand({
+      fruit: ["apple", "pear"],
+      animal: ["cat", "dog"],
+      include: [
+        { color: "green" },
+        { color: "pink", animal: "cat" },
+        { fruit: "apple", shape: "circle" },
+        { fruit: "banana" },
+        { fruit: "banana", animal: "cat" },
+      ],
+    });
+    expect(expansion.combinations).toEqual([
+      { fruit: "apple", animal: "cat", color: "pink", shape: "circle" },
+      { fruit: "apple", animal: "dog", color: "green", shape: "circle" },
+      { fruit: "pear", animal: "cat", color: "pink" },
+      { fruit: "pear", animal: "dog", color: "green" },
+      { fruit: "banana" },
+      { fruit: "banana", animal: "cat" },
+    ]);
+    expect(expansion.overrides).toEqual([
+      { index: 1, key: "color", previous: "green", value: "pink" },
+    ]);
+  });
+
+  it("never overwrites original matrix values with an include", () => {
+    const { combinations } = MatrixExpander.expand({
+      os: ["ubuntu-latest"],
+      include: [{ os: "macos-latest", experimental: true }],
+    });
+    expect(combinations).toEqual([
+      { os: "ubuntu-latest" },
+      { os: "macos-latest", experimental: true },
+    ]);
+  });
+
+  it("excludes every combination an entry partially matches", () => {
+    const expansion = MatrixExpander.expand({
+      os: ["ubuntu-latest", "windows-latest"],
+      node: [18, 20],
+      exclude: [{ os: "windows-latest" }, { node: 16 }],
+    });
+    expect(expansion.combinations).toEqual([
+      { os: "ubuntu-latest", node: 18 },
+      { os: "ubuntu-latest", node: 20 },
+    ]);
+    expect(expansion.unmatchedExcludes).toEqual([1]);
+  });
+
+  it("applies excludes before includes", () => {
+    const { combinations } = MatrixExpander.expand({
+      node: [18, 20],
+      exclude: [{ node: 18 }],
+      include: [{ node: 18, legacy: true }],
+    });
+    expect(combinations).toEqual([{ node: 20 }, { node: 18, legacy: true }]);
+  });
+
+  it("resolves expressions from the context and flags run-time matrices", () => {
+    const matrix = { node: "${{ fromJSON(needs.setup.outputs.versions) }}" };
+    expect(MatrixExpander.expand(matrix).isDynamic).toBe(true);
+    expect(
+      MatrixExpander.expand(matrix, {
+        needs: { setup: { outputs: { versions: "[18, 20]" } } },
+      }).combinations
+    ).toEqual([{ node: 18 }, { node: 20 }]);
+  });
+});
+
+describe("MatrixExpander.validate", () => {
+  it("allows up to 256 jobs", () => {
+    expect(validationCodes({ a: range(16), b: range(16) })).toEqual([
+      "LARGE_MATRIX_SIZE",
+    ]);
+    expect(validationCodes({ a: range(16), b: range(17) })).toEqual([
+      "MATRIX_TOO_LARGE",
+    ]);
+  });
+
+  it("counts includes and excludes towards the limit", () => {
+    expect(
+      validationCodes({
+        a: range(16),
+        b: range(17),
+        exclude: [{ b: 16 }],
+      })
+    ).toEqual(["LARGE_MATRIX_SIZE"]);
+    expect(
+      validationCodes({
+        a: range(16),
+        b: range(16),
+        include: [{ a: 99 }],
+      })
+    ).toEqual(["MATRIX_TOO_LARGE"]);
+  });
+
+  it("reports malformed and ineffective entries", () => {
+    expect(validationCodes({ os: [] })).toContain("INVALID_MATRIX_VALUES");
+    expect(
+      validationCodes({ os: ["ubuntu-latest"], exclude: [{ node: 18 }] })
+    ).toEqual(["INVALID_MATRIX_EXCLUDE"]);
+    expect(
+      validationCodes({ os: ["ubuntu-latest"], exclude: [{ os: "macos" }] })
+    ).toEqual(["UNMATCHED_MATRIX_EXCLUDE"]);
+    expect(
+      validationCodes({
+        os: ["ubuntu-latest"],
+        include: [{ os: "ubuntu-latest" }],
+      })
+    ).toEqual(["REDUNDANT_MATRIX_INCLUDE"]);
+  });
+
+  it("names generated jobs after their values", () => {
+    expect(
+      MatrixExpander.getJobName("build", { os: "ubuntu-latest", node: 20 })
+    ).toBe("build (ubuntu-latest, 20)");
+  });
+});
@@ -0,0 +1,319 @@
+import type {
+  ValidationError,
+  ValidationResult,
+  ValidationWarning,
+} from "../types/github-actions";
+import {
+  ExpressionEvaluator,
+  ExpressionParser,
+} from "./github-actions-expressions";
+import type { ExpressionContext } from "./github-actions-expressions";
+
+/** Values of one generated job, e.g. `{ os: "ubuntu-latest", node: 20 }` */
+export type MatrixCombination = Record<string, unknown>;
+
+export interface MatrixIncludeOverride {
+  index: number; // Index of the `include` entry
+  key: string;
+  previous: unknown; // Value added by an earlier include
+  value: unknown;
+}
+
+export interface MatrixExpansion {
+  combinations: MatrixCombination[];
+  // Part of the matrix comes from expressions that need run-time data,
+  // e.g. `fromJSON(needs.setup.outputs.matrix)`
+  isDynamic: boolean;
+  errors: ValidationError[];
+  unmatchedExcludes: number[];
+  overrides: MatrixIncludeOverride[];
+  redundantIncludes: number[]; // Includes that change no combination
+}
+
+/** Most jobs a single matrix can generate in one workflow run */
+export const MAX_MATRIX_JOBS = 256;
+
+// Matrices above this size are slow and costly, though allowed
+const LARGE_MATRIX_JOBS = 20;
+
+const UNRESOLVED = Symbol("unresolved");
+
+/**
+ * Expands `strategy.matrix` the way GitHub does: the cartesian product of
+ * the matrix keys, minus partial `exclude` matches, then each `include`
+ * merged into every combination it does not contradict, or added as a new
+ * combination when it fits none. Includes may overwrite values added by
+ * earlier includes but never the original matrix values.
+ */
+export class MatrixExpander {
+  static expand(
+    matrix: unknown,
+    context: ExpressionContext = {}
+  ): MatrixExpansion {
+    const expansion: MatrixExpansion = {
+      combinations: [],
+      isDynamic: false,
+      errors: [],
+      unmatchedExcludes: [],
+      overrides: [],
+      redundantIncludes: [],
+    };
+
+    const resolved = this.resolve(matrix, context);
+    if (resolved === UNRESOLVED) {
+      expansion.isDynamic = true;
+      return expansion;
+    }
+    if (!this.isObject(resolved)) {
+      expansion.errors.push({
+        path: "",
+        message: "Matrix must be an object",
+        code: "INVALID_MATRIX_FORMAT",
+      });
+      return expansion;
+    }
+
+    // Cartesian product of the original keys
+    const keys = Object.keys(resolved).filter(
+      key => key !== "include" && key !== "exclude"
+    );
+    let combinations: MatrixCombination[] = [{}];
+    keys.forEach(key => {
+      const values = this.resolve(resolved[key], context);
+      if (values === UNRESOLVED) {
+        expansion.isDynamic = true;
+        return;
+      }
+      if (!Array.isArray(values) || values.length === 0) {
+        expansion.errors.push({
+          path: key,
+          message: `Matrix '${key}' must be a non-empty list of values`,
+          code: "INVALID_MATRIX_VALUES",
+        });
+        return;
+      }
+      combinations = combinations.flatMap(combination =>
+        values.map(value => ({ ...combination, [key]: value }))
+      );
+    });
+    if (keys.length === 0) {
+      combinations = [];
+    }
+
+    const excludes = this.getEntries("exclude", resolved, context, expansion);
+    excludes.forEach((exclude, index) => {
+      Object.keys(exclude)
+        .filter(key => !keys.includes(key))
+        .forEach(key => {
+          expansion.errors.push({
+            path: `exclude[${index}].${key}`,
+            message: `Exclude key '${key}' is not a matrix key`,
+            code: "INVALID_MATRIX_EXCLUDE",
+          });
+        });
+      const remaining = combinations.filter(
+        combination => !this.matches(exclude, combination, new Set(keys))
+      );
+      if (remaining.length === combinations.length) {
+        expansion.unmatchedExcludes.push(index);
+      }
+      combinations = remaining;
+    });
+
+    const includes = this.getEntries("include", resolved, context, expansion);
+    const originalKeys = new Set(keys);
+    const original = combinations.map(combination => ({ ...combination }));
+    const added: MatrixCombination[] = [];
+
+    includes.forEach((include, index) => {
+      const targets = original.filter(combination =>
+        this.matches(include, combination, originalKeys)
+      );
+      if (targets.length === 0) {
+        added.push({ ...include });
+        return;
+      }
+
+      let changed = false;
+      targets.forEach(combination => {
+        Object.entries(include).forEach(([key, value]) => {
+          if (originalKeys.has(key)) {
+            return;
+          }
+          if (!(key in combination)) {
+            changed = true;
+          } else if (!this.equals(combination[key], value)) {
+            changed = true;
+            const isRecorded = expansion.overrides.some(
+              override => override.index === index && override.key === key
+            );
+            if (!isRecorded) {
+              expansion.overrides.push({
+                index,
+                key,
+                previous: combination[key],
+                value,
+              });
+            }
+          }
+          combination[key] = value;
+        });
+      });
+      if (!changed) {
+        expansion.redundantIncludes.push(index);
+      }
+    });
+
+    expansion.combinations = [...original, ...added];
+    return expansion;
+  }
+
+  /**
+   * Findings for a job's matrix; paths are relative to `strategy.matrix`
+   */
+  static validate(matrix: unknown): ValidationResult {
+    const expansion = this.expand(matrix);
+    const errors = [...expansion.errors];
+    const warnings: ValidationWarning[] = [];
+    const count = expansion.combinations.length;
+
+    if (errors.length === 0 && !expansion.isDynamic) {
+      if (count === 0) {
+        errors.push({
+          path: "",
+          message: "Matrix does not generate any jobs",
+          code: "EMPTY_MATRIX",
+        });
+      } else if (count > MAX_MATRIX_JOBS) {
+        errors.push({
+          path: "",
+          message: `Matrix generates ${count} jobs; GitHub allows at most ${MAX_MATRIX_JOBS} per workflow run`,
+          code: "MATRIX_TOO_LARGE",
+        });
+      } else if (count > LARGE_MATRIX_JOBS) {
+        warnings.push({
+          path: "",
+          message: `Matrix generates ${count} job combinations. Consider reducing matrix size for faster execution.`,
+          code: "LARGE_MATRIX_SIZE",
+        });
+      }
+    }
+
+    expansion.unmatchedExcludes.forEach(index => {
+      warnings.push({
+        path: `exclude[${index}]`,
+        message: "Exclusion does not match any matrix combination",
+        code: "UNMATCHED_MATRIX_EXCLUDE",
+      });
+    });
+
+    expansion.overrides.forEach(({ index, key, previous, value }) => {
+      warnings.push({
+        path: `include[${index}].${key}`,
+        message: `Include overwrites '${key}: ${this.format(previous)}' added by an earlier include with '${this.format(value)}'`,
+        code: "MATRIX_INCLUDE_OVERRIDE",
+      });
+    });
+
+    expansion.redundantIncludes.forEach(index => {
+      warnings.push({
+        path: `include[${index}]`,
+        message:
+          "Include matches existing combinations without adding any values",
+        code: "REDUNDANT_MATRIX_INCLUDE",
+      });
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Label GitHub gives a generated job, e.g. `build (ubuntu-latest, 20)`
+   */
+  static getJobName(name: string, combination: MatrixCombination): string {
+    const values = Object.values(combination).map(value => this.format(value));
+    return values.length > 0 ? `${name} (${values.join(", ")})` : name;
+  }
+
+  /**
+   * `include` or `exclude` as a list of objects
+   */
+  private static getEntries(
+    name: "include" | "exclude",
+    matrix: Record<string, unknown>,
+    context: ExpressionContext,
+    expansion: MatrixExpansion
+  ): MatrixCombination[] {
+    if (matrix[name] === undefined) {
+      return [];
+    }
+
+    const entries = this.resolve(matrix[name], context);
+    if (entries === UNRESOLVED) {
+      expansion.isDynamic = true;
+      return [];
+    }
+    if (
+      !Array.isArray(entries) ||
+      !entries.every(entry => this.isObject(entry))
+    ) {
+      expansion.errors.push({
+        path: name,
+        message: `Matrix '${name}' must be a list of objects`,
+        code: "INVALID_MATRIX_FORMAT",
+      });
+      return [];
+    }
+    return entries;
+  }
+
+  /**
+   * Evaluate `${{ }}` values; UNRESOLVED when they need run-time data
+   */
+  private static resolve(
+    value: unknown,
+    context: ExpressionContext
+  ): unknown | typeof UNRESOLVED {
+    if (
+      typeof value !== "string" ||
+      !ExpressionParser.containsExpression(value)
+    ) {
+      return value;
+    }
+
+    try {
+      const result = ExpressionEvaluator.evaluateTemplate(value, context);
+      return result === null || result === "" ? UNRESOLVED : result;
+    } catch {
+      return UNRESOLVED;
+    }
+  }
+
+  /**
+   * Whether an include or exclude entry agrees with a combination on the
+   * given keys
+   */
+  private static matches(
+    entry: MatrixCombination,
+    combination: MatrixCombination,
+    keys: Set<string>
+  ): boolean {
+    return Object.entries(entry).every(
+      ([key, value]) => !keys.has(key) || this.equals(combination[key], value)
+    );
+  }
+
+  private static equals(a: unknown, b: unknown): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  private static format(value: unknown): string {
+    return typeof value === "object" && value !== null
+      ? JSON.stringify(value)
+      : String(value);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { GitHubWorkflow } from "../types/github-actions";
+import { PermissionsAnalyzer } from "./permissions-analyzer";
+
+const WORKFLOW: GitHubWorkflow = {
+  name: "CI",
+  on: { push: {} },
+  jobs: {
+    build: {
+      "runs-on": "ubuntu-latest",
+      steps: [{ uses: "actions/checkout@v4" }, { run: "make" }],
+    },
+    notify: {
+      "runs-on": "ubuntu-latest",
+      permissions: { issues: "write" },
+      steps: [{ uses: "octo-org/unknown-action@v1" }],
+    },
+  },
+};
+
+describe("PermissionsAnalyzer.applyRecommendations", () => {
+  it("leaves jobs using actions with unknown needs unchanged", () => {
+    const recommendations = PermissionsAnalyzer.recommend(WORKFLOW);
+    const workflow = PermissionsAnalyzer.applyRecommendations(
+      WORKFLOW,
+      recommendations
+    );
+
+    expect(
+      recommendations.find(({ jobId }) => jobId === "notify")?.unknownActions
+    ).toEqual(["octo-org/unknown-action"]);
+    expect(workflow.jobs.notify).toBe(WORKFLOW.jobs.notify);
+    expect(workflow.jobs.build.permissions).toEqual({ contents: "read" });
+  });
+
+  it("applies once the needs of the action are known", () => {
+    const recommendations = PermissionsAnalyzer.recommend(WORKFLOW, {
+      "octo-org/unknown-action": { issues: "write" },
+    });
+    const workflow = PermissionsAnalyzer.applyRecommendations(
+      WORKFLOW,
+      recommendations
+    );
+
+    expect(workflow.jobs.notify.permissions).toEqual({ issues: "write" });
+  });
+});
@@ -0,0 +1,449 @@
+import type {
+  GitHubWorkflow,
+  Job,
+  PermissionLevel,
+  Step,
+  ValidationWarning,
+  WorkflowPermissions,
+} from "../types/github-actions";
+import { ENHANCED_POPULAR_ACTIONS } from "./github-actions-catalog";
+
+export type PermissionScope = keyof WorkflowPermissions;
+
+/** Token scopes needed by actions, keyed by `owner/repo[/path]` */
+export type ActionPermissionTable = Record<string, WorkflowPermissions>;
+
+/** Why a job needs a scope */
+export interface PermissionReason {
+  scope: PermissionScope;
+  level: PermissionLevel;
+  source: string; // What needs it, e.g. `actions/checkout` or `gh pr comment`
+  path: string; // Step that needs it, e.g. `jobs.build.steps[0]`
+}
+
+export interface JobPermissionRecommendation {
+  jobId: string;
+  permissions: WorkflowPermissions; // Minimal block for the job
+  reasons: PermissionReason[];
+  unknownActions: string[]; // Actions whose needs are not known
+}
+
+/**
+ * Scopes of actions that are not in the catalog. Users can add their own
+ * actions through the custom table passed to the analyzer.
+ */
+export const ACTION_PERMISSIONS: ActionPermissionTable = {
+  "actions/cache": {},
+  "actions/setup-go": {},
+  "actions/setup-dotnet": {},
+  // Scopes of github-script come from the API calls in its script
+  "actions/github-script": {},
+  "actions/configure-pages": { pages: "read" },
+  "actions/upload-pages-artifact": {},
+  "actions/deploy-pages": { pages: "write", "id-token": "write" },
+  "actions/labeler": { contents: "read", "pull-requests": "write" },
+  "actions/stale": { issues: "write", "pull-requests": "write" },
+  "actions/dependency-review-action": { contents: "read" },
+  "actions/attest-build-provenance": {
+    attestations: "write",
+    "id-token": "write",
+  },
+  "github/codeql-action/init": { actions: "read", contents: "read" },
+  "github/codeql-action/autobuild": {},
+  "github/codeql-action/upload-sarif": { "security-events": "write" },
+  "docker/setup-buildx-action": {},
+  "docker/setup-qemu-action": {},
+  "docker/metadata-action": { contents: "read" },
+  "docker/login-action": {},
+  "docker/build-push-action": {},
+  "aws-actions/configure-aws-credentials": { "id-token": "write" },
+  "azure/login": { "id-token": "write" },
+  "google-github-actions/auth": { "id-token": "write" },
+  "peter-evans/create-pull-request": {
+    contents: "write",
+    "pull-requests": "write",
+  },
+  "softprops/action-gh-release": { contents: "write" },
+  "release-drafter/release-drafter": {
+    contents: "write",
+    "pull-requests": "write",
+  },
+  "dependabot/fetch-metadata": { "pull-requests": "read" },
+  "stefanzweifel/git-auto-commit-action": { contents: "write" },
+  "jamesives/github-pages-deploy-action": { contents: "write" },
+};
+
+/** `gh` subcommands that only read */
+const GH_READ_COMMANDS = [
+  "checks",
+  "diff",
+  "download",
+  "list",
+  "status",
+  "view",
+  "watch",
+];
+
+/** Scope each `gh` command group acts on */
+const GH_COMMAND_SCOPES: Record<string, PermissionScope> = {
+  cache: "actions",
+  issue: "issues",
+  label: "issues",
+  pr: "pull-requests",
+  release: "contents",
+  run: "actions",
+  workflow: "actions",
+};
+
+/** Scope of each REST resource under `repos/{owner}/{repo}/` */
+const REST_RESOURCE_SCOPES: Record<string, PermissionScope> = {
+  actions: "actions",
+  branches: "contents",
+  "check-runs": "checks",
+  "check-suites": "checks",
+  "code-scanning": "security-events",
+  commits: "contents",
+  compare: "contents",
+  contents: "contents",
+  deployments: "deployments",
+  dispatches: "contents",
+  environments: "deployments",
+  git: "contents",
+  issues: "issues",
+  labels: "issues",
+  merges: "contents",
+  milestones: "issues",
+  pages: "pages",
+  pulls: "pull-requests",
+  releases: "contents",
+  statuses: "statuses",
+  tags: "contents",
+};
+
+/** Scope of each `github.rest` namespace used by `actions/github-script` */
+const OCTOKIT_NAMESPACE_SCOPES: Record<string, PermissionScope> = {
+  actions: "actions",
+  checks: "checks",
+  codeScanning: "security-events",
+  git: "contents",
+  issues: "issues",
+  pulls: "pull-requests",
+  reactions: "issues",
+  repos: "contents",
+};
+
+const LEVEL_RANK: Record<PermissionLevel, number> = {
+  none: 0,
+  read: 1,
+  write: 2,
+};
+
+/**
+ * Works out the GITHUB_TOKEN scopes each job needs from the actions it uses
+ * and the `gh`, `git push` and REST API calls in its scripts, and proposes a
+ * minimal `permissions` block per job.
+ */
+export class PermissionsAnalyzer {
+  /**
+   * Minimal permissions for every job that runs steps
+   */
+  static recommend(
+    workflow: GitHubWorkflow,
+    customPermissions: ActionPermissionTable = {}
+  ): JobPermissionRecommendation[] {
+    return Object.entries(workflow.jobs || {})
+      .filter(([, job]) => Array.isArray(job.steps))
+      .map(([jobId, job]) => this.recommendJob(jobId, job, customPermissions));
+  }
+
+  /**
+   * Flag workflows whose jobs run with the default token, which can have
+   * write access to every scope, or that ask for `write-all`
+   */
+  static findBroadPermissions(workflow: GitHubWorkflow): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
+    const workflowPermissions: unknown = workflow.permissions;
+
+    if (workflowPermissions === "write-all") {
+      warnings.push({
+        path: "permissions",
+        message: "The workflow grants write access to every scope",
+        code: "WRITE_ALL_PERMISSIONS",
+        severity: "medium",
+        suggestion: "Apply the recommended per-job permissions",
+      });
+    }
+
+    const defaultJobs: string[] = [];
+    Object.entries(workflow.jobs || {}).forEach(([jobId, job]) => {
+      if (job.permissions === "write-all") {
+        warnings.push({
+          path: `jobs.${jobId}.permissions`,
+          message: `Job '${jobId}' grants write access to every scope`,
+          code: "WRITE_ALL_PERMISSIONS",
+          severity: "medium",
+          suggestion: "Apply the recommended per-job permissions",
+        });
+      } else if (
+        job.permissions === undefined &&
+        workflowPermissions === undefined
+      ) {
+        defaultJobs.push(jobId);
+      }
+    });
+
+    if (defaultJobs.length > 0) {
+      warnings.push({
+        path: "permissions",
+        message: `Job${defaultJobs.length !== 1 ? "s" : ""} ${defaultJobs.map(jobId => `'${jobId}'`).join(", ")} use the default GITHUB_TOKEN permissions, which can include write access to every scope`,
+        code: "DEFAULT_PERMISSIONS",
+        severity: "medium",
+        suggestion: "Apply the recommended per-job permissions",
+      });
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Set each job's `permissions` to its recommendation. Jobs that use
+   * actions with unknown needs keep their permissions, as a stricter block
+   * could break those actions.
+   */
+  static applyRecommendations(
+    workflow: GitHubWorkflow,
+    recommendations: JobPermissionRecommendation[]
+  ): GitHubWorkflow {
+    const jobs = { ...workflow.jobs };
+    recommendations.forEach(({ jobId, permissions, unknownActions }) => {
+      if (jobs[jobId] && unknownActions.length === 0) {
+        jobs[jobId] = { ...jobs[jobId], permissions };
+      }
+    });
+    return { ...workflow, jobs };
+  }
+
+  /**
+   * Scopes a single step needs; `unknown` is set for actions that are in
+   * neither table nor the catalog
+   */
+  static analyzeStep(
+    step: Step,
+    customPermissions: ActionPermissionTable = {}
+  ): { needs: Omit<PermissionReason, "path">[]; unknown?: string } {
+    const needs: Omit<PermissionReason, "path">[] = [];
+
+    if (step.uses) {
+      const action = step.uses.split("@")[0];
+      const permissions = this.getActionPermissions(action, customPermissions);
+      if (permissions === undefined) {
+        if (!action.startsWith("./") && !action.startsWith("docker://")) {
+          return { needs, unknown: action };
+        }
+      } else {
+        needs.push(...this.toNeeds(permissions, action));
+      }
+
+      const script = step.with?.script;
+      if (
+        action.toLowerCase() === "actions/github-script" &&
+        typeof script === "string"
+      ) {
+        needs.push(...this.analyzeGitHubScript(script));
+      }
+    }
+
+    if (typeof step.run === "string") {
+      needs.push(...this.analyzeScript(step.run));
+    }
+
+    return { needs };
+  }
+
+  /**
+   * Scopes needed by `gh`, `gh api`, `curl` calls to the REST API and
+   * `git push` in a shell script
+   */
+  static analyzeScript(script: string): Omit<PermissionReason, "path">[] {
+    const needs: Omit<PermissionReason, "path">[] = [];
+    // Join continued lines so flags stay with their command
+    const commands = script.replace(/\\\r?\n/g, " ").split(/\r?\n|&&|\|\||;/);
+
+    commands.forEach(command => {
+      const gh = command.match(/(?:^|\s)gh\s+([a-z-]+)(?:\s+([a-z-]+))?/);
+      if (gh) {
+        const [, group, subcommand] = gh;
+        if (group === "api") {
+          needs.push(...this.analyzeApiCall(command, "gh api"));
+        } else if (GH_COMMAND_SCOPES[group]) {
+          needs.push({
+            scope: GH_COMMAND_SCOPES[group],
+            level:
+              subcommand && GH_READ_COMMANDS.includes(subcommand)
+                ? "read"
+                : "write",
+            source: `gh ${group}${subcommand ? ` ${subcommand}` : ""}`,
+          });
+          if (group === "pr" && subcommand === "merge") {
+            needs.push({
+              scope: "contents",
+              level: "write",
+              source: "gh pr merge",
+            });
+          }
+        }
+      }
+
+      if (/(?:^|\s)curl\s/.test(command) && /api\.github\.com/.test(command)) {
+        needs.push(...this.analyzeApiCall(command, "curl"));
+      }
+
+      if (/(?:^|\s)git\s+push\b/.test(command)) {
+        needs.push({ scope: "contents", level: "write", source: "git push" });
+      }
+    });
+
+    return needs;
+  }
+
+  /**
+   * Scopes needed by `github.rest.<namespace>.<method>` calls
+   */
+  static analyzeGitHubScript(script: string): Omit<PermissionReason, "path">[] {
+    const needs: Omit<PermissionReason, "path">[] = [];
+
+    for (const [call, namespace, method] of script.matchAll(
+      /github\.rest\.(\w+)\.(\w+)/g
+    )) {
+      let scope = OCTOKIT_NAMESPACE_SCOPES[namespace];
+      if (/CommitStatus/.test(method)) {
+        scope = "statuses";
+      } else if (/Deployment/.test(method)) {
+        scope = "deployments";
+      }
+      if (scope) {
+        needs.push({
+          scope,
+          level: /^(get|list|check|compare|download)/.test(method)
+            ? "read"
+            : "write",
+          source: call,
+        });
+      }
+    }
+
+    return needs;
+  }
+
+  private static recommendJob(
+    jobId: string,
+    job: Job,
+    customPermissions: ActionPermissionTable
+  ): JobPermissionRecommendation {
+    const reasons: PermissionReason[] = [];
+    const unknownActions = new Set<string>();
+
+    (job.steps || []).forEach((step, index) => {
+      const { needs, unknown } = this.analyzeStep(step, customPermissions);
+      if (unknown) {
+        unknownActions.add(unknown);
+      }
+      reasons.push(
+        ...needs.map(need => ({
+          ...need,
+          path: `jobs.${jobId}.steps[${index}]`,
+        }))
+      );
+    });
+
+    const permissions: WorkflowPermissions = {};
+    reasons.forEach(({ scope, level }) => {
+      const current = permissions[scope];
+      if (!current || LEVEL_RANK[level] > LEVEL_RANK[current]) {
+        permissions[scope] = level;
+      }
+    });
+
+    return {
+      jobId,
+      permissions: this.sortPermissions(permissions),
+      reasons,
+      unknownActions: [...unknownActions],
+    };
+  }
+
+  private static analyzeApiCall(
+    command: string,
+    tool: string
+  ): Omit<PermissionReason, "path">[] {
+    const path = command.match(/repos\/[^/\s'"]+\/[^/\s'"]+\/([a-z-]+)/);
+    const scope = path && REST_RESOURCE_SCOPES[path[1]];
+    if (!scope) {
+      return [];
+    }
+
+    const method = command.match(/(?:-X|--method|--request)[\s=]+(\w+)/);
+    const hasBody =
+      /\s(?:-f|-F|--field|--raw-field|--input|-d|--data(?:-raw|-binary)?)\s/.test(
+        command
+      );
+    const verb = method ? method[1].toUpperCase() : hasBody ? "POST" : "GET";
+
+    return [
+      {
+        scope,
+        level: verb === "GET" || verb === "HEAD" ? "read" : "write",
+        source: `${tool} ${verb} ${path[0]}`,
+      },
+    ];
+  }
+
+  /**
+   * Look an action up in the custom table, the built-in table and the
+   * catalog, falling back from `owner/repo/path` to `owner/repo`
+   */
+  private static getActionPermissions(
+    action: string,
+    customPermissions: ActionPermissionTable
+  ): WorkflowPermissions | undefined {
+    const name = action.toLowerCase();
+    const candidates = [name, name.split("/").slice(0, 2).join("/")];
+
+    for (const candidate of candidates) {
+      const custom = Object.keys(customPermissions).find(
+        key => key.toLowerCase() === candidate
+      );
+      if (custom) {
+        return customPermissions[custom];
+      }
+      if (ACTION_PERMISSIONS[candidate]) {
+        return ACTION_PERMISSIONS[candidate];
+      }
+      const catalogAction = ENHANCED_POPULAR_ACTIONS.find(
+        catalog => catalog.uses.split("@")[0].toLowerCase() === candidate
+      );
+      if (catalogAction?.permissions) {
+        return catalogAction.permissions;
+      }
+    }
+
+    return undefined;
+  }
+
+  private static toNeeds(
+    permissions: WorkflowPermissions,
+    source: string
+  ): Omit<PermissionReason, "path">[] {
+    return (Object.entries(permissions) as [PermissionScope, PermissionLevel][])
+      .filter(([, level]) => level !== "none")
+      .map(([scope, level]) => ({ scope, level, source }));
+  }
+
+  private static sortPermissions(
+    permissions: WorkflowPermissions
+  ): WorkflowPermissions {
+    return Object.fromEntries(
+      Object.entries(permissions).sort(([a], [b]) => a.localeCompare(b))
+    );
+  }
+}
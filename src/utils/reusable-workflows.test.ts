@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import type { Job, WorkflowCallTrigger } from "../types/github-actions";
+import { ReusableWorkflows } from "./reusable-workflows";
+
+const DEPLOY: WorkflowCallTrigger = {
+  inputs: {
+    environment: { type: "string", required: true },
+    dry_run: { type: "boolean", required: true, default: "false" },
+    retries: { type: "number" },
+  },
+  secrets: {
+    token: { required: true },
+    webhook: {},
+  },
+};
+
+const CALLED = {
+  repository: "octo/app",
+  definitions: {
+    ".github/workflows/deploy.yml": DEPLOY,
+    ".github/workflows/ci.yml": null,
+  },
+};
+
+const errorsOf = (job: Job) =>
+  ReusableWorkflows.validateJob(job, CALLED).errors.map(
+    error => `${error.code} ${error.path}`
+  );
+
+describe("ReusableWorkflows references", () => {
+  it("parses local and remote references", () => {
+    expect(
+      ReusableWorkflows.parseReference("./.github/workflows/deploy.yml")
+    ).toEqual({ path: ".github/workflows/deploy.yml" });
+    expect(
+      ReusableWorkflows.parseReference(
+        "octo/shared/.github/workflows/build.yaml@v1"
+      )
+    ).toEqual({
+      repository: "octo/shared",
+      path: ".github/workflows/build.yaml",
+      ref: "v1",
+    });
+    expect(ReusableWorkflows.parseReference("./deploy.yml")).toBeNull();
+    expect(
+      ReusableWorkflows.parseReference("octo/shared/.github/workflows/b.yml")
+    ).toBeNull();
+  });
+
+  it("resolves callees in the same repository only", () => {
+    expect(
+      ReusableWorkflows.getCalleePath("./.github/workflows/a.yml", null)
+    ).toBe(".github/workflows/a.yml");
+    expect(
+      ReusableWorkflows.getCalleePath(
+        "Octo/App/.github/workflows/a.yml@main",
+        "octo/app"
+      )
+    ).toBe(".github/workflows/a.yml");
+    expect(
+      ReusableWorkflows.getCalleePath(
+        "octo/other/.github/workflows/a.yml@main",
+        "octo/app"
+      )
+    ).toBeNull();
+  });
+
+  it("reads the workflow_call trigger of a callee", () => {
+    expect(
+      ReusableWorkflows.getDefinition("on: workflow_call\njobs: {}")
+    ).toEqual({});
+    expect(
+      ReusableWorkflows.getDefinition("on: [push, workflow_call]\njobs: {}")
+    ).toEqual({});
+    expect(
+      ReusableWorkflows.getDefinition(
+        "on:\n  workflow_call:\n    secrets:\n      token:\n        required: true\njobs: {}"
+      )
+    ).toEqual({ secrets: { token: { required: true } } });
+    expect(ReusableWorkflows.getDefinition("on: push\njobs: {}")).toBeNull();
+  });
+});
+
+describe("ReusableWorkflows.validateJob", () => {
+  const uses = "./.github/workflows/deploy.yml";
+  const secrets = { token: "${{ secrets.TOKEN }}" };
+
+  it("accepts a call that passes every required input and secret", () => {
+    expect(
+      errorsOf({ uses, with: { environment: "production" }, secrets })
+    ).toEqual([]);
+  });
+
+  it("rejects inputs the callee does not declare or types it does not take", () => {
+    expect(
+      errorsOf({
+        uses,
+        with: {
+          environment: "staging",
+          dry_run: "yes",
+          retries: "${{ inputs.retries }}",
+          region: "eu",
+        },
+        secrets,
+      })
+    ).toEqual([
+      "INVALID_WORKFLOW_INPUT_TYPE with.dry_run",
+      "UNKNOWN_WORKFLOW_INPUT with.region",
+    ]);
+  });
+
+  it("reports required inputs and secrets that are not passed", () => {
+    expect(errorsOf({ uses, secrets: { webhook: "x", other: "y" } })).toEqual([
+      "MISSING_WORKFLOW_INPUT with",
+      "UNKNOWN_WORKFLOW_SECRET secrets.other",
+      "MISSING_WORKFLOW_SECRET secrets",
+    ]);
+  });
+
+  it("lets inherited secrets stand for every secret", () => {
+    expect(
+      errorsOf({ uses, with: { environment: "qa" }, secrets: "inherit" })
+    ).toEqual([]);
+  });
+
+  it("reports callees without a workflow_call trigger", () => {
+    expect(errorsOf({ uses: "./.github/workflows/ci.yml" })).toEqual([
+      "WORKFLOW_NOT_CALLABLE uses",
+    ]);
+  });
+
+  it("only checks the job when the callee is unknown", () => {
+    expect(
+      errorsOf({
+        uses: "octo/other/.github/workflows/deploy.yml@v1",
+        with: { anything: 1 },
+        "runs-on": "ubuntu-latest",
+      })
+    ).toEqual(["INVALID_REUSABLE_JOB_KEY runs-on"]);
+    expect(errorsOf({ uses: "./.github/workflows/missing.yml" })).toEqual([]);
+    expect(errorsOf({ uses: "deploy.yml" })).toEqual([
+      "INVALID_WORKFLOW_REFERENCE uses",
+    ]);
+  });
+
+  it("prefixes findings with the job path", () => {
+    const { errors } = ReusableWorkflows.validate(
+      {
+        build: { "runs-on": "ubuntu-latest", steps: [{ run: "make" }] },
+        deploy: { uses, secrets },
+      },
+      CALLED
+    );
+    expect(errors.map(error => error.path)).toEqual(["jobs.deploy.with"]);
+  });
+});
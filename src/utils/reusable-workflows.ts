@@ -0,0 +1,284 @@
+import type {
+  GitHubWorkflow,
+  Job,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning,
+  WorkflowCallTrigger,
+} from "../types/github-actions";
+import { ExpressionParser } from "./github-actions-expressions";
+import { WorkflowYaml } from "./workflow-yaml";
+
+export interface WorkflowReference {
+  path: string; // e.g. .github/workflows/build.yml
+  repository?: string; // owner/repo; absent for ./ references
+  ref?: string;
+}
+
+/**
+ * `workflow_call` definitions of called workflows, keyed by their path in
+ * the repository. `null` marks a workflow that cannot be called.
+ */
+export type CalledWorkflowDefinitions = Record<
+  string,
+  WorkflowCallTrigger | null
+>;
+
+export interface CalledWorkflows {
+  repository: string | null; // owner/repo of the workflow being edited
+  definitions: CalledWorkflowDefinitions;
+}
+
+// Keys a job that calls a reusable workflow may have
+const REUSABLE_JOB_KEYS = new Set([
+  "name",
+  "uses",
+  "with",
+  "secrets",
+  "needs",
+  "if",
+  "permissions",
+  "concurrency",
+  "strategy",
+]);
+
+const WORKFLOW_PATH = /^\.github\/workflows\/[^/]+\.ya?ml$/;
+
+/**
+ * Jobs that call another workflow with `uses`, and their `with` and
+ * `secrets` checked against the callee's `workflow_call` trigger
+ */
+export class ReusableWorkflows {
+  static isReusableJob(job: Job): boolean {
+    return typeof job.uses === "string";
+  }
+
+  /**
+   * Parse `./.github/workflows/file.yml` or
+   * `owner/repo/.github/workflows/file.yml@ref`; null when malformed
+   */
+  static parseReference(uses: string): WorkflowReference | null {
+    if (uses.startsWith("./")) {
+      const path = uses.slice(2);
+      return WORKFLOW_PATH.test(path) ? { path } : null;
+    }
+
+    const match = uses.match(/^([\w.-]+\/[\w.-]+)\/(.+)@([^@\s]+)$/);
+    if (!match || !WORKFLOW_PATH.test(match[2])) {
+      return null;
+    }
+    return { repository: match[1], path: match[2], ref: match[3] };
+  }
+
+  /**
+   * Path of the callee when it lives in `repository`, so its definition can
+   * be loaded from there; null for workflows in other repositories
+   */
+  static getCalleePath(uses: string, repository: string | null): string | null {
+    const reference = this.parseReference(uses);
+    if (!reference) {
+      return null;
+    }
+    if (!reference.repository) {
+      return reference.path;
+    }
+    return repository &&
+      reference.repository.toLowerCase() === repository.toLowerCase()
+      ? reference.path
+      : null;
+  }
+
+  /**
+   * The `workflow_call` trigger of a workflow file; null when the workflow
+   * cannot be called
+   */
+  static getDefinition(yaml: string): WorkflowCallTrigger | null {
+    return this.getWorkflowDefinition(WorkflowYaml.parse(yaml));
+  }
+
+  /**
+   * The `workflow_call` trigger of a parsed workflow
+   */
+  static getWorkflowDefinition(
+    workflow: GitHubWorkflow
+  ): WorkflowCallTrigger | null {
+    const on = workflow.on as unknown;
+
+    if (on === "workflow_call") {
+      return {};
+    }
+    if (Array.isArray(on)) {
+      return on.includes("workflow_call") ? {} : null;
+    }
+    if (on && typeof on === "object" && "workflow_call" in on) {
+      return workflow.on.workflow_call || {};
+    }
+    return null;
+  }
+
+  /**
+   * Findings for a job that calls a workflow; paths are relative to the job.
+   * `with` and `secrets` are only checked when the callee's definition is
+   * known, i.e. it is in the same repository and has been loaded.
+   */
+  static validateJob(
+    job: Job,
+    calledWorkflows: CalledWorkflows = { repository: null, definitions: {} }
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+    const uses = job.uses || "";
+
+    Object.keys(job)
+      .filter(key => !REUSABLE_JOB_KEYS.has(key))
+      .forEach(key => {
+        errors.push({
+          path: key,
+          message: `'${key}' is not allowed in a job that calls a reusable workflow`,
+          code: "INVALID_REUSABLE_JOB_KEY",
+        });
+      });
+
+    if (!this.parseReference(uses)) {
+      errors.push({
+        path: "uses",
+        message:
+          "Reusable workflow must be './.github/workflows/<file>.yml' or 'owner/repo/.github/workflows/<file>.yml@ref'",
+        code: "INVALID_WORKFLOW_REFERENCE",
+      });
+      return { isValid: false, errors, warnings };
+    }
+
+    const path = this.getCalleePath(uses, calledWorkflows.repository);
+    if (!path || !(path in calledWorkflows.definitions)) {
+      return { isValid: errors.length === 0, errors, warnings };
+    }
+
+    const definition = calledWorkflows.definitions[path];
+    if (!definition) {
+      errors.push({
+        path: "uses",
+        message: `Workflow '${path}' has no workflow_call trigger and cannot be called`,
+        code: "WORKFLOW_NOT_CALLABLE",
+      });
+      return { isValid: false, errors, warnings };
+    }
+
+    const call = this.validateCall(job, definition);
+    errors.push(...call.errors);
+    warnings.push(...call.warnings);
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Check `with` and `secrets` against the callee's inputs and secrets
+   */
+  static validateCall(
+    job: Job,
+    definition: WorkflowCallTrigger
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+    const inputs = definition.inputs || {};
+    const values = job.with || {};
+
+    Object.entries(values).forEach(([name, value]) => {
+      const input = inputs[name];
+      if (!input) {
+        errors.push({
+          path: `with.${name}`,
+          message: `Called workflow has no input named '${name}'`,
+          code: "UNKNOWN_WORKFLOW_INPUT",
+        });
+        return;
+      }
+
+      const isExpression =
+        typeof value === "string" && ExpressionParser.containsExpression(value);
+      const type = input.type || "string";
+      if (
+        !isExpression &&
+        (type === "boolean" || type === "number") &&
+        typeof value !== type
+      ) {
+        errors.push({
+          path: `with.${name}`,
+          message: `Input '${name}' expects a ${type}, got ${JSON.stringify(value)}`,
+          code: "INVALID_WORKFLOW_INPUT_TYPE",
+        });
+      }
+    });
+
+    Object.entries(inputs).forEach(([name, input]) => {
+      if (input.required && input.default === undefined && !(name in values)) {
+        errors.push({
+          path: "with",
+          message: `Required input '${name}' is not passed to the called workflow`,
+          code: "MISSING_WORKFLOW_INPUT",
+        });
+      }
+    });
+
+    // `secrets: inherit` passes every secret of the caller
+    if (job.secrets === "inherit") {
+      return { isValid: errors.length === 0, errors, warnings };
+    }
+
+    const secrets = definition.secrets || {};
+    const passed = job.secrets || {};
+    Object.keys(passed).forEach(name => {
+      if (!(name in secrets)) {
+        errors.push({
+          path: `secrets.${name}`,
+          message: `Called workflow has no secret named '${name}'`,
+          code: "UNKNOWN_WORKFLOW_SECRET",
+        });
+      }
+    });
+    Object.entries(secrets).forEach(([name, secret]) => {
+      if (secret.required && !(name in passed)) {
+        errors.push({
+          path: "secrets",
+          message: `Required secret '${name}' is not passed to the called workflow`,
+          code: "MISSING_WORKFLOW_SECRET",
+        });
+      }
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Findings for every job in a workflow that calls another workflow, with
+   * paths relative to the workflow
+   */
+  static validate(
+    jobs: Record<string, Job>,
+    calledWorkflows?: CalledWorkflows
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    Object.entries(jobs || {}).forEach(([jobId, job]) => {
+      if (!this.isReusableJob(job)) {
+        return;
+      }
+      const result = this.validateJob(job, calledWorkflows);
+      errors.push(
+        ...result.errors.map(error => ({
+          ...error,
+          path: `jobs.${jobId}.${error.path}`,
+        }))
+      );
+      warnings.push(
+        ...result.warnings.map(warning => ({
+          ...warning,
+          path: `jobs.${jobId}.${warning.path}`,
+        }))
+      );
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type { PushTrigger, WorkflowTriggers } from "../types/github-actions";
+import { TriggerFilters } from "./trigger-filters";
+
+const matches = (pattern: string, value: string) =>
+  TriggerFilters.evaluate([pattern], value).matched;
+
+const runs = (
+  trigger: PushTrigger,
+  ref: string,
+  files: string[] = ["src/index.ts"],
+  refType: "branch" | "tag" = "branch"
+) => TriggerFilters.test("push", trigger, { ref, refType, files }).runs;
+
+const validationCodes = (triggers: WorkflowTriggers) => {
+  const { errors, warnings } = TriggerFilters.validate(triggers);
+  return [...errors, ...warnings].map(finding => finding.code);
+};
+
+describe("TriggerFilters patterns", () => {
+  it("matches * within a path segment and ** across segments", () => {
+    expect(matches("feature/*", "feature/login")).toBe(true);
+    expect(matches("feature/*", "feature/login/form")).toBe(false);
+    expect(matches("feature/**", "feature/login/form")).toBe(true);
+    expect(matches("*.js", "src/app.js")).toBe(false);
+    expect(matches("**.js", "src/app.js")).toBe(true);
+    expect(matches("docs/**", "docs")).toBe(false);
+  });
+
+  it("supports ?, + and character sets", () => {
+    expect(matches("v1.?0", "v1.0")).toBe(true);
+    expect(matches("v1.?0", "v10")).toBe(true);
+    expect(matches("v[0-9]+", "v123")).toBe(true);
+    expect(matches("v[0-9]+", "v")).toBe(false);
+  });
+
+  it("lets the last matching pattern win", () => {
+    const patterns = [
+      "releases/**",
+      "!releases/**-alpha",
+      "releases/1.0-alpha",
+    ];
+    expect(TriggerFilters.evaluate(patterns, "releases/2.0").matched).toBe(
+      true
+    );
+    expect(TriggerFilters.evaluate(patterns, "releases/2.0-alpha")).toEqual({
+      matched: false,
+      pattern: "!releases/**-alpha",
+    });
+    expect(
+      TriggerFilters.evaluate(patterns, "releases/1.0-alpha").matched
+    ).toBe(true);
+  });
+
+  it("reports malformed patterns", () => {
+    expect(TriggerFilters.validatePattern("!")).toBe("Pattern is empty");
+    expect(TriggerFilters.validatePattern("+main")).toMatch(/must follow/);
+    expect(TriggerFilters.validatePattern("v[9-0]")).toMatch(/out of order/);
+    expect(TriggerFilters.validatePattern("release\\")).toMatch(/escape/);
+  });
+});
+
+describe("TriggerFilters.test", () => {
+  it("filters branches and strips refs/heads/", () => {
+    const trigger = { branches: ["main", "release/**"] };
+    expect(runs(trigger, "refs/heads/main")).toBe(true);
+    expect(runs(trigger, "release/1.x")).toBe(true);
+    expect(runs(trigger, "feature")).toBe(false);
+    expect(runs({ "branches-ignore": ["dependabot/**"] }, "main")).toBe(true);
+    expect(
+      runs({ "branches-ignore": ["dependabot/**"] }, "dependabot/npm")
+    ).toBe(false);
+  });
+
+  it("skips branch pushes when only tags are filtered, and the reverse", () => {
+    const tagsOnly = { tags: ["v*"] };
+    expect(runs(tagsOnly, "main")).toBe(false);
+    expect(runs(tagsOnly, "v1.2.0", [], "tag")).toBe(true);
+    expect(runs(tagsOnly, "refs/tags/nightly")).toBe(false);
+    expect(runs({ branches: ["main"] }, "v1.2.0", [], "tag")).toBe(false);
+  });
+
+  it("ignores path filters for tag pushes", () => {
+    expect(
+      runs({ tags: ["v*"], paths: ["docs/**"] }, "v1.0", ["src/a.ts"], "tag")
+    ).toBe(true);
+  });
+
+  it("needs one matching file for paths and one kept file for paths-ignore", () => {
+    expect(runs({ paths: ["src/**"] }, "main", ["README.md", "src/a.ts"])).toBe(
+      true
+    );
+    expect(runs({ paths: ["src/**"] }, "main", ["README.md"])).toBe(false);
+    expect(
+      runs({ paths: ["src/**", "!src/**.md"] }, "main", ["src/notes.md"])
+    ).toBe(false);
+    expect(
+      runs({ "paths-ignore": ["**.md"] }, "main", ["README.md", "src/a.ts"])
+    ).toBe(true);
+    expect(runs({ "paths-ignore": ["**.md"] }, "main", ["README.md"])).toBe(
+      false
+    );
+  });
+
+  it("filters pull requests by their base branch", () => {
+    const result = TriggerFilters.test(
+      "pull_request",
+      { branches: ["main"] },
+      { ref: "develop", refType: "branch", files: [] }
+    );
+    expect(result.runs).toBe(false);
+    expect(result.decisions[0].message).toBe(
+      "base branch 'develop' matches no pattern in 'branches'"
+    );
+  });
+});
+
+describe("TriggerFilters.validate", () => {
+  it("rejects an include filter together with its ignore filter", () => {
+    expect(
+      validationCodes({
+        push: { branches: ["main"], "branches-ignore": ["wip/**"] },
+      })
+    ).toEqual(["CONFLICTING_FILTERS"]);
+    expect(
+      validationCodes({ push: { branches: ["main"], "tags-ignore": ["v0*"] } })
+    ).toEqual([]);
+  });
+
+  it("warns about include filters with only negated patterns", () => {
+    expect(validationCodes({ push: { branches: ["!main"] } })).toEqual([
+      "NEGATED_FILTER_ONLY",
+    ]);
+  });
+
+  it("reports invalid patterns", () => {
+    expect(validationCodes({ pull_request: { paths: ["src/[a-"] } })).toEqual([
+      "INVALID_FILTER_PATTERN",
+    ]);
+  });
+});
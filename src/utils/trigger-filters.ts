@@ -0,0 +1,384 @@
+import type {
+  PullRequestTrigger,
+  PushTrigger,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning,
+  WorkflowTriggers,
+} from "../types/github-actions";
+
+export type FilterName =
+  | "branches"
+  | "branches-ignore"
+  | "tags"
+  | "tags-ignore"
+  | "paths"
+  | "paths-ignore";
+
+export type FilterEvent = "push" | "pull_request" | "pull_request_target";
+
+export interface PatternMatch {
+  matched: boolean;
+  pattern: string | null; // Last pattern that matched, possibly negated
+}
+
+export interface FilterTestInput {
+  refType: "branch" | "tag";
+  ref: string; // Branch or tag name, with or without `refs/heads/`
+  files: string[]; // Changed file paths
+}
+
+export interface FilterDecision {
+  filter: FilterName | null; // null when no filter applies
+  passed: boolean;
+  pattern: string | null; // Pattern that decided the outcome
+  message: string;
+}
+
+export interface FilterTestResult {
+  runs: boolean;
+  decisions: FilterDecision[];
+}
+
+/** Include and ignore filters that GitHub rejects when combined */
+const EXCLUSIVE_FILTERS: [FilterName, FilterName][] = [
+  ["branches", "branches-ignore"],
+  ["tags", "tags-ignore"],
+  ["paths", "paths-ignore"],
+];
+
+// Compiled patterns, keyed without the leading `!`
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Branch, tag and path filters for `push` and `pull_request` triggers,
+ * following GitHub's filter pattern syntax:
+ *
+ * - `*` matches any characters except `/`, `**` matches any characters
+ * - `?` and `+` make the preceding character optional or repeatable
+ * - `[a-z0-9]` matches one character from a set or range
+ * - `!` excludes matches of earlier patterns; the last matching pattern wins
+ */
+export class TriggerFilters {
+  /**
+   * Convert a pattern (without a leading `!`) to an anchored RegExp
+   */
+  static toRegExp(pattern: string): RegExp {
+    const cached = compiled.get(pattern);
+    if (cached) {
+      return cached;
+    }
+
+    const atoms: { source: string; quantifiable: boolean }[] = [];
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      if (char === "\\") {
+        if (i + 1 >= pattern.length) {
+          throw new Error("Pattern ends with an unfinished escape");
+        }
+        atoms.push({ source: this.escape(pattern[++i]), quantifiable: true });
+      } else if (char === "*") {
+        const isDouble = pattern[i + 1] === "*";
+        if (isDouble) {
+          i++;
+        }
+        atoms.push({ source: isDouble ? ".*" : "[^/]*", quantifiable: false });
+      } else if (char === "?" || char === "+") {
+        const previous = atoms[atoms.length - 1];
+        if (!previous?.quantifiable) {
+          throw new Error(`'${char}' must follow a character or a [set]`);
+        }
+        previous.source = `(?:${previous.source})${char}`;
+        previous.quantifiable = false;
+      } else if (char === "[") {
+        const end = pattern.indexOf("]", i + 1);
+        const set = end === -1 ? "" : pattern.slice(i + 1, end);
+        if (!/^(?:[a-zA-Z0-9](?:-[a-zA-Z0-9])?)+$/.test(set)) {
+          throw new Error(
+            "Character sets may only contain letters, digits and ranges such as [0-9a-z]"
+          );
+        }
+        const reversed = [...set.matchAll(/(\w)-(\w)/g)].find(
+          ([, from, to]) => from > to
+        );
+        if (reversed) {
+          throw new Error(`Range '${reversed[0]}' is out of order`);
+        }
+        atoms.push({ source: `[${set}]`, quantifiable: true });
+        i = end;
+      } else {
+        atoms.push({ source: this.escape(char), quantifiable: true });
+      }
+    }
+
+    const regex = new RegExp(`^${atoms.map(atom => atom.source).join("")}$`);
+    compiled.set(pattern, regex);
+    return regex;
+  }
+
+  /**
+   * Error message for a malformed pattern, or null when it is valid
+   */
+  static validatePattern(pattern: string): string | null {
+    const body = pattern.startsWith("!") ? pattern.slice(1) : pattern;
+    if (body === "") {
+      return "Pattern is empty";
+    }
+    try {
+      this.toRegExp(body);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Evaluate patterns in order; a later `!pattern` removes earlier matches
+   * and a later positive pattern adds them back
+   */
+  static evaluate(patterns: string[], value: string): PatternMatch {
+    let result: PatternMatch = { matched: false, pattern: null };
+
+    for (const pattern of patterns) {
+      const negated = pattern.startsWith("!");
+      const body = negated ? pattern.slice(1) : pattern;
+      if (this.validatePattern(pattern) === null) {
+        if (this.toRegExp(body).test(value)) {
+          result = { matched: !negated, pattern };
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether an event for the given ref and changed files would start the
+   * workflow, and which filters decided it
+   */
+  static test(
+    event: FilterEvent,
+    trigger: PushTrigger | PullRequestTrigger | null | undefined,
+    input: FilterTestInput
+  ): FilterTestResult {
+    const config: PushTrigger = trigger || {};
+    const isTag =
+      event === "push" &&
+      (input.refType === "tag" || input.ref.startsWith("refs/tags/"));
+    const ref = input.ref.replace(/^refs\/(heads|tags)\//, "");
+
+    const refDecision = this.testRef(event, config, ref, isTag);
+    if (!refDecision.passed) {
+      return { runs: false, decisions: [refDecision] };
+    }
+
+    const hasPathFilters = !!(config.paths || config["paths-ignore"]);
+    if (!hasPathFilters) {
+      return { runs: true, decisions: [refDecision] };
+    }
+
+    const pathDecision: FilterDecision = isTag
+      ? {
+          filter: null,
+          passed: true,
+          pattern: null,
+          message: "Path filters are not evaluated for tag pushes",
+        }
+      : this.testPaths(config, input.files);
+
+    return {
+      runs: pathDecision.passed,
+      decisions: [refDecision, pathDecision],
+    };
+  }
+
+  /**
+   * Conflicting, malformed and never-matching filters across all triggers
+   */
+  static validate(triggers: WorkflowTriggers | undefined): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    Object.entries(triggers || {}).forEach(([event, trigger]) => {
+      if (!trigger || typeof trigger !== "object" || Array.isArray(trigger)) {
+        return;
+      }
+      const config = trigger as Partial<Record<FilterName, unknown>>;
+
+      EXCLUSIVE_FILTERS.forEach(([include, ignore]) => {
+        if (config[include] !== undefined && config[ignore] !== undefined) {
+          errors.push({
+            path: `on.${event}`,
+            message: `'${include}' and '${ignore}' cannot both be used for ${event}; use '!' patterns in '${include}' instead`,
+            code: "CONFLICTING_FILTERS",
+          });
+        }
+
+        [include, ignore].forEach(filter => {
+          const patterns = config[filter];
+          if (!Array.isArray(patterns)) {
+            return;
+          }
+
+          patterns.forEach((pattern, index) => {
+            const message =
+              typeof pattern === "string"
+                ? this.validatePattern(pattern)
+                : "Pattern must be a string";
+            if (message) {
+              errors.push({
+                path: `on.${event}.${filter}[${index}]`,
+                message: `Invalid filter pattern '${pattern}': ${message}`,
+                code: "INVALID_FILTER_PATTERN",
+              });
+            }
+          });
+
+          if (
+            filter === include &&
+            patterns.length > 0 &&
+            patterns.every(
+              pattern => typeof pattern === "string" && pattern.startsWith("!")
+            )
+          ) {
+            warnings.push({
+              path: `on.${event}.${filter}`,
+              message: `'${filter}' only has '!' patterns, so nothing matches and ${event} never runs the workflow`,
+              code: "NEGATED_FILTER_ONLY",
+              suggestion: `Add a positive pattern such as '**' first, or use '${ignore}'`,
+            });
+          }
+        });
+      });
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  private static testRef(
+    event: FilterEvent,
+    config: PushTrigger,
+    ref: string,
+    isTag: boolean
+  ): FilterDecision {
+    const [include, ignore]: FilterName[] = isTag
+      ? ["tags", "tags-ignore"]
+      : ["branches", "branches-ignore"];
+    const kind = isTag ? "tag" : event === "push" ? "branch" : "base branch";
+    const includePatterns = config[include as "branches"];
+    const ignorePatterns = config[ignore as "branches-ignore"];
+
+    if (includePatterns) {
+      const match = this.evaluate(includePatterns, ref);
+      return {
+        filter: include,
+        passed: match.matched,
+        pattern: match.pattern,
+        message: match.matched
+          ? `${kind} '${ref}' matches '${match.pattern}'`
+          : match.pattern
+            ? `${kind} '${ref}' is excluded by '${match.pattern}'`
+            : `${kind} '${ref}' matches no pattern in '${include}'`,
+      };
+    }
+
+    if (ignorePatterns) {
+      const match = this.evaluate(ignorePatterns, ref);
+      return {
+        filter: ignore,
+        passed: !match.matched,
+        pattern: match.pattern,
+        message: match.matched
+          ? `${kind} '${ref}' is ignored by '${match.pattern}'`
+          : `${kind} '${ref}' is not ignored by '${ignore}'`,
+      };
+    }
+
+    // Push filters for only branches or only tags skip the other ref type
+    const otherFilters: FilterName[] = isTag
+      ? ["branches", "branches-ignore"]
+      : ["tags", "tags-ignore"];
+    const otherFilter = otherFilters.find(
+      filter => config[filter as "branches"] !== undefined
+    );
+    if (event === "push" && otherFilter) {
+      return {
+        filter: otherFilter,
+        passed: false,
+        pattern: null,
+        message: `Only '${otherFilter}' is defined, so ${kind} pushes do not run the workflow`,
+      };
+    }
+
+    return {
+      filter: null,
+      passed: true,
+      pattern: null,
+      message: `No ${isTag ? "tag" : "branch"} filter; every ${kind} runs the workflow`,
+    };
+  }
+
+  private static testPaths(
+    config: PushTrigger,
+    files: string[]
+  ): FilterDecision {
+    if (config.paths) {
+      const matches = files.map(file => ({
+        file,
+        ...this.evaluate(config.paths!, file),
+      }));
+      const included = matches.find(match => match.matched);
+      const excluded = matches.find(match => match.pattern !== null);
+
+      if (included) {
+        return {
+          filter: "paths",
+          passed: true,
+          pattern: included.pattern,
+          message: `'${included.file}' matches '${included.pattern}'`,
+        };
+      }
+      return {
+        filter: "paths",
+        passed: false,
+        pattern: excluded?.pattern ?? null,
+        message:
+          files.length === 0
+            ? "No changed files; 'paths' needs at least one matching file"
+            : excluded
+              ? `No changed file matches 'paths'; '${excluded.file}' is excluded by '${excluded.pattern}'`
+              : "No changed file matches 'paths'",
+      };
+    }
+
+    const patterns = config["paths-ignore"] || [];
+    const matches = files.map(file => ({
+      file,
+      ...this.evaluate(patterns, file),
+    }));
+    const notIgnored = matches.find(match => !match.matched);
+
+    if (notIgnored) {
+      return {
+        filter: "paths-ignore",
+        passed: true,
+        pattern: notIgnored.pattern,
+        message: `'${notIgnored.file}' is not ignored by 'paths-ignore'`,
+      };
+    }
+    return {
+      filter: "paths-ignore",
+      passed: false,
+      pattern: matches[0]?.pattern ?? null,
+      message:
+        files.length === 0
+          ? "No changed files; 'paths-ignore' needs at least one file that is not ignored"
+          : `Every changed file is ignored, e.g. '${matches[0].file}' by '${matches[0].pattern}'`,
+    };
+  }
+
+  private static escape(char: string): string {
+    return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  }
+}
@@ -0,0 +1,650 @@
+import { workflowSchema, actionSchema } from "virtual:workflow-schema";
+import {
+  GITHUB_HOSTED_RUNNERS,
+  WORKFLOW_EVENT_TRIGGERS,
+} from "../types/github-actions";
+import type { DocumentKind, PopularAction } from "../types/github-actions";
+import type { JsonSchema } from "../types/json-schema";
+import {
+  ENHANCED_POPULAR_ACTIONS,
+  getCatalogAction,
+} from "./github-actions-catalog";
+import type { SourceRange, YamlPath } from "./yaml-source-map";
+
+export interface CompletionSuggestion {
+  label: string;
+  kind: "property" | "value" | "event" | "runner" | "action" | "input";
+  insertText: string;
+  detail?: string;
+  documentation?: string; // Markdown
+}
+
+export interface CompletionResult {
+  from: number; // Offset where the text being completed starts
+  suggestions: CompletionSuggestion[];
+}
+
+export interface HoverResult {
+  range: SourceRange;
+  contents: string; // Markdown
+}
+
+// One line of YAML source as seen by the completion heuristics
+interface YamlLine {
+  start: number; // Offset of the first character
+  indent: number; // Column of the first character after indentation
+  column: number; // Column of the content after any `- ` item markers
+  isItem: boolean; // Starts a sequence item
+  isBlank: boolean; // Empty or only a comment
+  key?: string;
+  keyColumn?: number;
+  value?: string; // Text after `key:` on the same line
+  valueColumn?: number;
+  content: string; // Text after indentation and item markers
+}
+
+// Where a line sits in the document and the line that owns it
+interface LinePath {
+  path: YamlPath;
+  line: number; // Index of the owning key or item line, -1 at the top
+}
+
+/**
+ * Completions and hover docs for the YAML editor. Keys and values come from
+ * the JSON schema generated from the workflow types; event names, runner
+ * labels and action inputs come from the built-in catalogs. Source that is
+ * being typed rarely parses, so structure is read from indentation.
+ */
+export class WorkflowCompletions {
+  /**
+   * Suggestions for the text being typed at an offset
+   */
+  static getCompletions(
+    source: string,
+    offset: number,
+    kind: DocumentKind = "workflow"
+  ): CompletionResult {
+    const root = kind === "action" ? actionSchema : workflowSchema;
+    const lines = this.splitLines(source.slice(0, offset));
+    const index = lines.length - 1;
+    const line = lines[index];
+    const fullLines = this.splitLines(source);
+
+    // Completing a value after `key:`
+    if (line.key !== undefined && line.valueColumn !== undefined) {
+      const path = [...this.getContainer(fullLines, index).path, line.key];
+      const typed = line.value || "";
+      // Flow collections, quoted strings and expressions are left alone
+      if (/^[[{"'$]/.test(typed)) {
+        return { from: offset, suggestions: [] };
+      }
+      // Values typed right after the colon need a space before them
+      const separator = line.content.endsWith(":") ? " " : "";
+      return {
+        from: offset - typed.length,
+        suggestions: this.getValueSuggestions(root, path).map(suggestion => ({
+          ...suggestion,
+          insertText: separator + suggestion.insertText,
+        })),
+      };
+    }
+
+    // Completing a key, or a scalar sequence item such as a runner label
+    const typed = line.content;
+    if (!/^[\w./@-]*$/.test(typed)) {
+      return { from: offset, suggestions: [] };
+    }
+    const container = this.getContainer(fullLines, index);
+    const existingKeys = this.getSiblingKeys(fullLines, index);
+    const suggestions = this.getKeySuggestions(
+      root,
+      container.path,
+      existingKeys
+    );
+
+    // Inputs of the action a step uses
+    if (container.path[container.path.length - 1] === "with") {
+      const uses = this.getSiblingValue(fullLines, container.line, "uses");
+      const action = uses ? getCatalogAction(uses) : undefined;
+      Object.entries(action?.inputs || {}).forEach(([name, input]) => {
+        if (existingKeys.has(name)) {
+          return;
+        }
+        suggestions.push({
+          label: name,
+          kind: "input",
+          insertText: `${name}: `,
+          detail: input.required ? "Required input" : "Input",
+          documentation: this.describeInput(name, input),
+        });
+      });
+    }
+    if (line.isItem) {
+      suggestions.push(...this.getValueSuggestions(root, container.path));
+    }
+
+    return { from: offset - typed.length, suggestions };
+  }
+
+  /**
+   * Docs for the key or `uses:` value at an offset
+   */
+  static getHover(
+    source: string,
+    offset: number,
+    kind: DocumentKind = "workflow"
+  ): HoverResult | null {
+    const root = kind === "action" ? actionSchema : workflowSchema;
+    const lines = this.splitLines(source);
+    const index = lines.findIndex(
+      (_line, lineIndex) =>
+        lineIndex === lines.length - 1 || lines[lineIndex + 1].start > offset
+    );
+    const line = lines[index];
+    if (!line || line.key === undefined || line.keyColumn === undefined) {
+      return null;
+    }
+    const column = offset - line.start;
+    const container = this.getContainer(lines, index);
+    const path = [...container.path, line.key];
+
+    if (
+      line.key === "uses" &&
+      line.value &&
+      line.valueColumn !== undefined &&
+      column >= line.valueColumn
+    ) {
+      const action = getCatalogAction(line.value);
+      return action
+        ? {
+            range: {
+              start: line.start + line.valueColumn,
+              end: line.start + line.valueColumn + line.value.length,
+            },
+            contents: this.describeAction(action),
+          }
+        : null;
+    }
+
+    if (column < line.keyColumn || column > line.keyColumn + line.key.length) {
+      return null;
+    }
+    const range = {
+      start: line.start + line.keyColumn,
+      end: line.start + line.keyColumn + line.key.length,
+    };
+
+    if (container.path[container.path.length - 1] === "with") {
+      const uses = this.getSiblingValue(lines, container.line, "uses");
+      const input = uses
+        ? getCatalogAction(uses)?.inputs?.[line.key]
+        : undefined;
+      return input
+        ? { range, contents: this.describeInput(line.key, input) }
+        : null;
+    }
+
+    const schema = this.getSchemaAt(root, path);
+    if (!schema) {
+      return null;
+    }
+    const description = this.getDescription(root, schema);
+    return {
+      range,
+      contents: [
+        `\`${line.key}\`: ${this.describeType(root, schema)}`,
+        description,
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+    };
+  }
+
+  private static getKeySuggestions(
+    root: JsonSchema,
+    path: YamlPath,
+    existingKeys: Set<string>
+  ): CompletionSuggestion[] {
+    const schema = this.getSchemaAt(root, path);
+    const suggestions = new Map<string, CompletionSuggestion>();
+
+    this.getObjectSchemas(root, schema).forEach(objectSchema => {
+      Object.entries(objectSchema.properties || {}).forEach(
+        ([name, property]) => {
+          suggestions.set(name, {
+            label: name,
+            kind: "property",
+            insertText: `${name}: `,
+            detail: this.describeType(root, property),
+            documentation: this.getDescription(root, property),
+          });
+        }
+      );
+    });
+
+    // Webhook events beyond the typed ones are allowed under `on`
+    if (path.length === 1 && path[0] === "on" && root === workflowSchema) {
+      WORKFLOW_EVENT_TRIGGERS.forEach(event => {
+        suggestions.set(event, {
+          label: event,
+          kind: "event",
+          insertText: `${event}:`,
+          detail: "Workflow event",
+        });
+      });
+    }
+
+    return Array.from(suggestions.values()).filter(
+      suggestion => !existingKeys.has(suggestion.label)
+    );
+  }
+
+  private static getValueSuggestions(
+    root: JsonSchema,
+    path: YamlPath
+  ): CompletionSuggestion[] {
+    const key = path.filter(segment => typeof segment === "string").pop();
+
+    if (key === "runs-on") {
+      return GITHUB_HOSTED_RUNNERS.map(runner => ({
+        label: runner,
+        kind: "runner",
+        insertText: runner,
+        detail: "GitHub-hosted runner",
+      }));
+    }
+    if (key === "on" && path.length <= 2 && root === workflowSchema) {
+      return WORKFLOW_EVENT_TRIGGERS.map(event => ({
+        label: event,
+        kind: "event",
+        insertText: event,
+        detail: "Workflow event",
+      }));
+    }
+    if (key === "uses" && path.includes("steps")) {
+      return ENHANCED_POPULAR_ACTIONS.map(action => ({
+        label: action.uses,
+        kind: "action",
+        insertText: action.uses,
+        detail: action.name,
+        documentation: this.describeAction(action),
+      }));
+    }
+
+    const schema = this.getSchemaAt(root, path);
+    const values = new Set<string>();
+    const collect = (candidate: JsonSchema | undefined) => {
+      const resolved = this.resolve(root, candidate);
+      resolved?.enum?.forEach(value => values.add(String(value)));
+      if (resolved?.const !== undefined) {
+        values.add(String(resolved.const));
+      }
+      if (resolved?.type === "boolean") {
+        values.add("true");
+        values.add("false");
+      }
+      resolved?.anyOf?.forEach(collect);
+      // Arrays of values can also be written as one value
+      if (resolved?.type === "array") {
+        collect(resolved.items);
+      }
+    };
+    collect(schema);
+
+    return Array.from(values, value => ({
+      label: value,
+      kind: "value" as const,
+      insertText: value,
+    }));
+  }
+
+  /**
+   * Schema of the value at a path; sequence items are matched by any
+   * segment so paths of partly typed documents still resolve
+   */
+  private static getSchemaAt(
+    root: JsonSchema,
+    path: YamlPath
+  ): JsonSchema | undefined {
+    let schema: JsonSchema | undefined = root;
+    for (const segment of path) {
+      schema = this.getChildSchema(root, schema, segment);
+      if (!schema) {
+        return undefined;
+      }
+    }
+    return schema;
+  }
+
+  private static getChildSchema(
+    root: JsonSchema,
+    schema: JsonSchema | undefined,
+    segment: string | number
+  ): JsonSchema | undefined {
+    const resolved = this.resolve(root, schema);
+    if (!resolved) {
+      return undefined;
+    }
+    if (typeof segment === "number") {
+      if (resolved.type === "array") {
+        return resolved.items;
+      }
+      return resolved.anyOf
+        ?.map(member => this.getChildSchema(root, member, segment))
+        .find(Boolean);
+    }
+    for (const objectSchema of this.getObjectSchemas(root, resolved)) {
+      const child =
+        objectSchema.properties?.[segment] ??
+        (typeof objectSchema.additionalProperties === "object"
+          ? objectSchema.additionalProperties
+          : undefined);
+      if (child) {
+        return child;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Object schemas a value may match: the schema itself, the members of a
+   * union, or the items of an array whose item is being typed
+   */
+  private static getObjectSchemas(
+    root: JsonSchema,
+    schema: JsonSchema | undefined
+  ): JsonSchema[] {
+    const resolved = this.resolve(root, schema);
+    if (!resolved) {
+      return [];
+    }
+    if (resolved.type === "object") {
+      return [resolved];
+    }
+    if (resolved.type === "array") {
+      return this.getObjectSchemas(root, resolved.items);
+    }
+    return (resolved.anyOf || []).flatMap(member =>
+      this.getObjectSchemas(root, member)
+    );
+  }
+
+  private static resolve(
+    root: JsonSchema,
+    schema: JsonSchema | undefined
+  ): JsonSchema | undefined {
+    if (!schema?.$ref) {
+      return schema;
+    }
+    const name = schema.$ref.replace("#/definitions/", "");
+    const definition = root.definitions?.[name];
+    return (
+      definition && {
+        ...definition,
+        description: schema.description ?? definition.description,
+      }
+    );
+  }
+
+  private static getDescription(
+    root: JsonSchema,
+    schema: JsonSchema
+  ): string | undefined {
+    if (schema.description) {
+      return schema.description;
+    }
+    const name = schema.$ref?.replace("#/definitions/", "");
+    return name ? root.definitions?.[name]?.description : undefined;
+  }
+
+  /**
+   * Short TypeScript-like summary, e.g. `string | string[]`
+   */
+  private static describeType(root: JsonSchema, schema: JsonSchema): string {
+    if (schema.$ref) {
+      return schema.$ref.replace("#/definitions/", "");
+    }
+    if (schema.enum) {
+      return schema.enum.map(value => JSON.stringify(value)).join(" | ");
+    }
+    if (schema.const !== undefined) {
+      return JSON.stringify(schema.const);
+    }
+    if (schema.anyOf) {
+      return schema.anyOf
+        .map(member => this.describeType(root, member))
+        .join(" | ");
+    }
+    if (schema.type === "array") {
+      const item = schema.items ? this.describeType(root, schema.items) : "";
+      return item.includes(" ") ? `(${item})[]` : `${item || "unknown"}[]`;
+    }
+    if (schema.type === "object" && !schema.properties) {
+      const value =
+        typeof schema.additionalProperties === "object"
+          ? this.describeType(root, schema.additionalProperties)
+          : "unknown";
+      return `Record<string, ${value}>`;
+    }
+    return schema.type || "unknown";
+  }
+
+  private static describeAction(action: PopularAction): string {
+    const inputs = Object.entries(action.inputs || {}).map(
+      ([name, input]) =>
+        `- \`${name}\`${input.required ? " (required)" : ""}: ${
+          input.description
+        }${input.default !== undefined ? ` (default \`${input.default}\`)` : ""}`
+    );
+    return [
+      `**${action.name}** \`${action.uses}\``,
+      action.description,
+      ...(inputs.length > 0 ? [`Inputs:\n\n${inputs.join("\n")}`] : []),
+    ].join("\n\n");
+  }
+
+  private static describeInput(
+    name: string,
+    input: NonNullable<PopularAction["inputs"]>[string]
+  ): string {
+    return [
+      `\`${name}\`${input.required ? " (required)" : ""}`,
+      input.description,
+      input.default !== undefined ? `Default: \`${input.default}\`` : "",
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  private static splitLines(source: string): YamlLine[] {
+    let start = 0;
+    return source.split("\n").map(text => {
+      const line = this.parseLine(text, start);
+      start += text.length + 1;
+      return line;
+    });
+  }
+
+  private static parseLine(text: string, start: number): YamlLine {
+    const [, indentation, markers, content] =
+      /^(\s*)((?:-(?:\s+|$))*)(.*)$/.exec(text)!;
+    const column = indentation.length + markers.length;
+    const line: YamlLine = {
+      start,
+      indent: indentation.length,
+      column,
+      isItem: markers.length > 0,
+      isBlank: content.trim() === "" || content.startsWith("#"),
+      content,
+    };
+    if (line.isBlank && line.isItem) {
+      line.isBlank = false;
+    }
+
+    const entry = /^([^\s#'"{[][^:#]*?|"[^"]*"|'[^']*')\s*:(\s+|$)(.*)$/.exec(
+      content
+    );
+    if (entry) {
+      line.key = entry[1].replace(/^["']|["']$/g, "");
+      line.keyColumn = column;
+      line.value = entry[3].replace(/\s+#.*$/, "").trim();
+      line.valueColumn = column + content.length - entry[3].length;
+    }
+    return line;
+  }
+
+  /**
+   * Path of the mapping or sequence holding the entry on a line, with the
+   * line of the key or item that owns it
+   */
+  private static getContainer(lines: YamlLine[], index: number): LinePath {
+    const line = lines[index];
+    if (!line.isItem) {
+      return this.getMappingContainer(lines, index, line.column);
+    }
+    // `- key: value` starts a mapping inside the item
+    return line.key !== undefined
+      ? this.getItemPath(lines, index)
+      : this.getItemContainer(lines, index);
+  }
+
+  /**
+   * Path of the mapping an entry at `column` on line `index` belongs to
+   */
+  private static getMappingContainer(
+    lines: YamlLine[],
+    index: number,
+    column: number
+  ): LinePath {
+    for (let previous = index - 1; previous >= 0; previous--) {
+      const line = lines[previous];
+      if (line.isBlank || line.column > column) {
+        continue;
+      }
+      if (line.column === column) {
+        if (line.isItem) {
+          // The first key of a sequence item mapping
+          return this.getItemPath(lines, previous);
+        }
+        continue;
+      }
+      return line.key !== undefined
+        ? this.getKeyPath(lines, previous)
+        : { path: [], line: previous };
+    }
+    return { path: [], line: -1 };
+  }
+
+  /**
+   * Path of the sequence an item on line `index` belongs to
+   */
+  private static getItemContainer(lines: YamlLine[], index: number): LinePath {
+    const item = this.getItemPath(lines, index);
+    return { path: item.path.slice(0, -1), line: item.line };
+  }
+
+  /**
+   * Path of the sequence item started on line `index`, with its index
+   */
+  private static getItemPath(lines: YamlLine[], index: number): LinePath {
+    const dashColumn = lines[index].indent;
+    let position = 0;
+    for (let previous = index - 1; previous >= 0; previous--) {
+      const line = lines[previous];
+      if (line.isBlank || line.indent > dashColumn) {
+        continue;
+      }
+      if (line.indent === dashColumn && line.isItem) {
+        position++;
+        continue;
+      }
+      // Items may sit at the same column as their key
+      if (line.key !== undefined && line.value === "") {
+        const parent = this.getKeyPath(lines, previous);
+        return { path: [...parent.path, position], line: index };
+      }
+      if (line.indent < dashColumn) {
+        break;
+      }
+    }
+    return { path: [position], line: index };
+  }
+
+  /**
+   * Path of the value of the key on line `index`
+   */
+  private static getKeyPath(lines: YamlLine[], index: number): LinePath {
+    const line = lines[index];
+    const container = this.getContainer(lines, index);
+    return { path: [...container.path, line.key!], line: index };
+  }
+
+  /**
+   * Keys already present in the mapping an entry on line `index` is in
+   */
+  private static getSiblingKeys(lines: YamlLine[], index: number): Set<string> {
+    const keys = new Set<string>();
+    this.forEachSibling(lines, index, line => {
+      if (line.key !== undefined) {
+        keys.add(line.key);
+      }
+    });
+    return keys;
+  }
+
+  /**
+   * Value of a key in the same mapping as the key on line `index`
+   */
+  private static getSiblingValue(
+    lines: YamlLine[],
+    index: number,
+    key: string
+  ): string | undefined {
+    if (index < 0) {
+      return undefined;
+    }
+    let value: string | undefined;
+    this.forEachSibling(lines, index, line => {
+      if (line.key === key && line.value) {
+        value = line.value.replace(/^["']|["']$/g, "");
+      }
+    });
+    return value;
+  }
+
+  /**
+   * Visit the entries of the mapping holding the entry on line `index`,
+   * stopping at the start and end of a sequence item
+   */
+  private static forEachSibling(
+    lines: YamlLine[],
+    index: number,
+    visit: (line: YamlLine) => void
+  ): void {
+    const column = lines[index].column;
+    for (let previous = index - 1; previous >= 0; previous--) {
+      const line = lines[previous];
+      if (line.isBlank || line.column > column) {
+        continue;
+      }
+      if (line.column < column) {
+        break;
+      }
+      visit(line);
+      if (line.isItem) {
+        break;
+      }
+    }
+    visit(lines[index]);
+    for (let next = index + 1; next < lines.length; next++) {
+      const line = lines[next];
+      if (line.isBlank || line.column > column) {
+        continue;
+      }
+      if (line.column < column || line.isItem) {
+        break;
+      }
+      visit(line);
+    }
+  }
+}
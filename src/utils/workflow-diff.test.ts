@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import type { Step } from "../types/github-actions";
+import { WorkflowDiff } from "./workflow-diff";
+
+const workflow = (steps: Step[]) => ({
+  name: "CI",
+  on: { push: {} },
+  jobs: { build: { "runs-on": "ubuntu-latest", steps } },
+});
+
+const compareSteps = (before: Step[], after: Step[]) =>
+  WorkflowDiff.compare(workflow(before), workflow(after)).map(
+    change => change.description
+  );
+
+const CHECKOUT: Step = { uses: "actions/checkout@v4" };
+const INSTALL: Step = { name: "Install", run: "npm ci" };
+const TEST: Step = { name: "Test", run: "npm test" };
+
+describe("WorkflowDiff.compare", () => {
+  it("reports nothing for equal documents", () => {
+    expect(compareSteps([CHECKOUT, TEST], [CHECKOUT, TEST])).toEqual([]);
+  });
+
+  it("reports changed fields by path", () => {
+    const changes = WorkflowDiff.compare(
+      { name: "CI", env: { A: "1" } },
+      { name: "Build", env: { B: "2" } }
+    );
+    expect(
+      changes.map(({ kind, path }) => [kind, WorkflowDiff.formatPath(path)])
+    ).toEqual([
+      ["changed", "name"],
+      ["added", "env.B"],
+      ["removed", "env.A"],
+    ]);
+  });
+
+  it("reports added and removed jobs", () => {
+    const before = workflow([CHECKOUT]);
+    const after = {
+      ...before,
+      jobs: { lint: { "runs-on": "ubuntu-latest", steps: [CHECKOUT] } },
+    };
+    expect(
+      WorkflowDiff.compare(before, after).map(change => change.description)
+    ).toEqual(["Job 'build' removed", "Job 'lint' added"]);
+  });
+
+  it("matches steps by action without the version", () => {
+    const changes = WorkflowDiff.compare(
+      workflow([{ uses: "actions/checkout@v3" }, TEST]),
+      workflow([{ uses: "actions/checkout@v4" }, TEST])
+    );
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      kind: "changed",
+      path: ["jobs", "build", "steps", 0, "uses"],
+      before: "actions/checkout@v3",
+      after: "actions/checkout@v4",
+    });
+  });
+
+  it("prefers ids and names over the command", () => {
+    expect(
+      compareSteps(
+        [{ id: "unit", run: "npm test" }, TEST],
+        [{ id: "unit", run: "npm run test:unit" }, TEST]
+      )
+    ).toEqual(["jobs.build.steps[0].run changed"]);
+  });
+
+  it("reports a step inserted in the middle as added only", () => {
+    expect(compareSteps([CHECKOUT, TEST], [CHECKOUT, INSTALL, TEST])).toEqual([
+      "Step 'Install' added in job 'build'",
+    ]);
+  });
+
+  it("reports a reordered step as moved", () => {
+    const changes = WorkflowDiff.compare(
+      workflow([CHECKOUT, INSTALL, TEST]),
+      workflow([CHECKOUT, TEST, INSTALL])
+    );
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      kind: "moved",
+      path: ["jobs", "build", "steps", 2],
+      before: 1,
+      after: 2,
+      description: "Step 'Install' moved from position 2 to 3 in job 'build'",
+    });
+  });
+
+  it("reports only the steps outside the longest run kept in order", () => {
+    expect(
+      compareSteps([CHECKOUT, INSTALL, TEST], [TEST, CHECKOUT, INSTALL])
+    ).toEqual(["Step 'Test' moved from position 3 to 1 in job 'build'"]);
+  });
+
+  it("compares a moved step's fields at its new position", () => {
+    const changes = WorkflowDiff.compare(
+      workflow([CHECKOUT, INSTALL, TEST]),
+      workflow([CHECKOUT, TEST, { ...INSTALL, run: "npm install" }])
+    );
+    expect(changes.map(change => change.kind)).toEqual(["moved", "changed"]);
+    expect(changes[1].path).toEqual(["jobs", "build", "steps", 2, "run"]);
+  });
+
+  it("reports removed steps at their old position", () => {
+    const changes = WorkflowDiff.compare(
+      workflow([CHECKOUT, INSTALL, TEST]),
+      workflow([CHECKOUT, TEST])
+    );
+    expect(changes).toEqual([
+      expect.objectContaining({
+        kind: "removed",
+        path: ["jobs", "build", "steps", 1],
+        description: "Step 'Install' removed in job 'build'",
+      }),
+    ]);
+  });
+});
+
+describe("WorkflowDiff.diffLines", () => {
+  it("pairs removed lines with the lines that replace them", () => {
+    expect(
+      WorkflowDiff.diffLines("a\nb\nc", "a\nB\nc\nd").map(row => row.kind)
+    ).toEqual(["same", "changed", "same", "added"]);
+  });
+
+  it("numbers lines on each side", () => {
+    const [removed, same] = WorkflowDiff.diffLines("x\ny", "y");
+    expect(removed).toEqual({
+      kind: "removed",
+      before: { line: 1, text: "x" },
+      after: undefined,
+    });
+    expect(same.after).toEqual({ line: 1, text: "y" });
+  });
+});
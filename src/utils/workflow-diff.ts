@@ -0,0 +1,370 @@
+import type { Step, VisualNode } from "../types/github-actions";
+import { WorkflowMapper } from "./workflow-mapper";
+import type { YamlPath } from "./yaml-source-map";
+
+export type ChangeKind = "added" | "removed" | "changed" | "moved";
+
+export interface WorkflowChange {
+  kind: ChangeKind;
+  target: "job" | "step" | "field";
+  // Path in the newer document; removed entries use the older one
+  path: YamlPath;
+  before?: unknown;
+  after?: unknown; // Moved steps hold their old and new index
+  description: string;
+}
+
+export interface DiffLine {
+  kind: "same" | "added" | "removed" | "changed";
+  before?: { line: number; text: string }; // 1-based line numbers
+  after?: { line: number; text: string };
+}
+
+type DiffDocument = object;
+
+// Properties tried in turn to tell which steps are the same step
+const STEP_IDENTITIES: ((step: Step) => string | undefined)[] = [
+  step => step.id,
+  step => step.name,
+  step => step.uses?.split("@")[0],
+  step => step.run,
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Semantic comparison of two versions of a workflow or composite action.
+ * Jobs are matched by key and steps by id, name, action or command, so a
+ * reordered step is reported as moved rather than as removed and re-added.
+ */
+export class WorkflowDiff {
+  static compare(before: DiffDocument, after: DiffDocument): WorkflowChange[] {
+    const changes: WorkflowChange[] = [];
+    this.compareValues(before, after, [], changes);
+    return changes;
+  }
+
+  /**
+   * Side-by-side rows of a line diff, pairing removed lines with the added
+   * lines that replace them
+   */
+  static diffLines(before: string, after: string): DiffLine[] {
+    const left = before.split("\n");
+    const right = after.split("\n");
+    // Longest common subsequence lengths of every pair of suffixes
+    const width = right.length + 1;
+    const lengths = new Uint32Array((left.length + 1) * width);
+    for (let i = left.length - 1; i >= 0; i--) {
+      for (let j = right.length - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          left[i] === right[j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(
+                lengths[(i + 1) * width + j],
+                lengths[i * width + j + 1]
+              );
+      }
+    }
+
+    const rows: DiffLine[] = [];
+    let removed: DiffLine["before"][] = [];
+    let added: DiffLine["after"][] = [];
+    const flush = () => {
+      for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+        rows.push({
+          kind: !added[k] ? "removed" : !removed[k] ? "added" : "changed",
+          before: removed[k],
+          after: added[k],
+        });
+      }
+      removed = [];
+      added = [];
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < left.length || j < right.length) {
+      if (i < left.length && j < right.length && left[i] === right[j]) {
+        flush();
+        rows.push({
+          kind: "same",
+          before: { line: i + 1, text: left[i] },
+          after: { line: j + 1, text: right[j] },
+        });
+        i++;
+        j++;
+      } else if (
+        j >= right.length ||
+        (i < left.length &&
+          lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+      ) {
+        removed.push({ line: i + 1, text: left[i] });
+        i++;
+      } else {
+        added.push({ line: j + 1, text: right[j] });
+        j++;
+      }
+    }
+    flush();
+    return rows;
+  }
+
+  /**
+   * Nodes to highlight for the changes, by node ID. Paths are resolved in
+   * the nodes of the side they refer to; IDs are stable across versions.
+   */
+  static getNodeHighlights(
+    changes: WorkflowChange[],
+    beforeNodes: VisualNode[] | undefined,
+    afterNodes: VisualNode[]
+  ): Record<string, ChangeKind> {
+    // A node shows the most significant of its changes
+    const priority: ChangeKind[] = ["changed", "moved", "removed", "added"];
+    const highlights: Record<string, ChangeKind> = {};
+    const mark = (node: VisualNode | null | undefined, kind: ChangeKind) => {
+      if (
+        node &&
+        priority.indexOf(kind) > priority.indexOf(highlights[node.id])
+      ) {
+        highlights[node.id] = kind;
+      }
+    };
+
+    changes.forEach(change => {
+      if (change.kind !== "removed") {
+        mark(
+          WorkflowMapper.getNodeForPath(afterNodes, change.path),
+          change.kind
+        );
+        return;
+      }
+      const removedNode =
+        beforeNodes && WorkflowMapper.getNodeForPath(beforeNodes, change.path);
+      if (removedNode) {
+        mark(removedNode, "removed");
+      }
+      // The job or trigger that lost the entry has changed
+      if (change.target !== "job" && change.path.length > 1) {
+        mark(
+          WorkflowMapper.getNodeForPath(afterNodes, change.path.slice(0, -1)),
+          "changed"
+        );
+      }
+    });
+    return highlights;
+  }
+
+  /**
+   * e.g. `jobs.build.steps[2].with`
+   */
+  static formatPath(path: YamlPath): string {
+    return path
+      .map((segment, index) =>
+        typeof segment === "number"
+          ? `[${segment}]`
+          : index > 0
+            ? `.${segment}`
+            : segment
+      )
+      .join("");
+  }
+
+  /**
+   * Short single-line rendering of a value for change lists
+   */
+  static formatValue(value: unknown): string {
+    if (value === undefined) {
+      return "(none)";
+    }
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+  }
+
+  private static compareValues(
+    before: unknown,
+    after: unknown,
+    path: YamlPath,
+    changes: WorkflowChange[]
+  ): void {
+    if (isEqual(before, after)) {
+      return;
+    }
+    if (path.length === 1 && path[0] === "jobs") {
+      if (isObject(before) && isObject(after)) {
+        this.compareJobs(before, after, changes);
+        return;
+      }
+    }
+    if (
+      path[path.length - 1] === "steps" &&
+      Array.isArray(before) &&
+      Array.isArray(after)
+    ) {
+      this.compareSteps(before, after, path, changes);
+      return;
+    }
+    if (isObject(before) && isObject(after)) {
+      const keys = [
+        ...Object.keys(after),
+        ...Object.keys(before).filter(key => !(key in after)),
+      ];
+      keys.forEach(key =>
+        this.compareValues(before[key], after[key], [...path, key], changes)
+      );
+      return;
+    }
+
+    const kind =
+      before === undefined
+        ? "added"
+        : after === undefined
+          ? "removed"
+          : "changed";
+    changes.push({
+      kind,
+      target: "field",
+      path,
+      before,
+      after,
+      description: `${this.formatPath(path) || "Document"} ${kind}`,
+    });
+  }
+
+  private static compareJobs(
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+    changes: WorkflowChange[]
+  ): void {
+    Object.keys(before)
+      .filter(jobId => !(jobId in after))
+      .forEach(jobId =>
+        changes.push({
+          kind: "removed",
+          target: "job",
+          path: ["jobs", jobId],
+          before: before[jobId],
+          description: `Job '${jobId}' removed`,
+        })
+      );
+    Object.keys(after).forEach(jobId => {
+      if (jobId in before) {
+        this.compareValues(
+          before[jobId],
+          after[jobId],
+          ["jobs", jobId],
+          changes
+        );
+        return;
+      }
+      changes.push({
+        kind: "added",
+        target: "job",
+        path: ["jobs", jobId],
+        after: after[jobId],
+        description: `Job '${jobId}' added`,
+      });
+    });
+  }
+
+  private static compareSteps(
+    before: Step[],
+    after: Step[],
+    path: YamlPath,
+    changes: WorkflowChange[]
+  ): void {
+    const where = path[0] === "jobs" ? ` in job '${path[1]}'` : "";
+    const label = (step: Step, index: number) =>
+      step?.name || step?.uses || step?.run?.split("\n")[0] || `#${index + 1}`;
+
+    // Match steps by the first identity both versions share
+    const matches = new Map<number, number>(); // after index -> before index
+    const matchedBefore = new Set<number>();
+    STEP_IDENTITIES.forEach(identify => {
+      after.forEach((step, afterIndex) => {
+        const identity = step && identify(step);
+        if (matches.has(afterIndex) || identity === undefined) {
+          return;
+        }
+        const beforeIndex = before.findIndex(
+          (candidate, index) =>
+            !matchedBefore.has(index) &&
+            !!candidate &&
+            identify(candidate) === identity
+        );
+        if (beforeIndex !== -1) {
+          matches.set(afterIndex, beforeIndex);
+          matchedBefore.add(beforeIndex);
+        }
+      });
+    });
+
+    before.forEach((step, index) => {
+      if (!matchedBefore.has(index)) {
+        changes.push({
+          kind: "removed",
+          target: "step",
+          path: [...path, index],
+          before: step,
+          description: `Step '${label(step, index)}' removed${where}`,
+        });
+      }
+    });
+
+    // Steps outside the longest run kept in order are the ones that moved
+    const pairs = [...matches.entries()].sort(([a], [b]) => a - b);
+    const inOrder = this.getIncreasingRun(pairs.map(([, index]) => index));
+    pairs.forEach(([afterIndex, beforeIndex], pairIndex) => {
+      if (!inOrder.has(pairIndex)) {
+        changes.push({
+          kind: "moved",
+          target: "step",
+          path: [...path, afterIndex],
+          before: beforeIndex,
+          after: afterIndex,
+          description: `Step '${label(after[afterIndex], afterIndex)}' moved from position ${beforeIndex + 1} to ${afterIndex + 1}${where}`,
+        });
+      }
+    });
+
+    after.forEach((step, index) => {
+      const beforeIndex = matches.get(index);
+      if (beforeIndex === undefined) {
+        changes.push({
+          kind: "added",
+          target: "step",
+          path: [...path, index],
+          after: step,
+          description: `Step '${label(step, index)}' added${where}`,
+        });
+        return;
+      }
+      this.compareValues(before[beforeIndex], step, [...path, index], changes);
+    });
+  }
+
+  // Positions of a longest strictly increasing subsequence
+  private static getIncreasingRun(values: number[]): Set<number> {
+    const lengths = values.map(() => 1);
+    const previous = values.map(() => -1);
+    values.forEach((value, index) => {
+      for (let k = 0; k < index; k++) {
+        if (values[k] < value && lengths[k] + 1 > lengths[index]) {
+          lengths[index] = lengths[k] + 1;
+          previous[index] = k;
+        }
+      }
+    });
+
+    const run = new Set<number>();
+    let index = lengths.indexOf(Math.max(0, ...lengths));
+    while (index !== -1) {
+      run.add(index);
+      index = previous[index];
+    }
+    return run;
+  }
+}
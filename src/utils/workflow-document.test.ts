@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { WorkflowDocument } from "./workflow-document";
+
+const SOURCE = `# Build and test on every push
+name: CI   # trailing
+
+on:
+  push:
+    branches: [main]    # only main
+
+jobs:
+  build:
+    runs-on: ubuntu-latest  # pinned later
+    steps:
+      - uses: actions/checkout@v4
+      # Install before testing
+      - run: npm ci   # clean install
+      - run: npm test
+`;
+
+const changedLines = (before: string, after: string) => {
+  const beforeLines = before.split("\n");
+  const afterLines = after.split("\n");
+  expect(afterLines).toHaveLength(beforeLines.length);
+  return afterLines
+    .map((line, index) => ({ before: beforeLines[index], after: line }))
+    .filter(line => line.before !== line.after);
+};
+
+describe("WorkflowDocument", () => {
+  it("renders an unchanged workflow verbatim", () => {
+    const document = WorkflowDocument.parse(SOURCE);
+    expect(document.render(document.toWorkflow())).toBe(SOURCE);
+  });
+
+  it("changes a single line for a single field", () => {
+    const document = WorkflowDocument.parse(SOURCE);
+    const workflow = document.toWorkflow();
+    workflow.jobs.build["runs-on"] = "ubuntu-24.04";
+
+    expect(changedLines(SOURCE, document.render(workflow))).toEqual([
+      {
+        before: "    runs-on: ubuntu-latest  # pinned later",
+        after: "    runs-on: ubuntu-24.04 # pinned later",
+      },
+    ]);
+  });
+
+  it("keeps comment spacing around an edited step", () => {
+    const document = WorkflowDocument.parse(SOURCE);
+    const workflow = document.toWorkflow();
+    workflow.jobs.build.steps![2] = { run: "npm run test:ci" };
+
+    expect(changedLines(SOURCE, document.render(workflow))).toEqual([
+      {
+        before: "      - run: npm test",
+        after: "      - run: npm run test:ci",
+      },
+    ]);
+  });
+
+  it("keeps spacing that is part of a quoted value", () => {
+    const document = WorkflowDocument.parse(
+      `name: "a   #b"\non: push\njobs: {}\n`
+    );
+    const workflow = document.toWorkflow();
+    workflow.name = "a #b";
+
+    expect(
+      WorkflowDocument.parse(document.render(workflow)).toWorkflow()
+    ).toEqual(workflow);
+  });
+});
@@ -0,0 +1,336 @@
+import {
+  Document,
+  Pair,
+  isAlias,
+  isMap,
+  isNode,
+  isScalar,
+  isSeq,
+  parseDocument,
+} from "yaml";
+import type { Node, ToStringOptions, YAMLMap, YAMLSeq } from "yaml";
+import type { GitHubWorkflow } from "../types/github-actions";
+import { WorkflowYaml, WorkflowYamlError } from "./workflow-yaml";
+
+/**
+ * Document model for an imported workflow file. Keeps the original YAML AST
+ * (comments, blank lines, anchors and quoting styles) and renders canvas
+ * edits by patching only the nodes whose values actually changed.
+ */
+export class WorkflowDocument {
+  readonly source: string;
+  private readonly document: Document;
+  private readonly format: ToStringOptions;
+
+  private constructor(source: string, document: Document) {
+    this.source = source;
+    this.document = document;
+    this.format = detectFormat(source);
+  }
+
+  /**
+   * Parse workflow YAML, keeping the full document AST
+   */
+  static parse(source: string): WorkflowDocument {
+    const document = parseDocument(source, { prettyErrors: true });
+
+    if (document.errors.length > 0) {
+      const [error] = document.errors;
+      const position = error.linePos?.[0];
+      throw new WorkflowYamlError(
+        error.message.split("\n")[0],
+        position?.line,
+        position?.col
+      );
+    }
+
+    if (!isMap(document.contents)) {
+      throw new WorkflowYamlError("Workflow YAML must be a mapping", 1, 1);
+    }
+
+    return new WorkflowDocument(source, document);
+  }
+
+  /**
+   * Plain workflow object as currently described by the document
+   */
+  toWorkflow(): GitHubWorkflow {
+    return this.document.toJS() as GitHubWorkflow;
+  }
+
+  /**
+   * Render the given workflow as YAML, reusing the original document and
+   * changing only what differs from it. Returns the original source verbatim
+   * when nothing changed.
+   */
+  render(workflow: GitHubWorkflow): string {
+    const target = WorkflowYaml.toCanonicalObject(workflow);
+    if (isDeepEqual(normalize(this.document.toJS()), normalize(target))) {
+      return this.source;
+    }
+
+    const document = this.document.clone();
+    const patcher = new DocumentPatcher(document);
+    document.contents = patcher.patch(document.contents as Node, target);
+
+    return restoreLayout(this.source, document.toString(this.format));
+  }
+}
+
+/**
+ * Applies the difference between a document node and a plain value in place
+ */
+class DocumentPatcher {
+  private readonly document: Document;
+
+  constructor(document: Document) {
+    this.document = document;
+  }
+
+  patch(node: Node | null, value: unknown): Node {
+    if (value === undefined) {
+      value = null;
+    }
+
+    if (node && isAlias(node)) {
+      const resolved = node.resolve(this.document);
+      const current = resolved ? resolved.toJS(this.document) : null;
+      return isDeepEqual(normalize(current), normalize(value))
+        ? node
+        : this.createNode(value);
+    }
+
+    if (node && isMap(node) && isPlainObject(value)) {
+      this.patchMap(node, value);
+      return node;
+    }
+
+    if (node && isSeq(node) && Array.isArray(value)) {
+      this.patchSeq(node, value);
+      return node;
+    }
+
+    if (node && isScalar(node)) {
+      // A bare `key:` reads as null; keep it when the new value is empty
+      if (node.value === null && isPlainObject(value)) {
+        if (Object.keys(value).length === 0) {
+          return node;
+        }
+      } else if (!isPlainObject(value) && !Array.isArray(value)) {
+        if (node.value !== value) {
+          node.value = value;
+        }
+        return node;
+      }
+    }
+
+    return this.createNode(value);
+  }
+
+  private patchMap(map: YAMLMap, value: Record<string, unknown>) {
+    const keys = Object.keys(value).filter(key => value[key] !== undefined);
+
+    map.items = map.items.filter(pair => keys.includes(keyOf(pair)));
+
+    keys.forEach((key, index) => {
+      const pair = map.items.find(item => keyOf(item) === key);
+      if (pair) {
+        pair.value = this.patch(pair.value as Node | null, value[key]);
+        return;
+      }
+
+      // New keys go right after their predecessor, so a renamed job keeps
+      // its place in the file
+      const previousKey = keys[index - 1];
+      const position =
+        previousKey === undefined
+          ? 0
+          : map.items.findIndex(item => keyOf(item) === previousKey) + 1;
+      map.items.splice(
+        position,
+        0,
+        new Pair(this.createKey(key), this.createNode(value[key]))
+      );
+    });
+  }
+
+  /**
+   * Items that are unchanged are matched by longest common subsequence, so
+   * inserting or removing a step keeps the comments of every other step.
+   * Remaining items inside each gap are patched pairwise.
+   */
+  private patchSeq(seq: YAMLSeq, values: unknown[]) {
+    const oldItems = seq.items as (Node | null)[];
+    const oldValues = oldItems.map(item =>
+      normalize(item ? item.toJS(this.document) : null)
+    );
+    const newValues = values.map(normalize);
+    const matches = longestCommonSubsequence(oldValues, newValues);
+
+    const items: Node[] = [];
+    let oldIndex = 0;
+    let newIndex = 0;
+
+    [...matches, [oldItems.length, values.length]].forEach(
+      ([matchOld, matchNew]) => {
+        const gapOld = oldItems.slice(oldIndex, matchOld);
+        for (let i = newIndex; i < matchNew; i++) {
+          const reused = gapOld.shift();
+          items.push(
+            reused !== undefined
+              ? this.patch(reused, values[i])
+              : this.createNode(values[i])
+          );
+        }
+        if (matchOld < oldItems.length) {
+          items.push(oldItems[matchOld] as Node);
+        }
+        oldIndex = matchOld + 1;
+        newIndex = matchNew + 1;
+      }
+    );
+
+    seq.items = items;
+  }
+
+  private createKey(key: string): Node {
+    return this.document.createNode(key) as Node;
+  }
+
+  private createNode(value: unknown): Node {
+    return this.document.createNode(value === undefined ? null : value) as Node;
+  }
+}
+
+/**
+ * Pick output settings that match the original file so untouched lines
+ * serialize exactly as they were written
+ */
+function detectFormat(source: string): ToStringOptions {
+  const indentMatch = source.match(/^[^\s#][^\n]*:\s*\n( +)\S/m);
+  const indent = indentMatch ? indentMatch[1].length : 2;
+  const unindentedSeq = /^( *)[^\s#-][^\n]*:\s*\n\1- /m.test(source);
+
+  return {
+    indent,
+    indentSeq: !unindentedSeq,
+    flowCollectionPadding: /[[{] \S/.test(source),
+    lineWidth: 0,
+    minContentWidth: 0,
+  };
+}
+
+/**
+ * The stringifier re-spaces trailing comments and drops trailing whitespace.
+ * Lines that only differ from the original in that way are put back
+ * verbatim, so untouched lines never show up in a diff.
+ */
+function restoreLayout(source: string, rendered: string): string {
+  const layoutKey = (line: string) =>
+    line.replace(/[ \t]+#/g, " #").replace(/\s+$/, "");
+  const originalLines = source.split("\n");
+  const renderedLines = rendered.split("\n");
+  const lines = [...renderedLines];
+  longestCommonSubsequence(
+    originalLines.map(layoutKey),
+    renderedLines.map(layoutKey)
+  ).forEach(([originalIndex, renderedIndex]) => {
+    lines[renderedIndex] = originalLines[originalIndex];
+  });
+  const restored = lines.join("\n");
+
+  // Spacing inside a quoted value is content; never trade it for layout
+  return isDeepEqual(
+    parseDocument(restored).toJS(),
+    parseDocument(rendered).toJS()
+  )
+    ? restored
+    : rendered;
+}
+
+function keyOf(pair: Pair): string {
+  const key = pair.key;
+  if (isScalar(key)) {
+    return String(key.value);
+  }
+  return isNode(key) ? String(key.toJSON()) : String(key);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Drop undefined members and treat null mappings as empty ones, matching how
+ * the canvas represents `workflow_dispatch:` and similar bare keys
+ */
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, member]) => {
+      if (member === undefined) {
+        return;
+      }
+      result[key] = member === null ? {} : normalize(member);
+    });
+    return result;
+  }
+  return value;
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]))
+    );
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    return (
+      aKeys.length === bKeys.length &&
+      aKeys.every(key => key in b && isDeepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+function longestCommonSubsequence(
+  a: unknown[],
+  b: unknown[]
+): [number, number][] {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = isDeepEqual(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (isDeepEqual(a[i], b[j])) {
+      matches.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,444 @@
+import type { VisualNode, VisualEdge } from "../types/github-actions";
+import { WorkflowMapper } from "./workflow-mapper";
+
+export type LayoutDirection = "TB" | "LR";
+
+export interface LayoutOptions {
+  direction?: LayoutDirection;
+}
+
+// Layout constants, matching the initial waterfall layout
+const ORIGIN_X = 150;
+const TRIGGER_Y = 50;
+const JOB_START_Y = 300;
+const JOB_WIDTH = 180;
+const JOB_HEIGHT = 100;
+const STEP_WIDTH = 140;
+const STEP_HEIGHT = 120; // Vertical space between step nodes
+const JOB_TO_STEP_SPACING = 150;
+const LAYER_SPACING = 400; // Space between columns of jobs
+const LAYER_GAP = 120; // Space between rows of jobs in top-to-bottom layouts
+const SIBLING_GAP = 80; // Space between jobs sharing a column
+const TRIGGER_SPACING = 200;
+const ORDERING_SWEEPS = 8;
+
+/**
+ * Layered (Sugiyama-style) layout for the job dependency graph. Jobs are
+ * ranked by their longest `needs` chain, ordered within each rank to reduce
+ * edge crossings, and their steps are stacked underneath them.
+ */
+export class WorkflowLayout {
+  /**
+   * Position trigger, job and step nodes. Job dependencies are read from the
+   * job-to-job edges so unsaved canvas edits are taken into account.
+   */
+  static applyLayeredLayout(
+    nodes: VisualNode[],
+    edges: VisualEdge[],
+    options: LayoutOptions = {}
+  ): VisualNode[] {
+    const direction = options.direction || "TB";
+    const layoutNodes = nodes.map(node => ({
+      ...node,
+      position: { ...node.position },
+    }));
+    // The root of a composite action is laid out like a job
+    const jobNodes = layoutNodes.filter(
+      node => WorkflowMapper.isJobNode(node) || node.type === "action"
+    );
+    const triggerNodes = layoutNodes.filter(node => node.type === "trigger");
+
+    const jobIds = jobNodes.map(node => node.id);
+    const dependencies = edges
+      .filter(
+        edge =>
+          edge.source !== edge.target &&
+          jobIds.includes(edge.source) &&
+          jobIds.includes(edge.target)
+      )
+      .map(edge => [edge.source, edge.target] as [string, string]);
+
+    const layers = this.computeLayers(jobIds, dependencies);
+    const stepsByJob = new Map(
+      jobNodes.map(jobNode => [
+        jobNode.id,
+        WorkflowMapper.getOrderedStepNodes(jobNode, layoutNodes),
+      ])
+    );
+    const positions =
+      direction === "LR"
+        ? this.positionLeftToRight(layers, stepsByJob)
+        : this.positionTopToBottom(layers, stepsByJob);
+
+    jobNodes.forEach(jobNode => {
+      const position = positions.get(jobNode.id);
+      if (!position) {
+        return;
+      }
+      jobNode.position = position;
+
+      // Center-align steps in a waterfall under their job
+      const centerOffset = (JOB_WIDTH - STEP_WIDTH) / 2;
+      stepsByJob.get(jobNode.id)?.forEach((stepNode, stepIndex) => {
+        stepNode.position = {
+          x: position.x + centerOffset,
+          y: position.y + JOB_TO_STEP_SPACING + stepIndex * STEP_HEIGHT,
+        };
+      });
+    });
+
+    this.positionTriggers(triggerNodes, jobNodes, layers, direction);
+
+    return layoutNodes;
+  }
+
+  /**
+   * Move laid-out nodes that also exist in `previousNodes` back to where
+   * they were, so re-syncing an edited workflow leaves untouched parts of
+   * the canvas alone. A job whose steps were added, removed or reordered
+   * gets its step stack rebuilt under the job's kept position.
+   */
+  static keepPositions(
+    nodes: VisualNode[],
+    previousNodes: VisualNode[]
+  ): VisualNode[] {
+    const previousById = new Map(previousNodes.map(node => [node.id, node]));
+    const isUnchanged = (node: VisualNode) => {
+      const previous = previousById.get(node.id);
+      return (
+        !!previous &&
+        previous.type === node.type &&
+        (node.type !== "step" ||
+          (previous.data.parentJobId === node.data.parentJobId &&
+            previous.data.order === node.data.order))
+      );
+    };
+    const restackedJobIds = new Set(
+      nodes
+        .filter(node => node.type === "step" && !isUnchanged(node))
+        .map(node => node.data.parentJobId)
+    );
+
+    // How far each kept job moved from its laid-out position
+    const shifts = new Map<string, { x: number; y: number }>();
+    const positioned = nodes.map(node => {
+      const previous = previousById.get(node.id);
+      if (node.type === "step" || !previous || !isUnchanged(node)) {
+        return node;
+      }
+      shifts.set(node.id, {
+        x: previous.position.x - node.position.x,
+        y: previous.position.y - node.position.y,
+      });
+      return { ...node, position: { ...previous.position } };
+    });
+
+    return positioned.map(node => {
+      if (node.type !== "step") {
+        return node;
+      }
+      const parentId = node.data.parentJobId;
+      if (!restackedJobIds.has(parentId)) {
+        return {
+          ...node,
+          position: { ...previousById.get(node.id)!.position },
+        };
+      }
+      const shift = (parentId && shifts.get(parentId)) || { x: 0, y: 0 };
+      return {
+        ...node,
+        position: {
+          x: node.position.x + shift.x,
+          y: node.position.y + shift.y,
+        },
+      };
+    });
+  }
+
+  /**
+   * Group jobs into ranks and order each rank to reduce edge crossings.
+   * Returns the job IDs of every rank, roots first.
+   */
+  static computeLayers(
+    jobIds: string[],
+    dependencies: [string, string][]
+  ): string[][] {
+    const ranks = this.assignRanks(jobIds, dependencies);
+    return this.orderLayers(jobIds, dependencies, ranks);
+  }
+
+  /**
+   * Longest-path ranking: a job sits one rank below its deepest dependency.
+   * Jobs caught in a dependency cycle are placed after all other jobs.
+   */
+  private static assignRanks(
+    jobIds: string[],
+    dependencies: [string, string][]
+  ): Map<string, number> {
+    const ranks = new Map<string, number>();
+    const inDegree = new Map(jobIds.map(id => [id, 0]));
+    dependencies.forEach(([, target]) => {
+      inDegree.set(target, (inDegree.get(target) || 0) + 1);
+    });
+
+    const queue = jobIds.filter(id => inDegree.get(id) === 0);
+    queue.forEach(id => ranks.set(id, 0));
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      dependencies
+        .filter(([source]) => source === current)
+        .forEach(([, target]) => {
+          ranks.set(
+            target,
+            Math.max(ranks.get(target) || 0, ranks.get(current)! + 1)
+          );
+          inDegree.set(target, inDegree.get(target)! - 1);
+          if (inDegree.get(target) === 0) {
+            queue.push(target);
+          }
+        });
+    }
+
+    const cycleRank = Math.max(-1, ...ranks.values()) + 1;
+    jobIds.forEach(id => {
+      if (inDegree.get(id)! > 0) {
+        ranks.set(id, cycleRank);
+      }
+    });
+
+    return ranks;
+  }
+
+  /**
+   * Barycenter ordering with alternating down and up sweeps. Dependencies
+   * that span several ranks are routed through virtual nodes so they take
+   * part in the ordering, then the virtual nodes are dropped again.
+   */
+  private static orderLayers(
+    jobIds: string[],
+    dependencies: [string, string][],
+    ranks: Map<string, number>
+  ): string[][] {
+    const layerCount = Math.max(-1, ...ranks.values()) + 1;
+    const layers: string[][] = Array.from({ length: layerCount }, () => []);
+    jobIds.forEach(id => layers[ranks.get(id)!].push(id));
+
+    // Split long dependencies into unit-length segments
+    const segments: [string, string][] = [];
+    const virtualIds = new Set<string>();
+    dependencies.forEach(([source, target], index) => {
+      const sourceRank = ranks.get(source)!;
+      const targetRank = ranks.get(target)!;
+      if (targetRank <= sourceRank) {
+        return; // Edge inside a cycle, nothing to order by
+      }
+
+      let previous = source;
+      for (let rank = sourceRank + 1; rank < targetRank; rank++) {
+        const virtualId = `__virtual-${index}-${rank}`;
+        virtualIds.add(virtualId);
+        layers[rank].push(virtualId);
+        segments.push([previous, virtualId]);
+        previous = virtualId;
+      }
+      segments.push([previous, target]);
+    });
+
+    let order = layers.map(layer => [...layer]);
+    let best = order.map(layer => [...layer]);
+    let bestCrossings = this.countCrossings(best, segments);
+
+    for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+      const downward = sweep % 2 === 0;
+      order = order.map(layer => [...layer]);
+
+      for (let step = 1; step < layerCount; step++) {
+        const index = downward ? step : layerCount - 1 - step;
+        const fixed = order[downward ? index - 1 : index + 1];
+        const neighbours = downward
+          ? segments.map(([source, target]) => [target, source])
+          : segments;
+        order[index] = this.sortByBarycenter(order[index], fixed, neighbours);
+      }
+
+      const crossings = this.countCrossings(order, segments);
+      if (crossings < bestCrossings) {
+        best = order.map(layer => [...layer]);
+        bestCrossings = crossings;
+      }
+    }
+
+    return best.map(layer => layer.filter(id => !virtualIds.has(id)));
+  }
+
+  /**
+   * Sort a layer by the mean position of each node's neighbours in the
+   * adjacent fixed layer. Nodes without neighbours keep their position.
+   */
+  private static sortByBarycenter(
+    layer: string[],
+    fixed: string[],
+    neighbours: string[][]
+  ): string[] {
+    const barycenters = new Map<string, number>();
+
+    layer.forEach((id, index) => {
+      const positions = neighbours
+        .filter(([node, neighbour]) => node === id && fixed.includes(neighbour))
+        .map(([, neighbour]) => fixed.indexOf(neighbour));
+      barycenters.set(
+        id,
+        positions.length > 0
+          ? positions.reduce((sum, position) => sum + position, 0) /
+              positions.length
+          : index
+      );
+    });
+
+    // Array.prototype.sort is stable, so ties keep their current order
+    return [...layer].sort((a, b) => barycenters.get(a)! - barycenters.get(b)!);
+  }
+
+  private static countCrossings(
+    layers: string[][],
+    segments: [string, string][]
+  ): number {
+    const positions = new Map<string, number>();
+    const layerOf = new Map<string, number>();
+    layers.forEach((layer, layerIndex) =>
+      layer.forEach((id, index) => {
+        positions.set(id, index);
+        layerOf.set(id, layerIndex);
+      })
+    );
+
+    // Segments only join adjacent layers, so two of them can cross only
+    // when they leave the same layer in opposite order to how they arrive
+    let crossings = 0;
+    segments.forEach(([sourceA, targetA], i) => {
+      segments.slice(i + 1).forEach(([sourceB, targetB]) => {
+        if (layerOf.get(sourceA) !== layerOf.get(sourceB)) {
+          return;
+        }
+        const sourceOrder = positions.get(sourceA)! - positions.get(sourceB)!;
+        const targetOrder = positions.get(targetA)! - positions.get(targetB)!;
+        if (sourceOrder * targetOrder < 0) {
+          crossings++;
+        }
+      });
+    });
+
+    return crossings;
+  }
+
+  /**
+   * Ranks become rows; each row is tall enough for the longest step stack
+   * in it and rows are centered on the widest one
+   */
+  private static positionTopToBottom(
+    layers: string[][],
+    stepsByJob: Map<string, VisualNode[]>
+  ): Map<string, { x: number; y: number }> {
+    const positions = new Map<string, { x: number; y: number }>();
+    const widestLayer = Math.max(1, ...layers.map(layer => layer.length));
+    let y = JOB_START_Y;
+
+    layers.forEach(layer => {
+      const offset = ((widestLayer - layer.length) * LAYER_SPACING) / 2;
+      layer.forEach((jobId, index) => {
+        positions.set(jobId, {
+          x: ORIGIN_X + offset + index * LAYER_SPACING,
+          y,
+        });
+      });
+
+      const tallest = Math.max(
+        ...layer.map(jobId => this.getJobBlockHeight(stepsByJob.get(jobId)))
+      );
+      y += tallest + LAYER_GAP;
+    });
+
+    return positions;
+  }
+
+  /**
+   * Ranks become columns; jobs sharing a column are stacked with their
+   * steps and columns are centered vertically on the tallest one
+   */
+  private static positionLeftToRight(
+    layers: string[][],
+    stepsByJob: Map<string, VisualNode[]>
+  ): Map<string, { x: number; y: number }> {
+    const positions = new Map<string, { x: number; y: number }>();
+    const columnHeights = layers.map(layer =>
+      layer.reduce(
+        (height, jobId, index) =>
+          height +
+          this.getJobBlockHeight(stepsByJob.get(jobId)) +
+          (index > 0 ? SIBLING_GAP : 0),
+        0
+      )
+    );
+    const tallestColumn = Math.max(0, ...columnHeights);
+
+    layers.forEach((layer, layerIndex) => {
+      const x = ORIGIN_X + (layerIndex + 1) * LAYER_SPACING;
+      let y = TRIGGER_Y + (tallestColumn - columnHeights[layerIndex]) / 2;
+
+      layer.forEach(jobId => {
+        positions.set(jobId, { x, y });
+        y += this.getJobBlockHeight(stepsByJob.get(jobId)) + SIBLING_GAP;
+      });
+    });
+
+    return positions;
+  }
+
+  /**
+   * Triggers sit above the first row in top-to-bottom layouts and left of the
+   * first column in left-to-right layouts, centered on the root jobs
+   */
+  private static positionTriggers(
+    triggerNodes: VisualNode[],
+    jobNodes: VisualNode[],
+    layers: string[][],
+    direction: LayoutDirection
+  ) {
+    const rootJobs = jobNodes.filter(node => layers[0]?.includes(node.id));
+
+    if (rootJobs.length === 0) {
+      triggerNodes.forEach((node, index) => {
+        node.position = { x: 100 + index * TRIGGER_SPACING, y: TRIGGER_Y };
+      });
+      return;
+    }
+
+    if (direction === "LR") {
+      const ys = rootJobs.map(node => node.position.y);
+      const centerY = (Math.min(...ys) + Math.max(...ys)) / 2;
+      triggerNodes.forEach((node, index) => {
+        node.position = {
+          x: ORIGIN_X,
+          y: centerY + (index - (triggerNodes.length - 1) / 2) * STEP_HEIGHT,
+        };
+      });
+      return;
+    }
+
+    const xs = rootJobs.map(node => node.position.x);
+    const centerX = (Math.min(...xs) + Math.max(...xs)) / 2;
+    triggerNodes.forEach((node, index) => {
+      node.position = {
+        x: centerX + (index - (triggerNodes.length - 1) / 2) * TRIGGER_SPACING,
+        y: TRIGGER_Y,
+      };
+    });
+  }
+
+  private static getJobBlockHeight(steps: VisualNode[] = []): number {
+    return steps.length > 0
+      ? JOB_TO_STEP_SPACING + (steps.length - 1) * STEP_HEIGHT + JOB_HEIGHT
+      : JOB_HEIGHT;
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { WORKFLOW_TEMPLATES } from "../data/default-workflows";
+import { WorkflowMapper } from "./workflow-mapper";
+import { WorkflowYaml } from "./workflow-yaml";
+
+describe("WorkflowMapper round trip", () => {
+  describe.each(Object.values(WORKFLOW_TEMPLATES))("$id template", template => {
+    // Workflow-level settings come from the base; jobs only from the nodes
+    const { nodes, edges } = WorkflowMapper.yamlToVisual(template.workflow);
+    const result = WorkflowMapper.visualToYaml(nodes, edges, {
+      ...template.workflow,
+      jobs: {},
+    });
+
+    it("keeps every field", () => {
+      expect(result).toEqual(template.workflow);
+    });
+
+    it("keeps job and step order", () => {
+      expect(Object.keys(result.jobs)).toEqual(
+        Object.keys(template.workflow.jobs)
+      );
+      Object.entries(template.workflow.jobs).forEach(([jobId, job]) => {
+        expect(result.jobs[jobId].steps?.map(step => step.name)).toEqual(
+          job.steps?.map(step => step.name)
+        );
+      });
+    });
+
+    it("matches the golden YAML", async () => {
+      await expect(WorkflowYaml.stringify(result)).toMatchFileSnapshot(
+        `./__golden__/${template.id}.yml`
+      );
+    });
+  });
+});
+
+describe("WorkflowMapper.findUnmappable", () => {
+  const parse = (yaml: string) => WorkflowYaml.parse(yaml);
+
+  it("accepts a complete workflow", () => {
+    expect(
+      WorkflowMapper.findUnmappable(
+        parse("on: push\njobs:\n  build:\n    steps:\n      - run: make\n")
+      )
+    ).toBeNull();
+  });
+
+  it("reports jobs, jobs and steps left empty while typing", () => {
+    expect(WorkflowMapper.findUnmappable(parse("on: push\njobs:\n"))).toEqual(
+      expect.objectContaining({ path: ["jobs"] })
+    );
+    expect(
+      WorkflowMapper.findUnmappable(parse("on: push\njobs:\n  build:\n"))
+    ).toEqual(expect.objectContaining({ path: ["jobs", "build"] }));
+    expect(
+      WorkflowMapper.findUnmappable(
+        parse(
+          "on: push\njobs:\n  build:\n    steps:\n      - run: make\n      -\n"
+        )
+      )
+    ).toEqual(expect.objectContaining({ path: ["jobs", "build", "steps", 1] }));
+  });
+
+  it("reports empty steps of a composite action", () => {
+    expect(
+      WorkflowMapper.findUnmappableInAction({
+        name: "Action",
+        description: "",
+        runs: { using: "composite", steps: [null as never] },
+      })
+    ).toEqual(expect.objectContaining({ path: ["runs", "steps", 0] }));
+  });
+});
@@ -1,33 +1,62 @@
 import type {
+  CompositeAction,
   GitHubWorkflow,
   VisualNode,
   VisualEdge,
+  NodeData,
   Job,
   Step,
+  WorkflowTriggers,
 } from "../types/github-actions";
 import { SIMPLE_WORKFLOW } from "../data/default-workflows";
+import type { YamlPath } from "./yaml-source-map";
+
+let nodeIdCounter = 0;
+
+/**
+ * Part of a workflow selected on the canvas that can be extracted: steps of
+ * one job, or whole jobs
+ */
+export type ExtractableSelection =
+  | { kind: "steps"; jobId: string; stepIndexes: number[] }
+  | { kind: "jobs"; jobIds: string[] };
+
+/**
+ * Part of a parsed document that cannot be shown on the canvas
+ */
+export interface UnmappableEntry {
+  path: YamlPath;
+  message: string;
+}
 
 /**
  * Utility class for mapping between GitHub Actions YAML and visual representation
  */
 export class WorkflowMapper {
   /**
-   * Convert a GitHub Actions workflow to visual nodes and edges
+   * Convert a GitHub Actions workflow to visual nodes and edges.
+   *
+   * Node IDs are opaque. When `previousNodes` is given, jobs keep the ID of
+   * the node with the same job key and steps keep the ID of an identical or
+   * same-position step, so selection and edge state survive a re-sync.
    */
-  static yamlToVisual(workflow: GitHubWorkflow): {
+  static yamlToVisual(
+    workflow: GitHubWorkflow,
+    previousNodes: VisualNode[] = []
+  ): {
     nodes: VisualNode[];
     edges: VisualEdge[];
   } {
     const nodes: VisualNode[] = [];
     const edges: VisualEdge[] = [];
 
-    // Improved layout for waterfall arrangement
+    // Initial positions; the store applies the layered layout afterwards
     let currentJobX = 150;
     const triggerY = 50;
-    const jobStartY = 300; // Increased from 200 to 300 for more vertical spacing
+    const jobStartY = 300;
     const jobSpacing = 400; // Horizontal space between job columns
     const stepHeight = 120; // Vertical space between step nodes
-    const jobToStepSpacing = 150; // Increased space between job and its first step for better edge visibility
+    const jobToStepSpacing = 150; // Space between job and its first step
 
     const getJobPosition = () => {
       const pos = { x: currentJobX, y: jobStartY };
@@ -52,9 +81,11 @@ export class WorkflowMapper {
     };
 
     // Create trigger node only if there are triggers defined
+    const triggerId =
+      previousNodes.find(node => node.type === "trigger")?.id || "trigger";
     if (workflow.on && Object.keys(workflow.on).length > 0) {
       const triggerNode: VisualNode = {
-        id: "trigger",
+        id: triggerId,
         type: "trigger",
         position: { x: 100, y: triggerY },
         data: {
@@ -69,42 +100,32 @@ export class WorkflowMapper {
       nodes.push(triggerNode);
     }
 
-    // Create job nodes and their dependencies
+    // Create job nodes in workflow order
     const jobIds = Object.keys(workflow.jobs);
-
-    // Separate jobs by dependency status - jobs without dependencies first
-    const jobsWithoutDependencies: string[] = [];
-    const jobsWithDependencies: string[] = [];
-
-    jobIds.forEach(jobId => {
-      const job = workflow.jobs[jobId];
-      if (
-        job.needs &&
-        (Array.isArray(job.needs) ? job.needs.length > 0 : job.needs)
-      ) {
-        jobsWithDependencies.push(jobId);
-      } else {
-        jobsWithoutDependencies.push(jobId);
-      }
-    });
-
-    // Combine arrays - independent jobs first, then dependent jobs
-    const orderedJobIds = [...jobsWithoutDependencies, ...jobsWithDependencies];
     const jobNodeMap = new Map<string, string>(); // jobId -> nodeId
 
-    orderedJobIds.forEach(jobId => {
+    jobIds.forEach(jobId => {
       const job = workflow.jobs[jobId];
-      const nodeId = `job-${jobId}`;
+      const previousJob = previousNodes.find(
+        node => this.isJobNode(node) && this.getJobKey(node) === jobId
+      );
+      // Jobs that call a reusable workflow get their own node type
+      const nodeType = job.uses ? "reusable" : "job";
+      const nodeId = previousJob?.id || this.createNodeId(nodeType);
       jobNodeMap.set(jobId, nodeId);
 
       const jobPosition = getJobPosition();
       const jobNode: VisualNode = {
         id: nodeId,
-        type: "job",
+        type: nodeType,
         position: jobPosition,
         data: {
           label: job.name || jobId,
+          jobId,
           job,
+          runsOn: Array.isArray(job["runs-on"])
+            ? job["runs-on"].join(", ")
+            : job["runs-on"],
           isValid: true,
           errors: [],
         },
@@ -112,67 +133,32 @@ export class WorkflowMapper {
       nodes.push(jobNode);
 
       // Create step nodes for this job in waterfall layout (center-aligned)
-      if (job.steps && job.steps.length > 0) {
-        job.steps.forEach((step, stepIndex) => {
-          const stepNodeId = `${nodeId}-step-${stepIndex}`;
-          const stepPosition = getStepPosition(jobPosition, stepIndex);
-
-          const stepNode: VisualNode = {
-            id: stepNodeId,
-            type: "step",
-            position: stepPosition,
-            data: {
-              label:
-                step.name ||
-                step.uses ||
-                step.run?.substring(0, 30) + "..." ||
-                `Step ${stepIndex + 1}`,
-              step,
-              // Add proper step node data for StepNode component
-              type: step.uses ? "action" : "run",
-              actionName: step.uses ? step.uses.split("@")[0] : undefined, // Extract action name without version
-              actionVersion: step.uses
-                ? step.uses.split("@")[1] || "latest"
-                : undefined,
-              runCommand: step.run || undefined,
-              shell: step.shell || undefined,
-              workingDirectory: step["working-directory"] || undefined,
-              continueOnError: step["continue-on-error"] || false,
-              condition: step.if || undefined,
-              isValid: true,
-              errors: [],
-            },
-          };
-          nodes.push(stepNode);
-
-          // Connect job to its first step, or previous step to current step
-          const sourceId =
-            stepIndex === 0 ? nodeId : `${nodeId}-step-${stepIndex - 1}`;
-          const edgeId = `${sourceId}-${stepNodeId}`;
-
-          edges.push({
-            id: edgeId,
-            source: sourceId,
-            target: stepNodeId,
-            sourceHandle: stepIndex === 0 ? "job-source" : "step-source",
-            targetHandle: "step-target",
-            type: "insertable",
-            animated: true,
-            style: {
-              stroke: "#10b981", // Green for step flow
-              strokeWidth: 2,
-              strokeDasharray: undefined, // Solid line
-            },
-            label: stepIndex === 0 ? "starts" : undefined,
-            labelStyle: { fontSize: 10, fontWeight: 600 },
-            labelBgStyle: { fill: "#10b981", fillOpacity: 0.1 },
-          });
-        });
-      }
+      const steps = job.steps || [];
+      const stepNodeIds = this.matchStepNodeIds(
+        steps,
+        previousJob ? this.getOrderedStepNodes(previousJob, previousNodes) : []
+      );
+
+      steps.forEach((step, stepIndex) => {
+        const stepNodeId = stepNodeIds[stepIndex];
+        nodes.push(
+          this.createStepNode(
+            stepNodeId,
+            step,
+            stepIndex,
+            nodeId,
+            getStepPosition(jobPosition, stepIndex)
+          )
+        );
+
+        // Connect job to its first step, or previous step to current step
+        const sourceId = stepIndex === 0 ? nodeId : stepNodeIds[stepIndex - 1];
+        edges.push(this.createStepEdge(sourceId, stepNodeId, stepIndex === 0));
+      });
     });
 
     // Create job dependency edges
-    orderedJobIds.forEach(jobId => {
+    jobIds.forEach(jobId => {
       const job = workflow.jobs[jobId];
       const targetNodeId = jobNodeMap.get(jobId)!;
 
@@ -208,8 +194,8 @@ export class WorkflowMapper {
       } else {
         // Connect trigger to jobs without dependencies
         edges.push({
-          id: `trigger-${targetNodeId}`,
-          source: "trigger",
+          id: `${triggerId}-${targetNodeId}`,
+          source: triggerId,
           target: targetNodeId,
           sourceHandle: "trigger-source",
           targetHandle: "job-target",
@@ -233,7 +219,7 @@ export class WorkflowMapper {
     });
 
     // Reposition trigger nodes to be centered relative to all jobs
-    const jobNodes = nodes.filter(n => n.type === "job");
+    const jobNodes = nodes.filter(n => this.isJobNode(n));
     const triggerNodes = nodes.filter(n => n.type === "trigger");
 
     if (jobNodes.length > 0 && triggerNodes.length > 0) {
@@ -253,135 +239,688 @@ export class WorkflowMapper {
   }
 
   /**
-   * Convert visual nodes and edges back to GitHub Actions workflow
+   * Convert a composite action to visual nodes: an action node holding the
+   * metadata, with the steps chained below it the way a job's steps are
+   */
+  static actionToVisual(
+    action: CompositeAction,
+    previousNodes: VisualNode[] = []
+  ): {
+    nodes: VisualNode[];
+    edges: VisualEdge[];
+  } {
+    const previousAction = previousNodes.find(node => node.type === "action");
+    const actionNodeId = previousAction?.id || this.createNodeId("action");
+    const position = { x: 150, y: 50 };
+    const { runs, ...metadata } = action;
+
+    const nodes: VisualNode[] = [
+      {
+        id: actionNodeId,
+        type: "action",
+        position,
+        // Every composite action has exactly one root
+        deletable: false,
+        data: {
+          label: action.name || "Composite action",
+          compositeAction: { ...metadata, runs: { ...runs, steps: [] } },
+          isValid: true,
+          errors: [],
+        },
+      },
+    ];
+    const edges: VisualEdge[] = [];
+
+    const steps = runs?.steps || [];
+    const stepNodeIds = this.matchStepNodeIds(
+      steps,
+      previousAction
+        ? this.getOrderedStepNodes(previousAction, previousNodes)
+        : []
+    );
+    steps.forEach((step, stepIndex) => {
+      nodes.push(
+        this.createStepNode(
+          stepNodeIds[stepIndex],
+          step,
+          stepIndex,
+          actionNodeId,
+          { x: position.x + 20, y: position.y + 150 + stepIndex * 120 }
+        )
+      );
+      const sourceId =
+        stepIndex === 0 ? actionNodeId : stepNodeIds[stepIndex - 1];
+      edges.push(
+        this.createStepEdge(sourceId, stepNodeIds[stepIndex], stepIndex === 0)
+      );
+    });
+
+    return { nodes, edges };
+  }
+
+  /**
+   * First entry of a workflow that `yamlToVisual` cannot map, such as a
+   * `jobs:` or a job left empty while typing
+   */
+  static findUnmappable(workflow: GitHubWorkflow): UnmappableEntry | null {
+    const jobs: unknown = workflow.jobs;
+    if (!isRecord(jobs)) {
+      return { path: ["jobs"], message: "'jobs' must be a mapping of jobs" };
+    }
+    for (const [jobId, job] of Object.entries(jobs)) {
+      if (!isRecord(job)) {
+        return {
+          path: ["jobs", jobId],
+          message: `Job '${jobId}' must be a mapping`,
+        };
+      }
+      const problem = this.findUnmappableSteps(job.steps, ["jobs", jobId]);
+      if (problem) {
+        return problem;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * First entry of a composite action that `actionToVisual` cannot map
+   */
+  static findUnmappableInAction(
+    action: CompositeAction
+  ): UnmappableEntry | null {
+    return this.findUnmappableSteps(action.runs.steps, ["runs"]);
+  }
+
+  private static findUnmappableSteps(
+    steps: unknown,
+    parentPath: YamlPath
+  ): UnmappableEntry | null {
+    if (steps === undefined || steps === null) {
+      return null;
+    }
+    if (!Array.isArray(steps)) {
+      return {
+        path: [...parentPath, "steps"],
+        message: "'steps' must be a list of steps",
+      };
+    }
+    const index = steps.findIndex(step => !isRecord(step));
+    return index === -1
+      ? null
+      : {
+          path: [...parentPath, "steps", index],
+          message: `Step ${index + 1} must be a mapping`,
+        };
+  }
+
+  /**
+   * Convert the action node and its steps back to a composite action. The
+   * metadata comes from the action node, or `baseAction` when there is none.
+   */
+  static visualToAction(
+    nodes: VisualNode[],
+    baseAction: CompositeAction
+  ): CompositeAction {
+    const actionNode = nodes.find(node => node.type === "action");
+    const metadata = actionNode?.data.compositeAction || baseAction;
+    const steps = actionNode
+      ? this.getOrderedStepNodes(actionNode, nodes).map(stepNode =>
+          this.getStepFromNode(stepNode)
+        )
+      : [];
+
+    return {
+      ...metadata,
+      runs: { ...metadata.runs, using: "composite", steps },
+    };
+  }
+
+  /**
+   * Step node for the step at `order` within its job or action
+   */
+  private static createStepNode(
+    id: string,
+    step: Step,
+    order: number,
+    parentJobId: string,
+    position: { x: number; y: number }
+  ): VisualNode {
+    return {
+      id,
+      type: "step",
+      position,
+      data: {
+        label:
+          step.name ||
+          step.uses ||
+          step.run?.substring(0, 30) + "..." ||
+          `Step ${order + 1}`,
+        parentJobId,
+        order,
+        step,
+        // Add proper step node data for StepNode component
+        type: step.uses ? "action" : "run",
+        actionName: step.uses ? step.uses.split("@")[0] : undefined, // Extract action name without version
+        actionVersion: step.uses
+          ? step.uses.split("@")[1] || "latest"
+          : undefined,
+        runCommand: step.run || undefined,
+        shell: step.shell || undefined,
+        workingDirectory: step["working-directory"] || undefined,
+        continueOnError: step["continue-on-error"] || false,
+        condition: step.if || undefined,
+        isValid: true,
+        errors: [],
+      },
+    };
+  }
+
+  /**
+   * Pick node IDs for a job's steps, reusing previous step nodes: identical
+   * steps first, then whatever is left at the same position
+   */
+  private static matchStepNodeIds(
+    steps: Step[],
+    previousSteps: VisualNode[]
+  ): string[] {
+    const used = new Set<string>();
+    const ids: (string | undefined)[] = steps.map(step => {
+      const match = previousSteps.find(
+        node =>
+          !used.has(node.id) &&
+          JSON.stringify(node.data.step) === JSON.stringify(step)
+      );
+      if (match) {
+        used.add(match.id);
+      }
+      return match?.id;
+    });
+
+    return ids.map((id, index) => {
+      if (id) {
+        return id;
+      }
+      const samePosition = previousSteps[index];
+      if (samePosition && !used.has(samePosition.id)) {
+        used.add(samePosition.id);
+        return samePosition.id;
+      }
+      return this.createNodeId("step");
+    });
+  }
+
+  /**
+   * Convert visual nodes and edges back to GitHub Actions workflow.
+   *
+   * Job and step objects stored on the nodes are the source of truth, so
+   * every field survives a yamlToVisual -> visualToYaml round trip. Only
+   * `needs` and `steps` are rebuilt from the graph. Jobs are keyed by their
+   * `jobId` and keep node order; workflow-level settings are taken from
+   * `baseWorkflow` when given.
    */
   static visualToYaml(
     nodes: VisualNode[],
-    edges: VisualEdge[]
+    edges: VisualEdge[],
+    baseWorkflow?: GitHubWorkflow
   ): GitHubWorkflow {
     const triggerNode = nodes.find(node => node.type === "trigger");
-    const jobNodes = nodes.filter(node => node.type === "job");
-    const stepNodes = nodes.filter(node => node.type === "step");
+    const jobNodes = nodes.filter(node => this.isJobNode(node));
 
-    // Build workflow structure
+    // Build workflow structure, keeping workflow-level settings in place
     const workflow: GitHubWorkflow = {
-      name: "Generated Workflow",
-      on: triggerNode?.data.trigger || { push: { branches: ["main"] } },
+      ...baseWorkflow,
+      on: triggerNode
+        ? (triggerNode.data.trigger as WorkflowTriggers) ||
+          baseWorkflow?.on ||
+          {}
+        : {},
       jobs: {},
     };
 
     // Process job nodes
     jobNodes.forEach(jobNode => {
-      const jobId = jobNode.id.replace("job-", "");
+      const jobId = this.getJobKey(jobNode);
+      const orderedSteps = this.getOrderedStepNodes(jobNode, nodes);
+
+      const job = this.getJobFromNode(jobNode);
+
+      // Find job dependencies
+      const needs = edges
+        .filter(edge => edge.target === jobNode.id)
+        .map(edge => jobNodes.find(node => node.id === edge.source))
+        .filter((node): node is VisualNode => !!node)
+        .map(node => this.getJobKey(node))
+        .filter(sourceJobId => sourceJobId !== jobId);
 
-      // Find steps for this job
-      const jobStepFilter = stepNodes.filter(stepNode => {
-        return stepNode.id.startsWith(`${jobNode.id}-step-`);
+      // Dependencies on jobs that never existed have no edge; keep them so
+      // the validator can still report them
+      const originalNeeds = job.needs
+        ? Array.isArray(job.needs)
+          ? job.needs
+          : [job.needs]
+        : [];
+      originalNeeds.forEach(dependency => {
+        const isKnownJob =
+          jobNodes.some(node => this.getJobKey(node) === dependency) ||
+          (baseWorkflow?.jobs && dependency in baseWorkflow.jobs);
+        if (!isKnownJob && !needs.includes(dependency)) {
+          needs.push(dependency);
+        }
       });
 
-      // Order steps based on edge connections instead of ID sorting
-      const orderedSteps: VisualNode[] = [];
+      // Keep the original shape of `needs` (string vs list)
+      let needsValue: Job["needs"];
+      if (needs.length === 1 && !Array.isArray(job.needs)) {
+        needsValue = needs[0];
+      } else if (needs.length > 0) {
+        needsValue = needs;
+      }
 
-      if (jobStepFilter.length > 0) {
-        // Find the first step (connected directly from the job)
-        const firstStepEdge = edges.find(
-          edge =>
-            edge.source === jobNode.id &&
-            edge.target.startsWith(`${jobNode.id}-step-`)
+      // Jobs without step nodes keep `steps` only if they had the key
+      let stepsValue: Step[] | undefined;
+      if (orderedSteps.length > 0) {
+        stepsValue = orderedSteps.map(stepNode =>
+          this.getStepFromNode(stepNode)
         );
+      } else if ("steps" in job) {
+        stepsValue = [];
+      }
+
+      workflow.jobs[jobId] = this.replaceFields(job, {
+        needs: needsValue,
+        steps: stepsValue,
+      }) as Job;
+    });
+
+    return workflow;
+  }
+
+  /**
+   * Get the step nodes of a job in execution order
+   */
+  static getOrderedStepNodes(
+    jobNode: VisualNode,
+    nodes: VisualNode[]
+  ): VisualNode[] {
+    return nodes
+      .filter(
+        node => node.type === "step" && node.data.parentJobId === jobNode.id
+      )
+      .sort((a, b) => this.getStepOrder(a) - this.getStepOrder(b));
+  }
+
+  /**
+   * Whether a node represents an entry in `jobs`: a job with steps or a job
+   * that calls a reusable workflow
+   */
+  static isJobNode(node: VisualNode): boolean {
+    return node.type === "job" || node.type === "reusable";
+  }
+
+  /**
+   * Whether a node owns step nodes: a job, or the root of a composite action
+   */
+  static hasSteps(node: VisualNode): boolean {
+    return node.type === "job" || node.type === "action";
+  }
+
+  /**
+   * The selected nodes as steps of one job or as jobs; null when nothing
+   * extractable is selected or the selection mixes the two
+   */
+  static getExtractableSelection(
+    nodes: VisualNode[]
+  ): ExtractableSelection | null {
+    const selected = nodes.filter(node => node.selected);
+    if (selected.length === 0) {
+      return null;
+    }
+
+    if (selected.every(node => this.isJobNode(node))) {
+      return {
+        kind: "jobs",
+        jobIds: selected.map(node => this.getJobKey(node)),
+      };
+    }
+
+    const parentIds = new Set(selected.map(node => node.data.parentJobId));
+    const parent = nodes.find(node => parentIds.has(node.id));
+    if (
+      parentIds.size !== 1 ||
+      parent?.type !== "job" ||
+      !selected.every(node => node.type === "step")
+    ) {
+      return null;
+    }
+    return {
+      kind: "steps",
+      jobId: this.getJobKey(parent),
+      stepIndexes: selected.map(node => node.data.order ?? -1),
+    };
+  }
+
+  /**
+   * The node that shows the entry at a YAML path, e.g. the step node for
+   * `["jobs", "build", "steps", 2, "run"]`. Workflow-level keys map to the
+   * trigger node and composite action keys to the action node.
+   */
+  static getNodeForPath(
+    nodes: VisualNode[],
+    path: (string | number)[]
+  ): VisualNode | null {
+    const actionNode = nodes.find(node => node.type === "action");
+    const parent = actionNode
+      ? actionNode
+      : path[0] === "jobs" && path.length > 1
+        ? nodes.find(
+            node => this.isJobNode(node) && this.getJobKey(node) === path[1]
+          )
+        : undefined;
+    const stepsIndex = actionNode ? 1 : 2;
+
+    if (!parent) {
+      return path.length > 0 && path[0] !== "jobs"
+        ? nodes.find(node => node.type === "trigger") || null
+        : null;
+    }
+    if (
+      path[stepsIndex] === "steps" &&
+      typeof path[stepsIndex + 1] === "number" &&
+      (!actionNode || path[0] === "runs")
+    ) {
+      const step = this.getOrderedStepNodes(parent, nodes).find(
+        node => node.data.order === path[stepsIndex + 1]
+      );
+      if (step) {
+        return step;
+      }
+    }
+    return parent;
+  }
+
+  /**
+   * YAML path of the entry a node shows; the inverse of getNodeForPath
+   */
+  static getNodePath(
+    nodes: VisualNode[],
+    nodeId: string
+  ): (string | number)[] | null {
+    const node = nodes.find(candidate => candidate.id === nodeId);
+    if (!node) {
+      return null;
+    }
+    if (node.type === "trigger") {
+      return ["on"];
+    }
+    if (node.type === "action") {
+      return [];
+    }
+    if (this.isJobNode(node)) {
+      return ["jobs", this.getJobKey(node)];
+    }
+
+    const parent = nodes.find(
+      candidate => candidate.id === node.data.parentJobId
+    );
+    if (!parent || node.data.order === undefined) {
+      return null;
+    }
+    return parent.type === "action"
+      ? ["runs", "steps", node.data.order]
+      : ["jobs", this.getJobKey(parent), "steps", node.data.order];
+  }
+
+  /**
+   * Key of a job node in `jobs`. Nodes saved before job keys were stored on
+   * the node fall back to the key encoded in their ID.
+   */
+  static getJobKey(node: VisualNode): string {
+    return node.data.jobId || node.id.replace(/^job-/, "");
+  }
+
+  /**
+   * Create an opaque node ID. IDs never encode job keys or positions, so
+   * they stay valid when jobs are renamed or steps are reordered.
+   */
+  static createNodeId(type: VisualNode["type"]): string {
+    nodeIdCounter += 1;
+    return `${type}-${Date.now().toString(36)}-${nodeIdCounter.toString(36)}`;
+  }
+
+  /**
+   * Fill in structure metadata for nodes added on the canvas and rebuild the
+   * job-to-step chain edges from it. Job nodes get a unique job key, steps
+   * connected to a job or step are adopted by that job, and the steps of
+   * every job are renumbered. Returns the input arrays when nothing changed.
+   */
+  static normalizeGraph(
+    nodes: VisualNode[],
+    edges: VisualEdge[]
+  ): { nodes: VisualNode[]; edges: VisualEdge[] } {
+    let changed = false;
+    const result = [...nodes];
+    const update = (index: number, data: Partial<NodeData>) => {
+      result[index] = {
+        ...result[index],
+        data: { ...result[index].data, ...data },
+      };
+      changed = true;
+    };
 
-        if (firstStepEdge) {
-          let currentStepId: string | null = firstStepEdge.target;
-
-          // Follow the chain of step connections
-          while (currentStepId) {
-            const currentStep = jobStepFilter.find(
-              step => step.id === currentStepId
-            );
-            if (currentStep) {
-              orderedSteps.push(currentStep);
-
-              // Find the next step in the chain
-              const nextStepEdge = edges.find(
-                edge =>
-                  edge.source === currentStepId &&
-                  edge.target.startsWith(`${jobNode.id}-step-`)
-              );
-              currentStepId = nextStepEdge?.target || null;
+    // Give new jobs a key derived from their label; a key used twice stays
+    // with the first job that has it
+    const usedKeys = new Set(
+      result.flatMap(node =>
+        this.isJobNode(node) && node.data.jobId ? [node.data.jobId] : []
+      )
+    );
+    const claimedKeys = new Set<string>();
+    result.forEach((node, index) => {
+      if (!this.isJobNode(node)) {
+        return;
+      }
+      const { jobId } = node.data;
+      if (jobId && !claimedKeys.has(jobId)) {
+        claimedKeys.add(jobId);
+        return;
+      }
+      const key = this.createJobKey(jobId || node.data.label, usedKeys);
+      usedKeys.add(key);
+      claimedKeys.add(key);
+      update(index, { jobId: key });
+    });
+
+    // Adopt steps that were connected on the canvas, following chains of
+    // new steps until nothing changes
+    const isJob = (id: unknown) =>
+      result.some(node => this.hasSteps(node) && node.id === id);
+    let adopted = true;
+    while (adopted) {
+      adopted = false;
+      result.forEach((node, index) => {
+        if (node.type !== "step" || isJob(node.data.parentJobId)) {
+          return;
+        }
+        edges
+          .filter(edge => edge.target === node.id)
+          .some(edge => {
+            const source = result.find(item => item.id === edge.source);
+            if (source && this.hasSteps(source)) {
+              update(index, { parentJobId: source.id, order: Infinity });
+            } else if (
+              source?.type === "step" &&
+              isJob(source.data.parentJobId)
+            ) {
+              update(index, {
+                parentJobId: source.data.parentJobId,
+                order: this.getStepOrder(source) + 0.5,
+              });
             } else {
-              break;
+              return false;
             }
+            adopted = true;
+            return true;
+          });
+      });
+    }
+
+    // Renumber steps and rebuild their chain edges
+    const stepEdges: VisualEdge[] = [];
+    const stepIds = new Set<string>();
+    result
+      .filter(node => this.hasSteps(node))
+      .forEach(jobNode => {
+        const steps = this.getOrderedStepNodes(jobNode, result);
+        steps.forEach((stepNode, order) => {
+          stepIds.add(stepNode.id);
+          if (stepNode.data.order !== order) {
+            update(result.indexOf(stepNode), { order });
           }
-        }
 
-        // Add any remaining steps that weren't connected (fallback)
-        const remainingSteps = jobStepFilter.filter(
-          step => !orderedSteps.find(ordered => ordered.id === step.id)
-        );
-        orderedSteps.push(...remainingSteps);
-      }
+          const sourceId = order === 0 ? jobNode.id : steps[order - 1].id;
+          stepEdges.push(
+            edges.find(
+              edge => edge.source === sourceId && edge.target === stepNode.id
+            ) || this.createStepEdge(sourceId, stepNode.id, order === 0)
+          );
+        });
+      });
 
-      const jobSteps = orderedSteps
-        .map(stepNode => {
-          return stepNode.data.step!;
-        })
-        .filter(Boolean);
+    // Edges into unowned steps are kept so they can still be adopted
+    const otherEdges = edges.filter(edge => !stepIds.has(edge.target));
+    const nextEdges = [...otherEdges, ...stepEdges];
+    const edgesChanged =
+      nextEdges.length !== edges.length ||
+      nextEdges.some(edge => !edges.includes(edge));
 
-      // Find job dependencies
-      const dependencyEdges = edges.filter(
-        edge => edge.target === jobNode.id && edge.source !== "trigger"
-      );
-      const needs = dependencyEdges
-        .map(edge => edge.source.replace("job-", ""))
-        .filter(sourceJobId => sourceJobId !== jobId);
+    return {
+      nodes: changed ? result : nodes,
+      edges: edgesChanged ? nextEdges : edges,
+    };
+  }
 
-      // Build job object from node data or fallback to nested job object
-      const existingJobData =
-        (jobNode.data.job as unknown as Record<string, unknown>) || {};
-      const jobData = {
-        ...existingJobData, // Include any other existing properties first
-        // Override with current node data values
-        name: jobNode.data.label as string,
-        "runs-on": (jobNode.data.runsOn as string) || "ubuntu-latest",
-        steps: (existingJobData.steps as Step[]) || [
-          {
-            name: "Checkout code",
-            uses: "actions/checkout@v4",
-          },
-        ],
+  /**
+   * Edge from a job to its first step, or from a step to the next one
+   */
+  static createStepEdge(
+    sourceId: string,
+    targetId: string,
+    isFirstStep: boolean
+  ): VisualEdge {
+    return {
+      id: `${sourceId}-${targetId}`,
+      source: sourceId,
+      target: targetId,
+      sourceHandle: isFirstStep ? "job-source" : "step-source",
+      targetHandle: "step-target",
+      type: "insertable",
+      animated: true,
+      style: {
+        stroke: "#10b981", // Green for step flow
+        strokeWidth: 2,
+        strokeDasharray: undefined, // Solid line
+      },
+      label: isFirstStep ? "starts" : undefined,
+      labelStyle: { fontSize: 10, fontWeight: 600 },
+      labelBgStyle: { fill: "#10b981", fillOpacity: 0.1 },
+    };
+  }
+
+  private static getStepOrder(node: VisualNode): number {
+    return typeof node.data.order === "number" ? node.data.order : Infinity;
+  }
+
+  /**
+   * Unique job key in the `jobs` map, e.g. "Run tests" -> "run-tests"
+   */
+  private static createJobKey(label: string, usedKeys: Set<string>): string {
+    const base =
+      label
+        .toLowerCase()
+        .replace(/[^a-z0-9_-]+/g, "-")
+        .replace(/^[^a-z_]+|-+$/g, "") || "job";
+
+    let key = base;
+    for (let suffix = 2; usedKeys.has(key); suffix++) {
+      key = `${base}-${suffix}`;
+    }
+    return key;
+  }
+
+  /**
+   * Get the job object represented by a job node. Nodes created on the canvas
+   * before a job object was attached fall back to their display fields.
+   */
+  static getJobFromNode(node: VisualNode): Job {
+    if (node.data.job) {
+      return { ...node.data.job };
+    }
+
+    if (node.type === "reusable") {
+      return {
+        name: node.data.label,
+        uses: (node.data.uses as string) || "",
       };
+    }
 
-      // Add optional properties if they exist
-      const jobConfig: Record<string, unknown> = { ...jobData };
+    return {
+      name: node.data.label,
+      "runs-on": (node.data.runsOn as string) || "ubuntu-latest",
+      steps: [],
+    };
+  }
 
-      if (jobNode.data.timeoutMinutes) {
-        jobConfig["timeout-minutes"] = jobNode.data.timeoutMinutes as number;
-      }
+  /**
+   * Get the step object represented by a step node
+   */
+  static getStepFromNode(node: VisualNode): Step {
+    if (node.data.step) {
+      return { ...node.data.step };
+    }
 
-      if (jobNode.data.strategy) {
-        jobConfig.strategy = jobNode.data.strategy as string;
-      }
+    const step: Step = { name: node.data.label };
+    const actionName = node.data.actionName as string | undefined;
+    const actionVersion = node.data.actionVersion as string | undefined;
+    const runCommand = node.data.runCommand as string | undefined;
+
+    if (node.data.type === "action" && actionName) {
+      step.uses =
+        actionVersion && !actionName.includes("@")
+          ? `${actionName}@${actionVersion}`
+          : actionName;
+    } else if (runCommand) {
+      step.run = runCommand;
+    }
 
-      if (jobNode.data.environment) {
-        jobConfig.environment = jobNode.data.environment as string;
-      }
+    return step;
+  }
 
-      if (jobNode.data.permissions) {
-        jobConfig.permissions = jobNode.data.permissions as string;
+  /**
+   * Replace fields in place, keeping key order; undefined removes the field
+   */
+  private static replaceFields<T extends object>(
+    source: T,
+    updates: Record<string, unknown>
+  ): T {
+    const result: Record<string, unknown> = {};
+
+    Object.entries(source).forEach(([key, value]) => {
+      if (key in updates) {
+        if (updates[key] !== undefined) {
+          result[key] = updates[key];
+        }
+      } else {
+        result[key] = value;
       }
+    });
 
-      workflow.jobs[jobId] = {
-        name: jobConfig.name as string,
-        "runs-on": jobConfig["runs-on"] as string,
-        ...jobConfig,
-        steps: jobSteps.length > 0 ? jobSteps : (jobConfig.steps as Step[]),
-        ...(needs.length > 0 && {
-          needs: needs.length === 1 ? needs[0] : needs,
-        }),
-      } as Job;
+    Object.entries(updates).forEach(([key, value]) => {
+      if (!(key in result) && !(key in source) && value !== undefined) {
+        result[key] = value;
+      }
     });
 
-    return workflow;
+    return result as T;
   }
 
   /**
@@ -455,7 +994,7 @@ export class WorkflowMapper {
     // This would integrate with the JOB_TEMPLATES from github-actions.ts
     // For now, return a basic job node
     return {
-      id: `job-${Date.now()}`,
+      id: this.createNodeId("job"),
       type: "job",
       position,
       data: {
@@ -486,7 +1025,7 @@ export class WorkflowMapper {
     // This would integrate with the STEP_TEMPLATES from github-actions.ts
     // For now, return a basic step node
     return {
-      id: `step-${Date.now()}`,
+      id: this.createNodeId("step"),
       type: "step",
       position,
       data: {
@@ -503,85 +1042,10 @@ export class WorkflowMapper {
       },
     };
   }
+}
 
-  /**
-   * Apply waterfall layout to nodes - reusable function for consistent positioning
-   */
-  static applyWaterfallLayout(nodes: VisualNode[]): VisualNode[] {
-    const layoutNodes = [...nodes];
-    const jobNodes = layoutNodes.filter(n => n.type === "job");
-    const stepNodes = layoutNodes.filter(n => n.type === "step");
-    const triggerNodes = layoutNodes.filter(n => n.type === "trigger");
-
-    // Layout constants - improved spacing for better edge visibility
-    let currentJobX = 150;
-    const triggerY = 50;
-    const jobStartY = 300; // Increased from 200 to 300 for more vertical spacing
-    const jobSpacing = 400; // Horizontal space between job columns
-    const stepHeight = 120; // Vertical space between step nodes
-    const jobToStepSpacing = 150; // Increased space between job and its first step for better edge visibility
-
-    // Position job nodes horizontally with proper spacing first to calculate total width
-    jobNodes.forEach(node => {
-      node.position = {
-        x: currentJobX,
-        y: jobStartY,
-      };
-      currentJobX += jobSpacing;
-    });
-
-    // Calculate the center position for trigger nodes based on job positions
-    if (jobNodes.length > 0) {
-      const firstJobX = jobNodes[0].position.x;
-      const lastJobX = jobNodes[jobNodes.length - 1].position.x;
-      const centerX = (firstJobX + lastJobX) / 2;
-
-      // Position trigger nodes at the center relative to all jobs
-      triggerNodes.forEach((node, index) => {
-        node.position = {
-          x: centerX + (index - (triggerNodes.length - 1) / 2) * 200, // Center and spread triggers
-          y: triggerY,
-        };
-      });
-    } else {
-      // Fallback if no jobs exist
-      triggerNodes.forEach((node, index) => {
-        node.position = {
-          x: 100 + index * 200,
-          y: triggerY,
-        };
-      });
-    }
-
-    // Position step nodes in waterfall under their parent jobs (center-aligned)
-    stepNodes.forEach(stepNode => {
-      const jobId = stepNode.id.split("-step-")[0];
-      const stepIndex = parseInt(stepNode.id.split("-step-")[1]);
-      const parentJob = jobNodes.find(job => job.id === jobId);
-
-      if (parentJob) {
-        // Calculate center alignment: job is 180px wide, step is 140px wide
-        // So we need to offset step by (180-140)/2 = 20px to center it
-        const jobWidth = 180;
-        const stepWidth = 140;
-        const centerOffset = (jobWidth - stepWidth) / 2;
-
-        stepNode.position = {
-          x: parentJob.position.x + centerOffset, // Center-align under job
-          y: parentJob.position.y + jobToStepSpacing + stepIndex * stepHeight, // Waterfall layout
-        };
-      }
-    });
-
-    return layoutNodes;
-  }
-
-  /**
-   * Validate and update node positions using waterfall layout
-   */
-  static optimizeNodeLayout(nodes: VisualNode[]): VisualNode[] {
-    return this.applyWaterfallLayout(nodes);
-  }
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
 /**
@@ -594,6 +1058,10 @@ export function workflowToVisual(workflow: GitHubWorkflow) {
 /**
  * Helper function to quickly convert visual to YAML
  */
-export function visualToWorkflow(nodes: VisualNode[], edges: VisualEdge[]) {
-  return WorkflowMapper.visualToYaml(nodes, edges);
+export function visualToWorkflow(
+  nodes: VisualNode[],
+  edges: VisualEdge[],
+  baseWorkflow?: GitHubWorkflow
+) {
+  return WorkflowMapper.visualToYaml(nodes, edges, baseWorkflow);
 }
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import type { GitHubWorkflow } from "../types/github-actions";
+import { RefactoringError, WorkflowRefactoring } from "./workflow-refactoring";
+
+const PUBLISH_WORKFLOW: GitHubWorkflow = {
+  name: "Release",
+  on: { push: {} },
+  jobs: {
+    release: {
+      "runs-on": "ubuntu-latest",
+      strategy: { matrix: { tag: ["latest", "next"] } },
+      steps: [
+        { uses: "actions/checkout@v4" },
+        { id: "version", run: "echo v=1 >> $GITHUB_OUTPUT" },
+        {
+          name: "Publish",
+          run: "npm publish --tag ${{ matrix.tag }}",
+          env: { TOKEN: "${{ secrets.NPM_TOKEN }}" },
+        },
+        {
+          id: "deploy",
+          run: "deploy ${{ steps.version.outputs.v }} ${{ github.sha }}",
+        },
+        { run: "echo ${{ steps.deploy.outputs.url }}" },
+      ],
+    },
+  },
+};
+
+const BUILD_WORKFLOW: GitHubWorkflow = {
+  name: "CI",
+  on: {
+    workflow_dispatch: {
+      inputs: { "dry-run": { description: "Dry run", type: "boolean" } },
+    },
+  },
+  jobs: {
+    setup: {
+      "runs-on": "ubuntu-latest",
+      outputs: { version: "${{ steps.v.outputs.version }}" },
+      steps: [{ id: "v", run: "echo version=1 >> $GITHUB_OUTPUT" }],
+    },
+    build: {
+      needs: "setup",
+      "runs-on": "ubuntu-latest",
+      outputs: { artifact: "${{ steps.b.outputs.name }}" },
+      steps: [
+        {
+          id: "b",
+          run: "make ${{ needs.setup.outputs.version }} ${{ inputs.dry-run }}",
+          env: {
+            TOKEN: "${{ secrets.DEPLOY_TOKEN }}",
+            GH_TOKEN: "${{ secrets.GITHUB_TOKEN }}",
+          },
+        },
+      ],
+    },
+    publish: {
+      needs: "build",
+      "runs-on": "ubuntu-latest",
+      steps: [{ run: "publish ${{ needs.build.outputs.artifact }}" }],
+    },
+  },
+};
+
+describe("WorkflowRefactoring.extractCompositeAction", () => {
+  const extraction = WorkflowRefactoring.extractCompositeAction(
+    PUBLISH_WORKFLOW,
+    "release",
+    [2, 3],
+    "Publish package"
+  );
+
+  it("passes caller contexts into the action as inputs", () => {
+    expect(extraction.path).toBe(".github/actions/publish-package/action.yml");
+    expect(Object.keys(extraction.action.inputs || {}).sort()).toEqual([
+      "npm_token",
+      "tag",
+      "version-v",
+    ]);
+    expect(extraction.action.runs.steps).toEqual([
+      {
+        name: "Publish",
+        run: "npm publish --tag ${{ inputs.tag }}",
+        env: { TOKEN: "${{ inputs.npm_token }}" },
+        shell: "bash",
+      },
+      {
+        id: "deploy",
+        run: "deploy ${{ inputs.version-v }} ${{ github.sha }}",
+        shell: "bash",
+      },
+    ]);
+  });
+
+  it("calls the action with the values it reads", () => {
+    expect(extraction.workflow.jobs.release.steps?.[2]).toEqual({
+      id: "publish-package",
+      name: "Publish package",
+      uses: "./.github/actions/publish-package",
+      with: {
+        tag: "${{ matrix.tag }}",
+        npm_token: "${{ secrets.NPM_TOKEN }}",
+        "version-v": "${{ steps.version.outputs.v }}",
+      },
+    });
+  });
+
+  it("turns outputs read by later steps into action outputs", () => {
+    expect(extraction.action.outputs).toEqual({
+      url: { value: "${{ steps.deploy.outputs.url }}" },
+    });
+    expect(extraction.workflow.jobs.release.steps?.[3]).toEqual({
+      run: "echo ${{ steps.publish-package.outputs.url }}",
+    });
+  });
+
+  it("gives run steps the job's default shell", () => {
+    const { action } = WorkflowRefactoring.extractCompositeAction(
+      { ...PUBLISH_WORKFLOW, defaults: { run: { shell: "pwsh" } } },
+      "release",
+      [1],
+      "Version"
+    );
+    expect(action.runs.steps[0].shell).toBe("pwsh");
+  });
+
+  it("rejects steps that are not next to each other", () => {
+    expect(() =>
+      WorkflowRefactoring.extractCompositeAction(
+        PUBLISH_WORKFLOW,
+        "release",
+        [1, 3],
+        "Broken"
+      )
+    ).toThrow(RefactoringError);
+  });
+});
+
+describe("WorkflowRefactoring.extractReusableWorkflow", () => {
+  const extraction = WorkflowRefactoring.extractReusableWorkflow(
+    BUILD_WORKFLOW,
+    ["build"],
+    "Build and test"
+  );
+
+  it("declares caller contexts as inputs and secrets", () => {
+    expect(extraction.path).toBe(".github/workflows/build-and-test.yml");
+    expect(extraction.extracted.on.workflow_call).toEqual({
+      inputs: {
+        "setup-version": {
+          description: "Value of needs.setup.outputs.version",
+          required: true,
+          type: "string",
+        },
+        "dry-run": { description: "Dry run", required: true, type: "boolean" },
+      },
+      outputs: {
+        artifact: { value: "${{ jobs.build.outputs.artifact }}" },
+      },
+      secrets: { DEPLOY_TOKEN: { required: true } },
+    });
+    const { needs, steps } = extraction.extracted.jobs.build;
+    expect(needs).toBeUndefined();
+    expect(steps?.[0].run).toBe(
+      "make ${{ inputs.setup-version }} ${{ inputs.dry-run }}"
+    );
+    expect(steps?.[0].env?.GH_TOKEN).toBe("${{ secrets.GITHUB_TOKEN }}");
+  });
+
+  it("calls the workflow in place of the extracted jobs", () => {
+    const { jobs } = extraction.workflow;
+    expect(extraction.jobId).toBe("build-and-test");
+    expect(Object.keys(jobs)).toEqual(["setup", "build-and-test", "publish"]);
+    expect(jobs["build-and-test"]).toEqual({
+      name: "Build and test",
+      needs: "setup",
+      uses: "./.github/workflows/build-and-test.yml",
+      with: {
+        "setup-version": "${{ needs.setup.outputs.version }}",
+        "dry-run": "${{ inputs.dry-run }}",
+      },
+      secrets: { DEPLOY_TOKEN: "${{ secrets.DEPLOY_TOKEN }}" },
+    });
+    expect(jobs.publish.needs).toBe("build-and-test");
+    expect(jobs.publish.steps?.[0].run).toBe(
+      "publish ${{ needs.build-and-test.outputs.artifact }}"
+    );
+  });
+
+  it("keeps needs between extracted jobs", () => {
+    const { extracted, workflow } = WorkflowRefactoring.extractReusableWorkflow(
+      BUILD_WORKFLOW,
+      ["setup", "build"],
+      "Build"
+    );
+    expect(extracted.jobs.build.needs).toBe("setup");
+    expect(extracted.jobs.build.steps?.[0].run).toBe(
+      "make ${{ needs.setup.outputs.version }} ${{ inputs.dry-run }}"
+    );
+    expect(Object.keys(workflow.jobs)).toEqual(["build", "publish"]);
+  });
+});
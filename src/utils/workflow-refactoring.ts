@@ -0,0 +1,545 @@
+import type {
+  CompositeAction,
+  CompositeActionInput,
+  GitHubWorkflow,
+  Job,
+  Step,
+  WorkflowCallTrigger,
+  WorkflowInput,
+} from "../types/github-actions";
+import {
+  ExpressionParser,
+  getContextReferences,
+} from "./github-actions-expressions";
+import type { ContextReference } from "./github-actions-expressions";
+
+export class RefactoringError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefactoringError";
+  }
+}
+
+export interface CompositeExtraction {
+  workflow: GitHubWorkflow; // The workflow with the steps replaced
+  action: CompositeAction;
+  path: string; // e.g. .github/actions/setup/action.yml
+}
+
+export interface ReusableExtraction {
+  workflow: GitHubWorkflow; // The workflow with the jobs replaced
+  extracted: GitHubWorkflow; // The new `workflow_call` workflow
+  path: string; // e.g. .github/workflows/build.yml
+  jobId: string; // Key of the job that calls the extracted workflow
+}
+
+/**
+ * Rewrites a context reference; null leaves it unchanged. `text` is the
+ * reference as written, e.g. `matrix['node-version']`.
+ */
+type ReferenceRewriter = (
+  reference: ContextReference,
+  text: string
+) => string | null;
+
+// Values that belong to the caller and must be passed into a composite
+// action as inputs (for `steps`, only steps that are not extracted); the
+// other contexts are available inside the action
+const CALLER_CONTEXTS = new Set([
+  "secrets",
+  "matrix",
+  "needs",
+  "inputs",
+  "vars",
+  "steps",
+]);
+
+/**
+ * Refactorings that move part of a workflow into a new file: steps into a
+ * composite action, jobs into a reusable workflow
+ */
+export class WorkflowRefactoring {
+  /**
+   * File and directory name for an extracted action or workflow
+   */
+  static getSlug(name: string): string {
+    return (
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9_-]+/g, "-")
+        .replace(/^-+|-+$/g, "") || "extracted"
+    );
+  }
+
+  /**
+   * Move a contiguous run of steps of a job into a composite action, and call
+   * it from where the steps were. Caller values the steps read (secrets,
+   * matrix, needs, workflow inputs, vars and outputs of earlier steps) become
+   * inputs; outputs the later steps read become action outputs.
+   */
+  static extractCompositeAction(
+    workflow: GitHubWorkflow,
+    jobId: string,
+    stepIndexes: number[],
+    name: string
+  ): CompositeExtraction {
+    const job = workflow.jobs[jobId];
+    const steps = job?.steps || [];
+    const indexes = [...new Set(stepIndexes)].sort((a, b) => a - b);
+    if (!job || indexes.length === 0) {
+      throw new RefactoringError("Select the steps to extract");
+    }
+    if (indexes.some((index, i) => index !== indexes[0] + i)) {
+      throw new RefactoringError("Selected steps must be next to each other");
+    }
+    if (indexes[indexes.length - 1] >= steps.length) {
+      throw new RefactoringError(`Job '${jobId}' has no such step`);
+    }
+
+    const slug = this.getSlug(name);
+    const first = indexes[0];
+    const last = indexes[indexes.length - 1];
+    const extractedIds = new Set(
+      steps.slice(first, last + 1).flatMap(step => (step.id ? [step.id] : []))
+    );
+
+    // Caller values become inputs
+    const inputs: Record<string, CompositeActionInput> = {};
+    const passed: Record<string, string> = {};
+    const inputNames = new Map<string, string>();
+    const toInput: ReferenceRewriter = (reference, text) => {
+      const [context, id] = reference.path;
+      const isCallerValue =
+        CALLER_CONTEXTS.has(context || "") &&
+        !!id &&
+        (context !== "steps" || !extractedIds.has(id));
+      if (!isCallerValue || !this.isStatic(reference)) {
+        return null;
+      }
+      if (!inputNames.has(text)) {
+        const inputName = this.createUniqueName(
+          this.getInputName(reference),
+          new Set(inputNames.values())
+        );
+        inputNames.set(text, inputName);
+        inputs[inputName] = { description: `Value of ${text}`, required: true };
+        passed[inputName] = `\${{ ${text} }}`;
+      }
+      return `inputs.${inputNames.get(text)}`;
+    };
+
+    // Run steps of composite actions have no default shell
+    const shell =
+      job.defaults?.run?.shell || workflow.defaults?.run?.shell || "bash";
+    const actionSteps = steps.slice(first, last + 1).map(step => {
+      const rewritten = this.rewriteReferences(step, toInput) as Step;
+      return rewritten.run !== undefined && !rewritten.shell
+        ? { ...rewritten, shell }
+        : rewritten;
+    });
+
+    // Outputs of extracted steps read later in the job become action outputs
+    const usedStepIds = new Set(
+      steps.flatMap(step => (step.id ? [step.id] : []))
+    );
+    const callerId = this.createUniqueName(slug, usedStepIds);
+    const outputs: CompositeAction["outputs"] = {};
+    const outputNames = new Map<string, string>();
+    const toOutput: ReferenceRewriter = (reference, text) => {
+      const [context, id, kind, output] = reference.path;
+      if (context !== "steps" || !id || !extractedIds.has(id)) {
+        return null;
+      }
+      if (kind === "outputs" && output && this.isStatic(reference)) {
+        if (!outputNames.has(text)) {
+          const outputName = this.createUniqueName(
+            output,
+            new Set(outputNames.values())
+          );
+          outputNames.set(text, outputName);
+          outputs[outputName] = { value: `\${{ ${text} }}` };
+        }
+        return `steps.${callerId}.outputs.${outputNames.get(text)}`;
+      }
+      // outcome and conclusion are those of the step that calls the action
+      return this.isStatic(reference)
+        ? ["steps", callerId, ...reference.path.slice(2)].join(".")
+        : null;
+    };
+    const laterSteps = steps
+      .slice(last + 1)
+      .map(step => this.rewriteReferences(step, toOutput) as Step);
+    const jobOutputs = job.outputs
+      ? (this.rewriteReferences(job.outputs, toOutput) as Job["outputs"])
+      : undefined;
+
+    const action: CompositeAction = {
+      name,
+      description: `Steps extracted from job '${jobId}'`,
+      ...(Object.keys(inputs).length > 0 && { inputs }),
+      ...(Object.keys(outputs).length > 0 && { outputs }),
+      runs: { using: "composite", steps: actionSteps },
+    };
+
+    const callerStep: Step = {
+      ...(outputNames.size > 0 || this.readsStep(laterSteps, callerId)
+        ? { id: callerId }
+        : {}),
+      name,
+      uses: `./.github/actions/${slug}`,
+      ...(Object.keys(passed).length > 0 && { with: passed }),
+    };
+
+    return {
+      workflow: {
+        ...workflow,
+        jobs: {
+          ...workflow.jobs,
+          [jobId]: {
+            ...job,
+            ...(jobOutputs && { outputs: jobOutputs }),
+            steps: [...steps.slice(0, first), callerStep, ...laterSteps],
+          },
+        },
+      },
+      action,
+      path: `.github/actions/${slug}/action.yml`,
+    };
+  }
+
+  /**
+   * Move jobs into a reusable workflow, and call it from a job that takes
+   * their place. Outputs of other jobs they read become inputs, secrets they
+   * read are declared and passed explicitly, and job outputs read by the
+   * remaining jobs become outputs of the called workflow.
+   */
+  static extractReusableWorkflow(
+    workflow: GitHubWorkflow,
+    jobIds: string[],
+    name: string
+  ): ReusableExtraction {
+    const selected = new Set(jobIds.filter(jobId => jobId in workflow.jobs));
+    if (selected.size === 0) {
+      throw new RefactoringError("Select the jobs to extract");
+    }
+
+    const slug = this.getSlug(name);
+    const path = `.github/workflows/${slug}.yml`;
+    const remainingIds = Object.keys(workflow.jobs).filter(
+      jobId => !selected.has(jobId)
+    );
+    const callerId = this.createUniqueName(slug, new Set(remainingIds));
+
+    // Caller values the jobs read become inputs and secrets of the callee
+    const callerInputs = {
+      ...workflow.on?.workflow_dispatch?.inputs,
+      ...workflow.on?.workflow_call?.inputs,
+    } as Record<string, WorkflowInput>;
+    const inputs: Record<string, WorkflowInput> = {};
+    const secrets: NonNullable<WorkflowCallTrigger["secrets"]> = {};
+    const passedInputs: Record<string, string> = {};
+    const passedSecrets: Record<string, string> = {};
+    const inputNames = new Map<string, string>();
+    const externalNeeds = new Set<string>();
+
+    const toInput: ReferenceRewriter = (reference, text) => {
+      const [context, id] = reference.path;
+      if (!id || !this.isStatic(reference)) {
+        return null;
+      }
+      if (context === "secrets") {
+        // GITHUB_TOKEN is available to every workflow
+        if (id !== "GITHUB_TOKEN") {
+          secrets[id] = { required: true };
+          passedSecrets[id] = `\${{ secrets.${id} }}`;
+        }
+        return null;
+      }
+      if (context === "inputs") {
+        // Workflow inputs keep their name and type
+        const input = callerInputs[id];
+        const type =
+          input?.type === "number" || input?.type === "boolean"
+            ? input.type
+            : "string";
+        inputs[id] = {
+          ...(input?.description && { description: input.description }),
+          required: true,
+          type,
+        };
+        passedInputs[id] = `\${{ inputs.${id} }}`;
+        return null;
+      }
+      if (context !== "needs" || selected.has(id)) {
+        return null;
+      }
+
+      externalNeeds.add(id);
+      if (!inputNames.has(text)) {
+        const inputName = this.createUniqueName(
+          this.getInputName(reference),
+          new Set([...inputNames.values(), ...Object.keys(callerInputs)])
+        );
+        inputNames.set(text, inputName);
+        inputs[inputName] = {
+          description: `Value of ${text}`,
+          required: true,
+          type: "string",
+        };
+        passedInputs[inputName] = `\${{ ${text} }}`;
+      }
+      return `inputs.${inputNames.get(text)}`;
+    };
+
+    const jobs: Record<string, Job> = {};
+    selected.forEach(jobId => {
+      const job = this.rewriteReferences(workflow.jobs[jobId], toInput) as Job;
+      const needs = this.getNeeds(job);
+      needs
+        .filter(dependency => !selected.has(dependency))
+        .forEach(dependency => externalNeeds.add(dependency));
+      const internalNeeds = needs.filter(dependency =>
+        selected.has(dependency)
+      );
+
+      const extractedJob: Job = { ...job };
+      if (internalNeeds.length === 0) {
+        delete extractedJob.needs;
+      } else {
+        extractedJob.needs =
+          internalNeeds.length === 1 && !Array.isArray(job.needs)
+            ? internalNeeds[0]
+            : internalNeeds;
+      }
+      jobs[jobId] = extractedJob;
+    });
+
+    // Outputs of extracted jobs read by the remaining jobs, or by this
+    // workflow's own workflow_call outputs through `jobs`
+    const outputs: NonNullable<WorkflowCallTrigger["outputs"]> = {};
+    const outputNames = new Map<string, string>();
+    const toOutput: ReferenceRewriter = (reference, text) => {
+      const [context, id, kind, output] = reference.path;
+      if (
+        (context !== "needs" && context !== "jobs") ||
+        !id ||
+        !selected.has(id) ||
+        !this.isStatic(reference)
+      ) {
+        return null;
+      }
+      if (kind === "outputs" && output) {
+        if (!outputNames.has(text)) {
+          const outputName = this.createUniqueName(
+            output,
+            new Set(outputNames.values())
+          );
+          outputNames.set(text, outputName);
+          outputs[outputName] = {
+            value: `\${{ jobs.${id}.outputs.${output} }}`,
+          };
+        }
+        return `${context}.${callerId}.outputs.${outputNames.get(text)}`;
+      }
+      // The result of the calling job stands for the extracted jobs
+      return [context, callerId, ...reference.path.slice(2)].join(".");
+    };
+
+    const remainingJobs: Record<string, Job> = {};
+    remainingIds.forEach(jobId => {
+      const job = this.rewriteReferences(workflow.jobs[jobId], toOutput) as Job;
+      const needs = this.getNeeds(job);
+      if (needs.some(dependency => selected.has(dependency))) {
+        const rewired = [
+          ...new Set(
+            needs.map(dependency =>
+              selected.has(dependency) ? callerId : dependency
+            )
+          ),
+        ];
+        remainingJobs[jobId] = {
+          ...job,
+          needs:
+            rewired.length === 1 && !Array.isArray(job.needs)
+              ? rewired[0]
+              : rewired,
+        };
+      } else {
+        remainingJobs[jobId] = job;
+      }
+    });
+
+    const needs = [...externalNeeds].filter(dependency =>
+      remainingIds.includes(dependency)
+    );
+    const callerJob: Job = {
+      name,
+      ...(needs.length > 0 && {
+        needs: needs.length === 1 ? needs[0] : needs,
+      }),
+      uses: `./${path}`,
+      ...(Object.keys(passedInputs).length > 0 && { with: passedInputs }),
+      ...(Object.keys(passedSecrets).length > 0 && {
+        secrets: passedSecrets,
+      }),
+    };
+
+    // Workflow-level env and defaults do not reach called workflows
+    const call: WorkflowCallTrigger = {
+      ...(Object.keys(inputs).length > 0 && { inputs }),
+      ...(Object.keys(outputs).length > 0 && { outputs }),
+      ...(Object.keys(secrets).length > 0 && { secrets }),
+    };
+    const extracted: GitHubWorkflow = {
+      name,
+      on: { workflow_call: call },
+      ...(workflow.env && { env: workflow.env }),
+      ...(workflow.defaults && { defaults: workflow.defaults }),
+      ...(workflow.permissions && { permissions: workflow.permissions }),
+      jobs,
+    };
+
+    // The calling job takes the place of the first extracted job
+    const firstIndex = Object.keys(workflow.jobs).findIndex(jobId =>
+      selected.has(jobId)
+    );
+    const orderedJobs = Object.entries(remainingJobs);
+    orderedJobs.splice(
+      Object.keys(workflow.jobs)
+        .slice(0, firstIndex)
+        .filter(jobId => !selected.has(jobId)).length,
+      0,
+      [callerId, callerJob]
+    );
+
+    const callerCall = workflow.on?.workflow_call;
+    return {
+      workflow: {
+        ...workflow,
+        ...(callerCall?.outputs && {
+          on: {
+            ...workflow.on,
+            workflow_call: {
+              ...callerCall,
+              outputs: this.rewriteReferences(
+                callerCall.outputs,
+                toOutput
+              ) as WorkflowCallTrigger["outputs"],
+            },
+          },
+        }),
+        jobs: Object.fromEntries(orderedJobs),
+      },
+      extracted,
+      path,
+      jobId: callerId,
+    };
+  }
+
+  private static getNeeds(job: Job): string[] {
+    return job.needs
+      ? Array.isArray(job.needs)
+        ? job.needs
+        : [job.needs]
+      : [];
+  }
+
+  /**
+   * Whether every segment of a reference is known, so it can be passed on
+   */
+  private static isStatic(reference: ContextReference): boolean {
+    return reference.path.every(segment => segment !== null);
+  }
+
+  /**
+   * Input name for a reference, e.g. `needs.build.outputs.version` becomes
+   * `build-version` and `secrets.NPM_TOKEN` becomes `npm_token`
+   */
+  private static getInputName(reference: ContextReference): string {
+    const segments = reference.path
+      .slice(1)
+      .filter(segment => segment !== "outputs") as string[];
+    return this.getSlug(segments.join("-"));
+  }
+
+  private static createUniqueName(base: string, used: Set<string>): string {
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}-${suffix}`;
+    }
+    return name;
+  }
+
+  /**
+   * Whether any step reads `steps.<id>`
+   */
+  private static readsStep(steps: Step[], id: string): boolean {
+    let found = false;
+    this.rewriteReferences(steps, reference => {
+      found =
+        found || (reference.path[0] === "steps" && reference.path[1] === id);
+      return null;
+    });
+    return found;
+  }
+
+  /**
+   * Copy of a value with the context references in its strings rewritten.
+   * `if` values are conditions and may omit `${{ }}`.
+   */
+  private static rewriteReferences(
+    value: unknown,
+    rewrite: ReferenceRewriter,
+    key?: string
+  ): unknown {
+    if (typeof value === "string") {
+      return this.rewriteString(value, key === "if", rewrite);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.rewriteReferences(item, rewrite));
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([childKey, child]) => [
+          childKey,
+          this.rewriteReferences(child, rewrite, childKey),
+        ])
+      );
+    }
+    return value;
+  }
+
+  private static rewriteString(
+    text: string,
+    isCondition: boolean,
+    rewrite: ReferenceRewriter
+  ): string {
+    let nodes;
+    try {
+      nodes = isCondition
+        ? [ExpressionParser.parseCondition(text)]
+        : ExpressionParser.parseTemplate(text).flatMap(part =>
+            part.type === "expression" ? [part.node] : []
+          );
+    } catch {
+      // Broken expressions are left for the validator to report
+      return text;
+    }
+
+    // Replace from the end so earlier offsets stay valid
+    return nodes
+      .flatMap(getContextReferences)
+      .sort((a, b) => b.start - a.start)
+      .reduce((result, reference) => {
+        const replacement = rewrite(
+          reference,
+          text.slice(reference.start, reference.end)
+        );
+        return replacement === null
+          ? result
+          : result.slice(0, reference.start) +
+              replacement +
+              result.slice(reference.end);
+      }, text);
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { GitHubWorkflow } from "../types/github-actions";
+import { WorkflowSimulator } from "./workflow-simulator";
+
+const createWorkflow = (on: unknown): GitHubWorkflow => ({
+  name: "CI",
+  on: on as GitHubWorkflow["on"],
+  jobs: {
+    build: {
+      "runs-on": "ubuntu-latest",
+      steps: [{ run: "npm test" }],
+    },
+  },
+});
+
+const simulate = (on: unknown, eventName: string) =>
+  WorkflowSimulator.simulate(
+    createWorkflow(on),
+    WorkflowSimulator.createEvent(eventName)
+  );
+
+describe("WorkflowSimulator triggers", () => {
+  it("reads `on` written as a single event", () => {
+    expect(simulate("push", "push").triggered).toBe(true);
+    expect(simulate("push", "pull_request").triggered).toBe(false);
+  });
+
+  it("reads `on` written as a list of events", () => {
+    const on = ["push", "pull_request"];
+    expect(simulate(on, "push").triggered).toBe(true);
+    expect(simulate(on, "pull_request").triggered).toBe(true);
+    expect(simulate(on, "workflow_dispatch").triggered).toBe(false);
+  });
+
+  it("reads `on` written as a mapping", () => {
+    const on = { push: { branches: ["main"] }, workflow_dispatch: null };
+    expect(simulate(on, "push").triggered).toBe(true);
+    expect(simulate(on, "workflow_dispatch").triggered).toBe(true);
+    expect(simulate(on, "pull_request").triggered).toBe(false);
+  });
+
+  it("ignores events that only exist on the prototype", () => {
+    expect(simulate(["pull_request"], "push").triggered).toBe(false);
+    expect(simulate({ push: null }, "constructor").triggered).toBe(false);
+  });
+
+  it("runs the jobs of a matching event", () => {
+    expect(simulate(["pull_request"], "pull_request").jobs.build).toBeDefined();
+  });
+});
+
+describe("WorkflowSimulator job status", () => {
+  const workflow: GitHubWorkflow = {
+    name: "CI",
+    on: { push: {} },
+    jobs: {
+      a: { "runs-on": "ubuntu-latest", steps: [{ run: "make" }] },
+      b: { "runs-on": "ubuntu-latest", needs: "a", steps: [{ run: "make" }] },
+      c: {
+        "runs-on": "ubuntu-latest",
+        needs: "b",
+        if: "failure()",
+        steps: [{ run: "notify" }],
+      },
+    },
+  };
+
+  it("sees a failure upstream through a skipped job", () => {
+    const { jobs } = WorkflowSimulator.simulate(workflow, {
+      ...WorkflowSimulator.createEvent("push"),
+      failingJobs: ["a"],
+    });
+    expect(jobs.a.result).toBe("failure");
+    expect(jobs.b.result).toBe("skipped");
+    expect(jobs.c.status).toBe("running");
+  });
+
+  it("skips failure() jobs when nothing failed", () => {
+    const { jobs } = WorkflowSimulator.simulate(
+      workflow,
+      WorkflowSimulator.createEvent("push")
+    );
+    expect(jobs.c.status).toBe("skipped");
+  });
+});
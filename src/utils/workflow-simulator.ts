@@ -0,0 +1,530 @@
+import type {
+  GitHubWorkflow,
+  Job,
+  PullRequestTrigger,
+  PushTrigger,
+  Step,
+  WorkflowDispatchTrigger,
+} from "../types/github-actions";
+import {
+  ExpressionEvaluator,
+  ExpressionParser,
+  STATUS_FUNCTIONS,
+  walkExpression,
+} from "./github-actions-expressions";
+import type {
+  EvaluationOptions,
+  ExpressionContext,
+} from "./github-actions-expressions";
+import { TriggerFilters } from "./trigger-filters";
+import { MatrixExpander } from "./matrix-expansion";
+import { WorkflowYaml } from "./workflow-yaml";
+import type { FilterDecision, FilterEvent } from "./trigger-filters";
+
+/** An event to simulate, with the parts of the payload workflows look at */
+export interface SimulationEvent {
+  name: string; // Event name, e.g. `push`
+  ref: string; // Pushed branch or tag; base branch for pull requests
+  refType: "branch" | "tag";
+  headRef?: string; // Pull request head branch
+  action?: string; // Activity type, e.g. `opened`
+  files: string[]; // Changed file paths
+  inputs: Record<string, string>; // workflow_dispatch inputs
+  actor?: string;
+  failingJobs: string[]; // Jobs to treat as failing, to follow failure paths
+}
+
+/**
+ * - running: the job or step executes
+ * - skipped: its own `if:` condition is false
+ * - blocked: a dependency or an earlier step did not succeed
+ */
+export type SimulationStatus = "running" | "skipped" | "blocked";
+
+export type SimulationResultStatus = "success" | "failure" | "skipped";
+
+export interface StepSimulation {
+  index: number;
+  name: string;
+  status: SimulationStatus;
+  result: SimulationResultStatus;
+  reason: string;
+}
+
+export interface JobSimulation {
+  jobId: string;
+  status: SimulationStatus;
+  result: SimulationResultStatus;
+  reason: string;
+  matrix: Record<string, unknown>[]; // One entry per generated job
+  steps: StepSimulation[];
+}
+
+export interface SimulationResult {
+  triggered: boolean;
+  reason: string;
+  filters: FilterDecision[];
+  jobs: Record<string, JobSimulation>;
+}
+
+/** Activity types that start `pull_request` workflows without `types:` */
+const DEFAULT_PULL_REQUEST_TYPES = ["opened", "synchronize", "reopened"];
+
+const FILTER_EVENTS: FilterEvent[] = [
+  "push",
+  "pull_request",
+  "pull_request_target",
+];
+
+/**
+ * Works out which jobs and steps would run for an event without running
+ * anything: trigger filters, `if:` conditions, `needs` and matrices.
+ * Step outputs are unknown, so expressions reading them see null.
+ */
+export class WorkflowSimulator {
+  /**
+   * A default payload for an event: a push to or pull request into `main`
+   */
+  static createEvent(name: string): SimulationEvent {
+    return {
+      name,
+      ref: "main",
+      refType: "branch",
+      headRef: "feature",
+      action: name.startsWith("pull_request") ? "opened" : undefined,
+      files: [],
+      inputs: {},
+      failingJobs: [],
+    };
+  }
+
+  static simulate(
+    workflow: GitHubWorkflow,
+    event: SimulationEvent
+  ): SimulationResult {
+    const trigger = this.matchTrigger(workflow, event);
+    if (!trigger.triggered) {
+      return { ...trigger, jobs: {} };
+    }
+
+    const baseContext: ExpressionContext = {
+      github: this.getGitHubContext(event),
+      inputs: this.getInputs(workflow, event),
+      env: workflow.env || {},
+      vars: {},
+      secrets: {},
+    };
+
+    const jobs: Record<string, JobSimulation> = {};
+    // Jobs that failed or have a failed ancestor; `failure()` is true below
+    // them even when a job in between was skipped
+    const failedJobs = new Set<string>();
+    this.getJobOrder(workflow.jobs || {}).forEach(jobId => {
+      const job = workflow.jobs[jobId];
+      jobs[jobId] = this.simulateJob(
+        jobId,
+        job,
+        baseContext,
+        jobs,
+        failedJobs,
+        event
+      );
+      if (
+        jobs[jobId].result === "failure" ||
+        this.getNeeds(job).some(need => failedJobs.has(need))
+      ) {
+        failedJobs.add(jobId);
+      }
+    });
+
+    return { ...trigger, jobs };
+  }
+
+  /**
+   * Whether the workflow listens to the event and its filters match
+   */
+  private static matchTrigger(
+    workflow: GitHubWorkflow,
+    event: SimulationEvent
+  ): Omit<SimulationResult, "jobs"> {
+    const triggers = WorkflowYaml.getTriggerMap(workflow.on);
+    if (!Object.hasOwn(triggers, event.name)) {
+      return {
+        triggered: false,
+        reason: `The workflow does not listen to '${event.name}'`,
+        filters: [],
+      };
+    }
+
+    const config = triggers[event.name] as { types?: string[] } | null;
+    const types =
+      config?.types ||
+      (event.name.startsWith("pull_request")
+        ? DEFAULT_PULL_REQUEST_TYPES
+        : null);
+    if (types && event.action && !types.includes(event.action)) {
+      return {
+        triggered: false,
+        reason: `Activity type '${event.action}' is not one of ${types.join(", ")}`,
+        filters: [],
+      };
+    }
+
+    if (FILTER_EVENTS.includes(event.name as FilterEvent)) {
+      const result = TriggerFilters.test(
+        event.name as FilterEvent,
+        config as PushTrigger | PullRequestTrigger | null,
+        { ...event, files: event.files.filter(Boolean) }
+      );
+      if (!result.runs) {
+        return {
+          triggered: false,
+          reason: "The trigger filters do not match",
+          filters: result.decisions,
+        };
+      }
+      return {
+        triggered: true,
+        reason: `'${event.name}' starts the workflow`,
+        filters: result.decisions,
+      };
+    }
+
+    return {
+      triggered: true,
+      reason: `'${event.name}' starts the workflow`,
+      filters: [],
+    };
+  }
+
+  private static simulateJob(
+    jobId: string,
+    job: Job,
+    baseContext: ExpressionContext,
+    previous: Record<string, JobSimulation>,
+    failedJobs: Set<string>,
+    event: SimulationEvent
+  ): JobSimulation {
+    const skip = (status: SimulationStatus, reason: string): JobSimulation => ({
+      jobId,
+      status,
+      result: "skipped",
+      reason,
+      matrix: [],
+      steps: (job.steps || []).map((step, index) => ({
+        index,
+        name: this.getStepName(step, index),
+        status: "blocked",
+        result: "skipped",
+        reason: "The job does not run",
+      })),
+    });
+
+    const needs = this.getNeeds(job);
+    const unknown = needs.find(need => !previous[need]);
+    if (unknown) {
+      return skip("blocked", `Needs unknown job '${unknown}'`);
+    }
+
+    const needResults = needs.map(need => previous[need].result);
+    const status: EvaluationOptions["status"] = needs.some(need =>
+      failedJobs.has(need)
+    )
+      ? "failure"
+      : needResults.includes("skipped")
+        ? "skipped"
+        : "success";
+    const context: ExpressionContext = {
+      ...baseContext,
+      needs: Object.fromEntries(
+        needs.map(need => [
+          need,
+          { result: previous[need].result, outputs: {} },
+        ])
+      ),
+    };
+
+    const condition = this.evaluateCondition(job.if, context, { status });
+    if (!condition.passed) {
+      const blocker = needs.find(need => previous[need].result !== "success");
+      return condition.usesStatus || !blocker
+        ? skip("skipped", condition.reason)
+        : skip(
+            "blocked",
+            `Needs '${blocker}', which ${previous[blocker].result === "failure" ? "failed" : "was skipped"}`
+          );
+    }
+
+    const isFailing = event.failingJobs.includes(jobId);
+    // Matrices built from job outputs are unknown; simulate one job for them
+    const expansion = job.strategy?.matrix
+      ? MatrixExpander.expand(job.strategy.matrix, context)
+      : null;
+    const matrix =
+      !expansion || (expansion.isDynamic && expansion.combinations.length === 0)
+        ? [{}]
+        : expansion.combinations;
+    if (matrix.length === 0) {
+      return skip("skipped", "The matrix has no combinations left");
+    }
+
+    const runs = matrix.map(combination =>
+      this.simulateSteps(
+        job,
+        {
+          ...context,
+          env: { ...(context.env as object), ...(job.env || {}) },
+          matrix: combination,
+          runner: { os: this.getRunnerOs(job, combination, context) },
+        },
+        isFailing
+      )
+    );
+
+    const steps = runs[0].map((_, index) => {
+      const outcomes = runs.map(run => run[index]);
+      const running = outcomes.filter(outcome => outcome.status === "running");
+      const failed = outcomes.find(outcome => outcome.result === "failure");
+      if (running.length === 0 || running.length === outcomes.length) {
+        return failed || outcomes[0];
+      }
+      return {
+        ...(failed || running[0]),
+        reason: `Runs for ${running.length} of ${outcomes.length} matrix combinations`,
+      };
+    });
+
+    return {
+      jobId,
+      status: "running",
+      result: isFailing ? "failure" : "success",
+      reason: condition.reason,
+      matrix: expansion ? matrix : [],
+      steps,
+    };
+  }
+
+  private static simulateSteps(
+    job: Job,
+    context: ExpressionContext,
+    isFailing: boolean
+  ): StepSimulation[] {
+    let status: EvaluationOptions["status"] = "success";
+    let hasFailed = false;
+    const steps: Record<string, unknown> = {};
+
+    return (job.steps || []).map((step, index) => {
+      const name = this.getStepName(step, index);
+      const condition = this.evaluateCondition(
+        step.if,
+        { ...context, steps, job: { status } },
+        { status }
+      );
+
+      if (!condition.passed) {
+        if (step.id) {
+          steps[step.id] = {
+            outcome: "skipped",
+            conclusion: "skipped",
+            outputs: {},
+          };
+        }
+        return {
+          index,
+          name,
+          status:
+            condition.usesStatus || status === "success"
+              ? "skipped"
+              : "blocked",
+          result: "skipped",
+          reason:
+            condition.usesStatus || status === "success"
+              ? condition.reason
+              : "An earlier step failed",
+        };
+      }
+
+      // The first step that runs in a failing job is the one that fails
+      const fails = isFailing && !hasFailed;
+      if (fails) {
+        hasFailed = true;
+        if (!step["continue-on-error"]) {
+          status = "failure";
+        }
+      }
+      if (step.id) {
+        steps[step.id] = {
+          outcome: fails ? "failure" : "success",
+          conclusion:
+            fails && !step["continue-on-error"] ? "failure" : "success",
+          outputs: {},
+        };
+      }
+
+      return {
+        index,
+        name,
+        status: "running",
+        result: fails ? "failure" : "success",
+        reason: fails
+          ? step["continue-on-error"]
+            ? "Fails, but continue-on-error lets the job go on"
+            : "Fails and stops the remaining steps"
+          : condition.reason,
+      };
+    });
+  }
+
+  /**
+   * Evaluate an `if:` the way GitHub does, reporting why it passed or not
+   */
+  private static evaluateCondition(
+    condition: string | undefined,
+    context: ExpressionContext,
+    options: EvaluationOptions
+  ): { passed: boolean; usesStatus: boolean; reason: string } {
+    if (condition === undefined || condition === "") {
+      const passed = options.status === "success";
+      return { passed, usesStatus: false, reason: "No condition" };
+    }
+
+    const source = String(condition);
+    try {
+      const usesStatus = walkExpression(
+        ExpressionParser.parseCondition(source)
+      ).some(
+        node => node.type === "call" && STATUS_FUNCTIONS.includes(node.name)
+      );
+      const passed = ExpressionEvaluator.evaluateCondition(
+        source,
+        context,
+        options
+      );
+      return {
+        passed,
+        usesStatus,
+        reason: `if: ${source.trim()} is ${passed}`,
+      };
+    } catch (error) {
+      return {
+        passed: false,
+        usesStatus: true,
+        reason: `if: ${source.trim()} could not be evaluated: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+  }
+
+  /**
+   * Job IDs ordered so that every job comes after the jobs it needs
+   */
+  private static getJobOrder(jobs: Record<string, Job>): string[] {
+    const order: string[] = [];
+    const visiting = new Set<string>();
+
+    const visit = (jobId: string) => {
+      if (order.includes(jobId) || visiting.has(jobId) || !jobs[jobId]) {
+        return;
+      }
+      visiting.add(jobId);
+      this.getNeeds(jobs[jobId]).forEach(visit);
+      visiting.delete(jobId);
+      order.push(jobId);
+    };
+
+    Object.keys(jobs).forEach(visit);
+    return order;
+  }
+
+  private static getNeeds(job: Job): string[] {
+    if (!job.needs) {
+      return [];
+    }
+    return Array.isArray(job.needs) ? job.needs : [job.needs];
+  }
+
+  private static getGitHubContext(
+    event: SimulationEvent
+  ): Record<string, unknown> {
+    const isPullRequest = event.name.startsWith("pull_request");
+    const isTag = !isPullRequest && event.refType === "tag";
+    const headRef = event.headRef || "feature";
+
+    return {
+      event_name: event.name,
+      ref: isPullRequest
+        ? "refs/pull/1/merge"
+        : `refs/${isTag ? "tags" : "heads"}/${event.ref}`,
+      ref_name: isPullRequest ? "1/merge" : event.ref,
+      ref_type: isTag ? "tag" : "branch",
+      base_ref: isPullRequest ? event.ref : "",
+      head_ref: isPullRequest ? headRef : "",
+      actor: event.actor || "octocat",
+      repository: "octocat/hello-world",
+      repository_owner: "octocat",
+      event: {
+        action: event.action,
+        inputs: event.inputs,
+        ...(isPullRequest && {
+          number: 1,
+          pull_request: {
+            number: 1,
+            draft: false,
+            merged: event.action === "closed",
+            base: { ref: event.ref },
+            head: { ref: headRef },
+          },
+        }),
+      },
+    };
+  }
+
+  /**
+   * Dispatch inputs with defaults applied and booleans converted
+   */
+  private static getInputs(
+    workflow: GitHubWorkflow,
+    event: SimulationEvent
+  ): Record<string, unknown> {
+    const dispatch = WorkflowYaml.getTriggerMap(workflow.on)
+      .workflow_dispatch as WorkflowDispatchTrigger | undefined;
+    const definitions = dispatch?.inputs || {};
+
+    return Object.fromEntries(
+      Object.entries(definitions).map(([name, input]) => {
+        const value = event.inputs[name] ?? input.default ?? "";
+        return [
+          name,
+          input.type === "boolean" ? String(value) === "true" : value,
+        ];
+      })
+    );
+  }
+
+  private static getRunnerOs(
+    job: Job,
+    matrix: Record<string, unknown>,
+    context: ExpressionContext
+  ): string {
+    let runsOn = String(job["runs-on"] || "");
+    try {
+      runsOn = String(
+        ExpressionEvaluator.evaluateTemplate(runsOn, { ...context, matrix })
+      );
+    } catch {
+      // Keep the unevaluated label
+    }
+
+    if (/windows/i.test(runsOn)) {
+      return "Windows";
+    }
+    return /macos/i.test(runsOn) ? "macOS" : "Linux";
+  }
+
+  private static getStepName(step: Step, index: number): string {
+    return (
+      step.name || step.uses || step.run?.split("\n")[0] || `Step ${index + 1}`
+    );
+  }
+}
@@ -0,0 +1,197 @@
+import * as yaml from "js-yaml";
+import type { GitHubWorkflow, WorkflowTriggers } from "../types/github-actions";
+
+/**
+ * Canonical order of top-level workflow keys in generated YAML
+ */
+export const WORKFLOW_KEY_ORDER = [
+  "name",
+  "run-name",
+  "on",
+  "permissions",
+  "env",
+  "defaults",
+  "concurrency",
+  "jobs",
+] as const;
+
+const DUMP_OPTIONS: yaml.DumpOptions = {
+  indent: 2,
+  lineWidth: -1,
+  noRefs: true,
+  sortKeys: false,
+  quotingType: '"',
+  forceQuotes: false,
+  skipInvalid: true,
+};
+
+/**
+ * Error raised when workflow YAML cannot be parsed. Line and column are
+ * 1-based and point at the position reported by the YAML parser.
+ */
+export class WorkflowYamlError extends Error {
+  readonly line?: number;
+  readonly column?: number;
+
+  constructor(message: string, line?: number, column?: number) {
+    super(
+      line !== undefined && column !== undefined
+        ? `${message} (line ${line}, column ${column})`
+        : message
+    );
+    this.name = "WorkflowYamlError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Shared YAML serialization for GitHub Actions workflows
+ */
+export class WorkflowYaml {
+  /**
+   * Parse workflow YAML into a workflow object
+   */
+  static parse(content: string): GitHubWorkflow {
+    return this.load(content) as unknown as GitHubWorkflow;
+  }
+
+  /**
+   * Parse YAML that must hold a mapping, e.g. a workflow or an action.yml
+   */
+  static load(content: string): Record<string, unknown> {
+    let parsed: unknown;
+    try {
+      parsed = yaml.load(content);
+    } catch (error) {
+      if (error instanceof yaml.YAMLException) {
+        throw new WorkflowYamlError(
+          error.reason || error.message,
+          error.mark ? error.mark.line + 1 : undefined,
+          error.mark ? error.mark.column + 1 : undefined
+        );
+      }
+      throw error;
+    }
+
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new WorkflowYamlError("Workflow YAML must be a mapping", 1, 1);
+    }
+
+    return parsed as Record<string, unknown>;
+  }
+
+  /**
+   * Serialize a workflow object to YAML with canonical key ordering
+   */
+  static stringify(workflow: GitHubWorkflow): string {
+    return this.dump(this.toCanonicalObject(workflow));
+  }
+
+  /**
+   * Serialize a plain object with the YAML style used for workflows
+   */
+  static dump(value: Record<string, unknown>): string {
+    return yaml.dump(value, DUMP_OPTIONS);
+  }
+
+  /**
+   * Triggers as a mapping by event name, also for the shorthand forms
+   * `on: push` and `on: [push, pull_request]`
+   */
+  static getTriggerMap(
+    triggers: GitHubWorkflow["on"] | undefined
+  ): WorkflowTriggers {
+    const value: unknown = triggers;
+    if (typeof value === "string") {
+      return { [value]: null };
+    }
+    if (Array.isArray(value)) {
+      return Object.fromEntries(value.map(event => [String(event), null]));
+    }
+    return triggers || {};
+  }
+
+  /**
+   * Build a plain object with canonical key order, dropping empty optional
+   * sections and normalizing null triggers to empty mappings
+   */
+  static toCanonicalObject(workflow: GitHubWorkflow): Record<string, unknown> {
+    const source = workflow as unknown as Record<string, unknown>;
+    const canonical: Record<string, unknown> = {};
+
+    const orderedKeys: string[] = [
+      ...WORKFLOW_KEY_ORDER,
+      ...Object.keys(source).filter(
+        key => !(WORKFLOW_KEY_ORDER as readonly string[]).includes(key)
+      ),
+    ];
+
+    orderedKeys.forEach(key => {
+      const value = source[key];
+
+      if (key === "on") {
+        canonical.on = this.normalizeTriggers(workflow.on);
+        return;
+      }
+
+      if (key === "jobs") {
+        canonical.jobs = workflow.jobs || {};
+        return;
+      }
+
+      if (this.isEmptyValue(value)) {
+        return;
+      }
+
+      canonical[key] = value;
+    });
+
+    return canonical;
+  }
+
+  private static normalizeTriggers(
+    triggers: GitHubWorkflow["on"] | undefined
+  ): unknown {
+    // Shorthand forms (`on: push`, `on: [push, pull_request]`) are kept as is
+    const value: unknown = triggers;
+    if (typeof value === "string" || Array.isArray(value)) {
+      return value;
+    }
+
+    const normalized: Record<string, unknown> = {};
+
+    Object.entries(triggers || {}).forEach(([event, config]) => {
+      if (config === undefined) {
+        return;
+      }
+      normalized[event] = config === null ? {} : config;
+    });
+
+    return normalized;
+  }
+
+  private static isEmptyValue(value: unknown): boolean {
+    if (value === undefined || value === null || value === "") {
+      return true;
+    }
+    if (typeof value === "object" && !Array.isArray(value)) {
+      return Object.keys(value as object).length === 0;
+    }
+    return false;
+  }
+}
+
+/**
+ * Helper function to parse workflow YAML
+ */
+export function parseWorkflowYaml(content: string): GitHubWorkflow {
+  return WorkflowYaml.parse(content);
+}
+
+/**
+ * Helper function to serialize a workflow to YAML
+ */
+export function stringifyWorkflow(workflow: GitHubWorkflow): string {
+  return WorkflowYaml.stringify(workflow);
+}
@@ -0,0 +1,187 @@
+import { Scalar, isMap, isScalar, isSeq, parseDocument } from "yaml";
+import type { Node } from "yaml";
+
+/**
+ * Location in a YAML document as keys and sequence indexes, e.g.
+ * `["jobs", "build", "steps", 2]`
+ */
+export type YamlPath = (string | number)[];
+
+export interface SourceRange {
+  start: number; // Offset of the first character
+  end: number; // Offset after the last character
+}
+
+/**
+ * Maps between positions in YAML source text and paths in the parsed
+ * document, for editors that highlight findings and follow the cursor
+ */
+export class YamlSourceMap {
+  private readonly source: string;
+  private readonly contents: Node | null;
+
+  private constructor(source: string, contents: Node | null) {
+    this.source = source;
+    this.contents = contents;
+  }
+
+  /**
+   * Map YAML source; syntax errors leave the parts that could be parsed
+   */
+  static parse(source: string): YamlSourceMap {
+    const document = parseDocument(source);
+    return new YamlSourceMap(source, document.contents as Node | null);
+  }
+
+  /**
+   * Split a validation path such as `jobs.build.steps[2].run`
+   */
+  static parsePath(path: string): YamlPath {
+    return Array.from(path.matchAll(/([^.[\]]+)|\[(\d+)\]/g), match =>
+      match[2] !== undefined ? Number(match[2]) : match[1]
+    );
+  }
+
+  /**
+   * Source range of the entry at a path, from its key to the end of its
+   * value; the empty path is the whole document. Paths that go deeper than
+   * the document resolve to the deepest entry that exists. With `offset`, an
+   * offset into a single-line string value (e.g. of an expression), the
+   * range starts at that character.
+   */
+  getRange(path: YamlPath, offset?: number): SourceRange | null {
+    let node = this.contents;
+    let range: SourceRange | null = node?.range
+      ? { start: node.range[0], end: node.range[1] }
+      : null;
+
+    for (const segment of path) {
+      const entry = this.getEntry(node, segment);
+      if (!entry) {
+        return range;
+      }
+      range = entry.range;
+      node = entry.value;
+    }
+
+    if (
+      offset !== undefined &&
+      isScalar(node) &&
+      node.range &&
+      typeof node.value === "string" &&
+      !this.source.slice(node.range[0], node.range[1]).includes("\n")
+    ) {
+      const quote =
+        node.type === Scalar.QUOTE_DOUBLE || node.type === Scalar.QUOTE_SINGLE
+          ? 1
+          : 0;
+      const start = Math.min(node.range[0] + quote + offset, node.range[1]);
+      return { start, end: Math.max(start, node.range[1] - quote) };
+    }
+    return range;
+  }
+
+  /**
+   * 1-based line and column of an offset
+   */
+  getLineColumn(offset: number): { line: number; column: number } {
+    const lines = this.source.slice(0, offset).split("\n");
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  }
+
+  /**
+   * Path of the innermost entry containing an offset
+   */
+  getPathAt(offset: number): YamlPath {
+    const path: YamlPath = [];
+    let node = this.contents;
+
+    while (node) {
+      if (isMap(node)) {
+        // The last entry that starts at or before the offset
+        const pair = node.items
+          .filter(item => {
+            const key = item.key as Node | null;
+            return !!key?.range && this.startsBefore(key.range[0], offset);
+          })
+          .pop();
+        const key = pair?.key as Node | undefined;
+        const value = pair?.value as Node | null | undefined;
+        const end = value?.range?.[1] ?? key?.range?.[1] ?? -1;
+        if (!pair || !isScalar(key) || offset > end) {
+          break;
+        }
+        path.push(String(key.value));
+        node = value || null;
+      } else if (isSeq(node)) {
+        const items = node.items as (Node | null)[];
+        // The last item that starts at or before the offset
+        const index = items.reduce(
+          (found, item, itemIndex) =>
+            item?.range && this.startsBefore(item.range[0], offset)
+              ? itemIndex
+              : found,
+          -1
+        );
+        const item = items[index];
+        if (index === -1 || !item?.range || offset > item.range[1]) {
+          break;
+        }
+        path.push(index);
+        node = item;
+      } else {
+        break;
+      }
+    }
+
+    return path;
+  }
+
+  /**
+   * Whether an entry starting at `start` contains `offset`, counting the
+   * indentation and `- ` before it on the same line
+   */
+  private startsBefore(start: number, offset: number): boolean {
+    if (start <= offset) {
+      return true;
+    }
+    return !/[^\s-]|\n/.test(this.source.slice(offset, start));
+  }
+
+  private getEntry(
+    node: Node | null,
+    segment: string | number
+  ): { range: SourceRange; value: Node | null } | null {
+    if (isMap(node)) {
+      const pair = node.items.find(item => {
+        const key = item.key as Node | null;
+        return isScalar(key) && String(key.value) === String(segment);
+      });
+      const key = pair?.key as Node | undefined;
+      const value = (pair?.value as Node | null | undefined) || null;
+      if (!key?.range) {
+        return null;
+      }
+      return {
+        range: {
+          start: key.range[0],
+          end: value?.range?.[1] ?? key.range[1],
+        },
+        value,
+      };
+    }
+
+    if (isSeq(node) && typeof segment === "number") {
+      const item = node.items[segment] as Node | null | undefined;
+      if (!item?.range) {
+        return null;
+      }
+      return {
+        range: { start: item.range[0], end: item.range[1] },
+        value: item,
+      };
+    }
+
+    return null;
+  }
+}
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+// JSON schemas generated from src/types/github-actions.ts at build time
+declare module "virtual:workflow-schema" {
+  export const workflowSchema: import("./types/json-schema").JsonSchema;
+  export const actionSchema: import("./types/json-schema").JsonSchema;
+}